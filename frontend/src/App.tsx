@@ -1,31 +1,50 @@
 import { BrowserRouter as Router, Routes, Route } from 'react-router-dom'
 import { ConfigProvider, theme } from 'antd'
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useCallback } from 'react'
 import HomePage from './pages/HomePage'
 import QuizPage from './pages/QuizPage'
 import ResultPage from './pages/ResultPage'
+import HistoryPage from './pages/HistoryPage'
+import MemberPage from './pages/MemberPage'
+import MemberDirectoryPage from './pages/MemberDirectoryPage'
+import SearchPage from './pages/SearchPage'
+import LoginPage from './pages/LoginPage'
+import PrivacyPage from './pages/PrivacyPage'
+import AnalysisJobProvider from './contexts/AnalysisJobProvider'
+import ServiceHealthProvider from './contexts/ServiceHealthProvider'
+import LocaleProvider from './contexts/LocaleProvider'
+import AuthProvider from './contexts/AuthProvider'
+import CloudSyncProvider from './contexts/CloudSyncProvider'
+import { loadThemeMode, saveThemeMode, touchPreference } from './storage/preferences'
+import type { ThemeMode } from './types'
+import { BLOSSOM, BLOSSOM_SURFACES } from './config/theme'
 
 function App() {
-  const [isDarkMode, setIsDarkMode] = useState(() => {
-    const savedTheme = localStorage.getItem('theme')
-    return savedTheme ? savedTheme === 'dark' : true
-  })
+  const [isDarkMode, setIsDarkMode] = useState(() => loadThemeMode() === 'dark')
 
   useEffect(() => {
-    localStorage.setItem('theme', isDarkMode ? 'dark' : 'light')
+    saveThemeMode(isDarkMode ? 'dark' : 'light')
   }, [isDarkMode])
 
+  const toggleTheme = () => {
+    setIsDarkMode(!isDarkMode)
+    touchPreference('theme')
+  }
+  // 계정에 저장된 테마 적용
+  const applySyncedTheme = useCallback((mode: ThemeMode) => setIsDarkMode(mode === 'dark'), [])
+
+  const surface = BLOSSOM_SURFACES[isDarkMode ? 'dark' : 'light']
   const antdTheme = {
     algorithm: isDarkMode ? theme.darkAlgorithm : theme.defaultAlgorithm,
     token: {
-      colorPrimary: '#FFB7C5',      // Cherry Blossom Pink
-      colorSuccess: '#95DE64',      // Spring Green  
-      colorWarning: '#FFD666',      // Sunshine Yellow
-      colorError: '#FF7875',        // Coral
-      colorInfo: '#85A5FF',         // Sky Blue
+      colorPrimary: BLOSSOM.primary,
+      colorSuccess: BLOSSOM.success,
+      colorWarning: BLOSSOM.warning,
+      colorError: BLOSSOM.error,
+      colorInfo: BLOSSOM.info,
       
-      colorBgBase: isDarkMode ? '#1f1f1f' : '#fefefe',
-      colorTextBase: isDarkMode ? '#f0f0f0' : '#262626',
+      colorBgBase: surface.bgBase,
+      colorTextBase: surface.textBase,
             borderRadius: 8,
       borderRadiusLG: 12,
       borderRadiusSM: 4,
@@ -36,7 +55,7 @@ function App() {
       fontSizeHeading3: 24,
       fontSizeHeading4: 20,
       fontSizeHeading5: 16,
-      fontFamily: '"Pretendard", "Noto Sans JP", -apple-system, BlinkMacSystemFont, system-ui, sans-serif',
+      fontFamily: BLOSSOM.fontFamily,
       
       lineWidth: 1,
       lineType: 'solid',
@@ -73,10 +92,10 @@ function App() {
     },
     components: {
       Button: {
-        colorPrimary: '#FFB7C5',
+        colorPrimary: BLOSSOM.primary,
         algorithm: true,
         primaryShadow: '0 2px 0 rgba(255, 183, 197, 0.1)',
-        primaryColor: '#FFB7C5',
+        primaryColor: BLOSSOM.primary,
         defaultBorderColor: 'rgba(255, 183, 197, 0.3)',
         defaultShadow: '0 2px 0 rgba(0, 0, 0, 0.015)',
         fontWeight: 500,
@@ -91,7 +110,7 @@ function App() {
           : '0 6px 16px 0 rgba(0, 0, 0, 0.08), 0 3px 6px -4px rgba(0, 0, 0, 0.12), 0 9px 28px 8px rgba(0, 0, 0, 0.05)',
       },
       Progress: {
-        defaultColor: '#FFB7C5',
+        defaultColor: BLOSSOM.primary,
         remainingColor: 'rgba(255, 183, 197, 0.1)',
         circleTextFontSize: '1em',
       },
@@ -101,14 +120,14 @@ function App() {
       },
       Tag: {
         defaultBg: 'rgba(255, 183, 197, 0.1)',
-        defaultColor: '#d4556a',
+        defaultColor: BLOSSOM.tagText,
       },
       Divider: {
         colorSplit: 'rgba(255, 183, 197, 0.12)',
         algorithm: true,
       },
       Switch: {
-        colorPrimary: '#FFB7C5',
+        colorPrimary: BLOSSOM.primary,
         colorPrimaryHover: '#ffc9d3',
       },
     },
@@ -116,15 +135,33 @@ function App() {
 
   return (
     <ConfigProvider theme={antdTheme}>
-      <div className={isDarkMode ? 'dark' : 'light'} data-theme={isDarkMode ? 'dark' : 'light'}>
-        <Router>
-          <Routes>
-            <Route path="/" element={<HomePage onThemeToggle={() => setIsDarkMode(!isDarkMode)} isDarkMode={isDarkMode} />} />
-            <Route path="/quiz" element={<QuizPage />} />
-            <Route path="/result" element={<ResultPage />} />
-          </Routes>
-        </Router>
-      </div>
+      <LocaleProvider>
+        <AuthProvider>
+          <div className={isDarkMode ? 'dark' : 'light'} data-theme={isDarkMode ? 'dark' : 'light'}>
+            <ServiceHealthProvider>
+              <AnalysisJobProvider>
+                <CloudSyncProvider theme={isDarkMode ? 'dark' : 'light'} onThemeChange={applySyncedTheme}>
+                  <Router>
+                    <Routes>
+                      <Route path="/" element={<HomePage onThemeToggle={toggleTheme} isDarkMode={isDarkMode} />} />
+                      <Route path="/quiz" element={<QuizPage />} />
+                      <Route path="/result" element={<ResultPage />} />
+                      <Route path="/result/:shareId" element={<ResultPage />} />
+                      <Route path="/history" element={<HistoryPage />} />
+                      <Route path="/history/:entryId" element={<ResultPage />} />
+                      <Route path="/members" element={<MemberDirectoryPage />} />
+                      <Route path="/search" element={<SearchPage />} />
+                      <Route path="/members/:memberId" element={<MemberPage />} />
+                      <Route path="/login" element={<LoginPage />} />
+                      <Route path="/privacy" element={<PrivacyPage theme={isDarkMode ? 'dark' : 'light'} onThemeChange={applySyncedTheme} />} />
+                    </Routes>
+                  </Router>
+                </CloudSyncProvider>
+              </AnalysisJobProvider>
+            </ServiceHealthProvider>
+          </div>
+        </AuthProvider>
+      </LocaleProvider>
     </ConfigProvider>
   )
 }
@@ -0,0 +1,24 @@
+// 요청 인증 연결부
+// api 레이어는 세션을 직접 알지 못하고, 세션 관리자(services/authSession.ts)가 등록한 핸들러로
+// 액세스 토큰을 읽고 401 응답을 받으면 토큰 갱신을 요청합니다 (핸들러가 없으면 게스트 요청)
+
+export interface AuthHandler {
+  getAccessToken: () => string | null
+  // 갱신에 성공하면 새 액세스 토큰, 갱신할 수 없으면 null (예외를 던지지 않음)
+  refresh: () => Promise<string | null>
+}
+
+let handler: AuthHandler | null = null
+
+export function setAuthHandler(next: AuthHandler | null): void {
+  handler = next
+}
+
+export function authorizationHeader(): Record<string, string> {
+  const token = handler?.getAccessToken()
+  return token ? { Authorization: `Bearer ${token}` } : {}
+}
+
+export function refreshAccessToken(): Promise<string | null> {
+  return handler ? handler.refresh() : Promise.resolve(null)
+}
@@ -0,0 +1,161 @@
+import API_CONFIG, { DEFAULT_REQUEST_POLICY, REQUEST_POLICIES } from '../config/api'
+import type { RequestPolicy } from '../config/api'
+import { ApiError, isErrorEnvelope, isUnauthorized, toApiError } from './errors'
+import { authorizationHeader, refreshAccessToken } from './auth'
+
+// 요청 파이프라인: 엔드포인트별 타임아웃 → 실패 시 지수 백오프 재시도 → 호출자 취소 지원
+// 실패는 모두 ApiError(api/errors.ts)로 던짐
+// 재시도 조건
+// - 502/503/504/429, retryable 에러 봉투: 서버가 요청을 처리하지 못한 경우이므로 모든 요청 재시도
+// - 네트워크 오류/타임아웃: 멱등 요청(GET 또는 idempotent 정책)만 재시도
+// 로그인 상태면 Authorization 헤더를 붙이고, 401이면 토큰을 한 번 갱신한 뒤 다시 시도 (api/auth.ts)
+
+const BASE_BACKOFF_MS = 500
+const MAX_BACKOFF_MS = 10000
+
+export interface RequestOptions {
+  signal?: AbortSignal
+  timeout?: number
+  retries?: number
+  idempotent?: boolean
+  // false면 Authorization 헤더를 붙이지 않고 401에도 토큰을 갱신하지 않음 (로그인/토큰 갱신 요청)
+  auth?: boolean
+}
+
+type Method = 'GET' | 'POST' | 'DELETE'
+
+// 경로에 맞는 엔드포인트 정책 + 호출자 옵션
+// 하위 리소스(/api/members/{id})는 가장 길게 일치하는 엔드포인트 정책을 따름
+function resolvePolicy(endpoint: string, options: RequestOptions): RequestPolicy {
+  const path = endpoint.split('?')[0]
+  const name = (Object.keys(API_CONFIG.ENDPOINTS) as (keyof typeof REQUEST_POLICIES)[])
+    .filter(key => path === API_CONFIG.ENDPOINTS[key] || path.startsWith(`${API_CONFIG.ENDPOINTS[key]}/`))
+    .sort((a, b) => API_CONFIG.ENDPOINTS[b].length - API_CONFIG.ENDPOINTS[a].length)[0]
+  const policy = name ? REQUEST_POLICIES[name] : DEFAULT_REQUEST_POLICY
+
+  return {
+    timeout: options.timeout ?? policy.timeout,
+    retries: options.retries ?? policy.retries,
+    idempotent: options.idempotent ?? policy.idempotent
+  }
+}
+
+function backoffDelay(attempt: number): number {
+  const delay = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** attempt)
+  return delay * (0.5 + Math.random() * 0.5)
+}
+
+// 대기 중에도 취소되면 즉시 중단
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(signal.reason ?? new DOMException('Aborted', 'AbortError'))
+      return
+    }
+    const timeoutId = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timeoutId)
+      reject(signal?.reason ?? new DOMException('Aborted', 'AbortError'))
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+// 1회 시도 (타임아웃과 호출자 취소를 하나의 AbortController로 묶음)
+async function attempt(method: Method, endpoint: string, body: unknown, timeout: number, auth: boolean, signal?: AbortSignal): Promise<unknown> {
+  const controller = new AbortController()
+  let timedOut = false
+  const timeoutId = setTimeout(() => {
+    timedOut = true
+    controller.abort()
+  }, timeout)
+  const onAbort = () => controller.abort()
+  signal?.addEventListener('abort', onAbort, { once: true })
+
+  const headers: Record<string, string> = auth ? authorizationHeader() : {}
+  if (body !== undefined) headers['Content-Type'] = 'application/json'
+
+  try {
+    const response = await fetch(`${API_CONFIG.BASE_URL}${endpoint}`, {
+      method,
+      headers,
+      body: body === undefined ? undefined : JSON.stringify(body),
+      signal: controller.signal,
+      credentials: API_CONFIG.CREDENTIALS
+    })
+
+    if (!response.ok) {
+      throw await ApiError.fromResponse(response, endpoint)
+    }
+    // 본문 없는 성공 (삭제 등)
+    if (response.status === 204) return null
+
+    // 200이어도 에러 봉투가 올 수 있음
+    const json: unknown = await response.json().catch(() => {
+      throw new ApiError({ kind: 'validation', issues: ['응답 본문이 JSON이 아닙니다'] }, endpoint)
+    })
+    if (isErrorEnvelope(json)) {
+      throw ApiError.fromEnvelope(json, endpoint, response.status)
+    }
+    return json
+  } catch (error) {
+    if (timedOut) throw new ApiError({ kind: 'timeout', timeoutMs: timeout }, endpoint, error)
+    throw toApiError(error, endpoint)
+  } finally {
+    clearTimeout(timeoutId)
+    signal?.removeEventListener('abort', onAbort)
+  }
+}
+
+async function request<T>(method: Method, endpoint: string, body: unknown, options: RequestOptions = {}): Promise<T> {
+  const policy = resolvePolicy(endpoint, options)
+  const idempotent = method === 'GET' || policy.idempotent
+  const auth = options.auth !== false
+  let refreshed = false
+
+  for (let attemptIndex = 0; ; attemptIndex++) {
+    let apiError: ApiError
+    try {
+      return await attempt(method, endpoint, body, policy.timeout, auth, options.signal) as T
+    } catch (error) {
+      apiError = toApiError(error, endpoint)
+    }
+
+    // 호출자가 취소한 요청은 재시도하지 않음
+    if (options.signal?.aborted) throw new ApiError({ kind: 'cancelled' }, endpoint, apiError)
+    // 토큰 만료: 한 번만 갱신하고 바로 다시 시도 (갱신할 수 없으면 401 그대로)
+    if (auth && !refreshed && isUnauthorized(apiError)) {
+      refreshed = true
+      if (await refreshAccessToken()) continue
+      throw apiError
+    }
+    if (apiError.kind === 'cancelled' || !apiError.retryable || attemptIndex >= policy.retries) throw apiError
+    if ((apiError.kind === 'network' || apiError.kind === 'timeout') && !idempotent) throw apiError
+
+    const delay = apiError.retryAfterMs ?? backoffDelay(attemptIndex)
+    // 재시도 로그는 개발 중에만 (배포 환경 콘솔은 조용히)
+    if (import.meta.env.DEV) console.warn(`API 재시도 ${attemptIndex + 1}/${policy.retries} (${Math.round(delay)}ms 후): ${method} ${endpoint}`, apiError)
+    try {
+      await sleep(delay, options.signal)
+    } catch (error) {
+      throw new ApiError({ kind: 'cancelled' }, endpoint, error)
+    }
+  }
+}
+
+export const apiClient = {
+  post<T = unknown>(endpoint: string, data: unknown, options?: RequestOptions): Promise<T> {
+    return request<T>('POST', endpoint, data, options)
+  },
+
+  get<T = unknown>(endpoint: string, options?: RequestOptions): Promise<T> {
+    return request<T>('GET', endpoint, undefined, options)
+  },
+
+  delete<T = unknown>(endpoint: string, options?: RequestOptions): Promise<T> {
+    return request<T>('DELETE', endpoint, undefined, options)
+  }
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest'
+import { parseAnalysisResponse, parseAnalysisStreamEvent, parseCloudSnapshot, parseSurveyResponses } from './contract'
+import { NORMALIZED_SCORE_SCALE } from '../utils/matchScore'
+import type { ScoreScale } from '../utils/matchScore'
+
+describe('parseSurveyResponses', () => {
+  it('형식이 틀린 답변만 버린다', () => {
+    expect(parseSurveyResponses([
+      { questionId: '1', question: '언어', answer: 'japanese', category: 'language', importance: 2 },
+      { questionId: 2, question: '장르', answer: 'gaming' },
+      { questionId: '3', question: '시간대', answer: ['night'] },
+      null,
+      { questionId: '4', question: '분위기', answer: 'calm', category: 7 }
+    ])).toEqual([
+      { questionId: '1', question: '언어', answer: 'japanese', category: 'language', importance: 2 },
+      { questionId: '4', question: '분위기', answer: 'calm' }
+    ])
+  })
+
+  it('배열이 아니면 빈 목록', () => {
+    expect(parseSurveyResponses({ questionId: '1' })).toEqual([])
+    expect(parseSurveyResponses(undefined)).toEqual([])
+  })
+})
+
+function recommendation(memberId: string, matchScore: number) {
+  return { memberId, name: memberId, matchScore, matchingTraits: [], reasoning: '' }
+}
+
+function scoresOf(raw: unknown, scale?: ScoreScale): number[] {
+  return parseAnalysisResponse(raw, scale).recommendations.map(item => item.matchScore)
+}
+
+describe('매칭도 척도', () => {
+  it('API 응답은 점수 크기와 상관없이 계약 척도(0~10)로 나눈다', () => {
+    expect(scoresOf({ recommendations: [recommendation('a', 8), recommendation('b', 0.9)] })).toEqual([0.8, 0.09])
+  })
+
+  it('응답의 scoreScale이 있으면 응답 전체에 그 척도를 쓴다', () => {
+    expect(scoresOf({ scoreScale: 100, recommendations: [recommendation('a', 9), recommendation('b', 5)] })).toEqual([0.09, 0.05])
+    expect(scoresOf({ scoreScale: 7, recommendations: [recommendation('a', 5)] })).toEqual([0.5])
+  })
+
+  it('스트리밍 중간 추천도 최종 결과와 같은 척도를 쓴다', () => {
+    const partial = parseAnalysisStreamEvent('recommendation', recommendation('a', 0.9))
+    const result = parseAnalysisStreamEvent('result', { recommendations: [recommendation('a', 0.9)] })
+
+    expect(partial?.type === 'recommendation' && partial.recommendation.matchScore).toBe(0.09)
+    expect(result?.type === 'result' && result.result.recommendations[0].matchScore).toBe(0.09)
+  })
+
+  it('저장된 결과는 정규화된 값 그대로 읽는다', () => {
+    expect(scoresOf({ recommendations: [recommendation('a', 0.8)] }, NORMALIZED_SCORE_SCALE)).toEqual([0.8])
+  })
+})
+
+describe('parseCloudSnapshot', () => {
+  it('동기화된 결과의 답변도 항목별로 검증한다', () => {
+    const snapshot = parseCloudSnapshot({
+      results: [{
+        id: 'r1',
+        createdAt: '2026-10-01T00:00:00.000Z',
+        answers: [{ questionId: '1', question: '언어', answer: 'japanese' }, { questionId: '2', answer: 3 }, 'calm'],
+        result: { recommendations: [] }
+      }]
+    })
+
+    expect(snapshot.results).toHaveLength(1)
+    expect(snapshot.results[0].answers).toEqual([{ questionId: '1', question: '언어', answer: 'japanese' }])
+  })
+})
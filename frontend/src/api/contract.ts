@@ -0,0 +1,560 @@
+import { API_SCORE_SCALE, isScoreScale, NORMALIZED_SCORE_SCALE, normalizeMatchScore, type ScoreScale } from '../utils/matchScore'
+import type { AnalysisResponse, AnalysisStage, AuthSession, AuthUser, CloudResult, CloudSnapshot, DeletedResult, FavoriteMember, AnalysisStreamEvent, HealthResponse, AnalysisSummary, Member, MemberCatchphrase, MemberDetail, MemberMoment, MemberRecommendation, MemberSkill, MemberStreamingPattern, ProcessingInfo, SearchResponse, SurveyResponse, SyncedPreference, ThemeMode, UserProfile, VectorSearchResult } from '../types'
+
+// /api/analyze 응답 런타임 검증 및 정규화
+// - ApiResponse 봉투({ type: 'success', data }) 해제
+// - 이전 응답 형태(analysisConfidence, processingInfo.processingTimeMs, memberName/score 등)를 현재 형태로 변환
+// - matchScore는 응답마다 다른 척도(0~1/0~10/0~100)를 0~1 비율로 정규화 (utils/matchScore.ts)
+// - 필수 필드가 없거나 타입이 다르면 어느 필드가 문제인지 담아 ContractError를 던짐
+
+type RawObject = Record<string, unknown>
+
+export class ContractError extends Error {
+  readonly issues: string[]
+
+  constructor(contract: string, issues: string[]) {
+    super(`${contract} 응답 형식이 올바르지 않습니다:\n- ${issues.join('\n- ')}`)
+    this.name = 'ContractError'
+    this.issues = issues
+  }
+}
+
+function isObject(value: unknown): value is RawObject {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function optionalString(value: unknown): string | undefined {
+  return typeof value === 'string' ? value : undefined
+}
+
+function optionalNumber(value: unknown): number | undefined {
+  return typeof value === 'number' && Number.isFinite(value) ? value : undefined
+}
+
+function stringList(value: unknown): string[] {
+  return Array.isArray(value) ? value.filter((item): item is string => typeof item === 'string') : []
+}
+
+// 0~1 비율로 변환 (이전 응답은 0~100 퍼센트로 오기도 함)
+function toRatio(value: number | undefined): number | null {
+  if (value === undefined) return null
+  return value > 1 ? value / 100 : value
+}
+
+// ApiResponse 봉투 해제 (services/shared/common/response/ApiResponse.kt)
+export function unwrapEnvelope(raw: unknown): unknown {
+  if (isObject(raw) && raw.type === 'success' && 'data' in raw) return raw.data
+  if (isObject(raw) && raw.success === true && 'data' in raw) return raw.data
+  return raw
+}
+
+function parseRecommendation(raw: unknown, at: string, issues: string[]): MemberRecommendation | null {
+  if (!isObject(raw)) {
+    issues.push(`${at}: 객체가 아닙니다`)
+    return null
+  }
+
+  const memberId = raw.memberId ?? raw.id
+  const name = optionalString(raw.name) ?? optionalString(raw.memberName) ?? optionalString(raw.nameEn)
+  const matchScore = optionalNumber(raw.matchScore) ?? optionalNumber(raw.score)
+
+  if (typeof memberId !== 'string' && typeof memberId !== 'number') issues.push(`${at}.memberId: 없음`)
+  if (!name) issues.push(`${at}.name: 없음`)
+  if (matchScore === undefined) issues.push(`${at}.matchScore: 숫자가 아닙니다`)
+  if (!name || matchScore === undefined || (typeof memberId !== 'string' && typeof memberId !== 'number')) {
+    return null
+  }
+
+  return {
+    memberId: String(memberId),
+    name,
+    matchScore,
+    matchingTraits: stringList(raw.matchingTraits),
+    reasoning: optionalString(raw.reasoning) ?? optionalString(raw.reason) ?? '',
+    strengths: stringList(raw.strengths),
+    considerations: stringList(raw.considerations),
+    contentRecommendations: stringList(raw.contentRecommendations),
+    confidence: optionalNumber(raw.confidence)
+  }
+}
+
+function parseUserProfile(raw: unknown): UserProfile {
+  if (!isObject(raw)) return { preferredTraits: [], personalityMatch: '' }
+  return {
+    preferredTraits: stringList(raw.preferredTraits),
+    personalityMatch: optionalString(raw.personalityMatch) ?? ''
+  }
+}
+
+function parseAnalysisSummary(raw: unknown): AnalysisSummary | undefined {
+  if (!isObject(raw)) return undefined
+  return {
+    personalityProfile: optionalString(raw.personalityProfile) ?? '',
+    preferences: stringList(raw.preferences),
+    keywords: stringList(raw.keywords)
+  }
+}
+
+function parseProcessingInfo(raw: unknown): ProcessingInfo | undefined {
+  if (!isObject(raw)) return undefined
+  return {
+    ragUsed: raw.ragUsed === true,
+    totalCandidates: optionalNumber(raw.totalCandidates) ?? 0,
+    processingTimeMs: optionalNumber(raw.processingTimeMs) ?? 0,
+    modelUsed: optionalString(raw.modelUsed) ?? ''
+  }
+}
+
+// 응답 본문의 scoreScale → 없으면 호출자가 정한 척도
+function scoreScaleOf(body: Record<string, unknown>, fallback: ScoreScale): ScoreScale {
+  return isScoreScale(body.scoreScale) ? body.scoreScale : fallback
+}
+
+// 스트리밍 중 도착한 개별 추천 (형식이 틀리면 null, 최종 결과에서 다시 검증됨)
+// 척도는 최종 결과와 같은 API 계약 척도 (저장된 중간 추천은 NORMALIZED_SCORE_SCALE)
+export function parsePartialRecommendation(raw: unknown, defaultScale: ScoreScale = API_SCORE_SCALE): MemberRecommendation | null {
+  const recommendation = parseRecommendation(raw, 'recommendation', [])
+  if (!recommendation || !isObject(raw)) return null
+  const scale = scoreScaleOf(raw, defaultScale)
+  return { ...recommendation, matchScore: normalizeMatchScore(recommendation.matchScore, scale) }
+}
+
+// /api/analyze 응답을 검증하고 현재 AnalysisResponse 형태로 변환
+// 저장/공유된 결과를 다시 검증할 때는 defaultScale로 NORMALIZED_SCORE_SCALE을 넘김
+export function parseAnalysisResponse(raw: unknown, defaultScale: ScoreScale = API_SCORE_SCALE): AnalysisResponse {
+  const body = unwrapEnvelope(raw)
+  if (!isObject(body)) {
+    throw new ContractError('분석', ['응답 본문이 객체가 아닙니다'])
+  }
+
+  const issues: string[] = []
+  if (!Array.isArray(body.recommendations)) {
+    issues.push('recommendations: 배열이 아닙니다')
+  }
+  const parsed = (Array.isArray(body.recommendations) ? body.recommendations : [])
+    .map((item, index) => parseRecommendation(item, `recommendations[${index}]`, issues))
+    .filter((item): item is MemberRecommendation => item !== null)
+
+  if (issues.length > 0) {
+    throw new ContractError('분석', issues)
+  }
+
+  const scale = scoreScaleOf(body, defaultScale)
+  const recommendations = parsed.map(item => ({ ...item, matchScore: normalizeMatchScore(item.matchScore, scale) }))
+
+  const processingInfo = parseProcessingInfo(body.processingInfo)
+
+  return {
+    recommendations,
+    overallAnalysis: optionalString(body.overallAnalysis) ?? '',
+    userProfile: parseUserProfile(body.userProfile),
+    confidence: toRatio(optionalNumber(body.confidence) ?? optionalNumber(body.analysisConfidence)),
+    processingTime: optionalNumber(body.processingTime) ?? processingInfo?.processingTimeMs ?? null,
+    fromCache: body.fromCache === true,
+    thinkingProcess: optionalString(body.thinkingProcess),
+    analysis: parseAnalysisSummary(body.analysis),
+    processingInfo,
+    timestamp: optionalString(body.timestamp)
+  }
+}
+
+const ANALYSIS_STAGES: AnalysisStage[] = ['candidate-retrieval', 'rag', 'llm-reasoning', 'ranking']
+
+export function isAnalysisStage(value: unknown): value is AnalysisStage {
+  return ANALYSIS_STAGES.includes(value as AnalysisStage)
+}
+
+// 'CANDIDATE_RETRIEVAL', 'llm_reasoning' 등 → AnalysisStage
+function toAnalysisStage(value: unknown): AnalysisStage | null {
+  if (typeof value !== 'string') return null
+  const normalized = value.toLowerCase().replace(/_/g, '-')
+  return ANALYSIS_STAGES.find(stage => stage === normalized) ?? null
+}
+
+// /api/analyze/stream 이벤트 검증 (알 수 없는 이벤트는 null → 무시)
+// - stage: { stage, status: 'started' | 'completed', message? }
+// - recommendation: 개별 추천 (최종 결과와 같은 형태)
+// - thinking: { delta } 또는 문자열
+// - result: 최종 분석 결과 (/api/analyze 응답과 같은 형태)
+export function parseAnalysisStreamEvent(event: string, data: unknown): AnalysisStreamEvent | null {
+  switch (event) {
+    case 'stage': {
+      if (!isObject(data)) return null
+      const stage = toAnalysisStage(data.stage)
+      if (!stage) return null
+      return {
+        type: 'stage',
+        stage,
+        status: data.status === 'completed' ? 'completed' : 'started',
+        message: optionalString(data.message)
+      }
+    }
+    case 'recommendation': {
+      const recommendation = parsePartialRecommendation(data)
+      return recommendation ? { type: 'recommendation', recommendation } : null
+    }
+    case 'thinking': {
+      const delta = typeof data === 'string' ? data : isObject(data) ? optionalString(data.delta) : undefined
+      return delta ? { type: 'thinking', delta } : null
+    }
+    case 'result':
+      return { type: 'result', result: parseAnalysisResponse(data) }
+    default:
+      return null
+  }
+}
+
+// --- /api/members 응답 (member-service MemberDto, camelCase / DB snake_case 모두 허용) ---
+
+function pick(raw: RawObject, ...keys: string[]): unknown {
+  for (const key of keys) {
+    if (raw[key] !== undefined && raw[key] !== null) return raw[key]
+  }
+  return undefined
+}
+
+function pickString(raw: RawObject, ...keys: string[]): string | undefined {
+  const value = pick(raw, ...keys)
+  return typeof value === 'string' && value.trim() ? value : undefined
+}
+
+// 'jp', 'hololive EN', 'DEV_IS' 등 → Member.branch (명시되지 않으면 본가 JP)
+function toBranch(value: string | undefined): Member['branch'] {
+  const normalized = (value ?? '').toUpperCase().replace(/[^A-Z]+/g, ' ')
+  if (/\b(DEV|IS|REGLOSS)\b/.test(normalized)) return 'DEV_IS'
+  if (/\b(EN|ENGLISH)\b/.test(normalized)) return 'EN'
+  if (/\b(ID|INDONESIA)\b/.test(normalized)) return 'ID'
+  return 'JP'
+}
+
+// activity_status(active/graduated/terminated/retired/affiliate) 또는 isActive → Member.status
+function toMemberStatus(raw: RawObject): Member['status'] {
+  const status = pickString(raw, 'activityStatus', 'activity_status', 'status')
+  if (status === 'active' || status === 'graduated') return status
+  if (status) return 'inactive'
+  return pick(raw, 'isActive', 'is_active') === false ? 'inactive' : 'active'
+}
+
+function objectList(value: unknown): RawObject[] {
+  return Array.isArray(value) ? value.filter(isObject) : []
+}
+
+function parseSkill(raw: RawObject): MemberSkill | null {
+  const name = pickString(raw, 'skillName', 'skill_name', 'name')
+  if (!name) return null
+  return {
+    name,
+    category: pickString(raw, 'skillCategory', 'skill_category', 'category'),
+    proficiency: pickString(raw, 'proficiencyLevel', 'proficiency_level'),
+    description: pickString(raw, 'description')
+  }
+}
+
+function parseMoment(raw: RawObject): MemberMoment | null {
+  const title = pickString(raw, 'momentTitle', 'moment_title', 'title')
+  if (!title) return null
+  return {
+    title,
+    date: pickString(raw, 'momentDate', 'moment_date', 'date'),
+    description: pickString(raw, 'description'),
+    videoUrl: pickString(raw, 'videoUrl', 'video_url'),
+    timestamp: pickString(raw, 'timestamp'),
+    tags: stringList(raw.tags)
+  }
+}
+
+function parseCatchphrase(raw: RawObject): MemberCatchphrase | null {
+  const text = pickString(raw, 'phraseText', 'phrase_text', 'text')
+  if (!text) return null
+  return {
+    text,
+    romanized: pickString(raw, 'phraseRomanized', 'phrase_romanized'),
+    translation: pickString(raw, 'phraseTranslation', 'phrase_translation'),
+    context: pickString(raw, 'context')
+  }
+}
+
+function parseStreamingPattern(raw: RawObject): MemberStreamingPattern | null {
+  const type = pickString(raw, 'patternType', 'pattern_type', 'type')
+  if (!type) return null
+  const value = pick(raw, 'patternValue', 'pattern_value')
+  const details = isObject(value)
+    ? Object.entries(value).map(([key, item]) => `${key}: ${Array.isArray(item) ? item.join(', ') : String(item)}`)
+    : typeof value === 'string' ? [value] : []
+  return { type, insights: pickString(raw, 'insights'), details }
+}
+
+// 인기 순위(popularity_rank)가 있으면 그 순서로
+function byPopularity(a: RawObject, b: RawObject): number {
+  const rank = (item: RawObject) => optionalNumber(pick(item, 'popularityRank', 'popularity_rank')) ?? Number.MAX_SAFE_INTEGER
+  return rank(a) - rank(b)
+}
+
+function toMember(body: RawObject, at: string, issues: string[]): Member | null {
+  const id = body.id
+  const name = pickString(body, 'nameKo', 'name', 'nameEn', 'name_en')
+  if (typeof id !== 'string' && typeof id !== 'number') issues.push(`${at}id: 없음`)
+  if (!name) issues.push(`${at}name: 없음`)
+  if (!name || (typeof id !== 'string' && typeof id !== 'number')) return null
+
+  return {
+    id: String(id),
+    name,
+    name_en: pickString(body, 'nameEn', 'name_en'),
+    name_ja: pickString(body, 'nameJa', 'nameJp', 'name_ja'),
+    branch: toBranch(pickString(body, 'branch')),
+    generation: pickString(body, 'generation'),
+    debut_date: pickString(body, 'debutDate', 'debut_date'),
+    status: toMemberStatus(body),
+    traits: stringList(pick(body, 'traits', 'tags', 'koreanTraits', 'korean_traits')),
+    description: pickString(body, 'description', 'personalitySummary', 'personality_summary'),
+    image_url: pickString(body, 'imageUrl', 'image_url'),
+    youtube_channel: pickString(body, 'youtubeChannel', 'youtube_channel'),
+    twitter: pickString(body, 'twitterHandle', 'twitter_handle', 'twitter')
+  }
+}
+
+// 멤버 목록 (/api/members, /api/members/branch/{code}) - 형식이 틀린 항목은 건너뜀
+export function parseMemberList(raw: unknown): Member[] {
+  const body = unwrapEnvelope(raw)
+  if (!Array.isArray(body)) {
+    throw new ContractError('멤버 목록', ['응답 본문이 배열이 아닙니다'])
+  }
+
+  const issues: string[] = []
+  const members = body
+    .map((item, index) => isObject(item) ? toMember(item, `[${index}].`, issues) : null)
+    .filter((item): item is Member => item !== null)
+  if (issues.length > 0) console.warn('멤버 목록에서 형식이 틀린 항목을 건너뜁니다:', issues)
+  return members
+}
+
+export function parseMemberDetail(raw: unknown): MemberDetail {
+  const body = unwrapEnvelope(raw)
+  if (!isObject(body)) {
+    throw new ContractError('멤버', ['응답 본문이 객체가 아닙니다'])
+  }
+
+  const issues: string[] = []
+  const member = toMember(body, '', issues)
+  if (!member) {
+    throw new ContractError('멤버', issues)
+  }
+
+  return {
+    ...member,
+    unit: pickString(body, 'unit'),
+    birthday: pickString(body, 'birthday'),
+    fanbase: pickString(body, 'fanbase', 'fanbaseName', 'fanbase_name'),
+    emoji: pickString(body, 'emoji'),
+    specialSkills: objectList(pick(body, 'specialSkills', 'special_skills'))
+      .map(parseSkill)
+      .filter((item): item is MemberSkill => item !== null),
+    famousMoments: objectList(pick(body, 'famousMoments', 'famous_moments'))
+      .map(parseMoment)
+      .filter((item): item is MemberMoment => item !== null),
+    catchphrases: objectList(pick(body, 'catchphrases'))
+      .sort(byPopularity)
+      .map(parseCatchphrase)
+      .filter((item): item is MemberCatchphrase => item !== null),
+    streamingPatterns: objectList(pick(body, 'streamingPatterns', 'streaming_patterns'))
+      .map(parseStreamingPattern)
+      .filter((item): item is MemberStreamingPattern => item !== null)
+  }
+}
+
+// --- 검색 응답 (/api/search/compound, /api/vector/search) ---
+
+function parseSearchResult(raw: RawObject): VectorSearchResult | null {
+  const memberId = pick(raw, 'memberId', 'member_id', 'id')
+  const memberName = pickString(raw, 'memberName', 'member_name', 'name', 'nameEn')
+  const score = optionalNumber(pick(raw, 'score', 'similarity'))
+  if ((typeof memberId !== 'string' && typeof memberId !== 'number') || !memberName || score === undefined) {
+    return null
+  }
+
+  const traits = pick(raw, 'traits', 'personalityTraits', 'personality_traits')
+  return {
+    memberId: String(memberId),
+    memberName,
+    // 이전 compound 응답은 0~100으로 오기도 함
+    score: Math.min(1, Math.max(0, toRatio(score) ?? 0)),
+    branch: pickString(raw, 'branch') ?? 'Unknown',
+    generation: pickString(raw, 'generation') ?? 'Unknown',
+    unit: pickString(raw, 'unit'),
+    isActive: pick(raw, 'isActive', 'is_active') !== false,
+    traits: isObject(traits) ? traits : {},
+    matchedTraits: stringList(pick(raw, 'matchedTraits', 'matched_traits'))
+  }
+}
+
+export function parseSearchResponse(raw: unknown, source: SearchResponse['source']): SearchResponse {
+  const body = unwrapEnvelope(raw)
+  const list = Array.isArray(body) ? body : isObject(body) ? pick(body, 'results', 'members') : undefined
+  if (!Array.isArray(list)) {
+    throw new ContractError('검색', ['results: 배열이 아닙니다'])
+  }
+
+  const results = list
+    .filter(isObject)
+    .map(parseSearchResult)
+    .filter((item): item is VectorSearchResult => item !== null)
+    .sort((a, b) => b.score - a.score)
+  const meta = isObject(body) ? body : {}
+  return {
+    results,
+    totalResults: optionalNumber(meta.totalResults) ?? results.length,
+    searchTime: optionalNumber(meta.searchTime) ?? 0,
+    source
+  }
+}
+
+function parseAuthUser(raw: unknown): AuthUser | null {
+  if (!isObject(raw)) return null
+  const id = pick(raw, 'id', 'userId', 'user_id')
+  if (typeof id !== 'string' && typeof id !== 'number') return null
+  const email = pickString(raw, 'email')
+  return {
+    id: String(id),
+    displayName: pickString(raw, 'displayName', 'display_name', 'nickname', 'name', 'username') ?? email ?? String(id),
+    email
+  }
+}
+
+// 로그인/토큰 갱신 응답 (/api/auth/login, /api/auth/refresh)
+// 갱신 응답은 사용자 정보나 새 리프레시 토큰을 생략할 수 있으므로 이전 세션 값을 이어받음
+export function parseAuthSession(raw: unknown, previous?: AuthSession): AuthSession {
+  const body = unwrapEnvelope(raw)
+  if (!isObject(body)) {
+    throw new ContractError('인증', ['응답 본문이 객체가 아닙니다'])
+  }
+
+  const tokens = isObject(body.tokens) ? body.tokens : body
+  const accessToken = pickString(tokens, 'accessToken', 'access_token', 'token')
+  const refreshToken = pickString(tokens, 'refreshToken', 'refresh_token') ?? previous?.refreshToken
+  const user = parseAuthUser(pick(body, 'user', 'member', 'profile')) ?? previous?.user
+
+  const issues: string[] = []
+  if (!accessToken) issues.push('accessToken: 없음')
+  if (!refreshToken) issues.push('refreshToken: 없음')
+  if (!user) issues.push('user: 없음')
+  if (issues.length > 0) {
+    throw new ContractError('인증', issues)
+  }
+
+  // expiresIn(초) 또는 expiresAt(시각)
+  const expiresIn = optionalNumber(pick(tokens, 'expiresIn', 'expires_in'))
+  const expiresAt = expiresIn !== undefined
+    ? new Date(Date.now() + expiresIn * 1000).toISOString()
+    : pickString(tokens, 'expiresAt', 'expires_at') ?? null
+
+  return { accessToken, refreshToken, expiresAt, user }
+}
+
+// 결과에 함께 저장하는 설문 답변 (질문 id/질문/답변이 문자열이 아닌 항목은 버림)
+// 결과 기록, 계정 동기화, 분석 작업, 데이터 가져오기가 모두 이 검증을 씀
+export function parseSurveyResponses(raw: unknown): SurveyResponse[] {
+  return objectList(raw).flatMap(item => {
+    if (typeof item.questionId !== 'string' || typeof item.question !== 'string' || typeof item.answer !== 'string') return []
+    const response: SurveyResponse = { questionId: item.questionId, question: item.question, answer: item.answer }
+    const category = optionalString(item.category)
+    const importance = optionalNumber(item.importance)
+    if (category !== undefined) response.category = category
+    if (importance !== undefined) response.importance = importance
+    return [response]
+  })
+}
+
+function parseCloudResult(raw: RawObject): CloudResult | null {
+  const id = pickString(raw, 'id', 'resultId', 'result_id')
+  const createdAt = pickString(raw, 'createdAt', 'created_at')
+  if (!id || !createdAt) return null
+  try {
+    return {
+      id,
+      createdAt,
+      questionBank: pickString(raw, 'questionBank', 'question_bank') ?? null,
+      answers: parseSurveyResponses(raw.answers),
+      result: parseAnalysisResponse(raw.result, NORMALIZED_SCORE_SCALE)
+    }
+  } catch (e) {
+    console.warn(`동기화된 결과 형식이 올바르지 않아 건너뜁니다 (${id}):`, e)
+    return null
+  }
+}
+
+function parseDeletedResult(raw: RawObject): DeletedResult | null {
+  const id = pickString(raw, 'id', 'resultId', 'result_id')
+  const deletedAt = pickString(raw, 'deletedAt', 'deleted_at')
+  return id && deletedAt ? { id, deletedAt } : null
+}
+
+function parseFavorite(raw: RawObject): FavoriteMember | null {
+  const memberId = pick(raw, 'memberId', 'member_id')
+  const updatedAt = pickString(raw, 'updatedAt', 'updated_at')
+  if ((typeof memberId !== 'string' && typeof memberId !== 'number') || !updatedAt) return null
+  return { memberId: String(memberId), favorite: raw.favorite !== false, updatedAt }
+}
+
+function parsePreference<T extends string>(raw: unknown, accept: (value: string) => value is T): SyncedPreference<T> | undefined {
+  if (!isObject(raw)) return undefined
+  const value = pickString(raw, 'value')
+  const updatedAt = pickString(raw, 'updatedAt', 'updated_at')
+  return value && updatedAt && accept(value) ? { value, updatedAt } : undefined
+}
+
+function isThemeMode(value: string): value is ThemeMode {
+  return value === 'dark' || value === 'light'
+}
+
+function isAnyString(value: string): value is string {
+  return value.length > 0
+}
+
+// 계정 동기화 조회 (/api/users/me/sync) - 형식이 틀린 항목은 건너뜀
+export function parseCloudSnapshot(raw: unknown): CloudSnapshot {
+  const body = unwrapEnvelope(raw)
+  if (!isObject(body)) {
+    throw new ContractError('동기화', ['응답 본문이 객체가 아닙니다'])
+  }
+
+  const preferences = isObject(body.preferences) ? body.preferences : {}
+  return {
+    results: objectList(body.results).map(parseCloudResult).filter((item): item is CloudResult => item !== null),
+    deletedResults: objectList(pick(body, 'deletedResults', 'deleted_results'))
+      .map(parseDeletedResult)
+      .filter((item): item is DeletedResult => item !== null),
+    favorites: objectList(body.favorites).map(parseFavorite).filter((item): item is FavoriteMember => item !== null),
+    preferences: {
+      theme: parsePreference(preferences.theme, isThemeMode),
+      locale: parsePreference(preferences.locale, isAnyString)
+    }
+  }
+}
+
+// 하위 서비스 상태 맵 (문자열 또는 { status }가 아닌 항목은 버림)
+function parseStatusMap(raw: unknown): Record<string, string | { status: string }> | undefined {
+  if (!isObject(raw)) return undefined
+  const entries = Object.entries(raw).flatMap(([key, value]): [string, string | { status: string }][] => {
+    if (typeof value === 'string') return [[key, value]]
+    if (isObject(value) && typeof value.status === 'string') return [[key, { status: value.status }]]
+    return []
+  })
+  return Object.fromEntries(entries)
+}
+
+// 헬스체크 응답 (본문이 없거나 status가 없으면 ContractError)
+export function parseHealthResponse(raw: unknown): HealthResponse {
+  const body = unwrapEnvelope(raw)
+  if (!isObject(body) || typeof body.status !== 'string') {
+    throw new ContractError('헬스체크', ['status: 문자열이 아닙니다'])
+  }
+  return {
+    status: body.status,
+    service: optionalString(body.service),
+    version: optionalString(body.version),
+    timestamp: typeof body.timestamp === 'string' || typeof body.timestamp === 'number' ? body.timestamp : undefined,
+    dependencies: parseStatusMap(body.dependencies),
+    components: parseStatusMap(body.components)
+  }
+}
@@ -0,0 +1,200 @@
+import API_CONFIG, { REQUEST_POLICIES } from '../config/api'
+import type { AnalysisResponse, AnalysisStreamEvent, AnalyzeRequest, AuthSession, CloudSnapshot, HealthResponse, LoginRequest, Member, MemberDetail, SearchRequest, SearchResponse, ShareRecord } from '../types'
+import { apiClient } from './client'
+import type { RequestOptions } from './client'
+import { ContractError, parseAnalysisResponse, parseAnalysisStreamEvent, parseAuthSession, parseCloudSnapshot, parseHealthResponse, parseMemberDetail, parseMemberList, parseSearchResponse, unwrapEnvelope } from './contract'
+import { ApiError, isErrorEnvelope, toApiError } from './errors'
+import { postEventStream } from './stream'
+import { NORMALIZED_SCORE_SCALE } from '../utils/matchScore'
+
+export interface AnalyzeStreamOptions {
+  signal?: AbortSignal
+  onEvent: (event: AnalysisStreamEvent) => void
+}
+
+// 전체 목록 한 번에 받기 (멤버 수는 수백 명 이내)
+const MEMBER_LIST_LIMIT = 500
+
+function parseEventData(data: string): unknown {
+  try {
+    return JSON.parse(data)
+  } catch {
+    return data
+  }
+}
+
+// 엔드포인트별 타입이 지정된 API 호출
+export const api = {
+  // 퀴즈 답변 분석 (응답은 계약 검증 후 반환, 계약 위반은 validation ApiError)
+  async analyze(request: AnalyzeRequest, options?: RequestOptions): Promise<AnalysisResponse> {
+    const raw = await apiClient.post(API_CONFIG.ENDPOINTS.ANALYZE, request, options)
+    try {
+      return parseAnalysisResponse(raw)
+    } catch (error) {
+      throw toApiError(error, API_CONFIG.ENDPOINTS.ANALYZE)
+    }
+  },
+
+  // 분석 진행 상황 스트리밍 (단계/부분 추천/thinking 이벤트 후 최종 결과 반환)
+  // 서버가 스트리밍을 지원하지 않으면 StreamUnavailableError → 호출자가 analyze로 대체
+  async analyzeStream(request: AnalyzeRequest, options: AnalyzeStreamOptions): Promise<AnalysisResponse> {
+    const endpoint = API_CONFIG.ENDPOINTS.ANALYZE_STREAM
+    let result: AnalysisResponse | null = null
+
+    await postEventStream(endpoint, request, {
+      idleTimeout: REQUEST_POLICIES.ANALYZE_STREAM.timeout,
+      signal: options.signal,
+      onEvent: ({ event, data }) => {
+        const json = parseEventData(data)
+        if (isErrorEnvelope(json)) throw ApiError.fromEnvelope(json, endpoint)
+        if (event === 'error') {
+          throw new ApiError({ kind: 'envelope', status: null, code: 'STREAM_ERROR', serverMessage: data, retryable: true }, endpoint)
+        }
+
+        const parsed = parseAnalysisStreamEvent(event, json)
+        if (!parsed) return
+        if (parsed.type === 'result') result = parsed.result
+        options.onEvent(parsed)
+      }
+    })
+
+    if (!result) {
+      throw new ApiError({ kind: 'validation', issues: ['스트림이 최종 결과 없이 끝났습니다'] }, endpoint)
+    }
+    return result
+  },
+
+  // 결과 공유 기록 생성 → 공유 id
+  async createShare(result: AnalysisResponse, options?: RequestOptions): Promise<string> {
+    const body = unwrapEnvelope(await apiClient.post(API_CONFIG.ENDPOINTS.SHARES, { result }, options)) as { id?: unknown }
+    if (typeof body?.id !== 'string' && typeof body?.id !== 'number') {
+      throw toApiError(new ContractError('공유', ['id: 없음']), API_CONFIG.ENDPOINTS.SHARES)
+    }
+    return String(body.id)
+  },
+
+  async getShare(id: string, options?: RequestOptions): Promise<ShareRecord> {
+    const endpoint = `${API_CONFIG.ENDPOINTS.SHARES}/${encodeURIComponent(id)}`
+    const body = unwrapEnvelope(await apiClient.get(endpoint, options)) as { result?: unknown; createdAt?: unknown }
+    try {
+      return {
+        id,
+        result: parseAnalysisResponse(body?.result, NORMALIZED_SCORE_SCALE),
+        createdAt: typeof body?.createdAt === 'string' ? body.createdAt : new Date().toISOString()
+      }
+    } catch (error) {
+      throw toApiError(error, endpoint)
+    }
+  },
+
+  // 멤버 목록 (branch가 있으면 지부별 엔드포인트, 졸업 멤버 포함)
+  async listMembers(branch?: Member['branch'], options?: RequestOptions): Promise<Member[]> {
+    const endpoint = branch
+      ? `${API_CONFIG.ENDPOINTS.MEMBERS}/branch/${encodeURIComponent(branch.toLowerCase())}`
+      : `${API_CONFIG.ENDPOINTS.MEMBERS}?activeOnly=false&limit=${MEMBER_LIST_LIMIT}`
+    const raw = await apiClient.get(endpoint, options)
+    try {
+      return parseMemberList(raw)
+    } catch (error) {
+      throw toApiError(error, endpoint)
+    }
+  },
+
+  // 멤버 상세 (없는 멤버는 404 http ApiError)
+  async getMember(id: string, options?: RequestOptions): Promise<MemberDetail> {
+    const endpoint = `${API_CONFIG.ENDPOINTS.MEMBERS}/${encodeURIComponent(id)}`
+    const raw = await apiClient.get(endpoint, options)
+    try {
+      return parseMemberDetail(raw)
+    } catch (error) {
+      throw toApiError(error, endpoint)
+    }
+  },
+
+  // 복합 검색 (키워드 + 벡터)
+  async search(request: SearchRequest, options?: RequestOptions): Promise<SearchResponse> {
+    const raw = await apiClient.post(API_CONFIG.ENDPOINTS.SEARCH, request, options)
+    try {
+      return parseSearchResponse(raw, 'compound')
+    } catch (error) {
+      throw toApiError(error, API_CONFIG.ENDPOINTS.SEARCH)
+    }
+  },
+
+  // 벡터 유사도 검색 (vector-service)
+  async vectorSearch(request: SearchRequest, options?: RequestOptions): Promise<SearchResponse> {
+    const raw = await apiClient.post(API_CONFIG.ENDPOINTS.VECTOR_SEARCH, request, options)
+    try {
+      return parseSearchResponse(raw, 'vector')
+    } catch (error) {
+      throw toApiError(error, API_CONFIG.ENDPOINTS.VECTOR_SEARCH)
+    }
+  },
+
+  // 로그인 (실패하면 401 또는 INVALID_CREDENTIALS 봉투)
+  async login(request: LoginRequest, options?: RequestOptions): Promise<AuthSession> {
+    const endpoint = `${API_CONFIG.ENDPOINTS.AUTH}/login`
+    const raw = await apiClient.post(endpoint, request, { ...options, auth: false })
+    try {
+      return parseAuthSession(raw)
+    } catch (error) {
+      throw toApiError(error, endpoint)
+    }
+  },
+
+  // 리프레시 토큰으로 새 액세스 토큰 발급
+  async refreshSession(session: AuthSession, options?: RequestOptions): Promise<AuthSession> {
+    const endpoint = `${API_CONFIG.ENDPOINTS.AUTH}/refresh`
+    const raw = await apiClient.post(endpoint, { refreshToken: session.refreshToken }, { ...options, auth: false })
+    try {
+      return parseAuthSession(raw, session)
+    } catch (error) {
+      throw toApiError(error, endpoint)
+    }
+  },
+
+  // 서버 쪽 리프레시 토큰 폐기
+  async logout(session: AuthSession, options?: RequestOptions): Promise<void> {
+    await apiClient.post(`${API_CONFIG.ENDPOINTS.AUTH}/logout`, { refreshToken: session.refreshToken }, { ...options, auth: false })
+  },
+
+  // 로그인한 사용자의 결과/즐겨찾기/설정
+  async getCloudSnapshot(options?: RequestOptions): Promise<CloudSnapshot> {
+    const raw = await apiClient.get(API_CONFIG.ENDPOINTS.SYNC, options)
+    try {
+      return parseCloudSnapshot(raw)
+    } catch (error) {
+      throw toApiError(error, API_CONFIG.ENDPOINTS.SYNC)
+    }
+  },
+
+  // 바뀐 항목만 올림 (서버도 id/updatedAt 기준으로 병합)
+  async pushCloudChanges(changes: CloudSnapshot, options?: RequestOptions): Promise<void> {
+    await apiClient.post(API_CONFIG.ENDPOINTS.SYNC, changes, options)
+  },
+
+  // 로그인한 사용자의 계정 데이터(결과/즐겨찾기/설정) 전체 삭제
+  async deleteUserData(options?: RequestOptions): Promise<void> {
+    await apiClient.delete(API_CONFIG.ENDPOINTS.USER_DATA, options)
+  },
+
+  // 형식이 맞지 않는 응답은 validation ApiError (상태 확인에서는 내려간 것으로 취급)
+  async health(options?: RequestOptions): Promise<HealthResponse> {
+    const raw = await apiClient.get(API_CONFIG.ENDPOINTS.HEALTH, options)
+    try {
+      return parseHealthResponse(raw)
+    } catch (error) {
+      throw toApiError(error, API_CONFIG.ENDPOINTS.HEALTH)
+    }
+  },
+
+  // API 게이트웨이 자체 헬스체크 (/health → member-service)
+  async gatewayHealth(options?: RequestOptions): Promise<HealthResponse> {
+    const raw = await apiClient.get(API_CONFIG.ENDPOINTS.GATEWAY_HEALTH, options)
+    try {
+      return parseHealthResponse(raw)
+    } catch (error) {
+      throw toApiError(error, API_CONFIG.ENDPOINTS.GATEWAY_HEALTH)
+    }
+  }
+}
@@ -0,0 +1,221 @@
+import { ContractError } from './contract'
+import type { MessageKey, Translate, TranslateParams } from '../i18n/translate'
+
+// API 실패 유형
+// - network: 서버에 연결하지 못함 (fetch TypeError)
+// - timeout: 제한 시간 초과
+// - http: 봉투 없이 실패한 HTTP 상태
+// - envelope: 서버가 ApiResponse.Error 봉투로 돌려준 에러 코드
+// - validation: 응답이 계약(api/contract.ts)과 맞지 않음
+// - rate_limit: 429 또는 RATE_LIMIT_EXCEEDED
+// - cancelled: 호출자가 요청을 취소함
+export type ApiErrorDetail =
+  | { kind: 'network' }
+  | { kind: 'timeout'; timeoutMs: number }
+  | { kind: 'http'; status: number; statusText: string }
+  | { kind: 'envelope'; status: number | null; code: string; serverMessage: string; retryable: boolean }
+  | { kind: 'validation'; issues: string[] }
+  | { kind: 'rate_limit'; retryAfterMs: number | null }
+  | { kind: 'cancelled' }
+
+export type ApiErrorKind = ApiErrorDetail['kind']
+
+const API_ERROR_KINDS: ApiErrorKind[] = ['network', 'timeout', 'http', 'envelope', 'validation', 'rate_limit', 'cancelled']
+
+// 저장소/다른 탭에서 받은 값 검증용
+export function isApiErrorKind(value: unknown): value is ApiErrorKind {
+  return API_ERROR_KINDS.includes(value as ApiErrorKind)
+}
+
+// ApiResponse.Error 봉투 (services/shared/common/response/ApiResponse.kt)
+interface ErrorEnvelope {
+  type: 'error'
+  code: string
+  message: string
+  retryable?: boolean
+}
+
+const MAX_RETRY_AFTER_MS = 30000
+const UNAVAILABLE_STATUSES = [502, 503, 504]
+// 액세스 토큰이 없거나 만료된 경우의 에러 코드
+const UNAUTHORIZED_CODES = ['UNAUTHORIZED', 'TOKEN_EXPIRED', 'INVALID_TOKEN']
+
+export class ApiError extends Error {
+  readonly detail: ApiErrorDetail
+  readonly endpoint: string
+  // 서버가 Retry-After로 알려준 대기 시간 (ms)
+  retryAfterMs: number | null = null
+
+  constructor(detail: ApiErrorDetail, endpoint: string, cause?: unknown) {
+    super(describe(detail), { cause })
+    this.name = 'ApiError'
+    this.detail = detail
+    this.endpoint = endpoint
+  }
+
+  get kind(): ApiErrorKind {
+    return this.detail.kind
+  }
+
+  // 다시 시도하면 성공할 가능성이 있는 실패인지
+  get retryable(): boolean {
+    switch (this.detail.kind) {
+      case 'network':
+      case 'timeout':
+      case 'rate_limit':
+        return true
+      case 'http':
+        return UNAVAILABLE_STATUSES.includes(this.detail.status)
+      case 'envelope':
+        return this.detail.retryable || UNAVAILABLE_STATUSES.includes(this.detail.status ?? 0)
+      default:
+        return false
+    }
+  }
+
+  // 실패한 응답을 ApiError로 변환 (본문이 에러 봉투면 코드를 살림)
+  static async fromResponse(response: Response, endpoint: string): Promise<ApiError> {
+    const body: unknown = await response.json().catch(() => null)
+    const envelope = isErrorEnvelope(body) ? body : null
+
+    const retryAfterMs = parseRetryAfter(response)
+
+    let error: ApiError
+    if (response.status === 429 || envelope?.code === 'RATE_LIMIT_EXCEEDED') {
+      error = new ApiError({ kind: 'rate_limit', retryAfterMs }, endpoint)
+    } else if (envelope) {
+      error = ApiError.fromEnvelope(envelope, endpoint, response.status)
+    } else {
+      error = new ApiError({ kind: 'http', status: response.status, statusText: response.statusText }, endpoint)
+    }
+    error.retryAfterMs = retryAfterMs
+    return error
+  }
+
+  static fromEnvelope(envelope: ErrorEnvelope, endpoint: string, status: number | null = null): ApiError {
+    return new ApiError({
+      kind: 'envelope',
+      status,
+      code: envelope.code,
+      serverMessage: envelope.message,
+      retryable: envelope.retryable === true
+    }, endpoint)
+  }
+}
+
+export function isErrorEnvelope(body: unknown): body is ErrorEnvelope {
+  return typeof body === 'object' && body !== null
+    && (body as ErrorEnvelope).type === 'error'
+    && typeof (body as ErrorEnvelope).code === 'string'
+}
+
+// 인증이 필요하거나 토큰이 만료된 실패인지 (401)
+export function isUnauthorized(error: unknown): boolean {
+  const { detail } = toApiError(error)
+  if (detail.kind === 'http') return detail.status === 401
+  if (detail.kind === 'envelope') return detail.status === 401 || UNAUTHORIZED_CODES.includes(detail.code)
+  return false
+}
+
+// Retry-After 헤더 (초 또는 HTTP 날짜) → ms
+export function parseRetryAfter(response: Response): number | null {
+  const header = response.headers.get('Retry-After')
+  if (!header) return null
+
+  const seconds = Number(header)
+  const delay = Number.isNaN(seconds) ? Date.parse(header) - Date.now() : seconds * 1000
+  return Number.isNaN(delay) ? null : Math.min(Math.max(delay, 0), MAX_RETRY_AFTER_MS)
+}
+
+// 개발자용 메시지 (콘솔/로그)
+function describe(detail: ApiErrorDetail): string {
+  switch (detail.kind) {
+    case 'network': return 'Network error'
+    case 'timeout': return `Timeout after ${detail.timeoutMs}ms`
+    case 'http': return `API Error: ${detail.status} ${detail.statusText}`
+    case 'envelope': return `API Error: ${detail.code} ${detail.serverMessage}`
+    case 'validation': return `Invalid response: ${detail.issues.join('; ')}`
+    case 'rate_limit': return 'Rate limit exceeded'
+    case 'cancelled': return 'Request cancelled'
+  }
+}
+
+// 알 수 없는 예외를 ApiError로 정규화
+export function toApiError(error: unknown, endpoint = ''): ApiError {
+  if (error instanceof ApiError) return error
+  if (error instanceof ContractError) {
+    return new ApiError({ kind: 'validation', issues: error.issues }, endpoint, error)
+  }
+  if (error instanceof DOMException && error.name === 'AbortError') {
+    return new ApiError({ kind: 'cancelled' }, endpoint, error)
+  }
+  if (error instanceof TypeError) {
+    return new ApiError({ kind: 'network' }, endpoint, error)
+  }
+  return new ApiError({ kind: 'http', status: 0, statusText: String(error) }, endpoint, error)
+}
+
+// 사용자에게 보여줄 메시지 (메시지 카탈로그 키)
+// 상태나 저장된 작업에는 이 형태로 두고 화면에서 t()로 번역 (언어를 바꾸면 다시 번역됨)
+export interface ErrorMessage {
+  key: MessageKey
+  params?: TranslateParams
+}
+
+const ENVELOPE_MESSAGES: Record<string, MessageKey> = {
+  MEMBER_NOT_FOUND: 'error.memberNotFound',
+  RESOURCE_NOT_FOUND: 'error.notFound',
+  NOT_FOUND: 'error.notFound',
+  INVALID_BRANCH: 'error.invalidBranch',
+  SEARCH_TIMEOUT: 'error.searchTimeout',
+  SERVICE_UNAVAILABLE: 'error.serviceUnavailable',
+  STREAM_ERROR: 'error.streamError',
+  VALIDATION_FAILED: 'error.invalidInput',
+  VALIDATION_ERROR: 'error.invalidInput',
+  UNAUTHORIZED: 'error.unauthorized',
+  TOKEN_EXPIRED: 'error.tokenExpired',
+  INVALID_TOKEN: 'error.tokenExpired',
+  INVALID_CREDENTIALS: 'error.invalidCredentials',
+  FORBIDDEN: 'error.forbidden'
+}
+
+function httpMessage(status: number): ErrorMessage {
+  if (status === 400) return { key: 'error.badRequest' }
+  if (status === 401) return { key: 'error.unauthorized' }
+  if (status === 403) return { key: 'error.forbidden' }
+  if (status === 404) return { key: 'error.notFound' }
+  if (UNAVAILABLE_STATUSES.includes(status)) return { key: 'error.unavailable' }
+  if (status >= 500) return { key: 'error.server' }
+  return status ? { key: 'error.http', params: { status } } : { key: 'error.unknown' }
+}
+
+// 사용자에게 보여줄 메시지 키
+export function describeError(error: unknown): ErrorMessage {
+  const { detail } = toApiError(error)
+  switch (detail.kind) {
+    case 'network':
+      return { key: 'error.network' }
+    case 'timeout':
+      return { key: 'error.timeout', params: { seconds: Math.round(detail.timeoutMs / 1000) } }
+    case 'http':
+      return httpMessage(detail.status)
+    case 'envelope': {
+      const key = ENVELOPE_MESSAGES[detail.code]
+      return key ? { key } : { key: 'error.envelope', params: { code: detail.code } }
+    }
+    case 'validation':
+      return { key: 'error.validation' }
+    case 'rate_limit':
+      return detail.retryAfterMs
+        ? { key: 'error.rateLimitRetryAfter', params: { seconds: Math.ceil(detail.retryAfterMs / 1000) } }
+        : { key: 'error.rateLimit' }
+    case 'cancelled':
+      return { key: 'error.cancelled' }
+  }
+}
+
+// 바로 보여줄 메시지 (현재 언어)
+export function getErrorMessage(error: unknown, t: Translate): string {
+  const { key, params } = describeError(error)
+  return t(key, params)
+}
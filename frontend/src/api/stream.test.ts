@@ -0,0 +1,61 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { postEventStream } from './stream'
+
+// 청크를 보낸 뒤 닫지 않고 열어 두는 SSE 응답 (취소되면 cancelled가 true)
+function openEventStream(chunks: string[]) {
+  const state = { cancelled: false, signal: undefined as AbortSignal | undefined }
+  const encoder = new TextEncoder()
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      chunks.forEach(chunk => controller.enqueue(encoder.encode(chunk)))
+    },
+    cancel() {
+      state.cancelled = true
+    }
+  })
+  vi.stubGlobal('fetch', vi.fn((_url: string, init: RequestInit) => {
+    state.signal = init.signal ?? undefined
+    return Promise.resolve(new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } }))
+  }))
+  return state
+}
+
+describe('postEventStream', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('error 이벤트에서 onEvent가 던지면 스트림을 닫고 요청을 끊는다', async () => {
+    const stream = openEventStream(['event: stage\ndata: {"stage":"analyzing"}\n\n', 'event: error\ndata: boom\n\n'])
+    const received: string[] = []
+
+    await expect(postEventStream('/api/analyze/stream', {}, {
+      idleTimeout: 60000,
+      onEvent: ({ event }) => {
+        received.push(event)
+        if (event === 'error') throw new Error('stream error')
+      }
+    })).rejects.toThrow()
+
+    expect(received).toEqual(['stage', 'error'])
+    expect(stream.signal?.aborted).toBe(true)
+    await vi.waitFor(() => expect(stream.cancelled).toBe(true))
+  })
+
+  it('끝까지 읽은 스트림은 모든 이벤트를 전달한다', async () => {
+    const encoder = new TextEncoder()
+    const body = new ReadableStream<Uint8Array>({
+      start(controller) {
+        controller.enqueue(encoder.encode('event: stage\ndata: a\n\nevent: result\ndata: b'))
+        controller.close()
+      }
+    })
+    vi.stubGlobal('fetch', vi.fn(() =>
+      Promise.resolve(new Response(body, { status: 200, headers: { 'Content-Type': 'text/event-stream' } }))))
+    const received: string[] = []
+
+    await postEventStream('/api/analyze/stream', {}, { idleTimeout: 60000, onEvent: ({ event, data }) => received.push(`${event}:${data}`) })
+
+    expect(received).toEqual(['stage:a', 'result:b'])
+  })
+})
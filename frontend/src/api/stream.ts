@@ -0,0 +1,118 @@
+import API_CONFIG from '../config/api'
+import { ApiError, toApiError } from './errors'
+import { authorizationHeader } from './auth'
+
+// POST + Server-Sent Events 응답 읽기
+// EventSource는 GET만 지원하므로 fetch 응답 본문을 직접 SSE 형식으로 파싱
+// - 이벤트 사이 대기 시간이 idleTimeout을 넘으면 timeout ApiError
+// - 서버가 스트리밍을 지원하지 않으면 StreamUnavailableError (호출자가 일반 요청으로 대체)
+// - onEvent가 던지거나 중간에 실패하면 읽기를 취소하고 요청을 끊음 (스트림을 열어 둔 채 끝내지 않음)
+
+export interface ServerSentEvent {
+  event: string
+  data: string
+}
+
+export interface EventStreamOptions {
+  idleTimeout: number
+  signal?: AbortSignal
+  onEvent: (event: ServerSentEvent) => void
+}
+
+export class StreamUnavailableError extends Error {
+  constructor(reason: string) {
+    super(`스트리밍을 사용할 수 없습니다: ${reason}`)
+    this.name = 'StreamUnavailableError'
+  }
+}
+
+// 엔드포인트가 없거나 스트림 형식을 받아들이지 않는 응답
+const UNSUPPORTED_STATUSES = [404, 405, 406, 415, 501]
+
+// 완성된 이벤트 블록(빈 줄로 끝남)을 파싱하고 남은 조각은 돌려줌
+function parseEvents(buffer: string): { events: ServerSentEvent[]; rest: string } {
+  const blocks = buffer.replace(/\r\n?/g, '\n').split('\n\n')
+  const rest = blocks.pop() ?? ''
+
+  const events = blocks.flatMap(block => {
+    let event = 'message'
+    const data: string[] = []
+    block.split('\n').forEach(line => {
+      if (!line || line.startsWith(':')) return
+      const colon = line.indexOf(':')
+      const field = colon === -1 ? line : line.slice(0, colon)
+      const value = colon === -1 ? '' : line.slice(colon + 1).replace(/^ /, '')
+      if (field === 'event') event = value
+      if (field === 'data') data.push(value)
+    })
+    return data.length > 0 ? [{ event, data: data.join('\n') }] : []
+  })
+
+  return { events, rest }
+}
+
+export async function postEventStream(endpoint: string, body: unknown, options: EventStreamOptions): Promise<void> {
+  const { idleTimeout, signal, onEvent } = options
+  const controller = new AbortController()
+  let timedOut = false
+  let idleTimer: ReturnType<typeof setTimeout> | undefined
+  const resetIdleTimer = () => {
+    clearTimeout(idleTimer)
+    idleTimer = setTimeout(() => {
+      timedOut = true
+      controller.abort()
+    }, idleTimeout)
+  }
+  const onAbort = () => controller.abort()
+  signal?.addEventListener('abort', onAbort, { once: true })
+  resetIdleTimer()
+  let reader: ReadableStreamDefaultReader<string> | undefined
+
+  try {
+    const response = await fetch(`${API_CONFIG.BASE_URL}${endpoint}`, {
+      method: 'POST',
+      headers: {
+        ...authorizationHeader(),
+        'Content-Type': 'application/json',
+        Accept: 'text/event-stream'
+      },
+      body: JSON.stringify(body),
+      signal: controller.signal,
+      credentials: API_CONFIG.CREDENTIALS
+    })
+
+    if (UNSUPPORTED_STATUSES.includes(response.status)) {
+      throw new StreamUnavailableError(`HTTP ${response.status}`)
+    }
+    if (!response.ok) {
+      throw await ApiError.fromResponse(response, endpoint)
+    }
+    if (!response.body || !response.headers.get('Content-Type')?.includes('text/event-stream')) {
+      throw new StreamUnavailableError('text/event-stream 응답이 아닙니다')
+    }
+
+    reader = response.body.pipeThrough(new TextDecoderStream()).getReader()
+    let buffer = ''
+    for (;;) {
+      const { done, value } = await reader.read()
+      if (done) break
+      resetIdleTimer()
+
+      const parsed = parseEvents(buffer + value)
+      buffer = parsed.rest
+      parsed.events.forEach(onEvent)
+    }
+    // 마지막 빈 줄 없이 끝난 이벤트
+    parseEvents(`${buffer}\n\n`).events.forEach(onEvent)
+  } catch (error) {
+    if (error instanceof StreamUnavailableError) throw error
+    if (timedOut) throw new ApiError({ kind: 'timeout', timeoutMs: idleTimeout }, endpoint, error)
+    throw toApiError(error, endpoint)
+  } finally {
+    clearTimeout(idleTimer)
+    signal?.removeEventListener('abort', onAbort)
+    // 끝까지 읽었으면 둘 다 아무 일도 하지 않음
+    reader?.cancel().catch(() => undefined)
+    controller.abort()
+  }
+}
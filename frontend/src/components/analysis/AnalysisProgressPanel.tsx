@@ -0,0 +1,94 @@
+import { useEffect, useRef } from 'react'
+import { Avatar, Collapse, Space, Steps, Tag, Typography } from 'antd'
+import type { AnalysisProgress, AnalysisStage } from '../../types'
+import { matchPercent } from '../../utils/matchScore'
+import { useLocale } from '../../hooks/useLocale'
+import type { MessageKey } from '../../i18n/translate'
+
+const { Text, Paragraph } = Typography
+
+const STAGES: { key: AnalysisStage; title: MessageKey }[] = [
+  { key: 'candidate-retrieval', title: 'analysis.stage.candidateRetrieval' },
+  { key: 'rag', title: 'analysis.stage.rag' },
+  { key: 'llm-reasoning', title: 'analysis.stage.llmReasoning' },
+  { key: 'ranking', title: 'analysis.stage.ranking' }
+]
+
+interface AnalysisProgressPanelProps {
+  progress: AnalysisProgress
+}
+
+// 스트리밍 분석 진행 상황: 단계 + 지금까지 나온 추천 + AI 사고 과정
+function AnalysisProgressPanel({ progress }: AnalysisProgressPanelProps) {
+  const { t, recommendationName } = useLocale()
+  const thinkingRef = useRef<HTMLDivElement>(null)
+
+  // 새 사고 과정 텍스트가 오면 아래로 스크롤
+  useEffect(() => {
+    const element = thinkingRef.current
+    if (element) element.scrollTop = element.scrollHeight
+  }, [progress.thinkingProcess])
+
+  const current = STAGES.findIndex(stage => stage.key === progress.stage)
+
+  return (
+    <Space direction="vertical" size="large" style={{ width: '100%', textAlign: 'left' }}>
+      <Steps
+        size="small"
+        current={Math.max(current, 0)}
+        items={STAGES.map(stage => ({
+          title: t(stage.title),
+          status: progress.completedStages.includes(stage.key)
+            ? 'finish'
+            : stage.key === progress.stage ? 'process' : 'wait'
+        }))}
+      />
+
+      {progress.partialRecommendations.length > 0 && (
+        <div>
+          <Text style={{ fontSize: '13px', opacity: 0.6 }}>
+            {t('analysis.found')}
+          </Text>
+          <Space wrap size={[12, 12]} style={{ marginTop: '8px' }}>
+            {progress.partialRecommendations.slice(0, 5).map(member => (
+              <Tag key={member.memberId} style={{ padding: '4px 10px', borderRadius: '16px' }}>
+                <Space size={8}>
+                  <Avatar
+                    size={20}
+                    style={{ background: 'linear-gradient(135deg, #FFB7C5, #FF85C0)', fontSize: '11px' }}
+                  >
+                    {recommendationName(member).charAt(0)}
+                  </Avatar>
+                  {recommendationName(member)}
+                  <Text style={{ fontSize: '12px', opacity: 0.6 }}>
+                    {matchPercent(member.matchScore)}%
+                  </Text>
+                </Space>
+              </Tag>
+            ))}
+          </Space>
+        </div>
+      )}
+
+      {progress.thinkingProcess && (
+        <Collapse
+          ghost
+          size="small"
+          items={[{
+            key: 'thinking',
+            label: t('analysis.thinking'),
+            children: (
+              <div ref={thinkingRef} style={{ maxHeight: '200px', overflowY: 'auto' }}>
+                <Paragraph style={{ whiteSpace: 'pre-line', fontSize: '13px', opacity: 0.8, margin: 0 }}>
+                  {progress.thinkingProcess}
+                </Paragraph>
+              </div>
+            )
+          }]}
+        />
+      )}
+    </Space>
+  )
+}
+
+export default AnalysisProgressPanel
@@ -0,0 +1,74 @@
+import { Avatar, Space, Tag, Typography } from 'antd'
+import { ThunderboltOutlined } from '@ant-design/icons'
+import type { MemberRecommendation } from '../../types'
+import { reconcilePreMatch } from '../../utils/preMatch'
+import type { PreMatch } from '../../utils/preMatch'
+import { useLocale } from '../../hooks/useLocale'
+
+const { Text } = Typography
+
+interface PreMatchPanelProps {
+  preMatch: PreMatch
+  // 지금까지 나온 AI 추천 (없으면 빈 배열)
+  recommendations: MemberRecommendation[]
+  // AI 결과가 최종인지 (아니면 아직 안 나온 멤버는 '확인 중')
+  final: boolean
+  description: string
+}
+
+// 예비 매칭 상위 멤버 + AI 추천과의 일치 여부
+function PreMatchPanel({ preMatch, recommendations, final, description }: PreMatchPanelProps) {
+  const { t, recommendationName } = useLocale()
+  const candidates = reconcilePreMatch(preMatch, recommendations)
+  const confirmed = candidates.filter(candidate => candidate.aiRank !== null).length
+
+  return (
+    <div style={{ textAlign: 'left' }}>
+      <Space size={8} style={{ marginBottom: '4px' }}>
+        <ThunderboltOutlined style={{ color: '#FFB7C5' }} />
+        <Text strong>{t('preMatch.title')}</Text>
+        {recommendations.length > 0 && (
+          <Text type="secondary" style={{ fontSize: '12px' }}>
+            {t('preMatch.agreement', { matched: confirmed, total: candidates.length })}
+          </Text>
+        )}
+      </Space>
+      <Text type="secondary" style={{ display: 'block', fontSize: '12px', marginBottom: '12px' }}>
+        {description}
+      </Text>
+      <Space direction="vertical" size={8} style={{ width: '100%' }}>
+        {candidates.map((candidate, index) => (
+          <div key={candidate.memberId} style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+            <Avatar
+              size={32}
+              style={{ background: 'linear-gradient(135deg, #FFB7C5, #FF85C0)', flexShrink: 0 }}
+            >
+              {index + 1}
+            </Avatar>
+            <div style={{ flex: 1, minWidth: 0 }}>
+              <Space size={8} wrap>
+                <Text strong>{recommendationName(candidate)}</Text>
+                {candidate.aiRank !== null ? (
+                  <Tag color="success">{t('preMatch.aiRank', { rank: candidate.aiRank })}</Tag>
+                ) : final ? (
+                  <Tag>{t('preMatch.notRecommended')}</Tag>
+                ) : recommendations.length > 0 ? (
+                  <Tag color="processing">{t('preMatch.pending')}</Tag>
+                ) : null}
+              </Space>
+              <div>
+                <Space wrap size={[4, 4]}>
+                  {candidate.matchedTraits.slice(0, 4).map(trait => (
+                    <Tag key={trait} bordered={false} style={{ fontSize: '11px' }}>{trait}</Tag>
+                  ))}
+                </Space>
+              </div>
+            </div>
+          </div>
+        ))}
+      </Space>
+    </div>
+  )
+}
+
+export default PreMatchPanel
@@ -0,0 +1,47 @@
+import { Button, Dropdown, message } from 'antd'
+import { LoginOutlined, LogoutOutlined, UserOutlined } from '@ant-design/icons'
+import { useLocation, useNavigate } from 'react-router-dom'
+import { useAuth } from '../../hooks/useAuth'
+import { useLocale } from '../../hooks/useLocale'
+
+interface AccountMenuProps {
+  size?: 'small' | 'middle' | 'large'
+}
+
+// 헤더 계정 메뉴: 게스트면 로그인 버튼 (로그인 후 지금 화면으로 돌아옴), 로그인 상태면 로그아웃 메뉴
+function AccountMenu({ size = 'middle' }: AccountMenuProps) {
+  const navigate = useNavigate()
+  const location = useLocation()
+  const { user, logout } = useAuth()
+  const { t } = useLocale()
+
+  if (!user) {
+    const redirect = encodeURIComponent(`${location.pathname}${location.search}`)
+    return (
+      <Button size={size} icon={<LoginOutlined />} onClick={() => navigate(`/login?redirect=${redirect}`)}>
+        {t('auth.login')}
+      </Button>
+    )
+  }
+
+  const handleLogout = async () => {
+    await logout()
+    message.success(t('auth.loggedOut'))
+  }
+
+  return (
+    <Dropdown
+      trigger={['click']}
+      menu={{
+        items: [{ key: 'logout', icon: <LogoutOutlined />, label: t('auth.logout') }],
+        onClick: () => void handleLogout()
+      }}
+    >
+      <Button size={size} icon={<UserOutlined />} title={user.email}>
+        {user.displayName}
+      </Button>
+    </Dropdown>
+  )
+}
+
+export default AccountMenu
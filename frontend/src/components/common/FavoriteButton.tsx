@@ -0,0 +1,32 @@
+import { Button, Tooltip } from 'antd'
+import { HeartFilled, HeartOutlined } from '@ant-design/icons'
+import { useFavorites } from '../../hooks/useFavorites'
+import { useLocale } from '../../hooks/useLocale'
+
+interface FavoriteButtonProps {
+  memberId: string
+  size?: 'small' | 'middle' | 'large'
+}
+
+// 멤버 즐겨찾기 토글
+function FavoriteButton({ memberId, size = 'middle' }: FavoriteButtonProps) {
+  const { isFavorite, toggleFavorite } = useFavorites()
+  const { t } = useLocale()
+  const active = isFavorite(memberId)
+  const label = active ? t('favorite.remove') : t('favorite.add')
+
+  return (
+    <Tooltip title={label}>
+      <Button
+        size={size}
+        shape="circle"
+        aria-label={label}
+        aria-pressed={active}
+        icon={active ? <HeartFilled style={{ color: '#FF85C0' }} /> : <HeartOutlined />}
+        onClick={() => toggleFavorite(memberId)}
+      />
+    </Tooltip>
+  )
+}
+
+export default FavoriteButton
@@ -0,0 +1,36 @@
+import { Select } from 'antd'
+import { GlobalOutlined } from '@ant-design/icons'
+import { LOCALES, LOCALE_LABELS } from '../../i18n/locales'
+import { useLocale } from '../../hooks/useLocale'
+import { touchPreference } from '../../storage/preferences'
+import type { Locale } from '../../i18n/locales'
+
+const OPTIONS = LOCALES.map(locale => ({ value: locale, label: LOCALE_LABELS[locale] }))
+
+interface LocaleSwitcherProps {
+  size?: 'small' | 'middle' | 'large'
+}
+
+// 화면 언어 선택 (선택은 저장되어 다음 방문에도 유지)
+function LocaleSwitcher({ size = 'middle' }: LocaleSwitcherProps) {
+  const { locale, setLocale, t } = useLocale()
+  // 직접 고른 언어는 계정 동기화에서 이 기기 값이 우선
+  const handleChange = (next: Locale) => {
+    setLocale(next)
+    touchPreference('locale')
+  }
+  return (
+    <Select
+      size={size}
+      value={locale}
+      options={OPTIONS}
+      onChange={handleChange}
+      suffixIcon={<GlobalOutlined />}
+      aria-label={t('common.language')}
+      popupMatchSelectWidth={false}
+      style={{ minWidth: '110px' }}
+    />
+  )
+}
+
+export default LocaleSwitcher
@@ -0,0 +1,86 @@
+import { useCallback, useEffect, useLayoutEffect, useRef, useState } from 'react'
+import type { ReactNode } from 'react'
+
+interface VirtualGridProps<T> {
+  items: T[]
+  rowHeight: number
+  minColumnWidth: number
+  gap?: number
+  // 화면 밖으로 미리 그려둘 줄 수
+  overscan?: number
+  getKey: (item: T) => string
+  renderItem: (item: T) => ReactNode
+}
+
+// 창 스크롤 기준 가상화 그리드: 컨테이너 너비로 열 수를 정하고 보이는 줄만 그림
+function VirtualGrid<T>({ items, rowHeight, minColumnWidth, gap = 16, overscan = 3, getKey, renderItem }: VirtualGridProps<T>) {
+  const containerRef = useRef<HTMLDivElement>(null)
+  const [width, setWidth] = useState(0)
+  const [range, setRange] = useState({ start: 0, end: 0 })
+
+  const columns = Math.max(1, Math.floor((width + gap) / (minColumnWidth + gap)))
+  const rowCount = Math.ceil(items.length / columns)
+  const rowStride = rowHeight + gap
+  const columnWidth = (width - gap * (columns - 1)) / columns
+
+  useLayoutEffect(() => {
+    const element = containerRef.current
+    if (!element) return
+    setWidth(element.clientWidth)
+    const observer = new ResizeObserver(([entry]) => setWidth(entry.contentRect.width))
+    observer.observe(element)
+    return () => observer.disconnect()
+  }, [])
+
+  const updateRange = useCallback(() => {
+    const element = containerRef.current
+    if (!element) return
+    const offset = -element.getBoundingClientRect().top
+    const start = Math.max(0, Math.floor(offset / rowStride) - overscan)
+    const end = Math.min(rowCount, Math.ceil((offset + window.innerHeight) / rowStride) + overscan)
+    setRange(prev => (prev.start === start && prev.end === end ? prev : { start, end }))
+  }, [rowStride, rowCount, overscan])
+
+  useEffect(() => {
+    updateRange()
+    window.addEventListener('scroll', updateRange, { passive: true })
+    window.addEventListener('resize', updateRange)
+    return () => {
+      window.removeEventListener('scroll', updateRange)
+      window.removeEventListener('resize', updateRange)
+    }
+  }, [updateRange, width])
+
+  const visible: ReactNode[] = []
+  for (let row = range.start; row < range.end; row++) {
+    for (let column = 0; column < columns; column++) {
+      const item = items[row * columns + column]
+      if (item === undefined) break
+      visible.push(
+        <div
+          key={getKey(item)}
+          style={{
+            position: 'absolute',
+            top: row * rowStride,
+            left: column * (columnWidth + gap),
+            width: columnWidth,
+            height: rowHeight
+          }}
+        >
+          {renderItem(item)}
+        </div>
+      )
+    }
+  }
+
+  return (
+    <div
+      ref={containerRef}
+      style={{ position: 'relative', height: Math.max(0, rowCount * rowStride - gap) }}
+    >
+      {width > 0 && visible}
+    </div>
+  )
+}
+
+export default VirtualGrid
@@ -0,0 +1,57 @@
+import { useState } from 'react'
+import { Button, Slider, Typography } from 'antd'
+import { CheckCircleOutlined } from '@ant-design/icons'
+import type { SliderConfig } from '../../types'
+import { nearestSliderAnchor } from '../../utils/surveyResponses'
+import { useLocale } from '../../hooks/useLocale'
+
+const { Text } = Typography
+
+interface SliderQuestionProps {
+  slider: SliderConfig
+  initialValue?: number
+  onSubmit: (value: number) => void
+}
+
+function SliderQuestion({ slider, initialValue, onSubmit }: SliderQuestionProps) {
+  const { t } = useLocale()
+  // 기본값은 범위의 중앙 (step 단위로 맞춤)
+  const step = slider.step ?? 1
+  const middle = slider.min + Math.round((slider.max - slider.min) / 2 / step) * step
+  const [value, setValue] = useState(initialValue ?? middle)
+
+  const marks = Object.fromEntries(slider.anchors.map(anchor => [anchor.value, anchor.label]))
+
+  return (
+    <div style={{ width: '100%', maxWidth: '500px' }}>
+      <Slider
+        min={slider.min}
+        max={slider.max}
+        step={step}
+        marks={marks}
+        value={value}
+        onChange={setValue}
+        tooltip={{ formatter: current => current }}
+        style={{ margin: '0 16px 48px' }}
+      />
+
+      <div style={{ textAlign: 'center', marginBottom: '24px' }}>
+        <Text style={{ fontSize: '16px', color: '#27C7FE' }}>
+          {nearestSliderAnchor(slider, value).label}
+        </Text>
+      </div>
+
+      <Button
+        type="primary"
+        size="large"
+        block
+        icon={<CheckCircleOutlined />}
+        onClick={() => onSubmit(value)}
+      >
+        {t('quiz.next')}
+      </Button>
+    </div>
+  )
+}
+
+export default SliderQuestion
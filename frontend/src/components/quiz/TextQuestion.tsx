@@ -0,0 +1,52 @@
+import { useState } from 'react'
+import { Button, Input, Space } from 'antd'
+import { CheckCircleOutlined } from '@ant-design/icons'
+import type { TextConfig } from '../../types'
+import { useLocale } from '../../hooks/useLocale'
+
+interface TextQuestionProps {
+  config?: TextConfig
+  required?: boolean
+  initialValue?: string
+  onSubmit: (value: string) => void
+}
+
+function TextQuestion({ config, required = true, initialValue, onSubmit }: TextQuestionProps) {
+  const { t } = useLocale()
+  const [value, setValue] = useState(initialValue ?? '')
+  const isEmpty = value.trim().length === 0
+
+  return (
+    <div style={{ width: '100%', maxWidth: '500px' }}>
+      <Input.TextArea
+        value={value}
+        onChange={e => setValue(e.target.value)}
+        placeholder={config?.placeholder}
+        maxLength={config?.maxLength}
+        showCount={!!config?.maxLength}
+        autoSize={{ minRows: 4, maxRows: 8 }}
+        style={{ fontSize: '16px', marginBottom: '24px' }}
+      />
+
+      <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+        <Button
+          type="primary"
+          size="large"
+          block
+          icon={<CheckCircleOutlined />}
+          disabled={required && isEmpty}
+          onClick={() => onSubmit(value.trim())}
+        >
+          {t('quiz.next')}
+        </Button>
+        {!required && (
+          <Button size="large" block onClick={() => onSubmit('')}>
+            {t('quiz.skip')}
+          </Button>
+        )}
+      </Space>
+    </div>
+  )
+}
+
+export default TextQuestion
@@ -0,0 +1,165 @@
+import { Modal, Table, Tag, Space, Typography, Progress, Skeleton } from 'antd'
+import { CrownOutlined } from '@ant-design/icons'
+import type { ReactNode } from 'react'
+import type { MemberDetail, MemberRecommendation } from '../../types'
+import { useMemberDetails } from '../../hooks/useMemberDetail'
+import { MEMBER_BRANCH_LABELS } from '../../utils/memberFilters'
+import { matchPercent } from '../../utils/matchScore'
+import { useLocale } from '../../hooks/useLocale'
+
+const { Text, Paragraph } = Typography
+
+interface ComparisonModalProps {
+  open: boolean
+  recommendations: MemberRecommendation[]
+  onClose: () => void
+}
+
+interface ComparisonRow {
+  key: string
+  label: string
+  cells: ReactNode[]
+}
+
+function BulletList({ items }: { items: string[] }) {
+  if (items.length === 0) return <Text type="secondary">-</Text>
+  return (
+    <Space direction="vertical" size={4}>
+      {items.map(item => <Text key={item}>• {item}</Text>)}
+    </Space>
+  )
+}
+
+// 멤버 정보가 필요한 칸: 불러오는 중이면 스켈레톤, 없으면 '-'
+function metadataCell(member: MemberDetail | null, loading: boolean, render: (member: MemberDetail) => ReactNode): ReactNode {
+  if (member) return render(member)
+  return loading ? <Skeleton.Input active size="small" /> : <Text type="secondary">-</Text>
+}
+
+// 선택한 추천 멤버 2~4명 비교표 (행 = 항목, 열 = 멤버)
+function ComparisonModal({ open, recommendations, onClose }: ComparisonModalProps) {
+  const { t } = useLocale()
+  const { members, loading } = useMemberDetails(open ? recommendations.map(item => item.memberId) : [])
+  const bestScore = Math.max(...recommendations.map(item => item.matchScore))
+  // 모두가 가진 매칭 특성은 강조
+  const sharedTraits = new Set(
+    recommendations[0]?.matchingTraits.filter(trait =>
+      recommendations.every(item => item.matchingTraits.includes(trait))
+    ) ?? []
+  )
+  const detailOf = (item: MemberRecommendation) => members[item.memberId] ?? null
+
+  const rows: ComparisonRow[] = [
+    {
+      key: 'score',
+      label: t('compare.score'),
+      cells: recommendations.map(item => (
+        <Space direction="vertical" size={0} style={{ width: '100%' }}>
+          <Progress
+            percent={matchPercent(item.matchScore)}
+            size="small"
+            strokeColor={{ '0%': '#FFB7C5', '100%': '#FF85C0' }}
+          />
+          {item.matchScore === bestScore && (
+            <Text style={{ fontSize: '12px', color: '#FFD666' }}>
+              <CrownOutlined /> {t('compare.highest')}
+            </Text>
+          )}
+        </Space>
+      ))
+    },
+    {
+      key: 'profile',
+      label: t('compare.profile'),
+      cells: recommendations.map(item => metadataCell(detailOf(item), loading, member => (
+        <Space direction="vertical" size={2}>
+          <Text>{[MEMBER_BRANCH_LABELS[member.branch], member.generation].filter(Boolean).join(' · ')}</Text>
+          {member.status !== 'active' && <Tag>{t(`member.status.${member.status}`)}</Tag>}
+        </Space>
+      )))
+    },
+    {
+      key: 'traits',
+      label: t('compare.traits'),
+      cells: recommendations.map(item => (
+        <Space wrap size={[4, 4]}>
+          {item.matchingTraits.length === 0 && <Text type="secondary">-</Text>}
+          {item.matchingTraits.map(trait => (
+            <Tag key={trait} color={sharedTraits.has(trait) ? 'magenta' : undefined}>{trait}</Tag>
+          ))}
+        </Space>
+      ))
+    },
+    {
+      key: 'strengths',
+      label: t('compare.strengths'),
+      cells: recommendations.map(item => <BulletList items={item.strengths} />)
+    },
+    {
+      key: 'considerations',
+      label: t('compare.considerations'),
+      cells: recommendations.map(item => <BulletList items={item.considerations} />)
+    },
+    {
+      key: 'reasoning',
+      label: t('compare.reasoning'),
+      cells: recommendations.map(item => (
+        <Paragraph style={{ margin: 0 }} ellipsis={{ rows: 6, expandable: true, symbol: t('compare.more') }}>
+          {item.reasoning || '-'}
+        </Paragraph>
+      ))
+    },
+    {
+      key: 'streaming',
+      label: t('compare.streaming'),
+      cells: recommendations.map(item => metadataCell(detailOf(item), loading, member => (
+        <BulletList
+          items={member.streamingPatterns.map(pattern =>
+            pattern.details.length > 0 ? `${pattern.type}: ${pattern.details.join(', ')}` : pattern.insights ?? pattern.type
+          )}
+        />
+      )))
+    }
+  ]
+
+  return (
+    <Modal
+      open={open}
+      title={t('compare.title')}
+      onCancel={onClose}
+      footer={null}
+      width={Math.min(1200, 240 + recommendations.length * 260)}
+    >
+      {sharedTraits.size > 0 && (
+        <Text type="secondary" style={{ display: 'block', marginBottom: '12px' }}>
+          {t('compare.sharedHint')}
+        </Text>
+      )}
+      <Table<ComparisonRow>
+        rowKey="key"
+        dataSource={rows}
+        pagination={false}
+        size="middle"
+        scroll={{ x: 'max-content' }}
+        columns={[
+          {
+            key: 'label',
+            title: '',
+            dataIndex: 'label',
+            fixed: 'left',
+            width: 100,
+            render: (label: string) => <Text strong>{label}</Text>
+          },
+          ...recommendations.map((item, index) => ({
+            key: item.memberId,
+            title: <Text strong>{item.name}</Text>,
+            width: 260,
+            render: (_: unknown, row: ComparisonRow) => row.cells[index]
+          }))
+        ]}
+      />
+    </Modal>
+  )
+}
+
+export default ComparisonModal
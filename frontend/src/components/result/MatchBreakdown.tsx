@@ -0,0 +1,119 @@
+import { useMemo } from 'react'
+import { Collapse, Empty, Progress, Space, Tag, Typography } from 'antd'
+import type { MemberRecommendation, QuestionBank, SurveyResponse } from '../../types'
+import { explainMatch } from '../../utils/matchExplanation'
+import { matchPercent } from '../../utils/matchScore'
+import { useLocale } from '../../hooks/useLocale'
+import { isMessageKey } from '../../i18n/translate'
+
+const { Text } = Typography
+
+interface MatchBreakdownProps {
+  recommendation: MemberRecommendation
+  answers: SurveyResponse[]
+  bank: QuestionBank | null
+}
+
+// 매칭 근거: 카테고리별 기여도 막대 + 답변별 특성 연결
+function MatchBreakdown({ recommendation, answers, bank }: MatchBreakdownProps) {
+  const { t } = useLocale()
+  const categoryLabel = (category: string) => {
+    const key = `category.${category}`
+    return isMessageKey(key) ? t(key) : category
+  }
+  const explanation = useMemo(() => explainMatch(recommendation, answers, bank), [recommendation, answers, bank])
+  const contributing = explanation.answers.filter(item => item.share > 0)
+  const others = explanation.answers.filter(item => item.share === 0)
+
+  return (
+    <Space direction="vertical" size="large" style={{ width: '100%' }}>
+      <div>
+        <Text strong>{t('common.matchScore', { percent: matchPercent(recommendation.matchScore) })}</Text>
+        <Text type="secondary" style={{ display: 'block', fontSize: '12px' }}>
+          {t('breakdown.note')}
+        </Text>
+      </div>
+
+      {contributing.length === 0 ? (
+        <Empty
+          image={Empty.PRESENTED_IMAGE_SIMPLE}
+          description={t('breakdown.noMatch')}
+        />
+      ) : (
+        <div>
+          <Text strong style={{ display: 'block', marginBottom: '8px' }}>{t('breakdown.byCategory')}</Text>
+          {explanation.categories.filter(category => category.share > 0).map(category => (
+            <div key={category.category} style={{ display: 'flex', alignItems: 'center', gap: '12px' }}>
+              <Text style={{ width: '72px', flexShrink: 0 }}>{categoryLabel(category.category)}</Text>
+              <Progress
+                percent={Math.round(category.share * 100)}
+                size="small"
+                strokeColor={{ '0%': '#FFB7C5', '100%': '#FF85C0' }}
+                style={{ flex: 1, margin: 0 }}
+              />
+              <Text type="secondary" style={{ fontSize: '12px', width: '64px', flexShrink: 0 }}>
+                {t('breakdown.answered', { matched: category.matched, answered: category.answered })}
+              </Text>
+            </div>
+          ))}
+        </div>
+      )}
+
+      {contributing.length > 0 && (
+        <div>
+          <Text strong style={{ display: 'block', marginBottom: '8px' }}>{t('breakdown.evidence')}</Text>
+          <Space direction="vertical" size={12} style={{ width: '100%' }}>
+            {contributing.map(item => (
+              <div key={item.questionId} style={{ borderLeft: '3px solid #FFB7C5', paddingLeft: '12px' }}>
+                <Text type="secondary" style={{ fontSize: '12px' }}>{item.question}</Text>
+                <div>
+                  <Text>{item.answer}</Text>
+                  <Text type="secondary" style={{ fontSize: '12px' }}>{t('breakdown.share', { percent: Math.round(item.share * 100) })}</Text>
+                </div>
+                <Space wrap size={[4, 4]} style={{ marginTop: '4px' }}>
+                  {item.traits.map(trait => (
+                    <Tag key={trait} color={item.matchedTraits.includes(trait) ? 'magenta' : undefined}>
+                      {trait}
+                    </Tag>
+                  ))}
+                </Space>
+              </div>
+            ))}
+          </Space>
+        </div>
+      )}
+
+      {(others.length > 0 || explanation.otherTraits.length > 0) && (
+        <Collapse
+          ghost
+          size="small"
+          items={[{
+            key: 'others',
+            label: t('breakdown.unmatched'),
+            children: (
+              <Space direction="vertical" size={8} style={{ width: '100%' }}>
+                {explanation.otherTraits.length > 0 && (
+                  <div>
+                    <Text type="secondary" style={{ fontSize: '12px' }}>{t('breakdown.otherTraits')}</Text>
+                    <div>
+                      <Space wrap size={[4, 4]}>
+                        {explanation.otherTraits.map(trait => <Tag key={trait}>{trait}</Tag>)}
+                      </Space>
+                    </div>
+                  </div>
+                )}
+                {others.map(item => (
+                  <Text key={item.questionId} type="secondary" style={{ fontSize: '12px' }}>
+                    {item.question} → {item.answer}
+                  </Text>
+                ))}
+              </Space>
+            )
+          }]}
+        />
+      )}
+    </Space>
+  )
+}
+
+export default MatchBreakdown
@@ -0,0 +1,131 @@
+import { useEffect, useMemo, useState } from 'react'
+import { Button, Modal, Segmented, Space, Spin, Typography, message, theme } from 'antd'
+import { DownloadOutlined } from '@ant-design/icons'
+import type { AnalysisResponse } from '../../types'
+import { BLOSSOM_SURFACES } from '../../config/theme'
+import { RESULT_CARD_PRESETS, downloadBlob, exportResultCardPng } from '../../utils/resultCard'
+import type { ResultCardLabels, ResultCardPreset } from '../../utils/resultCard'
+import { useLocale } from '../../hooks/useLocale'
+
+const { Text } = Typography
+
+const PRESETS = Object.keys(RESULT_CARD_PRESETS) as ResultCardPreset[]
+
+interface ResultCardModalProps {
+  open: boolean
+  // 멤버 이름을 화면 언어로 바꾼 결과 (카드에 그대로 그림)
+  displayResult: AnalysisResponse
+  onClose: () => void
+}
+
+interface CardImage {
+  key: string
+  blob: Blob
+  url: string
+}
+
+// 결과 카드 이미지 저장: 비율을 고르면 미리보기를 다시 그림
+function ResultCardModal({ open, displayResult, onClose }: ResultCardModalProps) {
+  const { token } = theme.useToken()
+  const { t } = useLocale()
+  const labels = useMemo<ResultCardLabels>(() => ({
+    headline: t('resultCard.headline'),
+    matchScore: percent => t('common.matchScore', { percent }),
+    others: t('resultCard.others')
+  }), [t])
+  const [preset, setPreset] = useState<ResultCardPreset>('story')
+  const [mode, setMode] = useState<'dark' | 'light'>(() =>
+    token.colorBgBase === BLOSSOM_SURFACES.light.bgBase ? 'light' : 'dark'
+  )
+  const [image, setImage] = useState<CardImage | null>(null)
+  const [failed, setFailed] = useState(false)
+  const key = `${preset}:${mode}`
+
+  useEffect(() => {
+    if (!open) return
+    let cancelled = false
+    exportResultCardPng(displayResult, { preset, mode, labels })
+      .then(blob => {
+        if (cancelled) return
+        setImage({ key, blob, url: URL.createObjectURL(blob) })
+        setFailed(false)
+      })
+      .catch(e => {
+        console.error('결과 카드 생성 실패:', e)
+        if (!cancelled) setFailed(true)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [open, displayResult, preset, mode, labels, key])
+
+  // 미리보기가 바뀌거나 모달이 사라질 때 이전 이미지 URL 해제
+  useEffect(() => {
+    if (!image) return
+    return () => URL.revokeObjectURL(image.url)
+  }, [image])
+
+  const ready = image?.key === key ? image : null
+
+  const handleDownload = () => {
+    if (!ready) return
+    const name = displayResult.recommendations[0]?.name ?? 'result'
+    downloadBlob(ready.blob, `holo-oshi-${name}-${preset}.png`)
+    message.success(t('resultCard.saved'))
+  }
+
+  return (
+    <Modal
+      open={open}
+      title={t('resultCard.title')}
+      onCancel={onClose}
+      width={560}
+      footer={[
+        <Button key="close" onClick={onClose}>
+          {t('common.close')}
+        </Button>,
+        <Button key="download" type="primary" icon={<DownloadOutlined />} disabled={!ready} onClick={handleDownload}>
+          {t('resultCard.download')}
+        </Button>
+      ]}
+    >
+      <Space direction="vertical" size="middle" style={{ width: '100%' }}>
+        <Space wrap>
+          <Segmented
+            value={preset}
+            options={PRESETS.map(value => ({ value, label: t(`resultCard.preset.${value}`) }))}
+            onChange={value => setPreset(value as ResultCardPreset)}
+          />
+          <Segmented
+            value={mode}
+            options={[{ value: 'dark', label: t('resultCard.dark') }, { value: 'light', label: t('resultCard.light') }]}
+            onChange={value => setMode(value as 'dark' | 'light')}
+          />
+        </Space>
+        <div style={{
+          display: 'flex',
+          justifyContent: 'center',
+          alignItems: 'center',
+          minHeight: '320px',
+          background: 'rgba(255, 183, 197, 0.06)',
+          borderRadius: '12px',
+          padding: '16px'
+        }}>
+          {failed ? (
+            <Text type="danger">{t('resultCard.failed')}</Text>
+          ) : ready ? (
+            <img
+              src={ready.url}
+              alt={t('resultCard.preview')}
+              style={{ maxWidth: '100%', maxHeight: '60vh', borderRadius: '8px', boxShadow: token.boxShadowSecondary }}
+            />
+          ) : (
+            <Spin />
+          )}
+        </div>
+      </Space>
+    </Modal>
+  )
+}
+
+export default ResultCardModal
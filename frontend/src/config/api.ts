@@ -1,53 +1,146 @@
-const API_CONFIG = {
-  BASE_URL: import.meta.env.VITE_API_BASE_URL || (window.location.protocol === 'https:' ? 'https://holo-oshi.com' : 'http://localhost'),
+// API 프로필 설정
+// VITE_API_PROFILE로 프로필을 고르고, VITE_API_BASE_URL이 있으면 BASE_URL만 덮어씁니다
+// - local: 로컬 개발 (각 서비스 직접 호출)
+// - gateway: API 게이트웨이 뒤 (같은 origin, 게이트웨이 라우팅 경로)
+// - production: holo-oshi.com 배포 환경
+
+export type ApiProfileName = 'local' | 'gateway' | 'production'
+
+export interface ApiProfile {
+  NAME: ApiProfileName
+  BASE_URL: string
   ENDPOINTS: {
-    ANALYZE: '/api/analyze/final',
-    SEARCH: '/api/search/compound',
-    HEALTH: '/api/health'
+    ANALYZE: string
+    ANALYZE_STREAM: string
+    SEARCH: string
+    VECTOR_SEARCH: string
+    HEALTH: string
+    GATEWAY_HEALTH: string
+    SHARES: string
+    MEMBERS: string
+    AUTH: string
+    SYNC: string
+    USER_DATA: string
+  }
+  CREDENTIALS: RequestCredentials
+}
+
+export const API_PROFILES: Record<ApiProfileName, ApiProfile> = {
+  local: {
+    NAME: 'local',
+    BASE_URL: 'http://localhost',
+    ENDPOINTS: {
+      ANALYZE: '/api/analyze/final',
+      ANALYZE_STREAM: '/api/analyze/stream',
+      SEARCH: '/api/search/compound',
+      VECTOR_SEARCH: '/api/vector/search',
+      HEALTH: '/api/health',
+      GATEWAY_HEALTH: '/health',
+      SHARES: '/api/shares',
+      MEMBERS: '/api/members',
+      AUTH: '/api/auth',
+      SYNC: '/api/users/me/sync',
+      USER_DATA: '/api/users/me/data'
+    },
+    CREDENTIALS: 'same-origin'
   },
-  TIMEOUT: 300000 // 300초
-} as const
+  gateway: {
+    NAME: 'gateway',
+    BASE_URL: '',
+    ENDPOINTS: {
+      ANALYZE: '/api/analyze',
+      ANALYZE_STREAM: '/api/analyze/stream',
+      SEARCH: '/api/search',
+      VECTOR_SEARCH: '/api/vector/search',
+      HEALTH: '/api/health',
+      GATEWAY_HEALTH: '/health',
+      SHARES: '/api/shares',
+      MEMBERS: '/api/members',
+      AUTH: '/api/auth',
+      SYNC: '/api/users/me/sync',
+      USER_DATA: '/api/users/me/data'
+    },
+    CREDENTIALS: 'same-origin'
+  },
+  production: {
+    NAME: 'production',
+    BASE_URL: 'https://holo-oshi.com',
+    ENDPOINTS: {
+      ANALYZE: '/api/analyze/final',
+      ANALYZE_STREAM: '/api/analyze/stream',
+      SEARCH: '/api/search/compound',
+      VECTOR_SEARCH: '/api/vector/search',
+      HEALTH: '/api/health',
+      GATEWAY_HEALTH: '/health',
+      SHARES: '/api/shares',
+      MEMBERS: '/api/members',
+      AUTH: '/api/auth',
+      SYNC: '/api/users/me/sync',
+      USER_DATA: '/api/users/me/data'
+    },
+    CREDENTIALS: 'include'
+  }
+}
 
-export default API_CONFIG
+// 엔드포인트별 요청 정책
+// - timeout: 시도 1회당 제한 시간 (ms)
+// - retries: 최대 재시도 횟수
+// - idempotent: 네트워크 오류/타임아웃에도 재시도해도 안전한지 (GET은 항상 안전)
+export interface RequestPolicy {
+  timeout: number
+  retries: number
+  idempotent: boolean
+}
 
-export const apiClient = {
-  async post<T = any>(endpoint: string, data: any): Promise<T> {
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), API_CONFIG.TIMEOUT)
-    
-    try {
-      const response = await fetch(`${API_CONFIG.BASE_URL}${endpoint}`, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(data),
-        signal: controller.signal
-      })
-      
-      clearTimeout(timeoutId)
-      
-      if (!response.ok) {
-        throw new Error(`API Error: ${response.status} ${response.statusText}`)
-      }
-      
-      return response.json()
-    } catch (error: any) {
-      clearTimeout(timeoutId)
-      if (error.name === 'AbortError') {
-        throw new Error(`API 타임아웃 (${API_CONFIG.TIMEOUT/1000}초)`)
-      }
-      throw error
-    }
-  },
-  
-  async get<T = any>(endpoint: string): Promise<T> {
-    const response = await fetch(`${API_CONFIG.BASE_URL}${endpoint}`)
-    
-    if (!response.ok) {
-      throw new Error(`API Error: ${response.status} ${response.statusText}`)
-    }
-    
-    return response.json()
+export const DEFAULT_REQUEST_POLICY: RequestPolicy = {
+  timeout: 30000,
+  retries: 2,
+  idempotent: false
+}
+
+export const REQUEST_POLICIES: Record<keyof ApiProfile['ENDPOINTS'], RequestPolicy> = {
+  // LLM 분석은 오래 걸리므로 타임아웃은 길게, 타임아웃 재시도는 하지 않음
+  ANALYZE: { timeout: 300000, retries: 1, idempotent: false }, // 300초
+  // 스트림은 이벤트 사이 최대 대기 시간, 실패하면 ANALYZE로 대체하므로 재시도하지 않음
+  ANALYZE_STREAM: { timeout: 60000, retries: 0, idempotent: false },
+  SEARCH: { timeout: 30000, retries: 2, idempotent: true },
+  // 입력 중 검색은 다음 입력이 곧 다시 요청하므로 짧게, 한 번만 재시도
+  VECTOR_SEARCH: { timeout: 15000, retries: 1, idempotent: true },
+  // 헬스체크는 폴링이 주기적으로 다시 확인하므로 재시도하지 않음
+  HEALTH: { timeout: 5000, retries: 0, idempotent: true },
+  GATEWAY_HEALTH: { timeout: 5000, retries: 0, idempotent: true },
+  // 공유 링크 생성은 실패하면 URL 스냅샷으로 대체하므로 짧게
+  SHARES: { timeout: 8000, retries: 0, idempotent: false },
+  MEMBERS: { timeout: 10000, retries: 2, idempotent: true },
+  // 로그인/토큰 갱신은 실패를 바로 알려야 하므로 재시도하지 않음
+  AUTH: { timeout: 10000, retries: 0, idempotent: false },
+  // 동기화 업로드는 id/시각 기준으로 병합되므로 다시 보내도 안전
+  SYNC: { timeout: 15000, retries: 1, idempotent: true },
+  // 계정 데이터 삭제는 여러 번 보내도 결과가 같음
+  USER_DATA: { timeout: 15000, retries: 1, idempotent: true }
+}
+
+function isProfileName(name: string | undefined): name is ApiProfileName {
+  return name !== undefined && Object.hasOwn(API_PROFILES, name)
+}
+
+// 현재 환경의 프로필 선택
+function resolveProfile(): ApiProfile {
+  const requested = import.meta.env.VITE_API_PROFILE
+  if (import.meta.env.DEV && requested && !isProfileName(requested)) {
+    console.warn(`알 수 없는 API 프로필 '${requested}', 기본 프로필을 사용합니다`)
   }
-}
\ No newline at end of file
+
+  const name: ApiProfileName = isProfileName(requested)
+    ? requested
+    : (import.meta.env.PROD ? 'production' : 'local')
+  const profile = API_PROFILES[name]
+
+  return import.meta.env.VITE_API_BASE_URL
+    ? { ...profile, BASE_URL: import.meta.env.VITE_API_BASE_URL }
+    : profile
+}
+
+const API_CONFIG = resolveProfile()
+
+export default API_CONFIG
@@ -0,0 +1,24 @@
+// Blossom 테마 토큰
+// antd ConfigProvider(App.tsx)와 캔버스 렌더링(결과 카드 이미지)이 같은 값을 씁니다
+
+export const BLOSSOM = {
+  primary: '#FFB7C5',      // Cherry Blossom Pink
+  secondary: '#FF85C0',    // Deep Blossom
+  success: '#95DE64',      // Spring Green
+  warning: '#FFD666',      // Sunshine Yellow
+  error: '#FF7875',        // Coral
+  info: '#85A5FF',         // Sky Blue
+  tagText: '#d4556a',
+  fontFamily: '"Pretendard", "Noto Sans JP", -apple-system, BlinkMacSystemFont, system-ui, sans-serif'
+} as const
+
+export interface BlossomSurface {
+  bgBase: string
+  bgGradientEnd: string
+  textBase: string
+}
+
+export const BLOSSOM_SURFACES: Record<'dark' | 'light', BlossomSurface> = {
+  dark: { bgBase: '#1f1f1f', bgGradientEnd: '#2a2a2a', textBase: '#f0f0f0' },
+  light: { bgBase: '#fefefe', bgGradientEnd: '#fff5f7', textBase: '#262626' }
+}
@@ -0,0 +1,15 @@
+import { createContext } from 'react'
+import type { AnalysisJob, AnalysisJobState } from '../services/analysisJobs'
+import type { AnalyzeRequest } from '../types'
+
+export interface AnalysisJobContextValue extends AnalysisJobState {
+  isAnalyzing: boolean
+  startAnalysis: (request: AnalyzeRequest, questionBank: string) => AnalysisJob
+  cancelAnalysis: () => void
+  retryAnalysis: () => AnalysisJob | null
+  dismissJob: () => void
+  // 작업과 최근 결과 삭제 (개인 데이터 삭제)
+  resetAnalysis: () => void
+}
+
+export const AnalysisJobContext = createContext<AnalysisJobContextValue | null>(null)
@@ -0,0 +1,56 @@
+import { useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react'
+import type { ReactNode } from 'react'
+import { message } from 'antd'
+import { AnalysisJobManager, isActiveJob } from '../services/analysisJobs'
+import type { AnalysisJobStatus } from '../services/analysisJobs'
+import { AnalysisJobContext } from './AnalysisJobContext'
+import type { AnalysisJobContextValue } from './AnalysisJobContext'
+import { useLocale } from '../hooks/useLocale'
+
+interface AnalysisJobProviderProps {
+  children: ReactNode
+}
+
+function AnalysisJobProvider({ children }: AnalysisJobProviderProps) {
+  const [manager] = useState(() => new AnalysisJobManager())
+  const state = useSyncExternalStore(manager.subscribe, manager.getSnapshot)
+  const { t } = useLocale()
+
+  useEffect(() => {
+    manager.connect()
+    return () => manager.disconnect()
+  }, [manager])
+
+  // 작업이 끝나면 어느 화면에 있든 알림
+  const previousStatus = useRef<AnalysisJobStatus | null>(state.job?.status ?? null)
+  useEffect(() => {
+    const status = state.job?.status ?? null
+    const wasActive = previousStatus.current === 'queued' || previousStatus.current === 'running'
+    previousStatus.current = status
+    if (!wasActive) return
+
+    if (status === 'succeeded') {
+      message.success(t('job.succeeded'))
+    } else if (status === 'failed' && state.job?.error) {
+      message.error(t(state.job.error.message.key, state.job.error.message.params))
+    }
+  }, [state.job, t])
+
+  const value = useMemo<AnalysisJobContextValue>(() => ({
+    ...state,
+    isAnalyzing: isActiveJob(state.job),
+    startAnalysis: (request, questionBank) => manager.start(request, questionBank),
+    cancelAnalysis: () => manager.cancel(),
+    retryAnalysis: () => manager.retry(),
+    dismissJob: () => manager.dismiss(),
+    resetAnalysis: () => manager.reset()
+  }), [manager, state])
+
+  return (
+    <AnalysisJobContext.Provider value={value}>
+      {children}
+    </AnalysisJobContext.Provider>
+  )
+}
+
+export default AnalysisJobProvider
@@ -0,0 +1,12 @@
+import { createContext } from 'react'
+import type { AuthState } from '../services/authSession'
+import type { AuthUser, LoginRequest } from '../types'
+
+export interface AuthContextValue extends AuthState {
+  // 로그인하지 않은 상태 (퀴즈/분석은 게스트로 사용 가능)
+  isGuest: boolean
+  login: (request: LoginRequest) => Promise<AuthUser>
+  logout: () => Promise<void>
+}
+
+export const AuthContext = createContext<AuthContextValue | null>(null)
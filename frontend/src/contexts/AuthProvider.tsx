@@ -0,0 +1,42 @@
+import { useEffect, useMemo, useState, useSyncExternalStore } from 'react'
+import type { ReactNode } from 'react'
+import { message } from 'antd'
+import { AuthSessionManager } from '../services/authSession'
+import { AuthContext } from './AuthContext'
+import type { AuthContextValue } from './AuthContext'
+import { useLocale } from '../hooks/useLocale'
+
+interface AuthProviderProps {
+  children: ReactNode
+}
+
+function AuthProvider({ children }: AuthProviderProps) {
+  const [manager] = useState(() => new AuthSessionManager())
+  const state = useSyncExternalStore(manager.subscribe, manager.getSnapshot)
+  const { t } = useLocale()
+
+  useEffect(() => {
+    manager.connect()
+    return () => manager.disconnect()
+  }, [manager])
+
+  // 토큰 갱신이 거절되어 로그아웃되면 어느 화면에 있든 알림
+  useEffect(() => {
+    if (state.expired) message.warning(t('auth.expired'))
+  }, [state.expired, t])
+
+  const value = useMemo<AuthContextValue>(() => ({
+    ...state,
+    isGuest: state.user === null,
+    login: request => manager.login(request),
+    logout: () => manager.logout()
+  }), [manager, state])
+
+  return (
+    <AuthContext.Provider value={value}>
+      {children}
+    </AuthContext.Provider>
+  )
+}
+
+export default AuthProvider
@@ -0,0 +1,10 @@
+import { createContext } from 'react'
+import type { CloudSyncState } from '../services/cloudSync'
+
+export interface CloudSyncContextValue extends CloudSyncState {
+  // 로그인 상태라 동기화가 켜져 있는지
+  enabled: boolean
+  syncNow: () => void
+}
+
+export const CloudSyncContext = createContext<CloudSyncContextValue | null>(null)
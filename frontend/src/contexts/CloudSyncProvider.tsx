@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useMemo, useRef, useState, useSyncExternalStore } from 'react'
+import type { ReactNode } from 'react'
+import { message } from 'antd'
+import { CloudSyncManager } from '../services/cloudSync'
+import type { LocalPreferences } from '../services/cloudSync'
+import { getFavoriteRecords, subscribeFavorites } from '../storage/favorites'
+import type { ThemeMode } from '../types'
+import { CloudSyncContext } from './CloudSyncContext'
+import type { CloudSyncContextValue } from './CloudSyncContext'
+import { useAuth } from '../hooks/useAuth'
+import { useLocale } from '../hooks/useLocale'
+import { useAnalysisJob } from '../hooks/useAnalysisJob'
+
+// 변경이 몰릴 때 한 번만 동기화
+const SYNC_DELAY_MS = 1500
+
+interface CloudSyncProviderProps {
+  theme: ThemeMode
+  onThemeChange: (theme: ThemeMode) => void
+  children: ReactNode
+}
+
+// 로그인하면 동기화하고, 이후 새 결과/즐겨찾기/설정이 바뀔 때마다 다시 동기화
+function CloudSyncProvider({ theme, onThemeChange, children }: CloudSyncProviderProps) {
+  const [manager] = useState(() => new CloudSyncManager())
+  const state = useSyncExternalStore(manager.subscribe, manager.getSnapshot)
+  const favorites = useSyncExternalStore(subscribeFavorites, getFavoriteRecords)
+  const { user } = useAuth()
+  const { locale, setLocale, t } = useLocale()
+  const { lastResult } = useAnalysisJob()
+  const userId = user?.id ?? null
+  const latestJobId = lastResult?.jobId ?? null
+
+  // 동기화가 끝난 시점의 설정으로 비교하도록 최신 값을 들고 있음
+  const preferencesRef = useRef<LocalPreferences>({ theme, locale })
+  useEffect(() => {
+    preferencesRef.current = { theme, locale }
+  }, [theme, locale])
+
+  // 동기화가 받아 적용한 설정 (이 변경으로는 다시 동기화하지 않음)
+  const appliedRef = useRef<LocalPreferences | null>(null)
+
+  const syncNow = useCallback(() => {
+    if (!userId) return
+    void manager.sync(userId, () => preferencesRef.current).then(outcome => {
+      if (!outcome) return
+      const current = preferencesRef.current
+      const applied = { ...current, ...outcome.apply }
+      // 값이 실제로 바뀔 때만 기억 (바뀌지 않으면 다시 그려지지 않아 다음 변경을 잘못 건너뜀)
+      if (applied.theme !== current.theme || applied.locale !== current.locale) appliedRef.current = applied
+      if (outcome.apply.theme) onThemeChange(outcome.apply.theme)
+      if (outcome.apply.locale) setLocale(outcome.apply.locale)
+      if (outcome.migrated) message.success(t('sync.migrated', { count: outcome.migrated }))
+    })
+  }, [manager, userId, onThemeChange, setLocale, t])
+
+  useEffect(() => {
+    if (!userId) manager.reset()
+  }, [manager, userId])
+
+  useEffect(() => {
+    if (!userId) return
+    const applied = appliedRef.current
+    appliedRef.current = null
+    if (applied && applied.theme === theme && applied.locale === locale) return
+    const timer = setTimeout(syncNow, SYNC_DELAY_MS)
+    return () => clearTimeout(timer)
+  }, [userId, syncNow, latestJobId, favorites, theme, locale])
+
+  // 오프라인 동안 밀린 변경은 연결이 돌아오면 바로 올림
+  useEffect(() => {
+    window.addEventListener('online', syncNow)
+    return () => window.removeEventListener('online', syncNow)
+  }, [syncNow])
+
+  const value = useMemo<CloudSyncContextValue>(() => ({
+    ...state,
+    enabled: userId !== null,
+    syncNow
+  }), [state, userId, syncNow])
+
+  return (
+    <CloudSyncContext.Provider value={value}>
+      {children}
+    </CloudSyncContext.Provider>
+  )
+}
+
+export default CloudSyncProvider
@@ -0,0 +1,17 @@
+import { createContext } from 'react'
+import type { Locale } from '../i18n/locales'
+import type { Translate } from '../i18n/translate'
+import type { Member, MemberRecommendation } from '../types'
+
+export interface LocaleContextValue {
+  locale: Locale
+  // 날짜/시간 표시용 (예: ja-JP)
+  localeTag: string
+  setLocale: (locale: Locale) => void
+  t: Translate
+  memberName: (member: Pick<Member, 'name' | 'name_ja' | 'name_en'>) => string
+  // 추천 결과에는 현지화 이름이 없으므로 멤버 카탈로그에서 찾음
+  recommendationName: (recommendation: Pick<MemberRecommendation, 'memberId' | 'name'>) => string
+}
+
+export const LocaleContext = createContext<LocaleContextValue | null>(null)
@@ -0,0 +1,61 @@
+import { useEffect, useMemo, useState } from 'react'
+import type { ReactNode } from 'react'
+import { ConfigProvider } from 'antd'
+import type { Locale as AntdLocale } from 'antd/es/locale'
+import koKR from 'antd/locale/ko_KR'
+import jaJP from 'antd/locale/ja_JP'
+import enUS from 'antd/locale/en_US'
+import { LOCALE_TAGS, detectLocale, saveLocale } from '../i18n/locales'
+import type { Locale } from '../i18n/locales'
+import { localizeMemberName, translate } from '../i18n/translate'
+import { loadMemberCatalog } from '../storage/memberCatalog'
+import { LocaleContext } from './LocaleContext'
+import type { LocaleContextValue } from './LocaleContext'
+
+// antd 컴포넌트 문구 (페이지네이션, 빈 상태 등)
+const ANTD_LOCALES: Record<Locale, AntdLocale> = {
+  ko: koKR,
+  ja: jaJP,
+  en: enUS
+}
+
+interface LocaleProviderProps {
+  children: ReactNode
+}
+
+function LocaleProvider({ children }: LocaleProviderProps) {
+  const [locale, setLocale] = useState(detectLocale)
+
+  useEffect(() => {
+    document.documentElement.lang = locale
+  }, [locale])
+
+  const value = useMemo<LocaleContextValue>(() => {
+    // 언어를 바꿀 때 카탈로그를 다시 읽어 새로 받은 이름도 반영
+    const catalog = new Map((loadMemberCatalog()?.members ?? []).map(member => [member.id, member]))
+    return {
+      locale,
+      localeTag: LOCALE_TAGS[locale],
+      setLocale: next => {
+        saveLocale(next)
+        setLocale(next)
+      },
+      t: (key, params) => translate(locale, key, params),
+      memberName: member => localizeMemberName(member, locale),
+      recommendationName: recommendation => {
+        const member = catalog.get(recommendation.memberId)
+        return member ? localizeMemberName({ ...member, name: recommendation.name }, locale) : recommendation.name
+      }
+    }
+  }, [locale])
+
+  return (
+    <LocaleContext.Provider value={value}>
+      <ConfigProvider locale={ANTD_LOCALES[locale]}>
+        {children}
+      </ConfigProvider>
+    </LocaleContext.Provider>
+  )
+}
+
+export default LocaleProvider
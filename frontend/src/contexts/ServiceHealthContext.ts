@@ -0,0 +1,8 @@
+import { createContext } from 'react'
+import type { ServiceHealthState } from '../services/healthMonitor'
+
+export interface ServiceHealthContextValue extends ServiceHealthState {
+  checkNow: () => Promise<void>
+}
+
+export const ServiceHealthContext = createContext<ServiceHealthContextValue | null>(null)
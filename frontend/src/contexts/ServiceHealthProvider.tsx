@@ -0,0 +1,32 @@
+import { useEffect, useMemo, useState, useSyncExternalStore } from 'react'
+import type { ReactNode } from 'react'
+import { HealthMonitor } from '../services/healthMonitor'
+import { ServiceHealthContext } from './ServiceHealthContext'
+import type { ServiceHealthContextValue } from './ServiceHealthContext'
+
+interface ServiceHealthProviderProps {
+  children: ReactNode
+}
+
+function ServiceHealthProvider({ children }: ServiceHealthProviderProps) {
+  const [monitor] = useState(() => new HealthMonitor())
+  const state = useSyncExternalStore(monitor.subscribe, monitor.getSnapshot)
+
+  useEffect(() => {
+    monitor.start()
+    return () => monitor.stop()
+  }, [monitor])
+
+  const value = useMemo<ServiceHealthContextValue>(() => ({
+    ...state,
+    checkNow: () => monitor.checkNow()
+  }), [monitor, state])
+
+  return (
+    <ServiceHealthContext.Provider value={value}>
+      {children}
+    </ServiceHealthContext.Provider>
+  )
+}
+
+export default ServiceHealthProvider
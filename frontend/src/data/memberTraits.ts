@@ -0,0 +1,106 @@
+import type { Member } from '../types'
+import type { MemberCatalog } from '../storage/memberCatalog'
+
+// 오프라인 예비 매칭용 멤버 특성표 (지부별, 활동 중인 멤버)
+// 멤버 API(MemberDto)는 특성/태그를 내려주지 않으므로 질문 은행의 특성 이름으로 직접 정리해 둡니다
+// DB id(SERIAL)는 환경마다 달라 영어 이름으로 찾고, 이름 순서('Usada Pekora' / 'Pekora Usada')는 구분하지 않습니다
+// 졸업 멤버는 예비 매칭에서 제외하므로 넣지 않음
+// 멤버 목록은 로그인해야 받을 수 있어, 받은 카탈로그가 없으면 이 표 자체를 카탈로그로 씀
+
+// 표를 마지막으로 정리한 시각 (번들 카탈로그의 savedAt)
+const BUNDLED_AT = '2026-10-01T00:00:00.000Z'
+
+const MEMBER_TRAITS: Record<Member['branch'], Record<string, string[]>> = {
+  JP: {
+    'Tokino Sora': ['idol', 'singing', 'dance', 'wholesome', 'emotional', 'calm'],
+    'Roboco': ['gaming', 'funny', 'energetic', 'cute'],
+    'Sakura Miko': ['pon', 'funny', 'energetic', 'chaotic', 'gaming', 'horror', 'cute'],
+    'Hoshimachi Suisei': ['singing', 'idol', 'skilled', 'cool', 'dance', 'gaming'],
+    'AZKi': ['singing', 'calm', 'mature', 'emotional'],
+    'Shirakami Fubuki': ['variety', 'funny', 'gaming', 'collab', 'energetic', 'zatsudan', 'cute'],
+    'Natsuiro Matsuri': ['energetic', 'chaotic', 'funny', 'teasing', 'collab'],
+    'Akai Haato': ['chaotic', 'cooking', 'funny', 'bilingual', 'energetic'],
+    'Aki Rosenthal': ['dance', 'mature', 'calm', 'bilingual'],
+    'Nakiri Ayame': ['cute', 'idol', 'singing', 'solo', 'gap-moe'],
+    'Yuzuki Choco': ['mature', 'asmr', 'cooking', 'calm', 'late-night'],
+    'Oozora Subaru': ['energetic', 'funny', 'wholesome', 'zatsudan', 'collab', 'variety'],
+    'Ookami Mio': ['calm', 'wholesome', 'mature', 'zatsudan', 'collab', 'long-stream'],
+    'Nekomata Okayu': ['calm', 'zatsudan', 'late-night', 'gaming', 'mature', 'teasing'],
+    'Inugami Korone': ['long-stream', 'gaming', 'funny', 'energetic', 'chaotic', 'bilingual'],
+    'Usada Pekora': ['funny', 'chaotic', 'gaming', 'minecraft', 'long-stream', 'teasing', 'pon'],
+    'Shiranui Flare': ['singing', 'calm', 'wholesome', 'gaming', 'bilingual'],
+    'Shirogane Noel': ['asmr', 'mature', 'calm', 'zatsudan', 'late-night', 'cute'],
+    'Houshou Marine': ['funny', 'chaotic', 'mature', 'singing', 'zatsudan', 'teasing', 'idol'],
+    'Amane Kanata': ['singing', 'dance', 'idol', 'funny', 'tsundere'],
+    'Tsunomaki Watame': ['singing', 'calm', 'zatsudan', 'wholesome', 'late-night'],
+    'Tokoyami Towa': ['singing', 'cool', 'fps', 'skilled', 'gaming', 'gap-moe'],
+    'Himemori Luna': ['cute', 'pon', 'wholesome', 'short-stream'],
+    'Yukihana Lamy': ['calm', 'zatsudan', 'asmr', 'wholesome', 'mature'],
+    'Momosuzu Nene': ['energetic', 'funny', 'idol', 'chaotic', 'bilingual', 'collab'],
+    'Shishiro Botan': ['fps', 'skilled', 'cool', 'calm', 'gaming', 'solo'],
+    'Omaru Polka': ['funny', 'variety', 'energetic', 'chaotic', 'solo'],
+    'La+ Darknesss': ['chaotic', 'funny', 'gaming', 'late-night', 'teasing'],
+    'Takane Lui': ['mature', 'cool', 'skilled', 'wholesome', 'fps'],
+    'Hakui Koyori': ['energetic', 'intellectual', 'cute', 'funny', 'art'],
+    'Sakamata Chloe': ['chaotic', 'pon', 'late-night', 'gaming', 'funny'],
+    'Kazama Iroha': ['cute', 'wholesome', 'gaming', 'skilled', 'pon']
+  },
+  DEV_IS: {
+    'Hiodoshi Ao': ['calm', 'cool', 'intellectual', 'gap-moe', 'singing'],
+    'Otonose Kanade': ['energetic', 'funny', 'idol', 'cute'],
+    'Ichijou Ririka': ['idol', 'zatsudan', 'mature', 'cute'],
+    'Juufuutei Raden': ['intellectual', 'mature', 'calm', 'art', 'zatsudan'],
+    'Todoroki Hajime': ['cute', 'energetic', 'dance', 'chaotic']
+  },
+  EN: {
+    'Mori Calliope': ['singing', 'skilled', 'mature', 'cool', 'zatsudan'],
+    'Takanashi Kiara': ['energetic', 'idol', 'singing', 'bilingual', 'cooking', 'wholesome'],
+    'Ninomae Ina\'nis': ['art', 'calm', 'wholesome', 'late-night', 'zatsudan', 'intellectual'],
+    'IRyS': ['singing', 'idol', 'emotional', 'wholesome'],
+    'Ouro Kronii': ['mature', 'cool', 'zatsudan', 'teasing', 'intellectual'],
+    'Hakos Baelz': ['chaotic', 'energetic', 'funny', 'variety'],
+    'Shiori Novella': ['intellectual', 'mature', 'zatsudan', 'late-night', 'long-stream'],
+    'Koseki Bijou': ['cute', 'energetic', 'gaming', 'wholesome'],
+    'Nerissa Ravencroft': ['singing', 'mature', 'teasing', 'funny'],
+    'Fuwawa Abyssgard': ['cute', 'energetic', 'wholesome', 'idol', 'collab'],
+    'Mococo Abyssgard': ['cute', 'energetic', 'wholesome', 'idol', 'collab'],
+    'Elizabeth Rose Bloodflame': ['singing', 'mature', 'cool', 'calm'],
+    'Gigi Murin': ['chaotic', 'energetic', 'funny', 'gaming'],
+    'Cecilia Immergreen': ['intellectual', 'calm', 'bilingual', 'gaming'],
+    'Raora Panthera': ['art', 'cute', 'bilingual', 'wholesome']
+  },
+  ID: {
+    'Ayunda Risu': ['singing', 'chaotic', 'funny', 'cute'],
+    'Moona Hoshinova': ['singing', 'skilled', 'calm', 'zatsudan'],
+    'Airani Iofifteen': ['art', 'energetic', 'wholesome'],
+    'Kureiji Ollie': ['chaotic', 'energetic', 'funny', 'horror'],
+    'Anya Melfissa': ['calm', 'gap-moe', 'zatsudan', 'mature'],
+    'Pavolia Reine': ['mature', 'cool', 'zatsudan', 'intellectual'],
+    'Vestia Zeta': ['cool', 'skilled', 'fps', 'gaming'],
+    'Kaela Kovalskia': ['long-stream', 'minecraft', 'skilled', 'gaming', 'solo'],
+    'Kobo Kanaeru': ['chaotic', 'funny', 'energetic', 'teasing']
+  }
+}
+
+// 대소문자/기호/이름 순서와 관계없는 비교 키
+function nameKey(name: string): string {
+  return name.toLowerCase().split(/[^a-z0-9]+/).filter(Boolean).sort().join(' ')
+}
+
+const BUNDLED_MEMBERS = Object.entries(MEMBER_TRAITS).flatMap(([branch, members]) =>
+  Object.entries(members).map(([name, traits]) => ({ name, branch: branch as Member['branch'], traits })))
+
+const TRAITS_BY_NAME = new Map(BUNDLED_MEMBERS.map(member => [nameKey(member.name), member.traits]))
+
+// 영어 이름(없으면 표시 이름)으로 찾고, 표에 없는 멤버는 빈 목록
+export function getBundledMemberTraits(member: { name: string; name_en?: string }): string[] {
+  return TRAITS_BY_NAME.get(nameKey(member.name_en ?? member.name)) ?? TRAITS_BY_NAME.get(nameKey(member.name)) ?? []
+}
+
+// 받은 카탈로그가 없을 때 쓰는 카탈로그 (id 대신 영어 이름)
+export function getBundledMemberCatalog(): MemberCatalog {
+  return {
+    savedAt: BUNDLED_AT,
+    members: BUNDLED_MEMBERS.map(({ name, branch, traits }) => ({ id: name, name, name_en: name, branch, status: 'active', traits }))
+  }
+}
@@ -0,0 +1,263 @@
+import type { QuestionBank, QuestionBankTranslation, QuizQuestion } from '../types'
+import type { Locale } from '../i18n/locales'
+import OSHI_FINDER_V1 from './questionBanks/oshiFinderV1'
+import OSHI_FINDER_V1_TRANSLATIONS from './questionBanks/oshiFinderV1.translations'
+
+// 질문 은행 스키마 버전 (QuestionBank 구조가 바뀌면 올립니다)
+export const QUESTION_BANK_SCHEMA_VERSION = 1
+
+const QUESTION_TYPES: QuizQuestion['type'][] = ['single', 'multiple', 'slider', 'text']
+const VERSION_PATTERN = /^\d+\.\d+\.\d+$/
+
+// 등록된 질문 은행 목록 (새 질문 세트는 여기에 추가)
+const REGISTERED_BANKS: QuestionBank[] = [OSHI_FINDER_V1]
+
+// 은행 id → 언어별 번역 (기본 문구는 한국어)
+const BANK_TRANSLATIONS: Record<string, Partial<Record<Locale, QuestionBankTranslation>>> = {
+  [OSHI_FINDER_V1.id]: OSHI_FINDER_V1_TRANSLATIONS
+}
+
+export class QuestionBankError extends Error {
+  readonly bankId: string
+  readonly issues: string[]
+
+  constructor(bankId: string, issues: string[]) {
+    super(`질문 은행 '${bankId}' 검증 실패:\n- ${issues.join('\n- ')}`)
+    this.name = 'QuestionBankError'
+    this.bankId = bankId
+    this.issues = issues
+  }
+}
+
+// 선택형 질문의 선택지 검증
+function validateOptions(question: QuizQuestion, at: string): string[] {
+  const issues: string[] = []
+  const options = question.options ?? []
+  if (options.length < 2) {
+    issues.push(`${at}: 선택지가 2개 이상 필요합니다`)
+  }
+
+  const optionIds = new Set<string>()
+  options.forEach((option, optionIndex) => {
+    const optionAt = `${at}.options[${optionIndex}]`
+    if (!option.id?.trim()) {
+      issues.push(`${optionAt}: id가 비어 있습니다`)
+    } else if (optionIds.has(option.id)) {
+      issues.push(`${optionAt}: 중복된 선택지 id '${option.id}'`)
+    }
+    optionIds.add(option.id)
+
+    if (!option.label?.trim()) issues.push(`${optionAt}: label이 비어 있습니다`)
+    if (!option.value?.trim()) issues.push(`${optionAt}: value가 비어 있습니다`)
+    if (!Array.isArray(option.traits) || option.traits.some(trait => typeof trait !== 'string')) {
+      issues.push(`${optionAt}: traits는 문자열 배열이어야 합니다`)
+    }
+  })
+
+  return issues
+}
+
+// 슬라이더 질문의 범위/기준점 검증
+function validateSlider(question: QuizQuestion, at: string): string[] {
+  const slider = question.slider
+  if (!slider) return [`${at}: slider 설정이 필요합니다`]
+
+  const issues: string[] = []
+  if (!(slider.min < slider.max)) {
+    issues.push(`${at}: slider.min은 slider.max보다 작아야 합니다`)
+  }
+  if (slider.step !== undefined && slider.step <= 0) {
+    issues.push(`${at}: slider.step은 0보다 커야 합니다`)
+  }
+  if (!Array.isArray(slider.anchors) || slider.anchors.length < 2) {
+    issues.push(`${at}: 기준점(anchors)이 2개 이상 필요합니다`)
+    return issues
+  }
+  slider.anchors.forEach((anchor, anchorIndex) => {
+    const anchorAt = `${at}.slider.anchors[${anchorIndex}]`
+    if (anchor.value < slider.min || anchor.value > slider.max) {
+      issues.push(`${anchorAt}: 값 ${anchor.value}이 범위를 벗어났습니다`)
+    }
+    if (!anchor.label?.trim()) issues.push(`${anchorAt}: label이 비어 있습니다`)
+  })
+
+  return issues
+}
+
+// 질문 하나를 검증하고 문제 목록을 반환
+function validateQuestion(question: QuizQuestion, index: number): string[] {
+  const issues: string[] = []
+  const at = `questions[${index}] (id=${question.id})`
+
+  if (!Number.isInteger(question.id) || question.id <= 0) {
+    issues.push(`${at}: id는 양의 정수여야 합니다`)
+  }
+  if (!question.question?.trim()) {
+    issues.push(`${at}: 질문 내용이 비어 있습니다`)
+  }
+  if (!QUESTION_TYPES.includes(question.type)) {
+    issues.push(`${at}: 지원하지 않는 질문 유형 '${question.type}'`)
+  }
+  if (!question.category?.trim()) {
+    issues.push(`${at}: category가 비어 있습니다`)
+  }
+  if (typeof question.weight !== 'number' || question.weight < 1 || question.weight > 10) {
+    issues.push(`${at}: weight는 1~10 사이여야 합니다`)
+  }
+
+  if (question.type === 'single' || question.type === 'multiple') {
+    issues.push(...validateOptions(question, at))
+  } else if (question.type === 'slider') {
+    issues.push(...validateSlider(question, at))
+  } else if (question.type === 'text' && question.text?.maxLength !== undefined && question.text.maxLength <= 0) {
+    issues.push(`${at}: text.maxLength는 0보다 커야 합니다`)
+  }
+
+  return issues
+}
+
+// 분기 조건/점프 대상 검증
+// showIf는 앞선 질문만, next는 뒤의 질문만 가리킬 수 있어 순환이 생기지 않습니다
+function validateFlow(bank: QuestionBank): string[] {
+  const issues: string[] = []
+  const indexById = new Map(bank.questions.map((question, index) => [question.id, index]))
+
+  const checkJump = (target: number, index: number, at: string) => {
+    const targetIndex = indexById.get(target)
+    if (targetIndex === undefined) {
+      issues.push(`${at}: 존재하지 않는 질문 ${target}(으)로 이동합니다`)
+    } else if (targetIndex <= index) {
+      issues.push(`${at}: next는 뒤에 있는 질문만 가리킬 수 있습니다 (${target})`)
+    }
+  }
+
+  bank.questions.forEach((question, index) => {
+    const at = `questions[${index}] (id=${question.id})`
+
+    question.showIf?.forEach(condition => {
+      const conditionIndex = indexById.get(condition.questionId)
+      if (conditionIndex === undefined) {
+        issues.push(`${at}: showIf가 존재하지 않는 질문 ${condition.questionId}을 참조합니다`)
+      } else if (conditionIndex >= index) {
+        issues.push(`${at}: showIf는 앞에 있는 질문만 참조할 수 있습니다 (${condition.questionId})`)
+      }
+    })
+
+    if (question.next !== undefined) checkJump(question.next, index, at)
+    question.options?.forEach(option => {
+      if (option.next !== undefined) checkJump(option.next, index, `${at}.options(${option.id})`)
+    })
+  })
+
+  if (bank.earlyExit) {
+    const { minAnswered, confidence } = bank.earlyExit
+    if (!Number.isInteger(minAnswered) || minAnswered < 1) {
+      issues.push('earlyExit.minAnswered는 1 이상의 정수여야 합니다')
+    }
+    if (confidence <= 0 || confidence > 1) {
+      issues.push('earlyExit.confidence는 0보다 크고 1 이하여야 합니다')
+    }
+  }
+
+  return issues
+}
+
+// 질문 은행 전체 검증 (문제가 없으면 빈 배열)
+export function validateQuestionBank(bank: QuestionBank): string[] {
+  const issues: string[] = []
+
+  if (!bank.id?.trim()) issues.push('id가 비어 있습니다')
+  if (!VERSION_PATTERN.test(bank.version ?? '')) {
+    issues.push(`version '${bank.version}'은 x.y.z 형식이어야 합니다`)
+  }
+  if (bank.schemaVersion !== QUESTION_BANK_SCHEMA_VERSION) {
+    issues.push(`schemaVersion ${bank.schemaVersion}은 지원하지 않습니다 (현재 ${QUESTION_BANK_SCHEMA_VERSION})`)
+  }
+  if (!Array.isArray(bank.questions) || bank.questions.length === 0) {
+    issues.push('질문이 하나도 없습니다')
+    return issues
+  }
+
+  const questionIds = new Set<number>()
+  bank.questions.forEach((question, index) => {
+    if (questionIds.has(question.id)) {
+      issues.push(`questions[${index}]: 중복된 질문 id ${question.id}`)
+    }
+    questionIds.add(question.id)
+    issues.push(...validateQuestion(question, index))
+  })
+  issues.push(...validateFlow(bank))
+
+  return issues
+}
+
+// 모든 은행을 검증하고 활성 은행을 선택 (앱 시작 시 한 번 실행)
+function loadActiveQuestionBank(): QuestionBank {
+  for (const bank of REGISTERED_BANKS) {
+    const issues = validateQuestionBank(bank)
+    if (issues.length > 0) {
+      throw new QuestionBankError(bank.id || '(unknown)', issues)
+    }
+  }
+
+  const requestedId = import.meta.env.VITE_QUESTION_BANK
+  if (requestedId) {
+    const requested = REGISTERED_BANKS.find(bank => bank.id === requestedId)
+    if (requested) return requested
+    console.warn(`질문 은행 '${requestedId}'을 찾을 수 없어 기본 은행을 사용합니다`)
+  }
+
+  return REGISTERED_BANKS[0]
+}
+
+export const ACTIVE_QUESTION_BANK = loadActiveQuestionBank()
+
+// 저장된 답변/결과에 기록할 은행 식별자 (예: oshi-finder@1.0.0)
+export const ACTIVE_QUESTION_BANK_KEY = `${ACTIVE_QUESTION_BANK.id}@${ACTIVE_QUESTION_BANK.version}`
+
+// 번역이 없는 질문을 가리키면 경고만 (빠진 문구는 기본 문구로 표시)
+function checkTranslations(bank: QuestionBank): void {
+  Object.entries(BANK_TRANSLATIONS[bank.id] ?? {}).forEach(([locale, translation]) => {
+    const unknown = Object.keys(translation.questions)
+      .filter(id => !bank.questions.some(question => question.id.toString() === id))
+    if (unknown.length > 0) {
+      console.warn(`질문 은행 '${bank.id}'의 ${locale} 번역에 없는 질문이 있습니다: ${unknown.join(', ')}`)
+    }
+  })
+}
+
+checkTranslations(ACTIVE_QUESTION_BANK)
+
+const localizedBanks = new Map<string, QuestionBank>()
+
+// 화면 표시용 번역본 (id/value/traits/분기는 그대로라 답변과 흐름 계산은 원본과 같음)
+export function localizeQuestionBank(bank: QuestionBank, locale: Locale): QuestionBank {
+  const translation = BANK_TRANSLATIONS[bank.id]?.[locale]
+  if (!translation) return bank
+
+  const cacheKey = `${bank.id}@${bank.version}:${locale}`
+  const cached = localizedBanks.get(cacheKey)
+  if (cached) return cached
+
+  const localized: QuestionBank = {
+    ...bank,
+    title: translation.title ?? bank.title,
+    description: translation.description ?? bank.description,
+    questions: bank.questions.map(question => {
+      const text = translation.questions[question.id]
+      if (!text) return question
+      return {
+        ...question,
+        question: text.question ?? question.question,
+        options: question.options?.map(option => ({ ...option, label: text.options?.[option.id] ?? option.label })),
+        slider: question.slider && {
+          ...question.slider,
+          anchors: question.slider.anchors.map(anchor => ({ ...anchor, label: text.anchors?.[anchor.value] ?? anchor.label }))
+        },
+        text: question.text && { ...question.text, placeholder: text.placeholder ?? question.text.placeholder }
+      }
+    })
+  }
+  localizedBanks.set(cacheKey, localized)
+  return localized
+}
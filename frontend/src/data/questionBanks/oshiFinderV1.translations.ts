@@ -0,0 +1,228 @@
+import type { QuestionBankTranslation } from '../../types'
+
+// 기본 질문 은행(v1) 번역
+// 분석 요청에는 항상 기본(한국어) 문구를 보내므로 화면 표시에만 쓰입니다
+
+const JA: QuestionBankTranslation = {
+  title: '推し診断',
+  description: '質問に答えると、あなたにぴったりのホロライブメンバーが見つかります',
+  questions: {
+    1: {
+      question: '配信は主にどの言語で見たいですか？',
+      options: { '1a': '日本語の配信が好き', '1b': '英語の配信が楽', '1c': 'インドネシア語も大丈夫', '1d': '言語は気にしない' }
+    },
+    23: {
+      question: '日本語の配信はどのくらい聞き取れますか？',
+      anchors: { 1: '字幕や切り抜きが必要', 3: 'だいたい分かる', 5: '完璧に分かる' }
+    },
+    24: {
+      question: 'ENメンバーの配信は日本時間の深夜〜朝に多いです。どう見ますか？',
+      options: { '24a': '深夜でもリアルタイムで見たい', '24b': 'アーカイブで追いかけたい', '24c': '切り抜きで十分' }
+    },
+    2: {
+      question: '主にいつ配信を見ますか？',
+      options: { '2a': '通勤・通学の時間', '2b': '夜の時間', '2c': '深夜〜明け方', '2d': 'アーカイブでまとめて見る' }
+    },
+    3: {
+      question: '好きな配信コンテンツをすべて選んでください',
+      options: {
+        '3a': 'ゲーム実況',
+        '3b': '歌配信（歌枠）',
+        '3c': '雑談',
+        '3d': 'ASMR',
+        '3e': 'お絵描き・創作配信',
+        '3f': '料理・実写配信'
+      }
+    },
+    4: {
+      question: 'どんな雰囲気の配信が好きですか？',
+      options: { '4a': 'にぎやかでエネルギッシュ', '4b': '落ち着いていて癒される', '4c': '予測不能なカオス', '4d': '大人っぽくて落ち着く' }
+    },
+    5: {
+      question: '惹かれるキャラクターの性格は？',
+      options: { '5a': 'かわいくて愛らしい', '5b': 'クールでかっこいい', '5c': 'ちょっと抜けたポンコツ', '5d': 'ツンとしているけど優しい' }
+    },
+    6: {
+      question: 'どんなジャンルのゲーム配信をよく見ますか？',
+      options: { '6a': 'FPS・バトロワ', '6b': 'ホラーゲーム', '6c': 'RPG・ストーリーゲーム', '6d': 'マインクラフト', '6e': 'パーティー・インディーゲーム' }
+    },
+    7: {
+      question: '歌配信でいちばん大事にしていることは？',
+      options: { '7a': '圧倒的な歌唱力', '7b': 'アイドルらしいパフォーマンス', '7c': '気軽に口ずさむような雰囲気', '7d': '歌配信はあまり見ない' }
+    },
+    8: {
+      question: '一度に見やすい配信の長さは？',
+      options: { '8a': '1時間以内', '8b': '2〜3時間', '8c': '長いほど良い（耐久配信）', '8d': '主に切り抜きで見る' }
+    },
+    9: {
+      question: 'チャットとどんなふうに交流する配信が好きですか？',
+      options: { '9a': 'コメントを一つずつ読んでくれる', '9b': 'リスナーをいじってふざける', '9c': '自分のペースで没頭する', '9d': 'ファンと一緒に企画を作る' }
+    },
+    10: {
+      question: 'コラボ配信はどのくらい好きですか？',
+      options: { '10a': 'コラボがいちばん楽しい', '10b': 'たまにあると嬉しい', '10c': 'ソロ配信のほうが好き' }
+    },
+    11: {
+      question: '笑いのツボはどちらですか？',
+      options: { '11a': 'リアクションの大きい悲鳴や絶叫', '11b': 'ダジャレやセンスのある話術', '11c': '予想外のポンなミス', '11d': 'ギリギリのブラックユーモア' }
+    },
+    12: {
+      question: 'メンバーにいちばん感動する瞬間は？',
+      options: { '12a': '記念配信で泣く姿', '12b': '努力して目標を叶える姿', '12c': 'いつもと違う真剣な姿', '12d': '仲間を気づかう姿' }
+    },
+    13: {
+      question: '好きな声のトーンは？',
+      options: { '13a': '明るいハイトーンの声', '13b': '低くて落ち着いた声', '13c': 'ささやくような声', '13d': '場面ごとに変わる多彩な声' }
+    },
+    14: {
+      question: 'アイドル活動（ライブ・音楽）に興味はありますか？',
+      options: { '14a': '3Dライブは必ず見る', '14b': 'オリジナル曲をよく聴く', '14c': '配信中心で見る' }
+    },
+    15: {
+      question: 'どの期生・世代のメンバーに惹かれますか？',
+      options: { '15a': '長く活動しているベテラン', '15b': '成長真っ最中の中堅', '15c': 'デビューしたての新人', '15d': '気にしない' }
+    },
+    16: {
+      question: '配信で見たい特技をすべて選んでください',
+      options: { '16a': 'ゲームの腕前', '16b': '絵の腕前', '16c': 'ダンス', '16d': '語学力', '16e': '料理' }
+    },
+    17: {
+      question: '疲れた一日の終わりに流しておきたい配信は？',
+      options: { '17a': '何も考えずに笑える配信', '17b': '寝落ちにぴったりの静かな配信', '17c': '歌が聴ける配信', '17d': 'おしゃべりするような気楽な雑談配信' }
+    },
+    18: {
+      question: '好きなメンバーのキャラクターコンセプトは？',
+      options: { '18a': 'ファンタジー（悪魔、エルフ、ドラゴンなど）', '18b': 'ケモミミ（猫、狐、犬など）', '18c': '現代的な女の子', '18d': 'ミステリアスな存在' }
+    },
+    19: {
+      question: 'メンバーの応援のしかたは？',
+      options: { '19a': 'ライブチャットに積極的に参加', '19b': '静かに視聴するだけ', '19c': '切り抜きやファンアートで応援', '19d': 'グッズやライブチケットを購入' }
+    },
+    20: {
+      question: '推しにいちばん望むことは？',
+      options: { '20a': '毎日笑わせてくれる楽しさ', '20b': '疲れた心を癒してくれる慰め', '20c': '憧れるかっこいい姿', '20d': '一緒に成長していく物語' }
+    },
+    21: {
+      question: '配信のテンションはどのくらいが好きですか？',
+      anchors: { 1: 'まったり', 3: 'ほどほど', 5: '最高テンション' }
+    },
+    22: {
+      question: '好きな配信スタイルや気になるメンバーがいれば自由に書いてください',
+      placeholder: '例）深夜に静かにゲームする配信が好きです'
+    }
+  }
+}
+
+const EN: QuestionBankTranslation = {
+  title: 'Find My Oshi',
+  description: 'Answer the questions to find the hololive member who suits you best',
+  questions: {
+    1: {
+      question: 'Which language do you mostly want to watch streams in?',
+      options: { '1a': 'I like Japanese streams', '1b': 'English streams are easiest', '1c': 'Indonesian is fine too', '1d': 'Language doesn’t matter' }
+    },
+    23: {
+      question: 'How well can you follow Japanese streams?',
+      anchors: { 1: 'I need subtitles or clips', 3: 'I get the gist', 5: 'I understand everything' }
+    },
+    24: {
+      question: 'EN streams often air late at night or early morning in Asian time zones. How will you watch?',
+      options: { '24a': 'Live, even late at night', '24b': 'I’ll catch the archives', '24c': 'Clips are enough' }
+    },
+    2: {
+      question: 'When do you usually watch streams?',
+      options: { '2a': 'While commuting', '2b': 'In the evening', '2c': 'Late night to dawn', '2d': 'I binge the archives' }
+    },
+    3: {
+      question: 'Pick all the stream content you enjoy',
+      options: {
+        '3a': 'Gaming',
+        '3b': 'Singing streams (utawaku)',
+        '3c': 'Just chatting (zatsudan)',
+        '3d': 'ASMR',
+        '3e': 'Drawing / creative streams',
+        '3f': 'Cooking / IRL streams'
+      }
+    },
+    4: {
+      question: 'What kind of stream vibe do you like?',
+      options: { '4a': 'Loud and full of energy', '4b': 'Calm and healing', '4c': 'Unpredictable chaos', '4d': 'Mature and relaxed' }
+    },
+    5: {
+      question: 'Which character personality draws you in?',
+      options: { '5a': 'Cute and lovable', '5b': 'Cool and stylish', '5c': 'A lovable klutz (ponkotsu)', '5d': 'Aloof but kind' }
+    },
+    6: {
+      question: 'Which game genres do you like to watch?',
+      options: { '6a': 'FPS / battle royale', '6b': 'Horror games', '6c': 'RPG / story games', '6d': 'Minecraft', '6e': 'Party / indie games' }
+    },
+    7: {
+      question: 'What matters most to you in singing streams?',
+      options: { '7a': 'Outstanding vocals', '7b': 'Idol-like performance', '7c': 'A relaxed, humming mood', '7d': 'I rarely watch singing streams' }
+    },
+    8: {
+      question: 'What stream length is easiest to watch in one go?',
+      options: { '8a': 'Under an hour', '8b': '2–3 hours', '8c': 'The longer the better (endurance streams)', '8d': 'I mostly watch clips' }
+    },
+    9: {
+      question: 'How do you like streamers to interact with chat?',
+      options: { '9a': 'Reading comments one by one', '9b': 'Teasing and joking with viewers', '9c': 'Focusing at their own pace', '9d': 'Building projects with fans' }
+    },
+    10: {
+      question: 'How much do you like collab streams?',
+      options: { '10a': 'Collabs are the best', '10b': 'Nice once in a while', '10c': 'I prefer solo streams' }
+    },
+    11: {
+      question: 'What kind of humor gets you?',
+      options: { '11a': 'Big reactions and screaming', '11b': 'Wordplay and witty talk', '11c': 'Unexpected clumsy mistakes', '11d': 'Edgy dark comedy' }
+    },
+    12: {
+      question: 'What moment moves you most?',
+      options: { '12a': 'Tears at an anniversary stream', '12b': 'Reaching a goal through hard work', '12c': 'A serious side you rarely see', '12d': 'Looking out for fellow members' }
+    },
+    13: {
+      question: 'What voice tone do you like?',
+      options: { '13a': 'A bright, high-pitched voice', '13b': 'A low, calm voice', '13c': 'A whispery voice', '13d': 'A versatile voice that changes with the scene' }
+    },
+    14: {
+      question: 'Are you interested in idol activities (lives, music)?',
+      options: { '14a': 'I never miss 3D lives', '14b': 'I often listen to original songs', '14c': 'I mainly watch streams' }
+    },
+    15: {
+      question: 'Which generation of members draws you in?',
+      options: { '15a': 'Long-running veterans', '15b': 'Mid-career members still growing', '15c': 'Fresh debuts', '15d': 'Doesn’t matter' }
+    },
+    16: {
+      question: 'Pick all the skills you want to see on stream',
+      options: { '16a': 'Gaming skill', '16b': 'Drawing skill', '16c': 'Dancing', '16d': 'Language skills', '16e': 'Cooking' }
+    },
+    17: {
+      question: 'What stream do you want on at the end of a tiring day?',
+      options: { '17a': 'Something to laugh at without thinking', '17b': 'A quiet stream to fall asleep to', '17c': 'A stream with music', '17d': 'A cozy chatting stream' }
+    },
+    18: {
+      question: 'Which character concept do you prefer?',
+      options: { '18a': 'Fantasy (demons, elves, dragons…)', '18b': 'Animal ears (cats, foxes, dogs…)', '18c': 'A modern girl', '18d': 'A mysterious being' }
+    },
+    19: {
+      question: 'How do you support members?',
+      options: { '19a': 'Actively joining live chat', '19b': 'Just watching quietly', '19c': 'Clips and fan art', '19d': 'Buying merch and live tickets' }
+    },
+    20: {
+      question: 'What do you want most from your oshi?',
+      options: { '20a': 'Fun that makes me laugh every day', '20b': 'Comfort for a tired heart', '20c': 'Someone cool to look up to', '20d': 'A story of growing together' }
+    },
+    21: {
+      question: 'How high-energy do you like streams?',
+      anchors: { 1: 'Mellow', 3: 'Moderate', 5: 'Maximum hype' }
+    },
+    22: {
+      question: 'Feel free to describe stream styles you like or members you’re curious about',
+      placeholder: 'e.g. I like quiet late-night gaming streams'
+    }
+  }
+}
+
+const OSHI_FINDER_V1_TRANSLATIONS = { ja: JA, en: EN }
+
+export default OSHI_FINDER_V1_TRANSLATIONS
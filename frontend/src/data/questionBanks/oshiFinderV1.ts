@@ -0,0 +1,344 @@
+import type { QuestionBank } from '../../types'
+
+// 기본 질문 은행 (v1)
+// 질문 내용을 바꿀 때는 version을 올려야 저장된 답변/결과와 구분됩니다
+const OSHI_FINDER_V1: QuestionBank = {
+  id: 'oshi-finder',
+  version: '1.2.0',
+  schemaVersion: 1,
+  title: '나의 오시 찾기',
+  description: '질문에 답하면 당신과 가장 잘 맞는 홀로라이브 멤버를 찾습니다',
+  // 답변 성향이 뚜렷하면 남은 질문을 건너뜁니다
+  earlyExit: {
+    minAnswered: 14,
+    confidence: 0.6
+  },
+  questions: [
+    {
+      id: 1,
+      question: '방송은 주로 어떤 언어로 보고 싶나요?',
+      type: 'single',
+      category: 'language',
+      weight: 9,
+      options: [
+        { id: '1a', label: '일본어 방송이 좋아요', value: 'japanese', traits: ['japanese'] },
+        { id: '1b', label: '영어 방송이 편해요', value: 'english', traits: ['english'] },
+        { id: '1c', label: '인도네시아어도 괜찮아요', value: 'indonesian', traits: ['indonesian', 'bilingual'] },
+        { id: '1d', label: '언어는 상관없어요', value: 'any', traits: ['bilingual'] }
+      ]
+    },
+    {
+      id: 23,
+      question: '일본어 방송을 얼마나 알아들을 수 있나요?',
+      type: 'slider',
+      category: 'language',
+      weight: 5,
+      showIf: [{ questionId: 1, anyOf: ['japanese', 'any'] }],
+      slider: {
+        min: 1,
+        max: 5,
+        step: 1,
+        anchors: [
+          { value: 1, label: '자막/클립이 필요해요', traits: ['clips'] },
+          { value: 3, label: '대강 알아들어요', traits: [] },
+          { value: 5, label: '완벽하게 이해해요', traits: ['japanese', 'zatsudan'] }
+        ]
+      }
+    },
+    {
+      id: 24,
+      question: 'EN 멤버 방송은 한국 기준 새벽~아침에 많아요. 어떻게 볼 건가요?',
+      type: 'single',
+      category: 'schedule',
+      weight: 5,
+      showIf: [{ questionId: 1, anyOf: ['english', 'any'] }],
+      options: [
+        { id: '24a', label: '새벽에도 실시간으로 볼래요', value: 'live', traits: ['late-night'] },
+        { id: '24b', label: '아카이브로 챙겨볼래요', value: 'archive', traits: ['long-stream'] },
+        { id: '24c', label: '클립으로 충분해요', value: 'clips', traits: ['clips'] }
+      ]
+    },
+    {
+      id: 2,
+      question: '주로 언제 방송을 보나요?',
+      type: 'single',
+      category: 'schedule',
+      weight: 6,
+      options: [
+        { id: '2a', label: '출퇴근/등하교 시간', value: 'morning', traits: ['daytime', 'short-stream'] },
+        { id: '2b', label: '저녁 시간', value: 'evening', traits: ['daytime'] },
+        { id: '2c', label: '늦은 밤~새벽', value: 'late-night', traits: ['late-night'] },
+        { id: '2d', label: '아카이브로 몰아봐요', value: 'archive', traits: ['long-stream'] }
+      ]
+    },
+    {
+      id: 3,
+      question: '좋아하는 방송 콘텐츠를 모두 골라주세요',
+      type: 'multiple',
+      category: 'content',
+      weight: 10,
+      options: [
+        { id: '3a', label: '게임 실황', value: 'gaming', traits: ['gaming'] },
+        { id: '3b', label: '노래 방송 (우타와쿠)', value: 'singing', traits: ['singing'] },
+        { id: '3c', label: '잡담 (자츠단)', value: 'zatsudan', traits: ['zatsudan'] },
+        { id: '3d', label: 'ASMR', value: 'asmr', traits: ['asmr', 'calm'] },
+        { id: '3e', label: '그림/창작 방송', value: 'art', traits: ['art', 'calm'] },
+        { id: '3f', label: '요리/실사 방송', value: 'irl', traits: ['cooking', 'variety'] }
+      ]
+    },
+    {
+      id: 4,
+      question: '방송 분위기는 어떤 게 좋나요?',
+      type: 'single',
+      category: 'vibe',
+      weight: 9,
+      options: [
+        { id: '4a', label: '시끌벅적하고 에너지 넘치는', value: 'energetic', traits: ['energetic', 'funny'] },
+        { id: '4b', label: '차분하고 힐링되는', value: 'calm', traits: ['calm', 'wholesome'] },
+        { id: '4c', label: '예측 불가능한 카오스', value: 'chaotic', traits: ['chaotic', 'funny'] },
+        { id: '4d', label: '어른스럽고 편안한', value: 'mature', traits: ['mature', 'calm'] }
+      ]
+    },
+    {
+      id: 5,
+      question: '끌리는 캐릭터 성격은?',
+      type: 'single',
+      category: 'personality',
+      weight: 8,
+      options: [
+        { id: '5a', label: '귀엽고 사랑스러운', value: 'cute', traits: ['cute', 'wholesome'] },
+        { id: '5b', label: '쿨하고 멋있는', value: 'cool', traits: ['cool', 'skilled'] },
+        { id: '5c', label: '허당끼 있는 폰코츠', value: 'pon', traits: ['pon', 'funny'] },
+        { id: '5d', label: '새침하지만 다정한', value: 'tsundere', traits: ['tsundere', 'gap-moe'] }
+      ]
+    },
+    {
+      id: 6,
+      question: '어떤 게임 장르 방송을 즐겨 보나요?',
+      type: 'multiple',
+      category: 'gaming',
+      weight: 6,
+      showIf: [{ questionId: 3, anyOf: ['gaming'] }],
+      options: [
+        { id: '6a', label: 'FPS/배틀로얄', value: 'fps', traits: ['fps', 'skilled'] },
+        { id: '6b', label: '호러 게임', value: 'horror', traits: ['horror', 'emotional'] },
+        { id: '6c', label: 'RPG/스토리 게임', value: 'rpg', traits: ['rpg', 'emotional'] },
+        { id: '6d', label: '마인크래프트', value: 'minecraft', traits: ['minecraft', 'long-stream'] },
+        { id: '6e', label: '파티/인디 게임', value: 'party', traits: ['variety', 'collab'] }
+      ]
+    },
+    {
+      id: 7,
+      question: '노래 방송에서 가장 중요하게 보는 것은?',
+      type: 'single',
+      category: 'music',
+      weight: 5,
+      options: [
+        { id: '7a', label: '압도적인 가창력', value: 'vocal', traits: ['singing', 'skilled'] },
+        { id: '7b', label: '아이돌 같은 퍼포먼스', value: 'idol', traits: ['idol', 'dance'] },
+        { id: '7c', label: '편안하게 흥얼거리는 분위기', value: 'casual', traits: ['singing', 'calm'] },
+        { id: '7d', label: '노래 방송은 별로 안 봐요', value: 'none', traits: [] }
+      ]
+    },
+    {
+      id: 8,
+      question: '한 번에 보기 좋은 방송 길이는?',
+      type: 'single',
+      category: 'schedule',
+      weight: 4,
+      options: [
+        { id: '8a', label: '1시간 이내', value: 'short', traits: ['short-stream'] },
+        { id: '8b', label: '2~3시간', value: 'medium', traits: [] },
+        { id: '8c', label: '길수록 좋아요 (내구 방송)', value: 'long', traits: ['long-stream'] },
+        { id: '8d', label: '주로 클립으로 봐요', value: 'clips', traits: ['clips', 'funny'] }
+      ]
+    },
+    {
+      id: 9,
+      question: '채팅과 어떻게 소통하는 방송이 좋나요?',
+      type: 'single',
+      category: 'interaction',
+      weight: 7,
+      options: [
+        { id: '9a', label: '채팅을 하나하나 읽어주는', value: 'reader', traits: ['zatsudan', 'wholesome'] },
+        { id: '9b', label: '시청자를 놀리고 장난치는', value: 'teasing', traits: ['teasing', 'funny'] },
+        { id: '9c', label: '자기 페이스로 몰입하는', value: 'focused', traits: ['skilled', 'solo'] },
+        { id: '9d', label: '팬들과 함께 기획을 만드는', value: 'community', traits: ['variety', 'collab'] }
+      ]
+    },
+    {
+      id: 10,
+      question: '콜라보 방송을 얼마나 좋아하나요?',
+      type: 'single',
+      category: 'interaction',
+      weight: 5,
+      options: [
+        { id: '10a', label: '콜라보가 제일 재밌어요', value: 'love', traits: ['collab', 'chaotic'] },
+        { id: '10b', label: '가끔 있으면 좋아요', value: 'sometimes', traits: ['collab'] },
+        { id: '10c', label: '솔로 방송이 더 좋아요', value: 'solo', traits: ['solo'] }
+      ]
+    },
+    {
+      id: 11,
+      question: '웃음 코드는 어떤 쪽인가요?',
+      type: 'single',
+      category: 'vibe',
+      weight: 6,
+      options: [
+        { id: '11a', label: '리액션이 큰 비명과 절규', value: 'reaction', traits: ['energetic', 'horror'] },
+        { id: '11b', label: '말장난과 센스 있는 입담', value: 'wit', traits: ['intellectual', 'zatsudan'] },
+        { id: '11c', label: '예상 못한 허당 실수', value: 'pon', traits: ['pon', 'funny'] },
+        { id: '11d', label: '선 넘는 블랙 코미디', value: 'edgy', traits: ['chaotic', 'mature'] }
+      ]
+    },
+    {
+      id: 12,
+      question: '멤버에게서 가장 감동받는 순간은?',
+      type: 'single',
+      category: 'personality',
+      weight: 6,
+      options: [
+        { id: '12a', label: '기념 방송에서 우는 모습', value: 'emotional', traits: ['emotional', 'wholesome'] },
+        { id: '12b', label: '노력해서 목표를 이루는 모습', value: 'growth', traits: ['skilled', 'idol'] },
+        { id: '12c', label: '평소와 다른 진지한 모습', value: 'gap', traits: ['gap-moe', 'mature'] },
+        { id: '12d', label: '동료를 챙기는 모습', value: 'caring', traits: ['wholesome', 'collab'] }
+      ]
+    },
+    {
+      id: 13,
+      question: '목소리 톤은 어떤 게 좋나요?',
+      type: 'single',
+      category: 'voice',
+      weight: 7,
+      options: [
+        { id: '13a', label: '하이톤의 밝은 목소리', value: 'high', traits: ['cute', 'energetic'] },
+        { id: '13b', label: '낮고 차분한 목소리', value: 'low', traits: ['cool', 'calm'] },
+        { id: '13c', label: '속삭이는 듯한 목소리', value: 'whisper', traits: ['asmr', 'calm'] },
+        { id: '13d', label: '상황마다 바뀌는 다채로운 목소리', value: 'versatile', traits: ['gap-moe', 'variety'] }
+      ]
+    },
+    {
+      id: 14,
+      question: '아이돌 활동(라이브, 음반)에 관심이 있나요?',
+      type: 'single',
+      category: 'music',
+      weight: 5,
+      showIf: [{ questionId: 7, noneOf: ['none'] }],
+      options: [
+        { id: '14a', label: '3D 라이브는 꼭 챙겨봐요', value: 'live', traits: ['idol', 'dance'] },
+        { id: '14b', label: '오리지널 곡을 즐겨 들어요', value: 'music', traits: ['singing'] },
+        { id: '14c', label: '방송 위주로 봐요', value: 'stream', traits: ['zatsudan'] }
+      ]
+    },
+    {
+      id: 15,
+      question: '어떤 기수/세대의 멤버에게 끌리나요?',
+      type: 'single',
+      category: 'generation',
+      weight: 3,
+      options: [
+        { id: '15a', label: '오래 활동한 베테랑', value: 'veteran', traits: ['mature', 'skilled'] },
+        { id: '15b', label: '한창 성장 중인 중견', value: 'mid', traits: ['variety'] },
+        { id: '15c', label: '갓 데뷔한 신인', value: 'rookie', traits: ['energetic', 'cute'] },
+        { id: '15d', label: '상관없어요', value: 'any', traits: [] }
+      ]
+    },
+    {
+      id: 16,
+      question: '방송에서 보고 싶은 특기를 모두 골라주세요',
+      type: 'multiple',
+      category: 'skills',
+      weight: 5,
+      options: [
+        { id: '16a', label: '게임 실력', value: 'gaming-skill', traits: ['gaming', 'skilled'] },
+        { id: '16b', label: '그림 실력', value: 'drawing', traits: ['art'] },
+        { id: '16c', label: '춤', value: 'dance', traits: ['dance', 'idol'] },
+        { id: '16d', label: '외국어 실력', value: 'language', traits: ['bilingual', 'intellectual'] },
+        { id: '16e', label: '요리', value: 'cooking', traits: ['cooking'] }
+      ]
+    },
+    {
+      id: 17,
+      question: '피곤한 하루 끝에 틀어놓고 싶은 방송은?',
+      type: 'single',
+      category: 'vibe',
+      weight: 7,
+      options: [
+        { id: '17a', label: '아무 생각 없이 웃을 수 있는 방송', value: 'laugh', traits: ['funny', 'chaotic'] },
+        { id: '17b', label: '잠들기 좋은 조용한 방송', value: 'sleep', traits: ['asmr', 'calm', 'late-night'] },
+        { id: '17c', label: '노래를 들을 수 있는 방송', value: 'music', traits: ['singing', 'calm'] },
+        { id: '17d', label: '수다 떨듯 편한 잡담 방송', value: 'chat', traits: ['zatsudan', 'wholesome'] }
+      ]
+    },
+    {
+      id: 18,
+      question: '선호하는 멤버의 캐릭터 콘셉트는?',
+      type: 'single',
+      category: 'personality',
+      weight: 4,
+      options: [
+        { id: '18a', label: '판타지 (악마, 엘프, 드래곤 등)', value: 'fantasy', traits: ['gap-moe'] },
+        { id: '18b', label: '동물 귀 (고양이, 여우, 개 등)', value: 'kemomimi', traits: ['cute'] },
+        { id: '18c', label: '현대적인 소녀', value: 'modern', traits: ['wholesome'] },
+        { id: '18d', label: '미스터리한 존재', value: 'mysterious', traits: ['cool', 'intellectual'] }
+      ]
+    },
+    {
+      id: 19,
+      question: '멤버를 응원하는 방식은?',
+      type: 'single',
+      category: 'interaction',
+      weight: 3,
+      options: [
+        { id: '19a', label: '라이브 채팅에 적극 참여', value: 'chat', traits: ['zatsudan'] },
+        { id: '19b', label: '조용히 시청만', value: 'lurk', traits: ['calm'] },
+        { id: '19c', label: '클립/팬아트로 응원', value: 'create', traits: ['clips', 'art'] },
+        { id: '19d', label: '굿즈와 라이브 티켓 구매', value: 'merch', traits: ['idol'] }
+      ]
+    },
+    {
+      id: 20,
+      question: '오시에게 가장 바라는 한 가지는?',
+      type: 'single',
+      category: 'values',
+      weight: 8,
+      options: [
+        { id: '20a', label: '매일 웃게 해주는 즐거움', value: 'fun', traits: ['funny', 'energetic'] },
+        { id: '20b', label: '지친 마음을 달래주는 위로', value: 'comfort', traits: ['calm', 'wholesome'] },
+        { id: '20c', label: '닮고 싶은 멋진 모습', value: 'inspiration', traits: ['cool', 'skilled'] },
+        { id: '20d', label: '함께 성장하는 이야기', value: 'journey', traits: ['emotional', 'idol'] }
+      ]
+    },
+    {
+      id: 21,
+      question: '방송의 텐션은 어느 정도가 좋나요?',
+      type: 'slider',
+      category: 'vibe',
+      weight: 7,
+      slider: {
+        min: 1,
+        max: 5,
+        step: 1,
+        anchors: [
+          { value: 1, label: '잔잔하게', traits: ['calm', 'asmr'] },
+          { value: 3, label: '적당히', traits: [] },
+          { value: 5, label: '최고 텐션', traits: ['energetic', 'chaotic'] }
+        ]
+      }
+    },
+    {
+      id: 22,
+      question: '좋아하는 방송 스타일이나 관심 있는 멤버가 있다면 자유롭게 적어주세요',
+      type: 'text',
+      category: 'free',
+      weight: 4,
+      required: false,
+      text: {
+        placeholder: '예) 새벽에 조용히 게임하는 방송을 좋아해요',
+        maxLength: 300
+      }
+    }
+  ]
+}
+
+export default OSHI_FINDER_V1
@@ -0,0 +1,12 @@
+import { useContext } from 'react'
+import { AnalysisJobContext } from '../contexts/AnalysisJobContext'
+import type { AnalysisJobContextValue } from '../contexts/AnalysisJobContext'
+
+// 현재 분석 작업 상태와 제어 함수
+export function useAnalysisJob(): AnalysisJobContextValue {
+  const context = useContext(AnalysisJobContext)
+  if (!context) {
+    throw new Error('useAnalysisJob은 AnalysisJobProvider 안에서 사용해야 합니다')
+  }
+  return context
+}
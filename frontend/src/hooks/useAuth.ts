@@ -0,0 +1,12 @@
+import { useContext } from 'react'
+import { AuthContext } from '../contexts/AuthContext'
+import type { AuthContextValue } from '../contexts/AuthContext'
+
+// 로그인 상태와 로그인/로그아웃
+export function useAuth(): AuthContextValue {
+  const context = useContext(AuthContext)
+  if (!context) {
+    throw new Error('useAuth는 AuthProvider 안에서 사용해야 합니다')
+  }
+  return context
+}
@@ -0,0 +1,12 @@
+import { useContext } from 'react'
+import { CloudSyncContext } from '../contexts/CloudSyncContext'
+import type { CloudSyncContextValue } from '../contexts/CloudSyncContext'
+
+// 계정 동기화 상태
+export function useCloudSync(): CloudSyncContextValue {
+  const context = useContext(CloudSyncContext)
+  if (!context) {
+    throw new Error('useCloudSync는 CloudSyncProvider 안에서 사용해야 합니다')
+  }
+  return context
+}
@@ -0,0 +1,13 @@
+import { useEffect, useState } from 'react'
+
+// value가 delay 동안 바뀌지 않으면 반영
+export function useDebouncedValue<T>(value: T, delay: number): T {
+  const [debounced, setDebounced] = useState(value)
+
+  useEffect(() => {
+    const timer = setTimeout(() => setDebounced(value), delay)
+    return () => clearTimeout(timer)
+  }, [value, delay])
+
+  return debounced
+}
@@ -0,0 +1,15 @@
+import { useCallback, useMemo, useSyncExternalStore } from 'react'
+import { favoriteMemberIds, getFavoriteRecords, setFavorite, subscribeFavorites } from '../storage/favorites'
+
+// 즐겨찾기 멤버 (로그인하면 계정과 동기화됨)
+export function useFavorites() {
+  const records = useSyncExternalStore(subscribeFavorites, getFavoriteRecords)
+  const favoriteIds = useMemo(() => favoriteMemberIds(records), [records])
+
+  const isFavorite = useCallback((memberId: string) => records[memberId]?.favorite === true, [records])
+  const toggleFavorite = useCallback((memberId: string) => {
+    setFavorite(memberId, getFavoriteRecords()[memberId]?.favorite !== true)
+  }, [])
+
+  return { favoriteIds, isFavorite, toggleFavorite }
+}
@@ -0,0 +1,12 @@
+import { useContext } from 'react'
+import { LocaleContext } from '../contexts/LocaleContext'
+import type { LocaleContextValue } from '../contexts/LocaleContext'
+
+// 현재 언어와 번역 함수
+export function useLocale(): LocaleContextValue {
+  const context = useContext(LocaleContext)
+  if (!context) {
+    throw new Error('useLocale은 LocaleProvider 안에서 사용해야 합니다')
+  }
+  return context
+}
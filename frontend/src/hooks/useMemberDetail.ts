@@ -0,0 +1,89 @@
+import { useCallback, useEffect, useMemo, useState } from 'react'
+import { api } from '../api/endpoints'
+import { describeError, isUnauthorized } from '../api/errors'
+import type { ErrorMessage } from '../api/errors'
+import type { MemberDetail } from '../types'
+
+interface MemberDetailState {
+  id: string
+  member: MemberDetail | null
+  error: ErrorMessage | null
+  requiresLogin: boolean
+}
+
+// 한 번 불러온 멤버는 페이지를 오가도 다시 요청하지 않음
+const memberCache = new Map<string, MemberDetail>()
+
+// 멤버 상세 (/api/members/{id})
+export function useMemberDetail(id: string | undefined) {
+  const [state, setState] = useState<MemberDetailState | null>(null)
+  const [attempt, setAttempt] = useState(0)
+
+  useEffect(() => {
+    if (!id || memberCache.has(id)) return
+    const controller = new AbortController()
+    api.getMember(id, { signal: controller.signal })
+      .then(member => {
+        memberCache.set(id, member)
+        setState({ id, member, error: null, requiresLogin: false })
+      })
+      .catch(e => {
+        if (controller.signal.aborted) return
+        console.error(`멤버 정보를 불러오지 못했습니다 (${id}):`, e)
+        setState({ id, member: null, error: describeError(e), requiresLogin: isUnauthorized(e) })
+      })
+    return () => controller.abort()
+  }, [id, attempt])
+
+  const reload = useCallback(() => {
+    if (id) memberCache.delete(id)
+    setState(null)
+    setAttempt(value => value + 1)
+  }, [id])
+
+  const cached = id ? memberCache.get(id) ?? null : null
+  const current = state?.id === id ? state : null
+  return {
+    member: cached ?? current?.member ?? null,
+    loading: !!id && !cached && !current,
+    error: cached ? null : current?.error ?? null,
+    requiresLogin: !cached && current?.requiresLogin === true,
+    reload
+  }
+}
+
+// 여러 멤버 상세 (비교 화면용, 실패한 멤버는 정보 없이 넘어감)
+export function useMemberDetails(ids: string[]) {
+  const key = ids.join('\n')
+  const [fetched, setFetched] = useState<Record<string, MemberDetail | null>>({})
+
+  useEffect(() => {
+    const missing = key.split('\n').filter(id => id && !memberCache.has(id))
+    if (missing.length === 0) return
+    const controller = new AbortController()
+    missing.forEach(id => {
+      api.getMember(id, { signal: controller.signal })
+        .then(member => {
+          memberCache.set(id, member)
+          setFetched(prev => ({ ...prev, [id]: member }))
+        })
+        .catch(e => {
+          if (controller.signal.aborted) return
+          console.warn(`멤버 정보 없이 비교합니다 (${id}):`, e)
+          setFetched(prev => ({ ...prev, [id]: null }))
+        })
+    })
+    return () => controller.abort()
+  }, [key])
+
+  return useMemo(() => {
+    const members: Record<string, MemberDetail | null> = {}
+    let loading = false
+    key.split('\n').filter(Boolean).forEach(id => {
+      const member = memberCache.get(id) ?? fetched[id]
+      if (member === undefined) loading = true
+      members[id] = member ?? null
+    })
+    return { members, loading }
+  }, [key, fetched])
+}
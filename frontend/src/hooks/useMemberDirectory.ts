@@ -0,0 +1,55 @@
+import { useCallback, useEffect, useState } from 'react'
+import { api } from '../api/endpoints'
+import { describeError, isUnauthorized } from '../api/errors'
+import type { ErrorMessage } from '../api/errors'
+import type { Member } from '../types'
+
+interface MemberDirectoryState {
+  key: string
+  members: Member[]
+  error: ErrorMessage | null
+  // 게스트라 게이트웨이가 요청을 거절함
+  requiresLogin: boolean
+}
+
+// 지부별 목록 캐시 ('all' = 전체)
+const directoryCache = new Map<string, Member[]>()
+
+// 멤버 목록 (지부를 고르면 /api/members/branch/{code}, 아니면 /api/members)
+export function useMemberDirectory(branch: Member['branch'] | null) {
+  const key = branch ?? 'all'
+  const [state, setState] = useState<MemberDirectoryState | null>(null)
+  const [attempt, setAttempt] = useState(0)
+
+  useEffect(() => {
+    if (directoryCache.has(key)) return
+    const controller = new AbortController()
+    api.listMembers(branch ?? undefined, { signal: controller.signal })
+      .then(members => {
+        directoryCache.set(key, members)
+        setState({ key, members, error: null, requiresLogin: false })
+      })
+      .catch(e => {
+        if (controller.signal.aborted) return
+        console.error(`멤버 목록을 불러오지 못했습니다 (${key}):`, e)
+        setState({ key, members: [], error: describeError(e), requiresLogin: isUnauthorized(e) })
+      })
+    return () => controller.abort()
+  }, [key, branch, attempt])
+
+  const reload = useCallback(() => {
+    directoryCache.delete(key)
+    setState(null)
+    setAttempt(value => value + 1)
+  }, [key])
+
+  const cached = directoryCache.get(key) ?? null
+  const current = state?.key === key ? state : null
+  return {
+    members: cached ?? current?.members ?? [],
+    loading: !cached && !current,
+    error: cached ? null : current?.error ?? null,
+    requiresLogin: !cached && current?.requiresLogin === true,
+    reload
+  }
+}
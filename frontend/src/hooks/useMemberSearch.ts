@@ -0,0 +1,49 @@
+import { useEffect, useState } from 'react'
+import { describeError, isUnauthorized } from '../api/errors'
+import type { ErrorMessage } from '../api/errors'
+import { searchMembers } from '../services/memberSearch'
+import type { SearchResponse } from '../types'
+
+interface MemberSearchState {
+  query: string
+  response: SearchResponse | null
+  error: ErrorMessage | null
+  requiresLogin: boolean
+}
+
+export const MIN_QUERY_LENGTH = 2
+const SEARCH_LIMIT = 20
+// 자연어 질의는 유사도가 낮게 나오는 편이라 서버 기본값(0.7)보다 낮춤
+const SEARCH_THRESHOLD = 0.3
+
+// 질의가 바뀔 때마다 검색 (이전 요청은 취소)
+export function useMemberSearch(query: string) {
+  const trimmed = query.trim()
+  const enabled = trimmed.length >= MIN_QUERY_LENGTH
+  const [state, setState] = useState<MemberSearchState | null>(null)
+
+  useEffect(() => {
+    if (!enabled) return
+    const controller = new AbortController()
+    searchMembers(
+      { query: trimmed, limit: SEARCH_LIMIT, threshold: SEARCH_THRESHOLD, activeOnly: false },
+      { signal: controller.signal }
+    )
+      .then(response => setState({ query: trimmed, response, error: null, requiresLogin: false }))
+      .catch(e => {
+        if (controller.signal.aborted) return
+        console.error(`검색 실패 (${trimmed}):`, e)
+        setState({ query: trimmed, response: null, error: describeError(e), requiresLogin: isUnauthorized(e) })
+      })
+    return () => controller.abort()
+  }, [trimmed, enabled])
+
+  const current = enabled && state?.query === trimmed ? state : null
+  return {
+    // 새 결과가 오기 전까지 이전 결과를 유지해 목록이 깜빡이지 않게
+    response: enabled ? current?.response ?? state?.response ?? null : null,
+    loading: enabled && !current,
+    error: current?.error ?? null,
+    requiresLogin: current?.requiresLogin === true
+  }
+}
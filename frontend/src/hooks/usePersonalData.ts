@@ -0,0 +1,69 @@
+import { useCallback, useEffect, useState } from 'react'
+import { api } from '../api/endpoints'
+import { deleteLocalPersonalData, exportPersonalData, importPersonalData, parsePersonalDataExport, summarizePersonalData } from '../services/personalData'
+import type { DataCategorySummary, ImportOutcome } from '../services/personalData'
+import type { ThemeMode } from '../types'
+import { downloadBlob } from '../utils/resultCard'
+import { useAnalysisJob } from './useAnalysisJob'
+import { useAuth } from './useAuth'
+import { useCloudSync } from './useCloudSync'
+import { useLocale } from './useLocale'
+
+interface PersonalDataOptions {
+  theme: ThemeMode
+  onThemeChange: (theme: ThemeMode) => void
+}
+
+// 개인정보 센터: 저장된 데이터 요약, 내보내기/가져오기, 전체 삭제
+// 로그인 상태면 삭제할 때 계정 데이터도 지우고 로그아웃 (계정 삭제가 실패하면 아무것도 지우지 않음)
+export function usePersonalData({ theme, onThemeChange }: PersonalDataOptions) {
+  const { locale, setLocale } = useLocale()
+  const { isGuest, logout } = useAuth()
+  const { syncNow } = useCloudSync()
+  const { resetAnalysis } = useAnalysisJob()
+  const [categories, setCategories] = useState<DataCategorySummary[]>([])
+  const [loading, setLoading] = useState(true)
+
+  const reload = useCallback(async () => {
+    try {
+      setCategories(await summarizePersonalData())
+    } catch (e) {
+      console.error('저장된 데이터를 확인하지 못했습니다:', e)
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    void reload()
+  }, [reload])
+
+  const exportData = useCallback(async () => {
+    const data = await exportPersonalData({ theme, locale })
+    const blob = new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' })
+    downloadBlob(blob, `holo-oshi-data-${data.exportedAt.slice(0, 10)}.json`)
+  }, [theme, locale])
+
+  // 파일 형식이 틀리면 PersonalDataFormatError, JSON이 아니면 SyntaxError
+  const importFile = useCallback(async (file: File): Promise<ImportOutcome> => {
+    const data = parsePersonalDataExport(JSON.parse(await file.text()))
+    const outcome = await importPersonalData(data, { theme, locale })
+    if (outcome.apply.theme) onThemeChange(outcome.apply.theme)
+    if (outcome.apply.locale) setLocale(outcome.apply.locale)
+    await reload()
+    syncNow()
+    return outcome
+  }, [theme, locale, onThemeChange, setLocale, reload, syncNow])
+
+  const deleteAll = useCallback(async () => {
+    if (!isGuest) await api.deleteUserData()
+    // 로그아웃으로 동기화를 먼저 멈춘 뒤 지움 (지운 직후 계정에 다시 올리지 않도록)
+    const loggingOut = isGuest ? Promise.resolve() : logout()
+    resetAnalysis()
+    await deleteLocalPersonalData()
+    await loggingOut
+    await reload()
+  }, [isGuest, logout, resetAnalysis, reload])
+
+  return { categories, loading, isGuest, reload, exportData, importFile, deleteAll }
+}
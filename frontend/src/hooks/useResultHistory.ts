@@ -0,0 +1,48 @@
+import { useCallback, useEffect, useState } from 'react'
+import { deleteHistoryEntry, listHistoryEntries } from '../storage/resultHistory'
+import type { ResultHistoryEntry } from '../storage/resultHistory'
+import { recordDeletedResult } from '../storage/cloudSync'
+import type { ErrorMessage } from '../api/errors'
+import { useAnalysisJob } from './useAnalysisJob'
+import { useAuth } from './useAuth'
+import { useCloudSync } from './useCloudSync'
+
+interface ResultHistoryState {
+  entries: ResultHistoryEntry[]
+  loading: boolean
+  error: ErrorMessage | null
+}
+
+// 결과 기록 목록 (다른 탭에서 끝난 분석이나 계정 동기화로 받은 결과가 생기면 다시 불러옴)
+export function useResultHistory() {
+  const { lastResult } = useAnalysisJob()
+  const { historyChangedAt, syncNow } = useCloudSync()
+  const { user } = useAuth()
+  const userId = user?.id ?? null
+  const latestJobId = lastResult?.jobId ?? null
+  const [state, setState] = useState<ResultHistoryState>({ entries: [], loading: true, error: null })
+
+  const reload = useCallback(async () => {
+    try {
+      const entries = await listHistoryEntries()
+      setState({ entries, loading: false, error: null })
+    } catch (e) {
+      console.error('결과 기록을 불러오지 못했습니다:', e)
+      setState(prev => ({ ...prev, loading: false, error: { key: 'history.loadFailed' } }))
+    }
+  }, [])
+
+  useEffect(() => {
+    void reload()
+  }, [reload, latestJobId, historyChangedAt])
+
+  // 삭제 기록을 남겨 계정과 다른 기기에서도 지움 (로그인하지 않았으면 이 기기에만 남김)
+  const remove = useCallback(async (id: string) => {
+    await deleteHistoryEntry(id)
+    recordDeletedResult(userId, id)
+    setState(prev => ({ ...prev, entries: prev.entries.filter(entry => entry.id !== id) }))
+    syncNow()
+  }, [userId, syncNow])
+
+  return { ...state, reload, remove }
+}
@@ -0,0 +1,12 @@
+import { useContext } from 'react'
+import { ServiceHealthContext } from '../contexts/ServiceHealthContext'
+import type { ServiceHealthContextValue } from '../contexts/ServiceHealthContext'
+
+// 백엔드 서비스 상태 (폴링 결과)
+export function useServiceHealth(): ServiceHealthContextValue {
+  const context = useContext(ServiceHealthContext)
+  if (!context) {
+    throw new Error('useServiceHealth는 ServiceHealthProvider 안에서 사용해야 합니다')
+  }
+  return context
+}
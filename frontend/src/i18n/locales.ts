@@ -0,0 +1,59 @@
+import { defineLocalStore } from '../storage/localStore'
+
+// 지원 언어와 언어 감지 (저장된 선택 → 브라우저 언어 → 한국어)
+
+export type Locale = 'ko' | 'ja' | 'en'
+
+export const LOCALES: Locale[] = ['ko', 'ja', 'en']
+
+export const DEFAULT_LOCALE: Locale = 'ko'
+
+// 언어 선택 메뉴에 표시하는 이름 (각 언어로)
+export const LOCALE_LABELS: Record<Locale, string> = {
+  ko: '한국어',
+  ja: '日本語',
+  en: 'English'
+}
+
+// 날짜/시간 표시용 BCP 47 태그
+export const LOCALE_TAGS: Record<Locale, string> = {
+  ko: 'ko-KR',
+  ja: 'ja-JP',
+  en: 'en-US'
+}
+
+
+export function isLocale(value: unknown): value is Locale {
+  return typeof value === 'string' && (LOCALES as string[]).includes(value)
+}
+
+// 'ja-JP', 'en-GB' 같은 브라우저 언어를 지원 언어로
+function matchLocale(language: string): Locale | null {
+  const base = language.toLowerCase().split('-')[0]
+  return isLocale(base) ? base : null
+}
+
+// 사용자가 고른 언어 (고른 적 없으면 null)
+const store = defineLocalStore<Locale | null>({
+  name: 'locale',
+  version: 1,
+  parse: data => isLocale(data) ? data : null,
+  fallback: null,
+  legacyKey: 'locale'
+})
+
+export function detectLocale(): Locale {
+  const saved = store.read()
+  if (saved) return saved
+
+  const languages = navigator.languages?.length ? navigator.languages : [navigator.language]
+  for (const language of languages) {
+    const matched = language ? matchLocale(language) : null
+    if (matched) return matched
+  }
+  return DEFAULT_LOCALE
+}
+
+export function saveLocale(locale: Locale): void {
+  store.write(locale)
+}
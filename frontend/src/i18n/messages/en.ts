@@ -0,0 +1,314 @@
+import type { Messages } from './ko'
+
+// 영어 메시지 카탈로그
+
+const en: Messages = {
+  'common.home': 'Home',
+  'common.close': 'Close',
+  'common.delete': 'Delete',
+  'common.retry': 'Retry',
+  'common.matchScore': '{percent}% match',
+  'common.language': 'Language',
+  'common.back': 'Back',
+  'common.cancel': 'Cancel',
+  'common.memberCount': '{count} members',
+
+  'home.tagline': 'Find your hololive oshi with AI-powered analysis',
+  'home.health.checking': 'Checking service status...',
+  'home.health.down': 'Cannot connect to the service.',
+  'home.health.notReady': 'The AI analysis service is not responding, so the test cannot start right now.',
+  'home.health.degraded': 'Some services are degraded. Results may be slow or missing some details.',
+  'home.health.member': 'Member info',
+  'home.health.vector': 'Vector search',
+  'home.health.llmAnalyzer': 'AI analysis',
+  'home.health.nextCheck': 'Checking again at {time}',
+  'home.health.recheck': 'Check again',
+  'home.quiz.title': 'Find My Oshi',
+  'home.quiz.descriptionLine1': 'Answer {count} questions and AI will find',
+  'home.quiz.descriptionLine2': 'the hololive member who suits you best',
+  'home.start': 'Start →',
+  'home.startOffline': 'Start with offline prediction →',
+  'home.startPreparing': 'Start → (preparing)',
+  'home.startMaintenance': 'Start → (under maintenance)',
+  'home.startFresh': 'Start over →',
+  'home.browseMembers': 'Browse members',
+  'home.searchMembers': 'Search members',
+  'home.newFeatures.title': 'New features',
+  'home.newFeatures.line1': 'New features will be',
+  'home.newFeatures.line2': 'added regularly',
+  'home.newFeatures.status': 'Planning 0%',
+  'home.report.title': 'Oshi analysis report',
+  'home.report.line1': 'A detailed report',
+  'home.report.line2': 'on your preferences',
+  'home.draft.title': 'You have an unfinished quiz',
+  'home.draft.summary': '{count} answered · saved {time}',
+  'home.draft.resume': 'Continue →',
+  'home.job.failed': 'Analysis failed',
+  'home.job.cancelled': 'Analysis was cancelled',
+  'home.job.offlinePreMatch': 'A prediction computed only from your answer traits and saved member data, without AI analysis',
+  'home.analyzing.title': 'AI is analyzing your oshi',
+  'home.analyzing.subtitle': 'Your result will appear automatically when the analysis is done',
+  'home.analyzing.preMatch': 'A quick prediction from your answer traits. The AI result may differ',
+  'home.analyzing.cancel': 'Cancel analysis',
+  'home.lastResult.title': 'My oshi match result',
+  'home.lastResult.view': 'View result →',
+  'home.lastResult.history': 'View all past results',
+  'home.lastResult.empty': 'No match results yet',
+
+  'auth.login': 'Log in',
+  'auth.logout': 'Log out',
+  'auth.title': 'Log in',
+  'auth.subtitle': 'Log in to browse and search members',
+  'auth.email': 'Email',
+  'auth.password': 'Password',
+  'auth.emailRequired': 'Please enter your email',
+  'auth.passwordRequired': 'Please enter your password',
+  'auth.submit': 'Log in',
+  'auth.continueAsGuest': 'Continue without logging in',
+  'auth.guestHint': 'You can take the oshi quiz without an account',
+  'auth.invalidCredentials': 'Incorrect email or password',
+  'auth.welcome': 'Welcome, {name}',
+  'auth.loggedOut': 'You have logged out',
+  'auth.expired': 'Your login has expired. Please log in again.',
+
+  'favorite.add': 'Add to favorites',
+  'favorite.remove': 'Remove from favorites',
+  'sync.migrated': 'Saved {count} results from this device to your account',
+
+  'privacy.link': 'Privacy center',
+  'privacy.title': 'Privacy center',
+  'privacy.subtitle': 'See what this device stores, move it to another device, or delete all of it.',
+  'privacy.home': 'Home',
+  'privacy.stored.title': 'Stored data',
+  'privacy.count': '{count}',
+  'privacy.exported': 'Included in export',
+  'privacy.notExported': 'Not exported',
+  'privacy.category.results.title': 'Result history',
+  'privacy.category.results.description': 'Your past analysis results and the answers you submitted',
+  'privacy.category.quizDraft.title': 'Quiz in progress',
+  'privacy.category.quizDraft.description': 'Answers not yet submitted (deleted automatically after 7 days)',
+  'privacy.category.favorites.title': 'Favorites',
+  'privacy.category.favorites.description': 'Members you added to favorites',
+  'privacy.category.recentSearches.title': 'Recent searches',
+  'privacy.category.recentSearches.description': 'Keywords entered in member search (last 10)',
+  'privacy.category.preferences.title': 'Settings',
+  'privacy.category.preferences.description': 'Theme and language, and when you changed them',
+  'privacy.category.account.title': 'Login',
+  'privacy.category.account.description': 'Login tokens and account sync records (not exported because they only work on this device)',
+  'privacy.category.cache.title': 'Member info cache',
+  'privacy.category.cache.description': 'Member traits used for offline predictions (not personal data, can be downloaded again)',
+  'privacy.export.title': 'Export',
+  'privacy.export.description': 'Saves your result history (with answers), quiz in progress, favorites, recent searches and settings to a single JSON file.',
+  'privacy.export.button': 'Export as JSON',
+  'privacy.export.failed': 'Could not export your data',
+  'privacy.import.title': 'Import',
+  'privacy.import.description': 'Merges a file exported on another device into this device. Existing results are kept, and for favorites and settings the most recent change wins.',
+  'privacy.import.button': 'Choose file',
+  'privacy.import.succeeded': 'Imported {count} results, favorites and settings',
+  'privacy.import.invalid': 'This file was not exported from this app',
+  'privacy.import.failed': 'Could not import your data',
+  'privacy.delete.title': 'Delete all data',
+  'privacy.delete.description': 'Deletes all result history, answers, favorites, searches and settings stored on this device. This cannot be undone, so export first if you need a copy.',
+  'privacy.delete.account': 'Data saved to your account will also be deleted, and you will be logged out.',
+  'privacy.delete.button': 'Delete everything',
+  'privacy.delete.confirm': 'Delete all of your data?',
+  'privacy.delete.confirmOk': 'Delete',
+  'privacy.delete.confirmCancel': 'Cancel',
+  'privacy.delete.succeeded': 'All data has been deleted',
+  'privacy.delete.failed': 'Could not delete your data: {error}',
+
+  'job.succeeded': 'Analysis complete! Check out your result.',
+
+  'quiz.previous': 'Previous question',
+  'quiz.next': 'Next',
+  'quiz.skip': 'Skip',
+  'quiz.submitMultiple': 'Done ({count} selected)',
+  'quiz.started': 'Analysis started. You can follow its progress on the home screen.',
+
+  'analysis.stage.candidateRetrieval': 'Candidate search',
+  'analysis.stage.rag': 'Gathering sources',
+  'analysis.stage.llmReasoning': 'AI reasoning',
+  'analysis.stage.ranking': 'Ranking',
+  'analysis.found': 'Members found so far',
+  'analysis.thinking': 'Show AI reasoning',
+
+  'preMatch.title': 'Quick prediction',
+  'preMatch.agreement': '{matched}/{total} match the AI picks',
+  'preMatch.aiRank': 'AI #{rank}',
+  'preMatch.notRecommended': 'Not in AI picks',
+  'preMatch.pending': 'Checking',
+
+  'result.notFound': 'Result not found',
+  'result.loadFailed': 'Could not load the result',
+  'result.historyMissing': 'This record was deleted or does not exist',
+  'result.shareInvalid': 'The share link is invalid or damaged',
+  'result.backHome': 'Back to home',
+  'result.title': 'Your oshi analysis',
+  'result.sharedTitle': 'Shared oshi analysis',
+  'result.createdAt': 'Result from {time}',
+  'result.tryIt': 'Take the test',
+  'result.saveImage': 'Save image',
+  'result.share': 'Share',
+  'result.history': 'History',
+  'result.retake': 'Retake',
+  'result.shareHeadline': 'My oshi is {name}!',
+  'result.shareCopied': 'Share link copied',
+  'result.shareFailed': 'Could not create a share link',
+  'result.viewProfile': 'View profile',
+  'result.addToCompare': 'Add to comparison',
+  'result.compareShort': 'Compare',
+  'result.strengths': 'Strengths',
+  'result.contentRecommendations': 'Recommended content',
+  'result.matchBreakdown': 'Why this match',
+  'result.matchBreakdownOf': 'Why {name}',
+  'result.others': 'Other recommended members',
+  'result.preMatchComparison': 'The prediction made from your answer traits before the analysis, compared with the AI picks',
+  'result.profile.title': 'Your preference profile',
+  'result.profile.traits': 'Preferred traits',
+  'result.profile.personality': 'Personality match',
+  'result.overall': 'Overall analysis',
+  'result.confidence': 'Confidence: {percent}%',
+  'result.processingTime': 'Processing time: {ms}ms',
+  'result.cached': ' (cached)',
+  'result.compare.limit': 'You can compare up to {max} members',
+  'result.compare.selected': '{count} selected',
+  'result.compare.minimum': ' (select at least {min})',
+  'result.compare.clear': 'Clear',
+  'result.compare.open': 'Compare',
+
+  'history.title': 'My results',
+  'history.newTest': 'New test',
+  'history.sync.failed': 'Account sync failed: {error}',
+  'history.sync.guest': 'Log in to see your results and favorites on other devices',
+  'history.sync.syncing': 'Syncing with your account...',
+  'history.sync.synced': 'Synced with your account · {time}',
+  'history.sync.pending': 'Waiting to sync with your account',
+  'history.empty': 'No saved results yet',
+  'history.loadFailed': 'Could not load your results',
+  'history.changes': 'Oshi history',
+  'history.mostFrequent': '{name} in {count} of {total}',
+  'history.changed': 'Changed',
+  'history.favorites': 'Favorite members',
+  'history.noRecommendation': 'No recommendation',
+  'history.answers': ' · {count} answers',
+  'history.deleteConfirm': 'Delete this result?',
+  'history.deleted': 'Result deleted',
+  'history.deleteFailed': 'Could not delete the result',
+
+  'breakdown.note': 'These contributions are estimates from comparing your answers with member traits',
+  'breakdown.noMatch': 'No traits directly linked to your answers were found',
+  'breakdown.byCategory': 'Contribution by category',
+  'breakdown.answered': 'Answers {matched}/{answered}',
+  'breakdown.evidence': 'Answers behind this match',
+  'breakdown.share': ' · {percent}% contribution',
+  'breakdown.unmatched': 'Answers and traits without a direct link',
+  'breakdown.otherTraits': 'Other matching traits found by the AI',
+
+  'category.language': 'Language',
+  'category.schedule': 'Schedule',
+  'category.content': 'Content',
+  'category.gaming': 'Games',
+  'category.music': 'Music',
+  'category.voice': 'Voice',
+  'category.vibe': 'Vibe',
+  'category.personality': 'Personality',
+  'category.interaction': 'Interaction',
+  'category.skills': 'Skills',
+  'category.values': 'Values',
+  'category.generation': 'Generation',
+  'category.free': 'Free text',
+  'category.general': 'Other',
+
+  'compare.title': 'Compare recommended members',
+  'compare.sharedHint': 'Pink traits are shared by all selected members',
+  'compare.highest': 'Highest',
+  'compare.score': 'Match',
+  'compare.profile': 'Branch',
+  'compare.traits': 'Matching traits',
+  'compare.strengths': 'Strengths',
+  'compare.considerations': 'Considerations',
+  'compare.reasoning': 'Why recommended',
+  'compare.streaming': 'Streaming patterns',
+  'compare.more': 'More',
+
+  'member.status.active': 'Active',
+  'member.status.graduated': 'Graduated',
+  'member.status.inactive': 'Inactive',
+  'member.sort.name': 'Name',
+  'member.sort.debutNewest': 'Newest debut',
+  'member.sort.debutOldest': 'Oldest debut',
+  'member.sort.generation': 'Generation',
+  'member.loadFailed': 'Could not load this member',
+  'member.profile.generation': 'Generation',
+  'member.profile.unit': 'Unit',
+  'member.profile.debut': 'Debut',
+  'member.profile.birthday': 'Birthday',
+  'member.profile.fanbase': 'Fan name',
+  'member.noEnrichedData': 'No additional information yet',
+  'member.skills': 'Skills',
+  'member.catchphrases': 'Catchphrases',
+  'member.moments': 'Famous moments',
+  'member.streamingPatterns': 'Streaming patterns',
+
+  'members.title': 'Browse members',
+  'members.copyLink': 'Copy link',
+  'members.linkCopied': 'Copied a link to the current filters',
+  'members.linkCopyFailed': 'Could not copy the link',
+  'members.filter.all': 'All',
+  'members.filter.generation': 'Generation',
+  'members.filter.status': 'Status',
+  'members.filter.traits': 'Traits (match all)',
+  'members.filter.reset': 'Reset filters',
+  'members.empty': 'No members match these filters',
+
+  'search.title': 'Member search',
+  'search.placeholder': 'Describe the vibe you want (e.g. {example})',
+  'search.clearRecent': 'Clear recent searches',
+  'search.hint': 'Describe what you like and we will find members with a similar style',
+  'search.noResults': "No members found for '{query}'",
+  'search.similarity': 'Similarity {percent}%',
+  'search.vectorSource': ' · vector search',
+  'search.example.asmr': 'calm late-night ASMR',
+  'search.example.gaming': 'high-energy gaming streams',
+  'search.example.singing': 'English-speaking members who sing well',
+  'search.example.english': 'chill late-night ASMR in English',
+
+  'resultCard.title': 'Save result image',
+  'resultCard.download': 'Save PNG',
+  'resultCard.failed': "Couldn't create the image",
+  'resultCard.saved': 'Image saved',
+  'resultCard.dark': 'Dark',
+  'resultCard.light': 'Light',
+  'resultCard.preview': 'Result card preview',
+  'resultCard.preset.story': 'Story (9:16)',
+  'resultCard.preset.square': 'Square (1:1)',
+  'resultCard.preset.landscape': 'Landscape (1.91:1)',
+  'resultCard.headline': 'My oshi is',
+  'resultCard.others': 'Also recommended',
+
+  'error.network': 'Cannot reach the server. Please check your internet connection.',
+  'error.timeout': 'The server did not respond within {seconds} seconds. Please try again shortly.',
+  'error.badRequest': 'The request was not in a valid format.',
+  'error.unauthorized': 'You need to log in.',
+  'error.forbidden': 'You do not have permission to use this feature.',
+  'error.notFound': 'The requested information could not be found.',
+  'error.unavailable': 'The service is temporarily not responding. Please try again shortly.',
+  'error.server': 'Something went wrong on the server. Please try again shortly.',
+  'error.http': 'The request could not be processed. ({status})',
+  'error.unknown': 'The request could not be processed.',
+  'error.memberNotFound': 'Member not found.',
+  'error.invalidBranch': 'This branch is not supported.',
+  'error.searchTimeout': 'The search timed out. Try a shorter query.',
+  'error.serviceUnavailable': 'The service is temporarily unavailable. Please try again shortly.',
+  'error.streamError': 'The server hit an error during analysis. Please try again.',
+  'error.invalidInput': 'Please check what you entered and try again.',
+  'error.tokenExpired': 'Your login has expired. Please log in again.',
+  'error.invalidCredentials': 'The email or password is incorrect.',
+  'error.envelope': 'A server error occurred. ({code})',
+  'error.validation': 'The server response was not in the expected format. Please refresh and try again.',
+  'error.rateLimit': 'Too many requests. Please try again shortly.',
+  'error.rateLimitRetryAfter': 'Too many requests. Please try again in {seconds} seconds.',
+  'error.cancelled': 'The request was cancelled.'
+}
+
+export default en
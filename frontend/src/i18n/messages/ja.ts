@@ -0,0 +1,314 @@
+import type { Messages } from './ko'
+
+// 일본어 메시지 카탈로그
+
+const ja: Messages = {
+  'common.home': 'ホームへ',
+  'common.close': '閉じる',
+  'common.delete': '削除',
+  'common.retry': '再試行',
+  'common.matchScore': 'マッチ度 {percent}%',
+  'common.language': '言語',
+  'common.back': '戻る',
+  'common.cancel': 'キャンセル',
+  'common.memberCount': '{count}人',
+
+  'home.tagline': 'AIが分析する、あなただけのホロライブ推しメン探し',
+  'home.health.checking': 'サービスの状態を確認しています...',
+  'home.health.down': 'サービスに接続できません。',
+  'home.health.notReady': 'AI分析サービスが応答しないため、現在テストを開始できません。',
+  'home.health.degraded': '一部のサービスが不安定です。結果が遅れたり、一部の情報が欠けることがあります。',
+  'home.health.member': 'メンバー情報',
+  'home.health.vector': 'ベクトル検索',
+  'home.health.llmAnalyzer': 'AI分析',
+  'home.health.nextCheck': '{time}に再確認します',
+  'home.health.recheck': '再確認',
+  'home.quiz.title': '推し診断',
+  'home.quiz.descriptionLine1': '{count}個の質問で、あなたにぴったりの',
+  'home.quiz.descriptionLine2': 'ホロライブメンバーをAIが見つけます',
+  'home.start': 'はじめる →',
+  'home.startOffline': 'オフライン予測ではじめる →',
+  'home.startPreparing': 'はじめる →（準備中）',
+  'home.startMaintenance': 'はじめる →（メンテナンス中）',
+  'home.startFresh': '最初から始める →',
+  'home.browseMembers': 'メンバー一覧',
+  'home.searchMembers': 'メンバー検索',
+  'home.newFeatures.title': '新機能',
+  'home.newFeatures.line1': '新しい機能を定期的に',
+  'home.newFeatures.line2': '追加していく予定です',
+  'home.newFeatures.status': '企画中 0%',
+  'home.report.title': '推し分析レポート',
+  'home.report.line1': 'あなたの好みを詳しく',
+  'home.report.line2': '分析したレポートを提供',
+  'home.draft.title': '回答途中の診断があります',
+  'home.draft.summary': '{count}問回答済み · {time} 保存',
+  'home.draft.resume': '続きから →',
+  'home.job.failed': '分析に失敗しました',
+  'home.job.cancelled': '分析がキャンセルされました',
+  'home.job.offlinePreMatch': 'AI分析を使わず、回答の特性と保存済みのメンバー情報だけで計算した予測結果です',
+  'home.analyzing.title': 'AIがあなたの推しを分析しています',
+  'home.analyzing.subtitle': '分析が終わると自動で結果が表示されます',
+  'home.analyzing.preMatch': '回答の特性から先に計算した予測結果です。AI分析の結果とは異なる場合があります',
+  'home.analyzing.cancel': '分析をキャンセル',
+  'home.lastResult.title': 'あなたの推し診断結果',
+  'home.lastResult.view': '結果を見る →',
+  'home.lastResult.history': '過去の結果をすべて見る',
+  'home.lastResult.empty': 'まだ診断結果がありません',
+
+  'auth.login': 'ログイン',
+  'auth.logout': 'ログアウト',
+  'auth.title': 'ログイン',
+  'auth.subtitle': 'ログインするとメンバー一覧と検索が使えます',
+  'auth.email': 'メールアドレス',
+  'auth.password': 'パスワード',
+  'auth.emailRequired': 'メールアドレスを入力してください',
+  'auth.passwordRequired': 'パスワードを入力してください',
+  'auth.submit': 'ログイン',
+  'auth.continueAsGuest': 'ログインせずに続ける',
+  'auth.guestHint': '推し診断はログインしなくても利用できます',
+  'auth.invalidCredentials': 'メールアドレスまたはパスワードが正しくありません',
+  'auth.welcome': '{name}さん、ようこそ',
+  'auth.loggedOut': 'ログアウトしました',
+  'auth.expired': 'ログインの有効期限が切れました。もう一度ログインしてください。',
+
+  'favorite.add': 'お気に入りに追加',
+  'favorite.remove': 'お気に入りから外す',
+  'sync.migrated': 'この端末の結果{count}件をアカウントに保存しました',
+
+  'privacy.link': 'プライバシーセンター',
+  'privacy.title': 'プライバシーセンター',
+  'privacy.subtitle': 'この端末に保存されたデータを確認し、他の端末へ移したり、すべて削除したりできます。',
+  'privacy.home': 'ホームへ',
+  'privacy.stored.title': '保存されているデータ',
+  'privacy.count': '{count}件',
+  'privacy.exported': 'エクスポート対象',
+  'privacy.notExported': 'エクスポート対象外',
+  'privacy.category.results.title': '結果履歴',
+  'privacy.category.results.description': 'これまでの診断結果と、その時に送信した回答',
+  'privacy.category.quizDraft.title': '回答途中の診断',
+  'privacy.category.quizDraft.description': 'まだ送信していない回答（7日後に自動削除）',
+  'privacy.category.favorites.title': 'お気に入り',
+  'privacy.category.favorites.description': 'お気に入りに登録したメンバー',
+  'privacy.category.recentSearches.title': '最近の検索',
+  'privacy.category.recentSearches.description': 'メンバー検索で入力したキーワード（最新10件）',
+  'privacy.category.preferences.title': '設定',
+  'privacy.category.preferences.description': 'テーマと言語、変更した日時',
+  'privacy.category.account.title': 'ログイン情報',
+  'privacy.category.account.description': 'ログイントークンとアカウント同期の記録（他の端末では使えないためエクスポートしません）',
+  'privacy.category.cache.title': 'メンバー情報キャッシュ',
+  'privacy.category.cache.description': 'オフライン予測に使うメンバーの特徴（個人情報ではなく、再取得できます）',
+  'privacy.export.title': 'エクスポート',
+  'privacy.export.description': '結果履歴（回答を含む）、回答途中の診断、お気に入り、最近の検索、設定を1つのJSONファイルに保存します。',
+  'privacy.export.button': 'JSONでエクスポート',
+  'privacy.export.failed': 'データをエクスポートできませんでした',
+  'privacy.import.title': 'インポート',
+  'privacy.import.description': '他の端末でエクスポートしたファイルをこの端末のデータと統合します。既存の結果はそのまま残し、お気に入りと設定はより新しく変更された方を採用します。',
+  'privacy.import.button': 'ファイルを選択',
+  'privacy.import.succeeded': '結果{count}件とお気に入り、設定をインポートしました',
+  'privacy.import.invalid': 'このアプリでエクスポートしたファイルではありません',
+  'privacy.import.failed': 'データをインポートできませんでした',
+  'privacy.delete.title': 'すべてのデータを削除',
+  'privacy.delete.description': 'この端末に保存された結果履歴、回答、お気に入り、検索履歴、設定をすべて削除します。元に戻せないため、必要なら先にエクスポートしてください。',
+  'privacy.delete.account': 'ログイン中のアカウントに保存されたデータも削除し、ログアウトします。',
+  'privacy.delete.button': 'すべて削除',
+  'privacy.delete.confirm': '本当にすべてのデータを削除しますか？',
+  'privacy.delete.confirmOk': '削除',
+  'privacy.delete.confirmCancel': 'キャンセル',
+  'privacy.delete.succeeded': 'すべてのデータを削除しました',
+  'privacy.delete.failed': 'データを削除できませんでした: {error}',
+
+  'job.succeeded': '分析が完了しました！結果を確認してみましょう。',
+
+  'quiz.previous': '前の質問',
+  'quiz.next': '次へ',
+  'quiz.skip': 'スキップ',
+  'quiz.submitMultiple': '選択完了（{count}個）',
+  'quiz.started': '分析を開始しました。進行状況はホーム画面で確認できます。',
+
+  'analysis.stage.candidateRetrieval': '候補検索',
+  'analysis.stage.rag': '資料収集',
+  'analysis.stage.llmReasoning': 'AI推論',
+  'analysis.stage.ranking': '順位決定',
+  'analysis.found': 'これまでに見つかったメンバー',
+  'analysis.thinking': 'AIの思考過程を見る',
+
+  'preMatch.title': 'クイック予測',
+  'preMatch.agreement': 'AIのおすすめと{matched}/{total}人一致',
+  'preMatch.aiRank': 'AI {rank}位',
+  'preMatch.notRecommended': 'AIのおすすめ外',
+  'preMatch.pending': '確認中',
+
+  'result.notFound': '結果が見つかりません',
+  'result.loadFailed': '結果を読み込めません',
+  'result.historyMissing': '削除されたか存在しない記録です',
+  'result.shareInvalid': '共有リンクが正しくないか、破損しています',
+  'result.backHome': 'ホームに戻る',
+  'result.title': 'あなたの推し診断結果',
+  'result.sharedTitle': '共有された推し診断結果',
+  'result.createdAt': '{time}の結果',
+  'result.tryIt': '自分も診断する',
+  'result.saveImage': '画像を保存',
+  'result.share': '共有',
+  'result.history': '履歴',
+  'result.retake': 'もう一度診断',
+  'result.shareHeadline': '私の推しは{name}！',
+  'result.shareCopied': '共有リンクをコピーしました',
+  'result.shareFailed': '共有リンクを作成できませんでした',
+  'result.viewProfile': 'プロフィールを見る',
+  'result.addToCompare': '比較に追加',
+  'result.compareShort': '比較',
+  'result.strengths': '強み',
+  'result.contentRecommendations': 'おすすめコンテンツ',
+  'result.matchBreakdown': 'マッチの根拠',
+  'result.matchBreakdownOf': '{name}のマッチの根拠',
+  'result.others': 'その他のおすすめメンバー',
+  'result.preMatchComparison': '分析前に回答の特性だけで計算した予測結果とAIのおすすめの比較',
+  'result.profile.title': 'あなたの好み分析',
+  'result.profile.traits': '好きな特性',
+  'result.profile.personality': '性格マッチ',
+  'result.overall': '総合分析',
+  'result.confidence': '分析の信頼度: {percent}%',
+  'result.processingTime': '処理時間: {ms}ms',
+  'result.cached': '（キャッシュ）',
+  'result.compare.limit': '比較できるのは最大{max}人までです',
+  'result.compare.selected': '{count}人選択',
+  'result.compare.minimum': '（{min}人以上選択）',
+  'result.compare.clear': '選択解除',
+  'result.compare.open': '比較する',
+
+  'history.title': '診断の記録',
+  'history.newTest': '新しく診断',
+  'history.sync.failed': 'アカウント同期に失敗しました: {error}',
+  'history.sync.guest': 'ログインすると、診断の記録とお気に入りを他の端末でも見られます',
+  'history.sync.syncing': 'アカウントと同期しています...',
+  'history.sync.synced': 'アカウントと同期済み · {time}',
+  'history.sync.pending': 'アカウントとの同期を待っています',
+  'history.empty': '保存された結果はまだありません',
+  'history.loadFailed': '診断の記録を読み込めませんでした',
+  'history.changes': '推しの変化',
+  'history.mostFrequent': '{total}回中{count}回 {name}',
+  'history.changed': '変化',
+  'history.favorites': 'お気に入りのメンバー',
+  'history.noRecommendation': 'おすすめなし',
+  'history.answers': ' · 回答{count}件',
+  'history.deleteConfirm': 'この結果を削除しますか？',
+  'history.deleted': '結果を削除しました',
+  'history.deleteFailed': '結果を削除できませんでした',
+
+  'breakdown.note': '以下の寄与度は、回答とメンバーの特性を比較した推定値です',
+  'breakdown.noMatch': '回答と直接つながる特性が見つかりませんでした',
+  'breakdown.byCategory': 'カテゴリ別の寄与度',
+  'breakdown.answered': '回答 {matched}/{answered}',
+  'breakdown.evidence': '根拠になった回答',
+  'breakdown.share': ' · 寄与 {percent}%',
+  'breakdown.unmatched': '直接つながらなかった回答と特性',
+  'breakdown.otherTraits': 'AIが見つけたその他のマッチ特性',
+
+  'category.language': '言語',
+  'category.schedule': '配信時間',
+  'category.content': 'コンテンツ',
+  'category.gaming': 'ゲーム',
+  'category.music': '音楽',
+  'category.voice': '声',
+  'category.vibe': '雰囲気',
+  'category.personality': '性格',
+  'category.interaction': '交流',
+  'category.skills': '特技',
+  'category.values': '価値観',
+  'category.generation': '期生',
+  'category.free': '自由入力',
+  'category.general': 'その他',
+
+  'compare.title': 'おすすめメンバー比較',
+  'compare.sharedHint': 'ピンクの特性は選択したメンバー全員に共通です',
+  'compare.highest': '最も高い',
+  'compare.score': 'マッチ度',
+  'compare.profile': '所属',
+  'compare.traits': 'マッチ特性',
+  'compare.strengths': '強み',
+  'compare.considerations': '注意点',
+  'compare.reasoning': 'おすすめ理由',
+  'compare.streaming': '配信パターン',
+  'compare.more': 'もっと見る',
+
+  'member.status.active': '活動中',
+  'member.status.graduated': '卒業',
+  'member.status.inactive': '活動終了',
+  'member.sort.name': '名前順',
+  'member.sort.debutNewest': 'デビューが新しい順',
+  'member.sort.debutOldest': 'デビューが古い順',
+  'member.sort.generation': '期生順',
+  'member.loadFailed': 'メンバー情報を読み込めません',
+  'member.profile.generation': '期生',
+  'member.profile.unit': 'ユニット',
+  'member.profile.debut': 'デビュー',
+  'member.profile.birthday': '誕生日',
+  'member.profile.fanbase': 'ファンネーム',
+  'member.noEnrichedData': '追加情報はまだ登録されていません',
+  'member.skills': '特技',
+  'member.catchphrases': '決め台詞',
+  'member.moments': '名場面',
+  'member.streamingPatterns': '配信パターン',
+
+  'members.title': 'メンバー一覧',
+  'members.copyLink': 'リンクをコピー',
+  'members.linkCopied': '現在のフィルターのリンクをコピーしました',
+  'members.linkCopyFailed': 'リンクをコピーできませんでした',
+  'members.filter.all': 'すべて',
+  'members.filter.generation': '期生',
+  'members.filter.status': '活動状況',
+  'members.filter.traits': '特徴（すべて含む）',
+  'members.filter.reset': 'フィルターをリセット',
+  'members.empty': '条件に合うメンバーがいません',
+
+  'search.title': 'メンバー検索',
+  'search.placeholder': '好きな雰囲気を自由に書いてみてください（例: {example}）',
+  'search.clearRecent': '最近の検索を消去',
+  'search.hint': '言葉で説明すると、好みの近いメンバーを探します',
+  'search.noResults': '「{query}」に合うメンバーが見つかりませんでした',
+  'search.similarity': '類似度 {percent}%',
+  'search.vectorSource': ' · ベクトル検索',
+  'search.example.asmr': '深夜の落ち着いたASMR',
+  'search.example.gaming': 'テンション高めのゲーム配信',
+  'search.example.singing': '歌が上手な英語圏のメンバー',
+  'search.example.english': 'chill late-night ASMR in English',
+
+  'resultCard.title': '結果画像を保存',
+  'resultCard.download': 'PNGを保存',
+  'resultCard.failed': '画像を作成できませんでした',
+  'resultCard.saved': '画像を保存しました',
+  'resultCard.dark': 'ダーク',
+  'resultCard.light': 'ライト',
+  'resultCard.preview': '結果カードのプレビュー',
+  'resultCard.preset.story': 'ストーリー (9:16)',
+  'resultCard.preset.square': '正方形 (1:1)',
+  'resultCard.preset.landscape': '横長 (1.91:1)',
+  'resultCard.headline': '私の推しは',
+  'resultCard.others': 'その他のおすすめ',
+
+  'error.network': 'サーバーに接続できません。インターネット接続を確認してください。',
+  'error.timeout': '応答時間（{seconds}秒）を超えました。しばらくしてからもう一度お試しください。',
+  'error.badRequest': 'リクエストの形式が正しくありません。',
+  'error.unauthorized': 'ログインが必要です。',
+  'error.forbidden': 'この機能を使う権限がありません。',
+  'error.notFound': 'お探しの情報が見つかりません。',
+  'error.unavailable': 'サービスが一時的に応答していません。しばらくしてからもう一度お試しください。',
+  'error.server': 'サーバーで問題が発生しました。しばらくしてからもう一度お試しください。',
+  'error.http': 'リクエストを処理できませんでした。({status})',
+  'error.unknown': 'リクエストを処理できませんでした。',
+  'error.memberNotFound': 'メンバー情報が見つかりません。',
+  'error.invalidBranch': '対応していない支部です。',
+  'error.searchTimeout': '検索がタイムアウトしました。検索語を短くしてもう一度お試しください。',
+  'error.serviceUnavailable': 'サービスを一時的に利用できません。しばらくしてからもう一度お試しください。',
+  'error.streamError': '分析中にサーバーでエラーが発生しました。もう一度お試しください。',
+  'error.invalidInput': '入力内容を確認して、もう一度お試しください。',
+  'error.tokenExpired': 'ログインの有効期限が切れました。もう一度ログインしてください。',
+  'error.invalidCredentials': 'メールアドレスまたはパスワードが正しくありません。',
+  'error.envelope': 'サーバーエラーが発生しました。({code})',
+  'error.validation': 'サーバーの応答形式が想定と異なります。再読み込みしてもう一度お試しください。',
+  'error.rateLimit': 'リクエストが多すぎます。しばらくしてからもう一度お試しください。',
+  'error.rateLimitRetryAfter': 'リクエストが多すぎます。{seconds}秒後にもう一度お試しください。',
+  'error.cancelled': 'リクエストがキャンセルされました。'
+}
+
+export default ja
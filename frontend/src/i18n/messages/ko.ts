@@ -0,0 +1,318 @@
+// 기본 메시지 카탈로그 (한국어)
+// 키를 추가하면 ja/en에도 같은 키가 있어야 타입 검사를 통과합니다
+// {name} 형식의 자리는 t(key, { name }) 으로 채웁니다
+
+const ko = {
+  'common.home': '홈으로',
+  'common.close': '닫기',
+  'common.delete': '삭제',
+  'common.retry': '다시 시도',
+  'common.matchScore': '매칭도 {percent}%',
+  'common.language': '언어',
+  'common.back': '뒤로',
+  'common.cancel': '취소',
+  'common.memberCount': '{count}명',
+
+  'home.tagline': 'AI가 분석하는 당신만의 홀로라이브 최애 멤버 찾기',
+  'home.health.checking': '서비스 상태를 확인하고 있습니다...',
+  'home.health.down': '서비스에 연결할 수 없습니다.',
+  'home.health.notReady': 'AI 분석 서비스가 응답하지 않아 지금은 테스트를 시작할 수 없습니다.',
+  'home.health.degraded': '일부 서비스가 원활하지 않습니다. 결과가 늦어지거나 일부 정보가 빠질 수 있습니다.',
+  'home.health.member': '멤버 정보',
+  'home.health.vector': '벡터 검색',
+  'home.health.llmAnalyzer': 'AI 분석',
+  'home.health.nextCheck': '{time}에 다시 확인합니다',
+  'home.health.recheck': '다시 확인',
+  'home.quiz.title': '나의 오시 찾기',
+  'home.quiz.descriptionLine1': '{count}개의 질문으로 당신과 가장 잘 맞는',
+  'home.quiz.descriptionLine2': '홀로라이브 멤버를 AI가 찾아드립니다',
+  'home.start': '시작하기 →',
+  'home.startOffline': '오프라인 예측으로 시작하기 →',
+  'home.startPreparing': '시작하기 → (준비 중)',
+  'home.startMaintenance': '시작하기 → (서비스 점검 중)',
+  'home.startFresh': '처음부터 시작하기 →',
+  'home.browseMembers': '멤버 둘러보기',
+  'home.searchMembers': '멤버 검색',
+  'home.newFeatures.title': '새로운 기능',
+  'home.newFeatures.line1': '새로운 기능을 주기적으로',
+  'home.newFeatures.line2': '업데이트 예정입니다',
+  'home.newFeatures.status': '기획 중 0%',
+  'home.report.title': '오시 분석 리포트',
+  'home.report.line1': '당신의 취향을 상세하게',
+  'home.report.line2': '분석한 리포트 제공',
+  'home.draft.title': '작성 중인 퀴즈가 있습니다',
+  'home.draft.summary': '{count}개 답변 완료 · {time} 저장',
+  'home.draft.resume': '이어서 하기 →',
+  'home.job.failed': '분석에 실패했습니다',
+  'home.job.cancelled': '분석이 취소되었습니다',
+  'home.job.offlinePreMatch': 'AI 분석 없이 답변 특성과 저장된 멤버 정보로만 계산한 예상 결과입니다',
+  'home.analyzing.title': 'AI가 당신의 오시를 분석하고 있습니다',
+  'home.analyzing.subtitle': '분석이 완료되면 자동으로 결과가 표시됩니다',
+  'home.analyzing.preMatch': '답변 특성으로 먼저 계산한 예상 결과입니다. AI 분석이 끝나면 달라질 수 있습니다',
+  'home.analyzing.cancel': '분석 취소',
+  'home.lastResult.title': '나의 오시 매칭 결과',
+  'home.lastResult.view': '결과 보기 →',
+  'home.lastResult.history': '지난 결과 모두 보기',
+  'home.lastResult.empty': '아직 매칭 결과가 없습니다',
+
+  'auth.login': '로그인',
+  'auth.logout': '로그아웃',
+  'auth.title': '로그인',
+  'auth.subtitle': '로그인하면 멤버 목록과 검색을 사용할 수 있어요',
+  'auth.email': '이메일',
+  'auth.password': '비밀번호',
+  'auth.emailRequired': '이메일을 입력해주세요',
+  'auth.passwordRequired': '비밀번호를 입력해주세요',
+  'auth.submit': '로그인',
+  'auth.continueAsGuest': '로그인 없이 계속하기',
+  'auth.guestHint': '오시 찾기 테스트는 로그인 없이도 할 수 있습니다',
+  'auth.invalidCredentials': '이메일 또는 비밀번호가 올바르지 않습니다',
+  'auth.welcome': '{name}님, 환영합니다',
+  'auth.loggedOut': '로그아웃했습니다',
+  'auth.expired': '로그인이 만료되었습니다. 다시 로그인해주세요.',
+
+  'favorite.add': '즐겨찾기에 추가',
+  'favorite.remove': '즐겨찾기에서 빼기',
+  'sync.migrated': '이 기기에 있던 결과 {count}개를 계정에 저장했습니다',
+
+  'privacy.link': '개인정보 센터',
+  'privacy.title': '개인정보 센터',
+  'privacy.subtitle': '이 기기에 저장된 데이터를 확인하고, 다른 기기로 옮기거나 모두 지울 수 있습니다.',
+  'privacy.home': '홈으로',
+  'privacy.stored.title': '저장된 데이터',
+  'privacy.count': '{count}개',
+  'privacy.exported': '내보내기 포함',
+  'privacy.notExported': '내보내기 제외',
+  'privacy.category.results.title': '결과 기록',
+  'privacy.category.results.description': '지금까지의 분석 결과와 그때 제출한 답변',
+  'privacy.category.quizDraft.title': '작성 중인 퀴즈',
+  'privacy.category.quizDraft.description': '제출하지 않은 답변 (7일 뒤 자동 삭제)',
+  'privacy.category.favorites.title': '즐겨찾기',
+  'privacy.category.favorites.description': '즐겨찾기한 멤버',
+  'privacy.category.recentSearches.title': '최근 검색어',
+  'privacy.category.recentSearches.description': '멤버 검색에 입력한 검색어 (최근 10개)',
+  'privacy.category.preferences.title': '설정',
+  'privacy.category.preferences.description': '테마와 언어, 직접 바꾼 시각',
+  'privacy.category.account.title': '로그인 정보',
+  'privacy.category.account.description': '로그인 토큰과 계정 동기화 기록 (다른 기기에서는 쓸 수 없어 내보내지 않음)',
+  'privacy.category.cache.title': '멤버 정보 캐시',
+  'privacy.category.cache.description': '오프라인 예측에 쓰는 멤버 특성 (개인 정보 아님, 다시 받을 수 있음)',
+  'privacy.export.title': '내보내기',
+  'privacy.export.description': '결과 기록(답변 포함), 작성 중인 퀴즈, 즐겨찾기, 최근 검색어, 설정을 JSON 파일 하나로 저장합니다.',
+  'privacy.export.button': 'JSON으로 내보내기',
+  'privacy.export.failed': '데이터를 내보내지 못했습니다',
+  'privacy.import.title': '가져오기',
+  'privacy.import.description': '다른 기기에서 내보낸 파일을 이 기기의 데이터와 합칩니다. 이미 있는 결과는 그대로 두고, 즐겨찾기와 설정은 더 최근에 바꾼 쪽을 따릅니다.',
+  'privacy.import.button': '파일 선택',
+  'privacy.import.succeeded': '결과 {count}개와 즐겨찾기, 설정을 가져왔습니다',
+  'privacy.import.invalid': '이 앱에서 내보낸 파일이 아닙니다',
+  'privacy.import.failed': '데이터를 가져오지 못했습니다',
+  'privacy.delete.title': '모든 데이터 삭제',
+  'privacy.delete.description': '이 기기에 저장된 결과 기록, 답변, 즐겨찾기, 검색어, 설정을 모두 지웁니다. 되돌릴 수 없으니 필요하면 먼저 내보내세요.',
+  'privacy.delete.account': '로그인한 계정에 저장된 데이터도 함께 지우고 로그아웃합니다.',
+  'privacy.delete.button': '모두 삭제',
+  'privacy.delete.confirm': '정말 모든 데이터를 삭제할까요?',
+  'privacy.delete.confirmOk': '삭제',
+  'privacy.delete.confirmCancel': '취소',
+  'privacy.delete.succeeded': '모든 데이터를 삭제했습니다',
+  'privacy.delete.failed': '데이터를 삭제하지 못했습니다: {error}',
+
+  'job.succeeded': '분석이 완료되었습니다! 결과를 확인해보세요.',
+
+  'quiz.previous': '이전 질문',
+  'quiz.next': '다음',
+  'quiz.skip': '건너뛰기',
+  'quiz.submitMultiple': '선택 완료 ({count}개)',
+  'quiz.started': '분석이 시작되었습니다. 진행 상황은 홈 화면에서 확인할 수 있습니다.',
+
+  'analysis.stage.candidateRetrieval': '후보 검색',
+  'analysis.stage.rag': '자료 수집',
+  'analysis.stage.llmReasoning': 'AI 추론',
+  'analysis.stage.ranking': '순위 결정',
+  'analysis.found': '지금까지 찾은 멤버',
+  'analysis.thinking': 'AI 사고 과정 보기',
+
+  'preMatch.title': '빠른 예측',
+  'preMatch.agreement': 'AI 추천과 {matched}/{total}명 일치',
+  'preMatch.aiRank': 'AI {rank}위',
+  'preMatch.notRecommended': 'AI 추천 외',
+  'preMatch.pending': '확인 중',
+
+  'result.notFound': '결과를 찾을 수 없습니다',
+  'result.loadFailed': '결과를 불러올 수 없습니다',
+  'result.historyMissing': '삭제되었거나 없는 기록입니다',
+  'result.shareInvalid': '공유 링크가 올바르지 않거나 손상되었습니다',
+  'result.backHome': '홈으로 돌아가기',
+  'result.title': '당신의 오시 분석 결과',
+  'result.sharedTitle': '공유된 오시 분석 결과',
+  'result.createdAt': '{time}의 결과',
+  'result.tryIt': '나도 테스트하기',
+  'result.saveImage': '이미지 저장',
+  'result.share': '공유',
+  'result.history': '기록',
+  'result.retake': '다시 테스트',
+  'result.shareHeadline': '나의 오시는 {name}!',
+  'result.shareCopied': '공유 링크를 복사했습니다',
+  'result.shareFailed': '공유 링크를 만들지 못했습니다',
+  'result.viewProfile': '프로필 보기',
+  'result.addToCompare': '비교에 추가',
+  'result.compareShort': '비교',
+  'result.strengths': '강점',
+  'result.contentRecommendations': '추천 콘텐츠',
+  'result.matchBreakdown': '매칭 근거',
+  'result.matchBreakdownOf': '{name} 매칭 근거',
+  'result.others': '다른 추천 멤버들',
+  'result.preMatchComparison': '분석 전에 답변 특성만으로 계산했던 예상 결과와 AI 추천 비교',
+  'result.profile.title': '당신의 취향 분석',
+  'result.profile.traits': '선호하는 특성',
+  'result.profile.personality': '성격 매칭',
+  'result.overall': '종합 분석',
+  'result.confidence': '분석 신뢰도: {percent}%',
+  'result.processingTime': '처리 시간: {ms}ms',
+  'result.cached': ' (캐시됨)',
+  'result.compare.limit': '최대 {max}명까지 비교할 수 있습니다',
+  'result.compare.selected': '{count}명 선택',
+  'result.compare.minimum': ' ({min}명 이상 선택)',
+  'result.compare.clear': '선택 해제',
+  'result.compare.open': '비교하기',
+
+  'history.title': '나의 결과 기록',
+  'history.newTest': '새 테스트',
+  'history.sync.failed': '계정 동기화 실패: {error}',
+  'history.sync.guest': '로그인하면 결과 기록과 즐겨찾기를 다른 기기에서도 볼 수 있습니다',
+  'history.sync.syncing': '계정과 동기화하는 중...',
+  'history.sync.synced': '계정과 동기화됨 · {time}',
+  'history.sync.pending': '계정과 동기화 대기 중',
+  'history.empty': '아직 저장된 결과가 없습니다',
+  'history.loadFailed': '결과 기록을 불러오지 못했습니다',
+  'history.changes': '오시 변화',
+  'history.mostFrequent': '{total}번 중 {count}번 {name}',
+  'history.changed': '변경',
+  'history.favorites': '즐겨찾기한 멤버',
+  'history.noRecommendation': '추천 없음',
+  'history.answers': ' · 답변 {count}개',
+  'history.deleteConfirm': '이 결과를 삭제할까요?',
+  'history.deleted': '결과를 삭제했습니다',
+  'history.deleteFailed': '결과를 삭제하지 못했습니다',
+
+  'breakdown.note': '아래 기여도는 답변과 멤버 특성을 비교한 추정치입니다',
+  'breakdown.noMatch': '답변과 직접 연결되는 특성을 찾지 못했습니다',
+  'breakdown.byCategory': '카테고리별 기여도',
+  'breakdown.answered': '답변 {matched}/{answered}',
+  'breakdown.evidence': '근거가 된 답변',
+  'breakdown.share': ' · 기여 {percent}%',
+  'breakdown.unmatched': '직접 연결되지 않은 답변과 특성',
+  'breakdown.otherTraits': 'AI가 찾은 다른 매칭 특성',
+
+  'category.language': '언어',
+  'category.schedule': '방송 시간',
+  'category.content': '콘텐츠',
+  'category.gaming': '게임',
+  'category.music': '음악',
+  'category.voice': '목소리',
+  'category.vibe': '분위기',
+  'category.personality': '성격',
+  'category.interaction': '소통',
+  'category.skills': '특기',
+  'category.values': '가치관',
+  'category.generation': '기수',
+  'category.free': '자유 입력',
+  'category.general': '기타',
+
+  'compare.title': '추천 멤버 비교',
+  'compare.sharedHint': '분홍색 특성은 선택한 멤버 모두에게 공통입니다',
+  'compare.highest': '가장 높음',
+  'compare.score': '매칭도',
+  'compare.profile': '소속',
+  'compare.traits': '매칭 특성',
+  'compare.strengths': '강점',
+  'compare.considerations': '고려사항',
+  'compare.reasoning': '추천 이유',
+  'compare.streaming': '방송 패턴',
+  'compare.more': '더 보기',
+
+  'member.status.active': '활동 중',
+  'member.status.graduated': '졸업',
+  'member.status.inactive': '활동 종료',
+  'member.sort.name': '이름순',
+  'member.sort.debutNewest': '최근 데뷔순',
+  'member.sort.debutOldest': '오래된 데뷔순',
+  'member.sort.generation': '기수순',
+  'member.loadFailed': '멤버 정보를 불러올 수 없습니다',
+  'member.profile.generation': '기수',
+  'member.profile.unit': '유닛',
+  'member.profile.debut': '데뷔',
+  'member.profile.birthday': '생일',
+  'member.profile.fanbase': '팬네임',
+  'member.noEnrichedData': '아직 등록된 추가 정보가 없습니다',
+  'member.skills': '특기',
+  'member.catchphrases': '캐치프레이즈',
+  'member.moments': '명장면',
+  'member.streamingPatterns': '방송 패턴',
+
+  'members.title': '멤버 둘러보기',
+  'members.copyLink': '링크 복사',
+  'members.linkCopied': '현재 필터 링크를 복사했습니다',
+  'members.linkCopyFailed': '링크를 복사하지 못했습니다',
+  'members.filter.all': '전체',
+  'members.filter.generation': '기수',
+  'members.filter.status': '활동 상태',
+  'members.filter.traits': '특성 (모두 포함)',
+  'members.filter.reset': '필터 초기화',
+  'members.empty': '조건에 맞는 멤버가 없습니다',
+
+  'search.title': '멤버 검색',
+  'search.placeholder': '원하는 분위기를 자유롭게 적어보세요 (예: {example})',
+  'search.clearRecent': '최근 검색어 지우기',
+  'search.hint': '자연어로 설명하면 취향이 비슷한 멤버를 찾아드립니다',
+  'search.noResults': "'{query}'에 맞는 멤버를 찾지 못했습니다",
+  'search.similarity': '유사도 {percent}%',
+  'search.vectorSource': ' · 벡터 검색',
+  'search.example.asmr': '새벽에 잔잔한 ASMR',
+  'search.example.gaming': '텐션 높은 게임 방송',
+  'search.example.singing': '노래 잘하는 영어권 멤버',
+  'search.example.english': 'chill late-night ASMR in English',
+
+  'resultCard.title': '결과 이미지 저장',
+  'resultCard.download': 'PNG 저장',
+  'resultCard.failed': '이미지를 만들지 못했습니다',
+  'resultCard.saved': '이미지를 저장했습니다',
+  'resultCard.dark': '다크',
+  'resultCard.light': '라이트',
+  'resultCard.preview': '결과 카드 미리보기',
+  'resultCard.preset.story': '스토리 (9:16)',
+  'resultCard.preset.square': '정사각형 (1:1)',
+  'resultCard.preset.landscape': '가로 (1.91:1)',
+  'resultCard.headline': '나의 오시는',
+  'resultCard.others': '다른 추천 멤버',
+
+  'error.network': '서버에 연결할 수 없습니다. 인터넷 연결을 확인해주세요.',
+  'error.timeout': '응답 시간({seconds}초)이 초과되었습니다. 잠시 후 다시 시도해주세요.',
+  'error.badRequest': '요청 형식이 올바르지 않습니다.',
+  'error.unauthorized': '로그인이 필요합니다.',
+  'error.forbidden': '이 기능을 사용할 권한이 없습니다.',
+  'error.notFound': '요청한 정보를 찾을 수 없습니다.',
+  'error.unavailable': '서비스가 일시적으로 응답하지 않습니다. 잠시 후 다시 시도해주세요.',
+  'error.server': '서버에 문제가 발생했습니다. 잠시 후 다시 시도해주세요.',
+  'error.http': '요청을 처리하지 못했습니다. ({status})',
+  'error.unknown': '요청을 처리하지 못했습니다.',
+  'error.memberNotFound': '멤버 정보를 찾을 수 없습니다.',
+  'error.invalidBranch': '지원하지 않는 지부입니다.',
+  'error.searchTimeout': '검색 시간이 초과되었습니다. 검색어를 줄여 다시 시도해주세요.',
+  'error.serviceUnavailable': '서비스를 일시적으로 사용할 수 없습니다. 잠시 후 다시 시도해주세요.',
+  'error.streamError': '분석 도중 서버에서 오류가 발생했습니다. 다시 시도해주세요.',
+  'error.invalidInput': '입력한 내용을 확인한 뒤 다시 시도해주세요.',
+  'error.tokenExpired': '로그인이 만료되었습니다. 다시 로그인해주세요.',
+  'error.invalidCredentials': '이메일 또는 비밀번호가 올바르지 않습니다.',
+  'error.envelope': '서버 오류가 발생했습니다. ({code})',
+  'error.validation': '서버 응답 형식이 예상과 다릅니다. 새로고침 후 다시 시도해주세요.',
+  'error.rateLimit': '요청이 너무 많습니다. 잠시 후 다시 시도해주세요.',
+  'error.rateLimitRetryAfter': '요청이 너무 많습니다. {seconds}초 후 다시 시도해주세요.',
+  'error.cancelled': '요청이 취소되었습니다.'
+}
+
+export type MessageKey = keyof typeof ko
+
+export type Messages = Record<MessageKey, string>
+
+export default ko
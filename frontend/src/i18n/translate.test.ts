@@ -0,0 +1,23 @@
+import { describe, expect, it } from 'vitest'
+import { isMessageKey, translate } from './translate'
+
+describe('isMessageKey', () => {
+  it('카탈로그에 있는 키만 허용한다', () => {
+    expect(isMessageKey('common.home')).toBe(true)
+    expect(isMessageKey('error.network')).toBe(true)
+    expect(isMessageKey('error.nope')).toBe(false)
+  })
+
+  it('상속 속성 이름은 키로 보지 않는다', () => {
+    expect(isMessageKey('constructor')).toBe(false)
+    expect(isMessageKey('toString')).toBe(false)
+    expect(isMessageKey('__proto__')).toBe(false)
+    expect(isMessageKey('hasOwnProperty')).toBe(false)
+  })
+})
+
+describe('translate', () => {
+  it('자리 표시자를 채운다', () => {
+    expect(translate('ko', 'common.matchScore', { percent: 87 })).toBe('매칭도 87%')
+  })
+})
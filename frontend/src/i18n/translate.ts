@@ -0,0 +1,35 @@
+import type { Member } from '../types'
+import type { Locale } from './locales'
+import ko from './messages/ko'
+import ja from './messages/ja'
+import en from './messages/en'
+import type { MessageKey, Messages } from './messages/ko'
+
+export type { MessageKey }
+
+export type TranslateParams = Record<string, string | number>
+
+export type Translate = (key: MessageKey, params?: TranslateParams) => string
+
+const CATALOGS: Record<Locale, Messages> = { ko, ja, en }
+
+// 카탈로그 자체의 키만 ('constructor' 같은 상속 속성 제외)
+export function isMessageKey(key: string): key is MessageKey {
+  return Object.hasOwn(ko, key)
+}
+
+// 메시지의 {name} 자리를 채움 (없는 값은 그대로 둠)
+export function translate(locale: Locale, key: MessageKey, params?: TranslateParams): string {
+  const message = CATALOGS[locale][key] ?? ko[key]
+  if (!params) return message
+  return message.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params[name] !== undefined ? String(params[name]) : placeholder
+  )
+}
+
+// 멤버 이름: 일본어/영어 이름이 있으면 그 언어로, 없으면 기본(한국어) 이름
+export function localizeMemberName(member: Pick<Member, 'name' | 'name_ja' | 'name_en'>, locale: Locale): string {
+  if (locale === 'ja' && member.name_ja) return member.name_ja
+  if (locale === 'en' && member.name_en) return member.name_en
+  return member.name
+}
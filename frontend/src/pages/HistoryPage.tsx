@@ -0,0 +1,273 @@
+import { useMemo } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Alert, Button, Card, Typography, Tag, Space, Avatar, Row, Col, Empty, Spin, Timeline, Popconfirm, message } from 'antd'
+import { CloudSyncOutlined, DeleteOutlined, HeartFilled, HistoryOutlined, HomeOutlined, ReloadOutlined, CrownOutlined } from '@ant-design/icons'
+import { useResultHistory } from '../hooks/useResultHistory'
+import { useCloudSync } from '../hooks/useCloudSync'
+import { useFavorites } from '../hooks/useFavorites'
+import { useLocale } from '../hooks/useLocale'
+import { loadMemberCatalog } from '../storage/memberCatalog'
+import type { ResultHistoryEntry } from '../storage/resultHistory'
+import { matchPercent } from '../utils/matchScore'
+
+const { Title, Text } = Typography
+
+interface OshiChange {
+  entry: ResultHistoryEntry
+  name: string
+  matchScore: number
+  changed: boolean
+}
+
+function formatDate(value: string, localeTag: string): string {
+  return new Date(value).toLocaleString(localeTag, { dateStyle: 'medium', timeStyle: 'short' })
+}
+
+// 오래된 순으로 1위 멤버가 바뀐 지점 표시
+function toOshiChanges(entries: ResultHistoryEntry[]): OshiChange[] {
+  let previousId: string | null = null
+  return [...entries].reverse().flatMap(entry => {
+    const top = entry.result.recommendations[0]
+    if (!top) return []
+    const changed = previousId !== null && previousId !== top.memberId
+    previousId = top.memberId
+    return [{ entry, name: top.name, matchScore: top.matchScore, changed }]
+  })
+}
+
+// 즐겨찾기 멤버 이름: 결과 기록 → 멤버 카탈로그 순으로 찾고 없으면 id
+function favoriteNames(ids: string[], entries: ResultHistoryEntry[]): { id: string; name: string }[] {
+  const names = new Map<string, string>()
+  loadMemberCatalog()?.members.forEach(member => names.set(member.id, member.name))
+  entries.forEach(entry => entry.result.recommendations.forEach(item => names.set(item.memberId, item.name)))
+  return ids.map(id => ({ id, name: names.get(id) ?? id }))
+}
+
+// 1위를 가장 많이 한 멤버
+function mostFrequentOshi(changes: OshiChange[]): { name: string; count: number } | null {
+  const counts = new Map<string, number>()
+  changes.forEach(change => counts.set(change.name, (counts.get(change.name) ?? 0) + 1))
+  let best: { name: string; count: number } | null = null
+  for (const [name, count] of counts) {
+    if (!best || count > best.count) best = { name, count }
+  }
+  return best
+}
+
+function HistoryPage() {
+  const navigate = useNavigate()
+  const { localeTag, t } = useLocale()
+  const { entries, loading, error, remove } = useResultHistory()
+  const changes = useMemo(() => toOshiChanges(entries), [entries])
+  const favorite = useMemo(() => mostFrequentOshi(changes), [changes])
+  const sync = useCloudSync()
+  const { favoriteIds } = useFavorites()
+  const favoriteMembers = useMemo(() => favoriteNames(favoriteIds, entries), [favoriteIds, entries])
+
+  const handleDelete = async (id: string) => {
+    try {
+      await remove(id)
+      message.success(t('history.deleted'))
+    } catch (e) {
+      console.error('결과 삭제 실패:', e)
+      message.error(t('history.deleteFailed'))
+    }
+  }
+
+  return (
+    <div className="min-h-screen" style={{ padding: '32px' }}>
+      <div style={{ maxWidth: '1000px', margin: '0 auto' }}>
+        {/* Header */}
+        <div style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          marginBottom: '32px'
+        }}>
+          <Title level={2} style={{ margin: 0 }}>
+            <HistoryOutlined style={{ color: '#FFB7C5', marginRight: '12px' }} />
+            {t('history.title')}
+          </Title>
+          <Space>
+            <Button
+              icon={<HomeOutlined />}
+              onClick={() => navigate('/')}
+              size="large"
+            >
+              {t('common.home')}
+            </Button>
+            <Button
+              type="primary"
+              icon={<ReloadOutlined />}
+              onClick={() => navigate('/quiz')}
+              size="large"
+            >
+              {t('history.newTest')}
+            </Button>
+          </Space>
+        </div>
+
+        {/* 계정 동기화 상태 */}
+        {sync.enabled && sync.status === 'error' ? (
+          <Alert
+            type="warning"
+            showIcon
+            message={t('history.sync.failed', { error: sync.error ? t(sync.error.key, sync.error.params) : '' })}
+            action={<Button size="small" onClick={sync.syncNow}>{t('common.retry')}</Button>}
+            style={{ marginBottom: '24px' }}
+          />
+        ) : (
+          <Text type="secondary" style={{ display: 'block', marginBottom: '24px' }}>
+            <CloudSyncOutlined style={{ marginRight: '8px' }} />
+            {!sync.enabled
+              ? t('history.sync.guest')
+              : sync.status === 'syncing'
+                ? t('history.sync.syncing')
+                : sync.lastSyncedAt
+                  ? t('history.sync.synced', { time: formatDate(sync.lastSyncedAt, localeTag) })
+                  : t('history.sync.pending')}
+          </Text>
+        )}
+
+        {loading ? (
+          <div style={{ textAlign: 'center', padding: '80px 0' }}>
+            <Spin size="large" />
+          </div>
+        ) : entries.length === 0 ? (
+          <Empty
+            style={{ padding: '80px 0' }}
+            description={error ? t(error.key, error.params) : t('history.empty')}
+          />
+        ) : (
+          <Row gutter={[24, 24]}>
+            {/* 오시 변화 */}
+            <Col xs={24} md={9}>
+              <Card
+                className="glass-effect"
+                variant="borderless"
+              >
+                <Title level={4} style={{ marginBottom: '8px' }}>
+                  {t('history.changes')}
+                </Title>
+                {favorite && (
+                  <Text type="secondary" style={{ display: 'block', marginBottom: '24px' }}>
+                    <CrownOutlined style={{ color: '#FFD666', marginRight: '6px' }} />
+                    {t('history.mostFrequent', { total: changes.length, count: favorite.count, name: favorite.name })}
+                  </Text>
+                )}
+                <Timeline
+                  items={changes.map(change => ({
+                    color: change.changed ? '#FF85C0' : '#FFB7C5',
+                    children: (
+                      <div>
+                        <Space size={8}>
+                          <Text strong>{change.name}</Text>
+                          {change.changed && <Tag color="magenta">{t('history.changed')}</Tag>}
+                        </Space>
+                        <div>
+                          <Text type="secondary" style={{ fontSize: '12px' }}>
+                            {formatDate(change.entry.createdAt, localeTag)} · {t('common.matchScore', { percent: matchPercent(change.matchScore) })}
+                          </Text>
+                        </div>
+                      </div>
+                    )
+                  }))}
+                />
+              </Card>
+              {favoriteMembers.length > 0 && (
+                <Card
+                  className="glass-effect"
+                  variant="borderless"
+                  style={{ marginTop: '24px' }}
+                >
+                  <Title level={4} style={{ marginBottom: '16px' }}>
+                    <HeartFilled style={{ color: '#FF85C0', marginRight: '8px' }} />
+                    {t('history.favorites')}
+                  </Title>
+                  <Space wrap size={[8, 8]}>
+                    {favoriteMembers.map(member => (
+                      <Tag
+                        key={member.id}
+                        style={{ cursor: 'pointer' }}
+                        onClick={() => navigate(`/members/${encodeURIComponent(member.id)}`)}
+                      >
+                        {member.name}
+                      </Tag>
+                    ))}
+                  </Space>
+                </Card>
+              )}
+            </Col>
+
+            {/* 결과 목록 */}
+            <Col xs={24} md={15}>
+              <Space direction="vertical" size={16} style={{ width: '100%' }}>
+                {entries.map(entry => {
+                  const top = entry.result.recommendations[0]
+                  return (
+                    <Card
+                      key={entry.id}
+                      className="glass-effect hover-float"
+                      variant="borderless"
+                      style={{ cursor: 'pointer' }}
+                      onClick={() => navigate(`/history/${encodeURIComponent(entry.id)}`)}
+                    >
+                      <Row align="middle" justify="space-between" gutter={[16, 12]} wrap={false}>
+                        <Col flex="auto">
+                          <Space align="center" size={16}>
+                            <Avatar
+                              size={48}
+                              style={{
+                                background: 'linear-gradient(135deg, #FFB7C5, #FF85C0)',
+                                fontSize: '20px',
+                                fontWeight: 'bold',
+                                flexShrink: 0
+                              }}
+                            >
+                              {top?.name.charAt(0) ?? '?'}
+                            </Avatar>
+                            <div>
+                              <Title level={5} style={{ margin: 0 }}>
+                                {top ? `${top.name} · ${matchPercent(top.matchScore)}%` : t('history.noRecommendation')}
+                              </Title>
+                              <Text type="secondary" style={{ fontSize: '13px' }}>
+                                {formatDate(entry.createdAt, localeTag)}
+                                {entry.answers.length > 0 && t('history.answers', { count: entry.answers.length })}
+                              </Text>
+                              <div style={{ marginTop: '6px' }}>
+                                <Space wrap size={[4, 4]}>
+                                  {entry.result.recommendations.slice(1, 3).map(member => (
+                                    <Tag key={member.memberId}>{member.name}</Tag>
+                                  ))}
+                                  {entry.questionBank && (
+                                    <Tag bordered={false} style={{ opacity: 0.6 }}>{entry.questionBank}</Tag>
+                                  )}
+                                </Space>
+                              </div>
+                            </div>
+                          </Space>
+                        </Col>
+                        <Col flex="none" onClick={e => e.stopPropagation()}>
+                          <Popconfirm
+                            title={t('history.deleteConfirm')}
+                            okText={t('common.delete')}
+                            cancelText={t('common.cancel')}
+                            onConfirm={() => handleDelete(entry.id)}
+                          >
+                            <Button type="text" danger icon={<DeleteOutlined />} />
+                          </Popconfirm>
+                        </Col>
+                      </Row>
+                    </Card>
+                  )
+                })}
+              </Space>
+            </Col>
+          </Row>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default HistoryPage
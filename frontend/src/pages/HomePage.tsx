@@ -1,11 +1,43 @@
-import { useState, useEffect } from 'react'
-import { Button, Typography, Space, Switch, Card, Row, Col, Avatar, Progress, Tag, Divider, Spin } from 'antd'
-import { PlayCircleOutlined, BulbOutlined, BarChartOutlined, TrophyOutlined, ReloadOutlined, HeartOutlined, LoadingOutlined } from '@ant-design/icons'
+import { useState } from 'react'
+import { Button, Typography, Space, Switch, Card, Row, Col, Avatar, Progress, Tag, Spin, Alert } from 'antd'
+import { PlayCircleOutlined, BarChartOutlined, ReloadOutlined, HeartOutlined, LoadingOutlined, EditOutlined, WarningOutlined, HistoryOutlined, TeamOutlined, SearchOutlined } from '@ant-design/icons'
 import { useNavigate } from 'react-router-dom'
-import type { AnalysisResponse } from '../types'
+import { ACTIVE_QUESTION_BANK } from '../data/questionBank'
+import { clearQuizDraft, loadQuizDraft } from '../storage/quizDraft'
+import { useAnalysisJob } from '../hooks/useAnalysisJob'
+import { useServiceHealth } from '../hooks/useServiceHealth'
+import AnalysisProgressPanel from '../components/analysis/AnalysisProgressPanel'
+import PreMatchPanel from '../components/analysis/PreMatchPanel'
+import { DEPENDENCY_NAMES } from '../services/healthMonitor'
+import type { DependencyName, DependencyStatus, ServiceHealthState } from '../services/healthMonitor'
+import { matchPercent } from '../utils/matchScore'
+import { useLocale } from '../hooks/useLocale'
+import LocaleSwitcher from '../components/common/LocaleSwitcher'
+import AccountMenu from '../components/common/AccountMenu'
+import type { MessageKey, Translate } from '../i18n/translate'
 
 const { Title, Paragraph, Text } = Typography
 
+const DEPENDENCY_LABELS: Record<DependencyName, MessageKey> = {
+  member: 'home.health.member',
+  vector: 'home.health.vector',
+  'llm-analyzer': 'home.health.llmAnalyzer'
+}
+
+const DEPENDENCY_TAG_COLORS: Record<DependencyStatus, string> = {
+  up: 'success',
+  down: 'error',
+  unknown: 'default'
+}
+
+// 서비스 상태 배너 문구
+function describeHealth(health: ServiceHealthState, t: Translate): string {
+  if (health.status === 'unknown') return t('home.health.checking')
+  if (health.status === 'down') return health.error ? t(health.error.key, health.error.params) : t('home.health.down')
+  if (!health.ready) return t('home.health.notReady')
+  return t('home.health.degraded')
+}
+
 interface HomePageProps {
   onThemeToggle: () => void
   isDarkMode: boolean
@@ -13,12 +45,27 @@ interface HomePageProps {
 
 function HomePage({ onThemeToggle, isDarkMode }: HomePageProps) {
   const navigate = useNavigate()
-  const [lastResult, setLastResult] = useState<AnalysisResponse | null>(null)
-  const [isAnalyzing, setIsAnalyzing] = useState(false)
-  const [isServiceReady, setIsServiceReady] = useState(false)
-  const [apiTestResult, setApiTestResult] = useState<string>('')
-  const [isTestingApi, setIsTestingApi] = useState(false)
-  
+  const { localeTag, t, recommendationName } = useLocale()
+  // 분석 작업 상태 (다른 탭/새로고침과 동기화됨)
+  const { job, isAnalyzing, lastResult: savedResult, cancelAnalysis, retryAnalysis, dismissJob } = useAnalysisJob()
+  const lastResult = savedResult?.result ?? null
+  // 서비스 상태 (헬스체크 폴링)
+  const health = useServiceHealth()
+  const isServiceReady = health.ready
+  const isTestingApi = health.checking
+  const apiTestResult = describeHealth(health, t)
+  // 작성 중인 퀴즈 (만료된 임시 저장은 불러올 때 정리됨)
+  const [quizDraft, setQuizDraft] = useState(loadQuizDraft)
+  // 서버가 내려가 있어도 예비 매칭(번들 특성표)으로 테스트 가능
+  const canStart = isServiceReady || health.status === 'down'
+
+  // 시작하기는 항상 새 퀴즈 (이어서 풀기는 아래 카드에서)
+  const startFresh = () => {
+    clearQuizDraft()
+    setQuizDraft(null)
+    navigate('/quiz')
+  }
+
   // 색상 테마
   const colors = {
     primary: {
@@ -31,44 +78,6 @@ function HomePage({ onThemeToggle, isDarkMode }: HomePageProps) {
     }
   }
 
-  // localStorage에서 마지막 결과 불러오기 & 분석 중 상태 확인
-  useEffect(() => {
-    // 분석 중인지 확인
-    const analysisInProgress = localStorage.getItem('analysisInProgress')
-    if (analysisInProgress) {
-      setIsAnalyzing(true)
-    }
-    
-    // 저장된 결과 불러오기
-    const savedResult = localStorage.getItem('lastMatchResult')
-    if (savedResult) {
-      try {
-        setLastResult(JSON.parse(savedResult))
-      } catch (e) {
-        console.error('Failed to parse saved result:', e)
-      }
-    }
-    
-    // 분석 완료 이벤트 리스너
-    const handleAnalysisComplete = () => {
-      setIsAnalyzing(false)
-      const newResult = localStorage.getItem('lastMatchResult')
-      if (newResult) {
-        try {
-          setLastResult(JSON.parse(newResult))
-        } catch (e) {
-          console.error('Failed to parse new result:', e)
-        }
-      }
-    }
-    
-    window.addEventListener('analysisComplete', handleAnalysisComplete)
-    
-    return () => {
-      window.removeEventListener('analysisComplete', handleAnalysisComplete)
-    }
-  }, [])
-
   return (
     <div className="min-h-screen flex flex-col">
       {/* Responsive Header */}
@@ -91,16 +100,19 @@ function HomePage({ onThemeToggle, isDarkMode }: HomePageProps) {
           width: '100%',
           maxWidth: '1200px'
         }}>
-          <div style={{ width: '40px' }} />
+          <LocaleSwitcher size="small" />
           <Title level={2} style={{ margin: 0, textAlign: 'center' }} className="gradient-text">
             Holo-Oshi Finder
           </Title>
-          <Switch 
-            checkedChildren="🌙" 
-            unCheckedChildren="☀️" 
-            checked={isDarkMode}
-            onChange={onThemeToggle}
-          />
+          <Space size="small">
+            <AccountMenu size="small" />
+            <Switch 
+              checkedChildren="🌙" 
+              unCheckedChildren="☀️" 
+              checked={isDarkMode}
+              onChange={onThemeToggle}
+            />
+          </Space>
         </div>
       </header>
 
@@ -134,9 +146,43 @@ function HomePage({ onThemeToggle, isDarkMode }: HomePageProps) {
             maxWidth: '500px',
             margin: '0 auto 48px'
           }}>
-            AI가 분석하는 당신만의 홀로라이브 최애 멤버 찾기
+            {t('home.tagline')}
           </Paragraph>
 
+          {/* 서비스 상태 배너 - 정상이 아닐 때만 */}
+          {health.status !== 'up' && (
+            <Alert
+              type={health.status === 'unknown' ? 'info' : health.status === 'down' || !isServiceReady ? 'error' : 'warning'}
+              showIcon
+              style={{ maxWidth: '900px', margin: '0 auto 32px', textAlign: 'left', borderRadius: '12px' }}
+              message={apiTestResult}
+              description={health.status !== 'unknown' && (
+                <Space wrap size={[8, 8]}>
+                  {DEPENDENCY_NAMES.map(name => (
+                    <Tag key={name} color={DEPENDENCY_TAG_COLORS[health.dependencies[name]]}>
+                      {t(DEPENDENCY_LABELS[name])}
+                    </Tag>
+                  ))}
+                  {health.nextCheckAt && !isTestingApi && (
+                    <Text style={{ fontSize: '13px', opacity: 0.6 }}>
+                      {t('home.health.nextCheck', { time: new Date(health.nextCheckAt).toLocaleTimeString(localeTag) })}
+                    </Text>
+                  )}
+                </Space>
+              )}
+              action={health.status !== 'unknown' && (
+                <Button 
+                  size="small"
+                  icon={<ReloadOutlined />}
+                  loading={isTestingApi}
+                  onClick={() => health.checkNow()}
+                >
+                  {t('home.health.recheck')}
+                </Button>
+              )}
+            />
+          )}
+
           {/* Main Feature Card + Side Cards Layout */}
           <Row gutter={32} justify="center" style={{ maxWidth: '900px', margin: '0 auto' }}>
             {/* Left Main Card */}
@@ -188,7 +234,7 @@ function HomePage({ onThemeToggle, isDarkMode }: HomePageProps) {
                     fontWeight: 700,
                     color: isDarkMode ? '#ffffff' : '#1a1a2e'
                   }}>
-                    나의 오시 찾기
+                    {t('home.quiz.title')}
                   </Title>
                   <Paragraph style={{ 
                     fontSize: '15px', 
@@ -196,34 +242,55 @@ function HomePage({ onThemeToggle, isDarkMode }: HomePageProps) {
                     opacity: 0.7,
                     marginBottom: 0
                   }}>
-                    20개의 질문으로 당신과 가장 잘 맞는<br/>
-                    홀로라이브 멤버를 AI가 찾아드립니다
+                    {t('home.quiz.descriptionLine1', { count: ACTIVE_QUESTION_BANK.questions.length })}<br/>
+                    {t('home.quiz.descriptionLine2')}
                   </Paragraph>
                 </div>
                 
                 <Button 
                   size="large" 
                   block
-                  disabled={!isServiceReady}
+                  disabled={!canStart}
                   style={{ 
                     height: '52px',
-                    background: isServiceReady 
-                      ? 'linear-gradient(90deg, #FFB7C5, #FF85C0)'
-                      : '#d9d9d9',
+                    background: canStart 
+                      ? colors.primary.gradient
+                      : colors.disabled.background,
                     border: 'none',
-                    color: isServiceReady ? 'white' : '#999',
+                    color: canStart ? 'white' : colors.disabled.text,
                     fontSize: '16px',
                     fontWeight: 600,
                     borderRadius: '12px',
-                    boxShadow: isServiceReady 
-                      ? '0 4px 16px rgba(255, 183, 197, 0.3)'
+                    boxShadow: canStart 
+                      ? `0 4px 16px ${colors.primary.shadow}`
                       : 'none',
-                    cursor: isServiceReady ? 'pointer' : 'not-allowed'
+                    cursor: canStart ? 'pointer' : 'not-allowed'
                   }}
-                  onClick={() => navigate('/quiz')}
+                  onClick={startFresh}
                 >
-                  {isServiceReady ? '시작하기 →' : '시작하기 → (준비 중)'}
+                  {quizDraft && canStart
+                    ? t('home.startFresh')
+                    : isServiceReady 
+                    ? t('home.start') 
+                    : canStart ? t('home.startOffline')
+                    : health.status === 'unknown' ? t('home.startPreparing') : t('home.startMaintenance')}
                 </Button>
+                <Space style={{ width: '100%', justifyContent: 'center', marginTop: '8px' }}>
+                  <Button 
+                    type="link"
+                    icon={<TeamOutlined />}
+                    onClick={() => navigate('/members')}
+                  >
+                    {t('home.browseMembers')}
+                  </Button>
+                  <Button 
+                    type="link"
+                    icon={<SearchOutlined />}
+                    onClick={() => navigate('/search')}
+                  >
+                    {t('home.searchMembers')}
+                  </Button>
+                </Space>
               </Card>
             </Col>
             
@@ -265,7 +332,7 @@ function HomePage({ onThemeToggle, isDarkMode }: HomePageProps) {
                     </div>
                     <div style={{ flex: 1 }}>
                       <Title level={4} style={{ marginBottom: '8px', fontSize: '18px', fontWeight: 600 }}>
-                        새로운 기능
+                        {t('home.newFeatures.title')}
                       </Title>
                       <Paragraph style={{ 
                         margin: '0 0 8px 0', 
@@ -273,11 +340,11 @@ function HomePage({ onThemeToggle, isDarkMode }: HomePageProps) {
                         opacity: 0.7,
                         lineHeight: '1.5'
                       }}>
-                        새로운 기능을 주기적으로<br/>
-                        업데이트 예정입니다
+                        {t('home.newFeatures.line1')}<br/>
+                        {t('home.newFeatures.line2')}
                       </Paragraph>
                       <Text style={{ fontSize: '13px', opacity: 0.5 }}>
-                        기획 중 0%
+                        {t('home.newFeatures.status')}
                       </Text>
                     </div>
                   </Space>
@@ -321,7 +388,7 @@ function HomePage({ onThemeToggle, isDarkMode }: HomePageProps) {
                     </div>
                     <div style={{ flex: 1 }}>
                       <Title level={4} style={{ marginBottom: '8px', fontSize: '18px', fontWeight: 600 }}>
-                        오시 분석 리포트
+                        {t('home.report.title')}
                       </Title>
                       <Paragraph style={{ 
                         margin: '0 0 12px 0', 
@@ -329,8 +396,8 @@ function HomePage({ onThemeToggle, isDarkMode }: HomePageProps) {
                         opacity: 0.7,
                         lineHeight: '1.5'
                       }}>
-                        당신의 취향을 상세하게<br/>
-                        분석한 리포트 제공
+                        {t('home.report.line1')}<br/>
+                        {t('home.report.line2')}
                       </Paragraph>
                       <Progress 
                         percent={20}
@@ -348,6 +415,126 @@ function HomePage({ onThemeToggle, isDarkMode }: HomePageProps) {
             </Col>
           </Row>
 
+          {/* 이어서 하기 - 작성 중인 퀴즈가 있을 때만 */}
+          {quizDraft && (
+            <Card 
+              className="glass-effect"
+              variant="borderless"
+              style={{ 
+                maxWidth: '900px',
+                margin: '32px auto 0',
+                background: isDarkMode 
+                  ? 'rgba(255,255,255,0.03)' 
+                  : 'rgba(255,255,255,0.9)',
+                borderRadius: '16px',
+                border: '1px dashed rgba(255,183,197,0.4)'
+              }}
+              styles={{ 
+                body: { padding: '20px 24px' }
+              }}
+            >
+              <Row align="middle" justify="space-between" gutter={[16, 12]}>
+                <Col>
+                  <Space align="center" size={16}>
+                    <EditOutlined style={{ fontSize: '24px', color: '#FFB7C5' }} />
+                    <div style={{ textAlign: 'left' }}>
+                      <Title level={5} style={{ margin: 0, fontSize: '16px' }}>
+                        {t('home.draft.title')}
+                      </Title>
+                      <Text style={{ fontSize: '13px', opacity: 0.6 }}>
+                        {t('home.draft.summary', {
+                          count: quizDraft.answers.length,
+                          time: new Date(quizDraft.updatedAt).toLocaleString(localeTag)
+                        })}
+                      </Text>
+                    </div>
+                  </Space>
+                </Col>
+                
+                <Col>
+                  <Space>
+                    <Button 
+                      type="text"
+                      onClick={() => {
+                        clearQuizDraft()
+                        setQuizDraft(null)
+                      }}
+                    >
+                      {t('common.delete')}
+                    </Button>
+                    <Button 
+                      type="primary"
+                      onClick={() => navigate('/quiz')}
+                    >
+                      {t('home.draft.resume')}
+                    </Button>
+                  </Space>
+                </Col>
+              </Row>
+            </Card>
+          )}
+
+          {/* 실패/취소된 분석 - 같은 답변으로 다시 시도 */}
+          {(job?.status === 'failed' || job?.status === 'cancelled') && (
+            <Card 
+              className="glass-effect"
+              variant="borderless"
+              style={{ 
+                maxWidth: '900px',
+                margin: '32px auto 0',
+                background: isDarkMode 
+                  ? 'rgba(255,255,255,0.03)' 
+                  : 'rgba(255,255,255,0.9)',
+                borderRadius: '16px',
+                border: '1px solid rgba(255,120,117,0.3)'
+              }}
+              styles={{ 
+                body: { padding: '20px 24px' }
+              }}
+            >
+              <Row align="middle" justify="space-between" gutter={[16, 12]}>
+                <Col>
+                  <Space align="center" size={16}>
+                    <WarningOutlined style={{ fontSize: '24px', color: '#FF7875' }} />
+                    <div style={{ textAlign: 'left' }}>
+                      <Title level={5} style={{ margin: 0, fontSize: '16px' }}>
+                        {job.status === 'failed' ? t('home.job.failed') : t('home.job.cancelled')}
+                      </Title>
+                      {job.error && (
+                        <Text style={{ fontSize: '13px', opacity: 0.6 }}>
+                          {t(job.error.message.key, job.error.message.params)}
+                        </Text>
+                      )}
+                    </div>
+                  </Space>
+                </Col>
+                
+                <Col>
+                  <Space>
+                    <Button type="text" onClick={dismissJob}>
+                      {t('common.close')}
+                    </Button>
+                    {job.request && (
+                      <Button type="primary" onClick={retryAnalysis}>
+                        {t('common.retry')}
+                      </Button>
+                    )}
+                  </Space>
+                </Col>
+              </Row>
+              {job.preMatch && (
+                <div style={{ marginTop: '20px' }}>
+                  <PreMatchPanel
+                    preMatch={job.preMatch}
+                    recommendations={[]}
+                    final={false}
+                    description={t('home.job.offlinePreMatch')}
+                  />
+                </div>
+              )}
+            </Card>
+          )}
+
           {/* 나의 오시 매칭 결과 - Vue 디자인처럼 작은 카드로 */}
           <div style={{ marginTop: '48px', width: '100%', maxWidth: '900px', margin: '48px auto 0' }}>
             {isAnalyzing ? (
@@ -366,28 +553,44 @@ function HomePage({ onThemeToggle, isDarkMode }: HomePageProps) {
                   body: { padding: '32px', textAlign: 'center' }
                 }}
               >
-                <Space direction="vertical" size="large">
+                <Space direction="vertical" size="large" style={{ width: '100%' }}>
                   <Spin 
                     indicator={<LoadingOutlined style={{ fontSize: 48, color: '#FFB7C5' }} spin />}
                   />
                   <div>
                     <Title level={4} style={{ margin: '0 0 8px 0', color: '#FFB7C5' }}>
-                      AI가 당신의 오시를 분석하고 있습니다
+                      {t('home.analyzing.title')}
                     </Title>
                     <Text style={{ opacity: 0.7 }}>
-                      분석이 완료되면 자동으로 결과가 표시됩니다
+                      {t('home.analyzing.subtitle')}
                     </Text>
                   </div>
-                  <Progress 
-                    percent={100}
-                    strokeColor={{
-                      '0%': '#FFB7C5',
-                      '100%': '#FF85C0'
-                    }}
-                    status="active"
-                    showInfo={false}
-                    style={{ width: '300px' }}
-                  />
+                  {/* 스트리밍이면 단계별 진행 상황, 아니면 진행 표시만 */}
+                  {job?.progress?.streaming ? (
+                    <AnalysisProgressPanel progress={job.progress} />
+                  ) : (
+                    <Progress 
+                      percent={100}
+                      strokeColor={{
+                        '0%': '#FFB7C5',
+                        '100%': '#FF85C0'
+                      }}
+                      status="active"
+                      showInfo={false}
+                      style={{ width: '300px', margin: '0 auto' }}
+                    />
+                  )}
+                  {job?.preMatch && (
+                    <PreMatchPanel
+                      preMatch={job.preMatch}
+                      recommendations={job.progress?.partialRecommendations ?? []}
+                      final={false}
+                      description={t('home.analyzing.preMatch')}
+                    />
+                  )}
+                  <Button type="text" onClick={cancelAnalysis}>
+                    {t('home.analyzing.cancel')}
+                  </Button>
                 </Space>
               </Card>
             ) : lastResult && lastResult.recommendations && lastResult.recommendations.length > 0 ? (
@@ -395,7 +598,7 @@ function HomePage({ onThemeToggle, isDarkMode }: HomePageProps) {
                 <div style={{ textAlign: 'center', marginBottom: '24px' }}>
                   <HeartOutlined style={{ fontSize: '16px', color: '#FFB7C5', marginRight: '8px' }} />
                   <Text style={{ fontSize: '16px', fontWeight: 500, opacity: 0.8 }}>
-                    나의 오시 매칭 결과
+                    {t('home.lastResult.title')}
                   </Text>
                 </div>
                 
@@ -426,14 +629,14 @@ function HomePage({ onThemeToggle, isDarkMode }: HomePageProps) {
                             fontWeight: 'bold'
                           }}
                         >
-                          {lastResult.recommendations[0].name.charAt(0)}
+                          {recommendationName(lastResult.recommendations[0]).charAt(0)}
                         </Avatar>
                         <div>
                           <Title level={5} style={{ margin: 0, fontSize: '16px' }}>
-                            {lastResult.recommendations[0].name}
+                            {recommendationName(lastResult.recommendations[0])}
                           </Title>
                           <Text style={{ fontSize: '13px', opacity: 0.6 }}>
-                            매칭도 {Math.round(lastResult.recommendations[0].matchScore * 10)}%
+                            {t('common.matchScore', { percent: matchPercent(lastResult.recommendations[0].matchScore) })}
                           </Text>
                         </div>
                       </Space>
@@ -444,17 +647,27 @@ function HomePage({ onThemeToggle, isDarkMode }: HomePageProps) {
                         type="text"
                         style={{ color: '#FFB7C5' }}
                       >
-                        결과 보기 →
+                        {t('home.lastResult.view')}
                       </Button>
                     </Col>
                   </Row>
                 </Card>
+
+                <div style={{ textAlign: 'center', marginTop: '12px' }}>
+                  <Button 
+                    type="link"
+                    icon={<HistoryOutlined />}
+                    onClick={() => navigate('/history')}
+                  >
+                    {t('home.lastResult.history')}
+                  </Button>
+                </div>
               </>
             ) : (
               <div style={{ textAlign: 'center', opacity: 0.5, padding: '40px 0' }}>
                 <HeartOutlined style={{ fontSize: '24px', color: '#FFB7C5', marginBottom: '12px', display: 'block' }} />
                 <Text style={{ fontSize: '14px' }}>
-                  아직 매칭 결과가 없습니다
+                  {t('home.lastResult.empty')}
                 </Text>
               </div>
             )}
@@ -473,6 +686,9 @@ function HomePage({ onThemeToggle, isDarkMode }: HomePageProps) {
         <Paragraph style={{ margin: 0, fontSize: '14px' }}>
           © 2025 Holo-Oshi Finder | Fan-made with love
         </Paragraph>
+        <Button type="link" size="small" onClick={() => navigate('/privacy')}>
+          {t('privacy.link')}
+        </Button>
       </footer>
     </div>
   )
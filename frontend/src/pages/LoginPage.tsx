@@ -0,0 +1,92 @@
+import { useState } from 'react'
+import { useNavigate, useSearchParams, Navigate } from 'react-router-dom'
+import { Alert, Button, Card, Form, Input, Typography, message } from 'antd'
+import { LockOutlined, MailOutlined } from '@ant-design/icons'
+import { getErrorMessage, isUnauthorized } from '../api/errors'
+import { useAuth } from '../hooks/useAuth'
+import { useLocale } from '../hooks/useLocale'
+import LocaleSwitcher from '../components/common/LocaleSwitcher'
+import type { LoginRequest } from '../types'
+
+const { Title, Text } = Typography
+
+// 로그인 후 돌아갈 경로 (같은 사이트 안의 경로만 허용)
+function safeRedirect(value: string | null): string {
+  return value && value.startsWith('/') && !value.startsWith('//') ? value : '/'
+}
+
+function LoginPage() {
+  const navigate = useNavigate()
+  const [searchParams] = useSearchParams()
+  const redirect = safeRedirect(searchParams.get('redirect'))
+  const { user, login } = useAuth()
+  const { t } = useLocale()
+  const [submitting, setSubmitting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+
+  // 이미 로그인한 상태로 들어오면 바로 돌려보냄
+  if (user && !submitting) return <Navigate to={redirect} replace />
+
+  const handleSubmit = async (values: LoginRequest) => {
+    setSubmitting(true)
+    setError(null)
+    try {
+      const loggedIn = await login({ email: values.email.trim(), password: values.password })
+      message.success(t('auth.welcome', { name: loggedIn.displayName }))
+      navigate(redirect, { replace: true })
+    } catch (e) {
+      console.error('로그인 실패:', e)
+      setError(isUnauthorized(e) ? t('auth.invalidCredentials') : getErrorMessage(e, t))
+      setSubmitting(false)
+    }
+  }
+
+  return (
+    <div className="min-h-screen" style={{ display: 'flex', alignItems: 'center', justifyContent: 'center', padding: '32px 16px' }}>
+      <Card className="glass-effect" variant="borderless" style={{ width: '100%', maxWidth: '420px' }}>
+        <div style={{ display: 'flex', justifyContent: 'flex-end' }}>
+          <LocaleSwitcher size="small" />
+        </div>
+        <div style={{ textAlign: 'center', marginBottom: '24px' }}>
+          <Title level={2} className="gradient-text" style={{ marginBottom: '8px' }}>
+            {t('auth.title')}
+          </Title>
+          <Text type="secondary">{t('auth.subtitle')}</Text>
+        </div>
+
+        {error && <Alert type="error" showIcon message={error} style={{ marginBottom: '16px' }} />}
+
+        <Form<LoginRequest> layout="vertical" onFinish={handleSubmit} requiredMark={false} disabled={submitting}>
+          <Form.Item
+            name="email"
+            label={t('auth.email')}
+            rules={[{ required: true, whitespace: true, message: t('auth.emailRequired') }]}
+          >
+            <Input prefix={<MailOutlined />} type="email" autoComplete="email" size="large" />
+          </Form.Item>
+          <Form.Item
+            name="password"
+            label={t('auth.password')}
+            rules={[{ required: true, message: t('auth.passwordRequired') }]}
+          >
+            <Input.Password prefix={<LockOutlined />} autoComplete="current-password" size="large" />
+          </Form.Item>
+          <Button type="primary" htmlType="submit" size="large" block loading={submitting}>
+            {t('auth.submit')}
+          </Button>
+        </Form>
+
+        <div style={{ textAlign: 'center', marginTop: '24px' }}>
+          <Button type="link" onClick={() => navigate('/')}>
+            {t('auth.continueAsGuest')}
+          </Button>
+          <Text type="secondary" style={{ display: 'block', fontSize: '12px' }}>
+            {t('auth.guestHint')}
+          </Text>
+        </div>
+      </Card>
+    </div>
+  )
+}
+
+export default LoginPage
@@ -0,0 +1,220 @@
+import { useMemo } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { Button, Card, Typography, Tag, Space, Avatar, Empty, Spin, Select, Segmented, message } from 'antd'
+import { HomeOutlined, LinkOutlined, ReloadOutlined, TeamOutlined } from '@ant-design/icons'
+import type { Member } from '../types'
+import { useMemberDirectory } from '../hooks/useMemberDirectory'
+import { useLocale } from '../hooks/useLocale'
+import VirtualGrid from '../components/members/VirtualGrid'
+import AccountMenu from '../components/common/AccountMenu'
+import {
+  MEMBER_BRANCHES,
+  MEMBER_BRANCH_LABELS,
+  MEMBER_SORTS,
+  MEMBER_SORT_MESSAGE_KEYS,
+  MEMBER_STATUSES,
+  MEMBER_STATUS_MESSAGE_KEYS,
+  applyMemberFilters,
+  collectMemberFacets,
+  parseMemberFilters,
+  toSearchParams
+} from '../utils/memberFilters'
+import type { MemberFilters } from '../utils/memberFilters'
+
+const { Title, Text } = Typography
+
+const CARD_HEIGHT = 168
+const ALL = 'all'
+
+function MemberCard({ member, onClick }: { member: Member; onClick: () => void }) {
+  const { t } = useLocale()
+
+  return (
+    <Card
+      className="glass-effect hover-float"
+      variant="borderless"
+      style={{ height: '100%', cursor: 'pointer', opacity: member.status === 'active' ? 1 : 0.7 }}
+      onClick={onClick}
+    >
+      <Space align="start" size={16}>
+        <Avatar
+          size={56}
+          src={member.image_url}
+          style={{
+            background: 'linear-gradient(135deg, #FFB7C5, #FF85C0)',
+            fontSize: '22px',
+            fontWeight: 'bold',
+            flexShrink: 0
+          }}
+        >
+          {member.name.charAt(0)}
+        </Avatar>
+        <div style={{ minWidth: 0 }}>
+          <Title level={5} style={{ margin: 0 }} ellipsis>
+            {member.name}
+          </Title>
+          <Text type="secondary" style={{ fontSize: '12px' }} ellipsis>
+            {[MEMBER_BRANCH_LABELS[member.branch], member.generation].filter(Boolean).join(' · ')}
+            {member.status !== 'active' && ` · ${t(MEMBER_STATUS_MESSAGE_KEYS[member.status])}`}
+          </Text>
+          <div style={{ marginTop: '8px' }}>
+            <Space wrap size={[4, 4]}>
+              {member.traits.slice(0, 3).map(trait => (
+                <Tag key={trait} style={{ fontSize: '12px' }}>{trait}</Tag>
+              ))}
+            </Space>
+          </div>
+        </div>
+      </Space>
+    </Card>
+  )
+}
+
+function MemberDirectoryPage() {
+  const navigate = useNavigate()
+  const { t } = useLocale()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const filters = useMemo(() => parseMemberFilters(searchParams), [searchParams])
+  const { members, loading, error, requiresLogin, reload } = useMemberDirectory(filters.branch)
+  const facets = useMemo(() => collectMemberFacets(members), [members])
+  const visibleMembers = useMemo(() => applyMemberFilters(members, filters), [members, filters])
+
+  // 필터는 URL에만 두고, 바꿀 때마다 히스토리를 쌓지 않음
+  const updateFilters = (patch: Partial<MemberFilters>) => {
+    setSearchParams(toSearchParams({ ...filters, ...patch }), { replace: true })
+  }
+
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href)
+      message.success(t('members.linkCopied'))
+    } catch (e) {
+      console.error('링크 복사 실패:', e)
+      message.error(t('members.linkCopyFailed'))
+    }
+  }
+
+  const hasFilters = toSearchParams({ ...filters, sort: 'name' }).toString() !== ''
+
+  return (
+    <div className="min-h-screen" style={{ padding: '32px' }}>
+      <div style={{ maxWidth: '1200px', margin: '0 auto' }}>
+        {/* Header */}
+        <div style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          marginBottom: '24px'
+        }}>
+          <Title level={2} style={{ margin: 0 }}>
+            <TeamOutlined style={{ color: '#FFB7C5', marginRight: '12px' }} />
+            {t('members.title')}
+          </Title>
+          <Space>
+            <Button icon={<LinkOutlined />} onClick={copyLink} size="large">
+              {t('members.copyLink')}
+            </Button>
+            <Button icon={<HomeOutlined />} onClick={() => navigate('/')} size="large">
+              {t('common.home')}
+            </Button>
+          </Space>
+        </div>
+
+        {/* Filters */}
+        <Card className="glass-effect" variant="borderless" style={{ marginBottom: '24px' }}>
+          <Space direction="vertical" size={16} style={{ width: '100%' }}>
+            <Segmented
+              value={filters.branch ?? ALL}
+              options={[
+                { value: ALL, label: t('members.filter.all') },
+                ...MEMBER_BRANCHES.map(branch => ({ value: branch, label: MEMBER_BRANCH_LABELS[branch] }))
+              ]}
+              onChange={value => updateFilters({
+                branch: value === ALL ? null : value as Member['branch'],
+                // 기수는 지부마다 달라서 지부를 바꾸면 초기화
+                generation: null
+              })}
+            />
+            <Space wrap size={12}>
+              <Select
+                allowClear
+                placeholder={t('members.filter.generation')}
+                style={{ minWidth: 160 }}
+                value={filters.generation ?? undefined}
+                options={facets.generations.map(generation => ({ value: generation, label: generation }))}
+                onChange={value => updateFilters({ generation: value ?? null })}
+              />
+              <Select
+                allowClear
+                placeholder={t('members.filter.status')}
+                style={{ minWidth: 140 }}
+                value={filters.status ?? undefined}
+                options={MEMBER_STATUSES.map(status => ({ value: status, label: t(MEMBER_STATUS_MESSAGE_KEYS[status]) }))}
+                onChange={value => updateFilters({ status: value ?? null })}
+              />
+              <Select
+                mode="multiple"
+                allowClear
+                placeholder={t('members.filter.traits')}
+                style={{ minWidth: 240, maxWidth: 480 }}
+                maxTagCount="responsive"
+                value={filters.traits}
+                options={facets.traits.map(trait => ({ value: trait, label: trait }))}
+                onChange={traits => updateFilters({ traits })}
+              />
+              <Select
+                style={{ minWidth: 140 }}
+                value={filters.sort}
+                options={MEMBER_SORTS.map(sort => ({ value: sort, label: t(MEMBER_SORT_MESSAGE_KEYS[sort]) }))}
+                onChange={sort => updateFilters({ sort })}
+              />
+              {hasFilters && (
+                <Button type="link" onClick={() => setSearchParams({}, { replace: true })}>
+                  {t('members.filter.reset')}
+                </Button>
+              )}
+            </Space>
+          </Space>
+        </Card>
+
+        {loading ? (
+          <div style={{ textAlign: 'center', padding: '80px 0' }}>
+            <Spin size="large" />
+          </div>
+        ) : error ? (
+          <Empty style={{ padding: '80px 0' }} description={t(error.key, error.params)}>
+            {requiresLogin ? (
+              <AccountMenu />
+            ) : (
+              <Button type="primary" icon={<ReloadOutlined />} onClick={reload}>
+                {t('common.retry')}
+              </Button>
+            )}
+          </Empty>
+        ) : visibleMembers.length === 0 ? (
+          <Empty style={{ padding: '80px 0' }} description={t('members.empty')} />
+        ) : (
+          <>
+            <Text type="secondary" style={{ display: 'block', marginBottom: '16px' }}>
+              {t('common.memberCount', { count: visibleMembers.length })}
+            </Text>
+            <VirtualGrid
+              items={visibleMembers}
+              rowHeight={CARD_HEIGHT}
+              minColumnWidth={280}
+              getKey={member => member.id}
+              renderItem={member => (
+                <MemberCard
+                  member={member}
+                  onClick={() => navigate(`/members/${encodeURIComponent(member.id)}`)}
+                />
+              )}
+            />
+          </>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default MemberDirectoryPage
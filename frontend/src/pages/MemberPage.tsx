@@ -0,0 +1,340 @@
+import { useNavigate, useParams } from 'react-router-dom'
+import { Button, Card, Typography, Tag, Space, Avatar, Row, Col, Empty, Spin, List, Timeline, Descriptions } from 'antd'
+import {
+  ArrowLeftOutlined,
+  HomeOutlined,
+  ReloadOutlined,
+  YoutubeOutlined,
+  XOutlined,
+  TrophyOutlined,
+  FireOutlined,
+  MessageOutlined,
+  ClockCircleOutlined
+} from '@ant-design/icons'
+import type { Member } from '../types'
+import { useMemberDetail } from '../hooks/useMemberDetail'
+import { useLocale } from '../hooks/useLocale'
+import AccountMenu from '../components/common/AccountMenu'
+import FavoriteButton from '../components/common/FavoriteButton'
+import { MEMBER_BRANCH_LABELS, MEMBER_STATUS_MESSAGE_KEYS } from '../utils/memberFilters'
+
+const { Title, Text, Paragraph } = Typography
+
+const STATUS_COLORS: Record<Member['status'], string> = {
+  active: 'green',
+  graduated: 'default',
+  inactive: 'default'
+}
+
+// 채널 id(UC...), 핸들(@...), 전체 URL 모두 허용
+function youtubeUrl(channel: string): string {
+  if (/^https?:\/\//.test(channel)) return channel
+  if (channel.startsWith('@')) return `https://www.youtube.com/${channel}`
+  return `https://www.youtube.com/channel/${channel}`
+}
+
+function twitterUrl(handle: string): string {
+  if (/^https?:\/\//.test(handle)) return handle
+  return `https://x.com/${handle.replace(/^@/, '')}`
+}
+
+function formatDate(value: string, localeTag: string): string {
+  const date = new Date(value)
+  return Number.isNaN(date.getTime()) ? value : date.toLocaleDateString(localeTag)
+}
+
+function MemberPage() {
+  const navigate = useNavigate()
+  const { memberId } = useParams()
+  const { localeTag, t } = useLocale()
+  const { member, loading, error, requiresLogin, reload } = useMemberDetail(memberId)
+
+  if (loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Spin size="large" />
+      </div>
+    )
+  }
+
+  if (!member) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Empty
+          description={
+            <Space direction="vertical" size="large">
+              <Title level={3}>{t('member.loadFailed')}</Title>
+              {error && <Text type="secondary">{t(error.key, error.params)}</Text>}
+              <Space>
+                <Button icon={<ArrowLeftOutlined />} onClick={() => navigate(-1)} size="large">
+                  {t('common.back')}
+                </Button>
+                {requiresLogin ? (
+                  <AccountMenu size="large" />
+                ) : (
+                  <Button type="primary" icon={<ReloadOutlined />} onClick={reload} size="large">
+                    {t('common.retry')}
+                  </Button>
+                )}
+              </Space>
+            </Space>
+          }
+        />
+      </div>
+    )
+  }
+
+  const profileItems = [
+    member.generation && { key: 'generation', label: t('member.profile.generation'), children: member.generation },
+    member.unit && { key: 'unit', label: t('member.profile.unit'), children: member.unit },
+    member.debut_date && { key: 'debut', label: t('member.profile.debut'), children: formatDate(member.debut_date, localeTag) },
+    member.birthday && { key: 'birthday', label: t('member.profile.birthday'), children: member.birthday },
+    member.fanbase && { key: 'fanbase', label: t('member.profile.fanbase'), children: member.fanbase }
+  ].filter(Boolean) as { key: string; label: string; children: string }[]
+  const hasEnrichedData = member.specialSkills.length > 0 || member.famousMoments.length > 0 ||
+    member.catchphrases.length > 0 || member.streamingPatterns.length > 0
+
+  return (
+    <div className="min-h-screen" style={{ padding: '32px' }}>
+      <div style={{ maxWidth: '1000px', margin: '0 auto' }}>
+        {/* Header */}
+        <div style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          marginBottom: '32px'
+        }}>
+          <Button icon={<ArrowLeftOutlined />} onClick={() => navigate(-1)} size="large">
+            {t('common.back')}
+          </Button>
+          <Button icon={<HomeOutlined />} onClick={() => navigate('/')} size="large">
+            {t('common.home')}
+          </Button>
+        </div>
+
+        {/* Profile */}
+        <Card
+          className="glass-effect"
+          variant="borderless"
+          style={{
+            background: 'linear-gradient(135deg, rgba(255, 183, 197, 0.12), rgba(255, 133, 192, 0.08))',
+            marginBottom: '24px'
+          }}
+        >
+          <Row gutter={[32, 24]} align="middle">
+            <Col xs={24} md={6} style={{ textAlign: 'center' }}>
+              <Avatar
+                size={120}
+                src={member.image_url}
+                style={{
+                  background: 'linear-gradient(135deg, #FFB7C5, #FF85C0)',
+                  fontSize: '48px',
+                  fontWeight: 'bold'
+                }}
+              >
+                {member.emoji ?? member.name.charAt(0)}
+              </Avatar>
+            </Col>
+            <Col xs={24} md={18}>
+              <Space wrap size={8} style={{ marginBottom: '8px' }}>
+                <Tag color="magenta">{MEMBER_BRANCH_LABELS[member.branch]}</Tag>
+                <Tag color={STATUS_COLORS[member.status]}>{t(MEMBER_STATUS_MESSAGE_KEYS[member.status])}</Tag>
+              </Space>
+              <Space align="center" size={12}>
+                <Title level={2} style={{ margin: 0 }}>
+                  {member.name} {member.emoji}
+                </Title>
+                <FavoriteButton memberId={member.id} />
+              </Space>
+              {(member.name_ja || member.name_en) && (
+                <Text type="secondary" style={{ fontSize: '16px' }}>
+                  {[member.name_ja, member.name_en].filter(name => name && name !== member.name).join(' · ')}
+                </Text>
+              )}
+              {member.description && (
+                <Paragraph style={{ fontSize: '15px', marginTop: '16px' }}>
+                  {member.description}
+                </Paragraph>
+              )}
+              {member.traits.length > 0 && (
+                <Space wrap size={[4, 8]} style={{ marginTop: '8px' }}>
+                  {member.traits.slice(0, 10).map(trait => (
+                    <Tag key={trait}>{trait}</Tag>
+                  ))}
+                </Space>
+              )}
+              {(member.youtube_channel || member.twitter) && (
+                <Space wrap style={{ marginTop: '16px', display: 'flex' }}>
+                  {member.youtube_channel && (
+                    <Button
+                      icon={<YoutubeOutlined />}
+                      href={youtubeUrl(member.youtube_channel)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                    >
+                      YouTube
+                    </Button>
+                  )}
+                  {member.twitter && (
+                    <Button
+                      icon={<XOutlined />}
+                      href={twitterUrl(member.twitter)}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                    >
+                      @{member.twitter.replace(/^@/, '')}
+                    </Button>
+                  )}
+                </Space>
+              )}
+            </Col>
+          </Row>
+          {profileItems.length > 0 && (
+            <Descriptions
+              style={{ marginTop: '24px' }}
+              size="small"
+              column={{ xs: 1, sm: 2, md: 3 }}
+              items={profileItems}
+            />
+          )}
+        </Card>
+
+        {!hasEnrichedData && (
+          <Empty description={t('member.noEnrichedData')} style={{ padding: '32px 0' }} />
+        )}
+
+        <Row gutter={[24, 24]}>
+          {/* 특기 */}
+          {member.specialSkills.length > 0 && (
+            <Col xs={24} md={12}>
+              <Card className="glass-effect" variant="borderless" style={{ height: '100%' }}>
+                <Title level={4} style={{ marginBottom: '16px' }}>
+                  <TrophyOutlined style={{ color: '#FFD666', marginRight: '8px' }} />
+                  {t('member.skills')}
+                </Title>
+                <List
+                  dataSource={member.specialSkills}
+                  renderItem={skill => (
+                    <List.Item style={{ border: 'none', padding: '8px 0' }}>
+                      <div>
+                        <Space wrap size={6}>
+                          <Text strong>{skill.name}</Text>
+                          {skill.category && <Tag>{skill.category}</Tag>}
+                          {skill.proficiency && <Tag color="gold">{skill.proficiency}</Tag>}
+                        </Space>
+                        {skill.description && (
+                          <Paragraph type="secondary" style={{ margin: '4px 0 0' }}>
+                            {skill.description}
+                          </Paragraph>
+                        )}
+                      </div>
+                    </List.Item>
+                  )}
+                />
+              </Card>
+            </Col>
+          )}
+
+          {/* 캐치프레이즈 */}
+          {member.catchphrases.length > 0 && (
+            <Col xs={24} md={12}>
+              <Card className="glass-effect" variant="borderless" style={{ height: '100%' }}>
+                <Title level={4} style={{ marginBottom: '16px' }}>
+                  <MessageOutlined style={{ color: '#FFB7C5', marginRight: '8px' }} />
+                  {t('member.catchphrases')}
+                </Title>
+                <Space direction="vertical" size={16} style={{ width: '100%' }}>
+                  {member.catchphrases.map(phrase => (
+                    <div key={phrase.text} style={{ borderLeft: '3px solid #FFB7C5', paddingLeft: '12px' }}>
+                      <Text strong style={{ fontSize: '16px' }}>“{phrase.text}”</Text>
+                      {phrase.romanized && (
+                        <div><Text type="secondary" italic>{phrase.romanized}</Text></div>
+                      )}
+                      {phrase.translation && <div><Text>{phrase.translation}</Text></div>}
+                      {phrase.context && (
+                        <div><Text type="secondary" style={{ fontSize: '12px' }}>{phrase.context}</Text></div>
+                      )}
+                    </div>
+                  ))}
+                </Space>
+              </Card>
+            </Col>
+          )}
+
+          {/* 명장면 */}
+          {member.famousMoments.length > 0 && (
+            <Col xs={24}>
+              <Card className="glass-effect" variant="borderless">
+                <Title level={4} style={{ marginBottom: '24px' }}>
+                  <FireOutlined style={{ color: '#FF85C0', marginRight: '8px' }} />
+                  {t('member.moments')}
+                </Title>
+                <Timeline
+                  items={member.famousMoments.map(moment => ({
+                    color: '#FFB7C5',
+                    children: (
+                      <div>
+                        <Space wrap size={8}>
+                          {moment.videoUrl ? (
+                            <a href={moment.videoUrl} target="_blank" rel="noopener noreferrer">
+                              <Text strong>{moment.title}</Text>
+                            </a>
+                          ) : (
+                            <Text strong>{moment.title}</Text>
+                          )}
+                          {moment.date && <Text type="secondary">{formatDate(moment.date, localeTag)}</Text>}
+                          {moment.timestamp && <Tag>{moment.timestamp}</Tag>}
+                        </Space>
+                        {moment.description && (
+                          <Paragraph type="secondary" style={{ margin: '4px 0' }}>
+                            {moment.description}
+                          </Paragraph>
+                        )}
+                        {moment.tags.length > 0 && (
+                          <Space wrap size={[4, 4]}>
+                            {moment.tags.map(tag => <Tag key={tag} bordered={false}>#{tag}</Tag>)}
+                          </Space>
+                        )}
+                      </div>
+                    )
+                  }))}
+                />
+              </Card>
+            </Col>
+          )}
+
+          {/* 방송 패턴 */}
+          {member.streamingPatterns.length > 0 && (
+            <Col xs={24}>
+              <Card className="glass-effect" variant="borderless">
+                <Title level={4} style={{ marginBottom: '16px' }}>
+                  <ClockCircleOutlined style={{ color: '#85A5FF', marginRight: '8px' }} />
+                  {t('member.streamingPatterns')}
+                </Title>
+                <Row gutter={[16, 16]}>
+                  {member.streamingPatterns.map((pattern, index) => (
+                    <Col xs={24} md={12} key={`${pattern.type}-${index}`}>
+                      <Text strong>{pattern.type}</Text>
+                      {pattern.details.length > 0 && (
+                        <div style={{ marginTop: '4px' }}>
+                          {pattern.details.map(detail => (
+                            <div key={detail}><Text type="secondary">• {detail}</Text></div>
+                          ))}
+                        </div>
+                      )}
+                      {pattern.insights && (
+                        <Paragraph style={{ margin: '4px 0 0' }}>{pattern.insights}</Paragraph>
+                      )}
+                    </Col>
+                  ))}
+                </Row>
+              </Card>
+            </Col>
+          )}
+        </Row>
+      </div>
+    </div>
+  )
+}
+
+export default MemberPage
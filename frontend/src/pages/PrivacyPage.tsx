@@ -0,0 +1,191 @@
+import { useState } from 'react'
+import { useNavigate } from 'react-router-dom'
+import { Alert, Button, Card, List, Popconfirm, Space, Spin, Tag, Typography, Upload, message } from 'antd'
+import { DeleteOutlined, DownloadOutlined, HomeOutlined, SafetyCertificateOutlined, UploadOutlined } from '@ant-design/icons'
+import { getErrorMessage } from '../api/errors'
+import { PersonalDataFormatError } from '../services/personalData'
+import { usePersonalData } from '../hooks/usePersonalData'
+import { useLocale } from '../hooks/useLocale'
+import LocaleSwitcher from '../components/common/LocaleSwitcher'
+import type { ThemeMode } from '../types'
+
+const { Title, Text, Paragraph } = Typography
+
+interface PrivacyPageProps {
+  theme: ThemeMode
+  onThemeChange: (theme: ThemeMode) => void
+}
+
+// 개인정보 센터: 이 기기에 저장된 데이터 목록, 내보내기/가져오기, 전체 삭제
+function PrivacyPage({ theme, onThemeChange }: PrivacyPageProps) {
+  const navigate = useNavigate()
+  const { t } = useLocale()
+  const { categories, loading, isGuest, exportData, importFile, deleteAll } = usePersonalData({ theme, onThemeChange })
+  const [busy, setBusy] = useState<'export' | 'import' | 'delete' | null>(null)
+
+  const handleExport = async () => {
+    setBusy('export')
+    try {
+      await exportData()
+    } catch (e) {
+      console.error('데이터 내보내기 실패:', e)
+      message.error(t('privacy.export.failed'))
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleImport = async (file: File) => {
+    setBusy('import')
+    try {
+      const outcome = await importFile(file)
+      message.success(t('privacy.import.succeeded', { count: outcome.results }))
+    } catch (e) {
+      console.error('데이터 가져오기 실패:', e)
+      message.error(e instanceof PersonalDataFormatError || e instanceof SyntaxError
+        ? t('privacy.import.invalid')
+        : t('privacy.import.failed'))
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  const handleDelete = async () => {
+    setBusy('delete')
+    try {
+      await deleteAll()
+      message.success(t('privacy.delete.succeeded'))
+    } catch (e) {
+      console.error('데이터 삭제 실패:', e)
+      message.error(t('privacy.delete.failed', { error: getErrorMessage(e, t) }))
+    } finally {
+      setBusy(null)
+    }
+  }
+
+  return (
+    <div className="min-h-screen" style={{ padding: '32px' }}>
+      <div style={{ maxWidth: '800px', margin: '0 auto' }}>
+        {/* Header */}
+        <div style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          marginBottom: '32px'
+        }}>
+          <Title level={2} style={{ margin: 0 }}>
+            <SafetyCertificateOutlined style={{ color: '#FFB7C5', marginRight: '12px' }} />
+            {t('privacy.title')}
+          </Title>
+          <Space>
+            <LocaleSwitcher />
+            <Button icon={<HomeOutlined />} onClick={() => navigate('/')} size="large">
+              {t('privacy.home')}
+            </Button>
+          </Space>
+        </div>
+
+        <Paragraph type="secondary" style={{ marginBottom: '24px' }}>
+          {t('privacy.subtitle')}
+        </Paragraph>
+
+        {/* 저장된 데이터 */}
+        <Card className="glass-effect" variant="borderless" style={{ marginBottom: '24px' }}>
+          <Title level={4} style={{ marginBottom: '16px' }}>
+            {t('privacy.stored.title')}
+          </Title>
+          {loading ? (
+            <div style={{ textAlign: 'center', padding: '40px 0' }}>
+              <Spin />
+            </div>
+          ) : (
+            <List
+              dataSource={categories}
+              renderItem={item => (
+                <List.Item
+                  extra={(
+                    <Space size={8}>
+                      <Text strong>{t('privacy.count', { count: item.count })}</Text>
+                      <Tag color={item.exported ? 'magenta' : 'default'}>
+                        {item.exported ? t('privacy.exported') : t('privacy.notExported')}
+                      </Tag>
+                    </Space>
+                  )}
+                >
+                  <List.Item.Meta
+                    title={t(`privacy.category.${item.category}.title`)}
+                    description={t(`privacy.category.${item.category}.description`)}
+                  />
+                </List.Item>
+              )}
+            />
+          )}
+        </Card>
+
+        {/* 내보내기 / 가져오기 */}
+        <Card className="glass-effect" variant="borderless" style={{ marginBottom: '24px' }}>
+          <Title level={4} style={{ marginBottom: '8px' }}>
+            {t('privacy.export.title')}
+          </Title>
+          <Paragraph type="secondary">{t('privacy.export.description')}</Paragraph>
+          <Button
+            type="primary"
+            icon={<DownloadOutlined />}
+            loading={busy === 'export'}
+            disabled={busy !== null && busy !== 'export'}
+            onClick={handleExport}
+          >
+            {t('privacy.export.button')}
+          </Button>
+
+          <Title level={4} style={{ marginTop: '32px', marginBottom: '8px' }}>
+            {t('privacy.import.title')}
+          </Title>
+          <Paragraph type="secondary">{t('privacy.import.description')}</Paragraph>
+          <Upload
+            accept=".json,application/json"
+            showUploadList={false}
+            disabled={busy !== null}
+            beforeUpload={file => {
+              void handleImport(file)
+              return false
+            }}
+          >
+            <Button icon={<UploadOutlined />} loading={busy === 'import'} disabled={busy !== null && busy !== 'import'}>
+              {t('privacy.import.button')}
+            </Button>
+          </Upload>
+        </Card>
+
+        {/* 전체 삭제 */}
+        <Card className="glass-effect" variant="borderless">
+          <Title level={4} style={{ marginBottom: '8px' }}>
+            {t('privacy.delete.title')}
+          </Title>
+          <Paragraph type="secondary">{t('privacy.delete.description')}</Paragraph>
+          {!isGuest && (
+            <Alert type="warning" showIcon message={t('privacy.delete.account')} style={{ marginBottom: '16px' }} />
+          )}
+          <Popconfirm
+            title={t('privacy.delete.confirm')}
+            okText={t('privacy.delete.confirmOk')}
+            cancelText={t('privacy.delete.confirmCancel')}
+            okButtonProps={{ danger: true }}
+            onConfirm={handleDelete}
+          >
+            <Button
+              danger
+              icon={<DeleteOutlined />}
+              loading={busy === 'delete'}
+              disabled={busy !== null && busy !== 'delete'}
+            >
+              {t('privacy.delete.button')}
+            </Button>
+          </Popconfirm>
+        </Card>
+      </div>
+    </div>
+  )
+}
+
+export default PrivacyPage
@@ -1,77 +1,129 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useMemo, useRef } from 'react'
 import { useNavigate, useSearchParams } from 'react-router-dom'
-import { Button, Progress, Typography, Card, Checkbox, Space, Row, Col, message } from 'antd'
+import { Button, Progress, Typography, Card, Checkbox, Space, message } from 'antd'
 import { ArrowLeftOutlined, CheckCircleOutlined } from '@ant-design/icons'
-import { TWENTY_QUESTIONS } from '../data/questions'
-import type { QuizQuestion, QuizAnswer } from '../types'
-import API_CONFIG, { apiClient } from '../config/api'
+import { ACTIVE_QUESTION_BANK, ACTIVE_QUESTION_BANK_KEY, localizeQuestionBank } from '../data/questionBank'
+import type { QuizAnswer } from '../types'
+import SliderQuestion from '../components/quiz/SliderQuestion'
+import TextQuestion from '../components/quiz/TextQuestion'
+import { buildSurveyResponses } from '../utils/surveyResponses'
+import { estimateRemaining, getFirstQuestion, getNextQuestion } from '../utils/quizFlow'
+import { clearQuizDraft, loadQuizDraft, saveQuizDraft } from '../storage/quizDraft'
+import { useAnalysisJob } from '../hooks/useAnalysisJob'
+import { refreshMemberCatalog } from '../services/memberCatalog'
+import { useLocale } from '../hooks/useLocale'
+import LocaleSwitcher from '../components/common/LocaleSwitcher'
 
 const { Title, Text } = Typography
 
+// 현재 활성화된 질문 은행의 질문 목록
+const QUESTIONS = ACTIVE_QUESTION_BANK.questions
+const FIRST_QUESTION = getFirstQuestion(ACTIVE_QUESTION_BANK) ?? QUESTIONS[0]
+const NO_SELECTION: string[] = []
+
 function QuizPage() {
   const navigate = useNavigate()
+  const { startAnalysis } = useAnalysisJob()
+  const { locale, t } = useLocale()
+  // 화면에는 번역본을 보여주고, 흐름 계산과 분석 요청은 원본 은행으로
+  const displayBank = useMemo(() => localizeQuestionBank(ACTIVE_QUESTION_BANK, locale), [locale])
   const [searchParams, setSearchParams] = useSearchParams()
   
-  // URL에서 현재 질문 인덱스 가져오기
-  const qParam = searchParams.get('q')
-  const currentQuestionIndex = qParam ? Math.max(0, Math.min(parseInt(qParam) - 1, TWENTY_QUESTIONS.length - 1)) : 0
+  // 새로고침/뒤로가기 후에도 이어서 풀 수 있도록 임시 저장된 답변 복원
+  const [draft] = useState(loadQuizDraft)
+  // 제출한 뒤에는 임시 저장하지 않음
+  // (홈으로 가는 navigate는 transition이라 마지막 답변의 렌더가 먼저 일어나 지운 임시 저장을 다시 씀)
+  const submittedRef = useRef(false)
+
+  // 제출하자마자 예비 매칭을 보여줄 수 있도록 퀴즈를 푸는 동안 멤버 카탈로그 준비
+  useEffect(() => {
+    void refreshMemberCatalog()
+  }, [])
+  
+  // 답변 저장 (답한 순서 = 지나온 질문 경로)
+  const [answers, setAnswers] = useState<QuizAnswer[]>(() => draft?.answers ?? [])
+  // 복수 선택 상태 (선택한 질문 id와 함께 보관)
+  const [selection, setSelection] = useState(() => ({
+    questionId: draft?.currentQuestionId ?? 0,
+    options: draft?.selectedOptions ?? NO_SELECTION
+  }))
+  
+  // URL의 ?q=는 질문 id
+  // 이미 지나온 질문이거나 다음 차례의 질문만 허용하고, 그 외에는 다음 차례 질문으로 보정
+  // (임시 저장된 답변에 지금 은행에 없는 질문 id가 있으면 지나온 질문으로 보지 않음)
+  const requestedId = Number(searchParams.get('q'))
+  const requestedQuestion = QUESTIONS.find(q => q.id === requestedId)
+  const pathIndex = requestedQuestion ? answers.findIndex(answer => answer.questionId === requestedId) : -1
+  const lastAnswer = answers[answers.length - 1]
+  const expectedQuestion = (lastAnswer
+    ? getNextQuestion(ACTIVE_QUESTION_BANK, lastAnswer.questionId, answers)
+    : null) ?? FIRST_QUESTION
+  const currentQuestion = pathIndex !== -1 && requestedQuestion ? requestedQuestion : expectedQuestion
+  // 현재 질문 이전까지의 답변
+  const answersBefore = pathIndex !== -1 ? answers.slice(0, pathIndex) : answers
   
-  // 첫 진입 시 URL 파라미터 설정
+  // 잘못된(또는 없는) ?q= 보정
   useEffect(() => {
-    if (!qParam) {
-      setSearchParams({ q: '1' }, { replace: true })
+    if (requestedId !== currentQuestion.id) {
+      setSearchParams({ q: currentQuestion.id.toString() }, { replace: true })
     }
-  }, [])
+  }, [requestedId, currentQuestion.id, setSearchParams])
   
-  // 답변 저장 (인덱스 기반으로 관리)
-  const [answers, setAnswers] = useState<QuizAnswer[]>([])
-  const [selectedOptions, setSelectedOptions] = useState<string[]>([])
+  // 선택 상태는 선택한 질문에서만 유효 (질문이 바뀌면 자동으로 비워짐)
+  const selectedOptions = selection.questionId === currentQuestion.id ? selection.options : NO_SELECTION
+  const displayQuestion = displayBank.questions.find(question => question.id === currentQuestion.id) ?? currentQuestion
+  const setSelectedOptions = (options: string[]) => {
+    setSelection({ questionId: currentQuestion.id, options })
+  }
   
   // 질문 변경 시 처리
   useEffect(() => {
-    setSelectedOptions([])
     // 뒤로 갔을 때 해당 질문 이후의 답변 제거
-    if (answers.length > currentQuestionIndex) {
-      setAnswers(prev => prev.slice(0, currentQuestionIndex))
-    }
-  }, [currentQuestionIndex])
+    setAnswers(prev => {
+      const index = prev.findIndex(answer => answer.questionId === currentQuestion.id)
+      return index === -1 ? prev : prev.slice(0, index)
+    })
+  }, [currentQuestion.id])
+
+  // 답변/선택이 바뀔 때마다 임시 저장
+  useEffect(() => {
+    if (submittedRef.current) return
+    saveQuizDraft({
+      answers,
+      currentQuestionId: currentQuestion.id,
+      selectedOptions
+    })
+  }, [answers, selectedOptions, currentQuestion.id])
 
   // 이전 질문으로 돌아가기
   const handleBack = () => {
-    if (currentQuestionIndex > 0) {
-      setSearchParams({ q: currentQuestionIndex.toString() })
+    const previous = answersBefore[answersBefore.length - 1]
+    if (previous) {
+      setSearchParams({ q: previous.questionId.toString() })
     }
   }
-  
-  // 다음 질문으로 이동
-  const goToNextQuestion = () => {
-    setSearchParams({ q: (currentQuestionIndex + 2).toString() })
-  }
 
-  const currentQuestion = TWENTY_QUESTIONS[currentQuestionIndex]
-  const progress = ((currentQuestionIndex + 1) / TWENTY_QUESTIONS.length) * 100
+  // 진행률: 지나온 질문 수 + 현재 경로상 남은 질문 수(추정)
+  const questionNumber = answersBefore.length + 1
+  const estimatedTotal = answersBefore.length + estimateRemaining(ACTIVE_QUESTION_BANK, currentQuestion.id, answersBefore)
+  const progress = (questionNumber / estimatedTotal) * 100
 
-  const handleSingleAnswer = (optionId: string, optionValue: string) => {
+  // 현재 질문의 답변을 저장하고 다음 질문(또는 제출)으로 이동
+  const commitAnswer = (answer: QuizAnswer['answer']) => {
     const newAnswer: QuizAnswer = {
       questionId: currentQuestion.id,
-      answer: optionValue
+      answer
     }
     
     // 현재까지의 답변 + 새 답변
-    const updatedAnswers = [...answers.slice(0, currentQuestionIndex), newAnswer]
+    const updatedAnswers = [...answersBefore, newAnswer]
     setAnswers(updatedAnswers)
+    setSelectedOptions([])
     
-    console.log('답변 저장:', {
-      질문번호: currentQuestionIndex + 1,
-      질문ID: currentQuestion.id,
-      질문: currentQuestion.question,
-      답변: optionValue,
-      전체답변수: updatedAnswers.length,
-      현재답변목록: updatedAnswers
-    })
-    
-    if (currentQuestionIndex < TWENTY_QUESTIONS.length - 1) {
-      goToNextQuestion()
+    // 분기 조건에 따라 다음 질문 결정 (없으면 제출)
+    const nextQuestion = getNextQuestion(ACTIVE_QUESTION_BANK, currentQuestion.id, updatedAnswers)
+    if (nextQuestion) {
+      setSearchParams({ q: nextQuestion.id.toString() })
     } else {
       submitAnswers(updatedAnswers)
     }
@@ -84,134 +136,25 @@ function QuizPage() {
       .map(id => currentQuestion.options?.find(opt => opt.id === id)?.value)
       .filter(Boolean) as string[]
 
-    const newAnswer: QuizAnswer = {
-      questionId: currentQuestion.id,
-      answer: selectedValues
-    }
-
-    // 현재까지의 답변 + 새 답변
-    const updatedAnswers = [...answers.slice(0, currentQuestionIndex), newAnswer]
-    setAnswers(updatedAnswers)
-    setSelectedOptions([])
-    
-    console.log('복수 답변 저장:', {
-      질문번호: currentQuestionIndex + 1,
-      질문: currentQuestion.question,
-      답변: selectedValues,
-      전체답변수: updatedAnswers.length
-    })
-
-    if (currentQuestionIndex < TWENTY_QUESTIONS.length - 1) {
-      goToNextQuestion()
-    } else {
-      submitAnswers(updatedAnswers)
-    }
+    commitAnswer(selectedValues)
   }
 
   const submitAnswers = (finalAnswers: QuizAnswer[]) => {
-    console.log('===== 최종 답변 제출 =====')
-    console.log('답변 개수:', finalAnswers.length)
-    console.log('모든 답변:', finalAnswers)
-
-    // 답변을 임시 저장
-    const surveyResponses = finalAnswers.map(answer => {
-      const question = TWENTY_QUESTIONS.find(q => q.id === answer.questionId)
-      return {
-        questionId: answer.questionId.toString(),
-        question: question?.question || '',
-        answer: Array.isArray(answer.answer) ? answer.answer.join(', ') : answer.answer.toString(),
-        importance: question?.weight || 5
-      }
-    })
-    
-    // 분석 중 상태 저장
-    localStorage.setItem('analysisInProgress', JSON.stringify({
-      surveyResponses,
-      startTime: new Date().toISOString()
-    }))
-    
-    console.log('백엔드로 전송할 데이터:', {
-      surveyResponses,
-      analysisDepth: 'detailed'
-    })
+    // 답변을 백엔드 형태로 변환
+    const surveyResponses = buildSurveyResponses(QUESTIONS, finalAnswers)
 
-    // 백엔드 형태로 데이터 변환
-    const formattedResponses = surveyResponses.map(response => ({
-      questionId: response.questionId.toString(),
-      question: TWENTY_QUESTIONS.find(q => q.id === response.questionId)?.question || '',
-      answer: Array.isArray(response.answer) 
-        ? response.answer.join(', ')  // 배열을 문자열로 변환
-        : response.answer.toString(), // 숫자/문자열을 문자열로 변환
-      category: TWENTY_QUESTIONS.find(q => q.id === response.questionId)?.category,
-      importance: TWENTY_QUESTIONS.find(q => q.id === response.questionId)?.weight
-    }))
+    // 분석 작업 등록 (요청/재시도/탭 동기화는 작업 관리자가 담당)
+    startAnalysis({ surveyResponses, analysisDepth: 'detailed' }, ACTIVE_QUESTION_BANK_KEY)
 
+    // 제출한 퀴즈의 임시 저장 삭제
+    submittedRef.current = true
+    clearQuizDraft()
+    
     // 분석 안내 알림
-    message.info('분석이 시작되었습니다. 시간이 1-2분 정도 걸릴 수 있습니다.')
+    message.info(t('quiz.started'))
     
     // 즉시 홈으로 이동 (분석은 백그라운드에서 진행)
     navigate('/')
-    
-    // 백그라운드에서 API 호출 처리
-    const apiUrl = `${API_CONFIG.BASE_URL}${API_CONFIG.ENDPOINTS.ANALYZE}`
-    console.log('API URL:', apiUrl)
-    console.log('Starting background API call...')
-    
-    fetch(apiUrl, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json'
-      },
-      body: JSON.stringify({
-        surveyResponses: formattedResponses,
-        analysisDepth: 'detailed'
-      })
-    })
-    .then(response => {
-      console.log('Got background response!')
-      console.log('Response status:', response.status)
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}: ${response.statusText}`)
-      }
-      return response.json()
-    })
-    .then(result => {
-      console.log('분석 결과 받음:', result)
-      
-      // 결과 저장
-      localStorage.setItem('lastMatchResult', JSON.stringify({
-        ...result,
-        timestamp: new Date().toISOString()
-      }))
-      
-      // 분석 중 상태 제거
-      localStorage.removeItem('analysisInProgress')
-      
-      console.log('백그라운드 분석 완료! 결과가 저장되었습니다.')
-      
-      // 분석 완료 알림
-      message.success('분석이 완료되었습니다! 결과를 확인해보세요.')
-      
-      // 홈페이지 컴포넌트를 리프레시하기 위한 이벤트 발생
-      window.dispatchEvent(new Event('analysisComplete'))
-    })
-    .catch(error => {
-      console.error('Background API error:', error)
-      console.error('Request data was:', formattedResponses)
-      
-      localStorage.removeItem('analysisInProgress')
-      
-      // 에러 알림
-      message.error('분석 중 오류가 발생했습니다. 잠시 후 다시 시도해주세요.')
-      
-      // 에러 상태 저장
-      localStorage.setItem('analysisError', JSON.stringify({
-        error: error.message,
-        timestamp: new Date().toISOString(),
-        endpoint: apiUrl,
-        requestData: formattedResponses
-      }))
-    })
   }
 
   const handleCheckboxChange = (optionId: string, checked: boolean) => {
@@ -234,21 +177,22 @@ function QuizPage() {
               onClick={() => navigate('/')}
               size="large"
             >
-              홈으로
+              {t('common.home')}
             </Button>
-            {currentQuestionIndex > 0 && (
+            {answersBefore.length > 0 && (
               <Button 
                 onClick={handleBack}
                 size="large"
               >
-                이전 질문
+                {t('quiz.previous')}
               </Button>
             )}
+            <LocaleSwitcher size="large" />
           </Space>
           
           <div>
             <Title level={2} style={{ marginBottom: '16px' }}>
-              나의 오시 찾기
+              {displayBank.title}
             </Title>
             <Progress 
               percent={progress} 
@@ -260,7 +204,7 @@ function QuizPage() {
               style={{ marginBottom: '8px' }}
             />
             <Text type="secondary">
-              {currentQuestionIndex + 1} / {TWENTY_QUESTIONS.length}
+              {questionNumber} / {estimatedTotal}
             </Text>
           </div>
         </Space>
@@ -273,16 +217,29 @@ function QuizPage() {
         >
           <Space direction="vertical" size="large" align="center" style={{ width: '100%' }}>
             <Text strong style={{ color: '#27C7FE', fontSize: '18px' }}>
-              Q{currentQuestionIndex + 1}
+              Q{questionNumber}
             </Text>
             
             <Title level={3} style={{ textAlign: 'center', marginBottom: '32px' }}>
-              {currentQuestion.question}
+              {displayQuestion.question}
             </Title>
 
-            {currentQuestion.type === 'single' ? (
+            {currentQuestion.type === 'slider' && displayQuestion.slider ? (
+              <SliderQuestion
+                key={currentQuestion.id}
+                slider={displayQuestion.slider}
+                onSubmit={commitAnswer}
+              />
+            ) : currentQuestion.type === 'text' ? (
+              <TextQuestion
+                key={currentQuestion.id}
+                config={displayQuestion.text}
+                required={currentQuestion.required ?? true}
+                onSubmit={commitAnswer}
+              />
+            ) : currentQuestion.type === 'single' ? (
               <Space direction="vertical" size="middle" style={{ width: '100%', maxWidth: '500px' }}>
-                {currentQuestion.options?.map(option => (
+                {displayQuestion.options?.map(option => (
                   <Button
                     key={option.id}
                     size="large"
@@ -293,7 +250,7 @@ function QuizPage() {
                       textAlign: 'left',
                       whiteSpace: 'normal'
                     }}
-                    onClick={() => handleSingleAnswer(option.id, option.value)}
+                    onClick={() => commitAnswer(option.value)}
                   >
                     {option.label}
                   </Button>
@@ -302,7 +259,7 @@ function QuizPage() {
             ) : (
               <div style={{ width: '100%', maxWidth: '500px' }}>
                 <Space direction="vertical" size="middle" style={{ width: '100%' }}>
-                  {currentQuestion.options?.map(option => (
+                  {displayQuestion.options?.map(option => (
                     <Card
                       key={option.id}
                       className={selectedOptions.includes(option.id) ? 'glass-effect' : ''}
@@ -339,7 +296,7 @@ function QuizPage() {
                     icon={<CheckCircleOutlined />}
                     onClick={handleMultipleAnswer}
                   >
-                    선택 완료 ({selectedOptions.length}개)
+                    {t('quiz.submitMultiple', { count: selectedOptions.length })}
                   </Button>
                 )}
               </div>
@@ -1,79 +1,220 @@
-import { useEffect } from 'react'
-import { useLocation, useNavigate } from 'react-router-dom'
-import { Button, Card, Typography, Tag, Progress, Space, Divider, Avatar, Row, Col, Empty, List } from 'antd'
-import { HomeOutlined, ReloadOutlined, StarFilled, TeamOutlined, UserOutlined } from '@ant-design/icons'
-import type { AnalysisResponse, MemberRecommendation } from '../types'
+import { useEffect, useMemo, useState } from 'react'
+import { useLocation, useNavigate, useParams } from 'react-router-dom'
+import { Button, Card, Typography, Tag, Progress, Space, Divider, Avatar, Row, Col, Empty, List, Spin, Checkbox, Collapse, Modal, message } from 'antd'
+import { BulbOutlined, DiffOutlined, HistoryOutlined, HomeOutlined, IdcardOutlined, PictureOutlined, ReloadOutlined, ShareAltOutlined, StarFilled, TeamOutlined, UserOutlined } from '@ant-design/icons'
+import type { AnalysisResponse, SurveyResponse } from '../types'
+import { ContractError, parseAnalysisResponse } from '../api/contract'
+import { describeError } from '../api/errors'
+import type { ErrorMessage } from '../api/errors'
+import { useAnalysisJob } from '../hooks/useAnalysisJob'
+import { getHistoryEntry } from '../storage/resultHistory'
+import { createShareLink, loadSharedResult } from '../services/shareLinks'
+import { applyOpenGraph } from '../utils/openGraph'
+import ResultCardModal from '../components/result/ResultCardModal'
+import ComparisonModal from '../components/result/ComparisonModal'
+import MatchBreakdown from '../components/result/MatchBreakdown'
+import PreMatchPanel from '../components/analysis/PreMatchPanel'
+import LocaleSwitcher from '../components/common/LocaleSwitcher'
+import FavoriteButton from '../components/common/FavoriteButton'
+import { useLocale } from '../hooks/useLocale'
+import { matchPercent, NORMALIZED_SCORE_SCALE } from '../utils/matchScore'
+import { ACTIVE_QUESTION_BANK, ACTIVE_QUESTION_BANK_KEY } from '../data/questionBank'
 
 const { Title, Text, Paragraph } = Typography
 
+interface LoadedResult {
+  result: AnalysisResponse | null
+  error: ErrorMessage | null
+}
+
+// location.state → 마지막 분석 결과 순서로 찾고, 넘겨받은 결과는 응답 계약으로 검증
+function loadResult(stateResult: unknown, savedResult: AnalysisResponse | null): LoadedResult {
+  if (!stateResult) return { result: savedResult, error: null }
+
+  try {
+    return { result: parseAnalysisResponse(stateResult, NORMALIZED_SCORE_SCALE), error: null }
+  } catch (e) {
+    console.error('Invalid analysis result:', e)
+    return { result: null, error: { key: 'error.validation' } }
+  }
+}
+
+const MIN_COMPARE = 2
+const MAX_COMPARE = 4
+
+function memberPath(memberId: string): string {
+  return `/members/${encodeURIComponent(memberId)}`
+}
+
+interface RemoteResult {
+  result: AnalysisResponse
+  createdAt: string
+  // 매칭 근거 표시용 (공유 링크에는 답변이 없음)
+  answers?: SurveyResponse[]
+  questionBank?: string | null
+}
+
+// 화면에 보여줄 메시지가 정해진 불러오기 실패
+class ResultLoadError extends Error {
+  readonly reason: ErrorMessage
+
+  constructor(reason: ErrorMessage) {
+    super(reason.key)
+    this.name = 'ResultLoadError'
+    this.reason = reason
+  }
+}
+
+// /history/:entryId - 이 브라우저의 결과 기록
+async function loadHistoryResult(entryId: string): Promise<RemoteResult> {
+  const entry = await getHistoryEntry(entryId)
+  if (!entry) throw new ResultLoadError({ key: 'result.historyMissing' })
+  return entry
+}
+
+// /result/:shareId - URL 스냅샷 또는 서버 공유 기록
+async function loadShareResult(shareId: string): Promise<RemoteResult> {
+  try {
+    return await loadSharedResult(shareId)
+  } catch (e) {
+    throw e instanceof ContractError ? new ResultLoadError({ key: 'result.shareInvalid' }) : e
+  }
+}
+
+// 비동기로 불러오는 결과 (key가 바뀌면 다시 불러옴)
+function useRemoteResult(key: string | undefined, load: (key: string) => Promise<RemoteResult>) {
+  const [loaded, setLoaded] = useState<{ key: string; value: RemoteResult | null; error: ErrorMessage | null } | null>(null)
+
+  useEffect(() => {
+    if (!key) return
+    let cancelled = false
+    load(key)
+      .then(value => {
+        if (!cancelled) setLoaded({ key, value, error: null })
+      })
+      .catch(e => {
+        console.error('결과를 불러오지 못했습니다:', e)
+        if (!cancelled) setLoaded({ key, value: null, error: e instanceof ResultLoadError ? e.reason : describeError(e) })
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [key, load])
+
+  const current = loaded?.key === key ? loaded : null
+  return {
+    loading: !!key && !current,
+    value: current?.value ?? null,
+    error: current?.error ?? null
+  }
+}
+
 function ResultPage() {
   const location = useLocation()
   const navigate = useNavigate()
-  let result = location.state?.result as AnalysisResponse
-
-  // location.state가 없으면 localStorage에서 가져오기
-  if (!result) {
-    const savedResult = localStorage.getItem('lastMatchResult')
-    if (savedResult) {
-      try {
-        result = JSON.parse(savedResult)
-      } catch (e) {
-        console.error('Failed to parse saved result:', e)
-      }
-    }
-  }
+  const { entryId, shareId } = useParams()
+  const { lastResult } = useAnalysisJob()
+  const { localeTag, t, recommendationName } = useLocale()
+  const history = useRemoteResult(entryId, loadHistoryResult)
+  const shared = useRemoteResult(shareId, loadShareResult)
+  const remote = entryId ? history : shareId ? shared : null
+  // 공유 링크로 연 결과는 읽기 전용 (기록/다시 테스트/공유 없음)
+  const readOnly = !!shareId
+  const stateResult = location.state?.result
+  const savedResult = lastResult?.result ?? null
+  const loaded = useMemo(() => loadResult(stateResult, savedResult), [stateResult, savedResult])
+  const { result, error } = remote
+    ? { result: remote.value?.result ?? null, error: remote.error }
+    : loaded
+  const createdAt = remote?.value?.createdAt ?? (stateResult ? null : lastResult?.savedAt) ?? null
+  // 화면에 보이는 이름은 현재 언어로 (공유/저장에는 원본 결과 사용)
+  const recommendations = useMemo(
+    () => (result?.recommendations ?? []).map(item => ({ ...item, name: recommendationName(item) })),
+    [result, recommendationName]
+  )
+  const displayResult = useMemo(() => result && { ...result, recommendations }, [result, recommendations])
+  // 매칭 근거: 결과 기록에서 답변을 가져옴 (/result는 최근 결과의 기록)
+  const latest = useRemoteResult(!entryId && !shareId && !stateResult ? lastResult?.jobId : undefined, loadHistoryResult)
+  const source = entryId ? history.value : shareId ? null : latest.value
+  const answers = source?.answers ?? []
+  // 질문 은행이 바뀐 결과는 답변→특성 연결 없이 자유 입력처럼 비교
+  const bank = source?.questionBank === ACTIVE_QUESTION_BANK_KEY ? ACTIVE_QUESTION_BANK : null
+  const [explainId, setExplainId] = useState<string | null>(null)
+  // 분석 전에 보여준 예비 매칭 (최근 결과를 볼 때만)
+  const preMatch = !remote && !stateResult ? lastResult?.preMatch ?? null : null
 
-  // 결과를 localStorage에 저장 (location.state에서 온 경우에만)
+  // 공유 링크: 1위 멤버로 Open Graph 메타 태그 설정
+  const topMember = readOnly ? recommendations[0] : undefined
   useEffect(() => {
-    if (result && location.state?.result) {
-      const savedResult = {
-        ...result,
-        timestamp: new Date().toISOString()
-      }
-      localStorage.setItem('lastMatchResult', JSON.stringify(savedResult))
+    if (!topMember) return
+    return applyOpenGraph({
+      title: t('result.shareHeadline', { name: topMember.name }),
+      description: `${t('common.matchScore', { percent: matchPercent(topMember.matchScore) })} · ${topMember.reasoning}`.slice(0, 160),
+      url: window.location.href
+    })
+  }, [topMember, t])
+
+  const [sharing, setSharing] = useState(false)
+  const [cardOpen, setCardOpen] = useState(false)
+  const [compareIds, setCompareIds] = useState<string[]>([])
+  const [compareOpen, setCompareOpen] = useState(false)
+  const toggleCompare = (memberId: string, checked: boolean) => {
+    if (checked && compareIds.length >= MAX_COMPARE) {
+      message.warning(t('result.compare.limit', { max: MAX_COMPARE }))
+      return
     }
-  }, [result, location.state])
-
-  if (!result) {
-    // 결과가 전혀 없는 경우
-    const savedResult = localStorage.getItem('lastMatchResult')
-    if (savedResult) {
-      const parsed = JSON.parse(savedResult)
-      return (
-        <div className="min-h-screen flex items-center justify-center">
-          <Empty
-            description={
-              <Space direction="vertical" size="large">
-                <Title level={3}>현재 결과를 찾을 수 없습니다</Title>
-                <Text>이전 매칭 결과를 보시려면 홈으로 이동하세요</Text>
-                <Button 
-                  type="primary" 
-                  icon={<HomeOutlined />}
-                  onClick={() => navigate('/')}
-                  size="large"
-                >
-                  홈으로 돌아가기
-                </Button>
-              </Space>
-            }
-          />
-        </div>
-      )
+    setCompareIds(prev => checked ? [...prev, memberId] : prev.filter(id => id !== memberId))
+  }
+  const handleShare = async () => {
+    if (!result) return
+    setSharing(true)
+    try {
+      const url = await createShareLink(result, createdAt ?? new Date().toISOString())
+      if (typeof navigator.share === 'function') {
+        await navigator.share({ title: 'Holo-Oshi Finder', text: t('result.shareHeadline', { name: recommendations[0]?.name ?? '' }), url })
+      } else {
+        await navigator.clipboard.writeText(url)
+        message.success(t('result.shareCopied'))
+      }
+    } catch (e) {
+      // 공유 시트를 닫은 경우는 조용히 무시
+      if (e instanceof DOMException && e.name === 'AbortError') return
+      console.error('공유 실패:', e)
+      message.error(t('result.shareFailed'))
+    } finally {
+      setSharing(false)
     }
-    
+  }
+
+  if (remote?.loading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Spin size="large" />
+      </div>
+    )
+  }
+
+  if (!result || !displayResult) {
     return (
       <div className="min-h-screen flex items-center justify-center">
         <Empty
           description={
             <Space direction="vertical" size="large">
-              <Title level={3}>결과를 찾을 수 없습니다</Title>
+              <Title level={3}>
+                {error ? t('result.loadFailed') : t('result.notFound')}
+              </Title>
+              {error && (
+                <Text type="secondary" style={{ whiteSpace: 'pre-line' }}>
+                  {t(error.key, error.params)}
+                </Text>
+              )}
               <Button 
                 type="primary" 
                 icon={<HomeOutlined />}
                 onClick={() => navigate('/')}
                 size="large"
               >
-                홈으로 돌아가기
+                {t('result.backHome')}
               </Button>
             </Space>
           }
@@ -82,7 +223,8 @@ function ResultPage() {
     )
   }
 
-  const topRecommendation = result.recommendations[0]
+  const topRecommendation = recommendations[0]
+  const explainTarget = recommendations.find(item => item.memberId === explainId)
 
   return (
     <div className="min-h-screen" style={{ padding: '32px' }}>
@@ -94,16 +236,59 @@ function ResultPage() {
           alignItems: 'center', 
           marginBottom: '32px' 
         }}>
-          <Title level={2} style={{ margin: 0 }}>
-            당신의 오시 분석 결과
-          </Title>
+          <div>
+            <Title level={2} style={{ margin: 0 }}>
+              {readOnly ? t('result.sharedTitle') : t('result.title')}
+            </Title>
+            {remote?.value && (
+              <Text type="secondary">
+                {t('result.createdAt', { time: new Date(remote.value.createdAt).toLocaleString(localeTag) })}
+              </Text>
+            )}
+          </div>
+          {readOnly ? (
+            <Space>
+              <LocaleSwitcher size="large" />
+              <Button 
+                type="primary"
+                icon={<ReloadOutlined />}
+                onClick={() => navigate('/')}
+                size="large"
+              >
+                {t('result.tryIt')}
+              </Button>
+            </Space>
+          ) : (
           <Space>
+            <LocaleSwitcher size="large" />
+            <Button 
+              icon={<PictureOutlined />}
+              onClick={() => setCardOpen(true)}
+              size="large"
+            >
+              {t('result.saveImage')}
+            </Button>
+            <Button 
+              icon={<ShareAltOutlined />}
+              loading={sharing}
+              onClick={handleShare}
+              size="large"
+            >
+              {t('result.share')}
+            </Button>
+            <Button 
+              icon={<HistoryOutlined />}
+              onClick={() => navigate('/history')}
+              size="large"
+            >
+              {t('result.history')}
+            </Button>
             <Button 
               icon={<HomeOutlined />}
               onClick={() => navigate('/')}
               size="large"
             >
-              홈으로
+              {t('common.home')}
             </Button>
             <Button 
               type="primary"
@@ -111,9 +296,10 @@ function ResultPage() {
               onClick={() => navigate('/quiz')}
               size="large"
             >
-              다시 테스트
+              {t('result.retake')}
             </Button>
           </Space>
+          )}
         </div>
 
         {/* Main Result Card */}
@@ -147,13 +333,13 @@ function ResultPage() {
                 </Title>
                 <div style={{ marginBottom: '16px' }}>
                   <Progress 
-                    percent={Math.round(topRecommendation.matchScore * 10)}
+                    percent={matchPercent(topRecommendation.matchScore)}
                     strokeColor={{
                       '0%': '#27C7FE',
                       '100%': '#8B5CF6'
                     }}
                     size="default"
-                    format={percent => `매칭도 ${percent}%`}
+                    format={percent => t('common.matchScore', { percent: percent ?? 0 })}
                   />
                 </div>
                 <Paragraph style={{ fontSize: '16px', marginBottom: '16px' }}>
@@ -173,6 +359,23 @@ function ResultPage() {
                     ))}
                   </Space>
                 )}
+                <Space style={{ marginTop: '16px' }} size={16}>
+                  <Button 
+                    icon={<IdcardOutlined />}
+                    onClick={() => navigate(memberPath(topRecommendation.memberId))}
+                  >
+                    {t('result.viewProfile')}
+                  </Button>
+                  <FavoriteButton memberId={topRecommendation.memberId} />
+                  {recommendations.length >= MIN_COMPARE && (
+                    <Checkbox
+                      checked={compareIds.includes(topRecommendation.memberId)}
+                      onChange={e => toggleCompare(topRecommendation.memberId, e.target.checked)}
+                    >
+                      {t('result.addToCompare')}
+                    </Checkbox>
+                  )}
+                </Space>
               </Col>
             </Row>
 
@@ -184,7 +387,7 @@ function ResultPage() {
                 <Col xs={24} md={12}>
                   <Title level={4} style={{ marginBottom: '16px' }}>
                     <StarFilled style={{ color: '#FAAD14', marginRight: '8px' }} />
-                    강점
+                    {t('result.strengths')}
                   </Title>
                   <List
                     dataSource={topRecommendation.strengths}
@@ -201,7 +404,7 @@ function ResultPage() {
                 <Col xs={24} md={12}>
                   <Title level={4} style={{ marginBottom: '16px' }}>
                     <TeamOutlined style={{ color: '#8B5CF6', marginRight: '8px' }} />
-                    추천 콘텐츠
+                    {t('result.contentRecommendations')}
                   </Title>
                   <List
                     dataSource={topRecommendation.contentRecommendations}
@@ -214,21 +417,35 @@ function ResultPage() {
                 </Col>
               )}
             </Row>
+
+            {answers.length > 0 && (
+              <Collapse
+                ghost
+                style={{ marginTop: '16px' }}
+                items={[{
+                  key: 'breakdown',
+                  label: <Text strong><BulbOutlined style={{ color: '#FFB7C5', marginRight: '8px' }} />{t('result.matchBreakdown')}</Text>,
+                  children: <MatchBreakdown recommendation={topRecommendation} answers={answers} bank={bank} />
+                }]}
+              />
+            )}
           </Card>
         )}
 
         {/* Other Recommendations */}
-        {result.recommendations.length > 1 && (
+        {recommendations.length > 1 && (
           <>
             <Title level={3} style={{ marginBottom: '24px' }}>
-              다른 추천 멤버들
+              {t('result.others')}
             </Title>
             <Row gutter={[16, 16]}>
-              {result.recommendations.slice(1, 7).map((member, index) => (
+              {recommendations.slice(1, 7).map((member, index) => (
                 <Col xs={24} md={12} lg={8} key={index}>
                   <Card 
                     className="glass-effect hover-float"
                     variant="borderless"
+                    style={{ cursor: 'pointer', height: '100%' }}
+                    onClick={() => navigate(memberPath(member.memberId))}
                   >
                     <Space align="start">
                       <Avatar 
@@ -241,11 +458,22 @@ function ResultPage() {
                         {member.name.charAt(0)}
                       </Avatar>
                       <div style={{ flex: 1 }}>
-                        <Title level={5} style={{ marginBottom: '8px' }}>
-                          {member.name}
-                        </Title>
+                        <div style={{ display: 'flex', justifyContent: 'space-between', gap: '8px' }}>
+                          <Title level={5} style={{ marginBottom: '8px' }}>
+                            {member.name}
+                          </Title>
+                          {/* 체크박스 클릭이 카드 이동으로 이어지지 않게 */}
+                          <span onClick={e => e.stopPropagation()}>
+                            <Checkbox
+                              checked={compareIds.includes(member.memberId)}
+                              onChange={e => toggleCompare(member.memberId, e.target.checked)}
+                            >
+                              {t('result.compareShort')}
+                            </Checkbox>
+                          </span>
+                        </div>
                         <Text type="secondary" style={{ color: '#27C7FE' }}>
-                          매칭도 {Math.round(member.matchScore * 10)}%
+                          {t('common.matchScore', { percent: matchPercent(member.matchScore) })}
                         </Text>
                         <Paragraph 
                           ellipsis={{ rows: 2 }} 
@@ -262,6 +490,23 @@ function ResultPage() {
                             ))}
                           </Space>
                         )}
+                        {answers.length > 0 && (
+                          <div>
+                            <Button
+                              type="link"
+                              size="small"
+                              icon={<BulbOutlined />}
+                              style={{ padding: 0, marginTop: '8px' }}
+                              onClick={e => {
+                                // 카드 클릭(프로필 이동)으로 처리되지 않게
+                                e.stopPropagation()
+                                setExplainId(member.memberId)
+                              }}
+                            >
+                              {t('result.matchBreakdown')}
+                            </Button>
+                          </div>
+                        )}
                       </div>
                     </Space>
                   </Card>
@@ -271,6 +516,21 @@ function ResultPage() {
           </>
         )}
 
+        {preMatch && (
+          <Card
+            className="glass-effect"
+            variant="borderless"
+            style={{ marginTop: '32px' }}
+          >
+            <PreMatchPanel
+              preMatch={preMatch}
+              recommendations={recommendations}
+              final
+              description={t('result.preMatchComparison')}
+            />
+          </Card>
+        )}
+
         {/* User Profile Analysis */}
         {result.userProfile && (
           <Card 
@@ -279,14 +539,14 @@ function ResultPage() {
             style={{ marginTop: '32px' }}
           >
             <Title level={3} style={{ marginBottom: '24px' }}>
-              당신의 취향 분석
+              {t('result.profile.title')}
             </Title>
             
             <Row gutter={32}>
               {result.userProfile.preferredTraits && (
                 <Col xs={24} md={8}>
                   <Title level={5} style={{ color: '#27C7FE', marginBottom: '12px' }}>
-                    선호하는 특성
+                    {t('result.profile.traits')}
                   </Title>
                   <Space wrap>
                     {result.userProfile.preferredTraits.map((trait, index) => (
@@ -302,7 +562,7 @@ function ResultPage() {
               {result.userProfile.personalityMatch && (
                 <Col xs={24} md={8}>
                   <Title level={5} style={{ color: '#52C41A', marginBottom: '12px' }}>
-                    성격 매칭
+                    {t('result.profile.personality')}
                   </Title>
                   <Paragraph>
                     {result.userProfile.personalityMatch}
@@ -321,7 +581,7 @@ function ResultPage() {
             style={{ marginTop: '32px' }}
           >
             <Title level={4} style={{ marginBottom: '16px' }}>
-              종합 분석
+              {t('result.overall')}
             </Title>
             <Paragraph style={{ whiteSpace: 'pre-line', fontSize: '15px' }}>
               {result.overallAnalysis}
@@ -332,12 +592,66 @@ function ResultPage() {
         {/* Footer Info */}
         <div style={{ textAlign: 'center', marginTop: '32px', opacity: 0.6 }}>
           <Text type="secondary">
-            분석 신뢰도: {result.confidence ? Math.round(result.confidence * 100) : (result.analysisConfidence ? Math.round(result.analysisConfidence * 100) : 95)}% | 
-            처리 시간: {result.processingTime || 1000}ms
-            {result.fromCache && ' (캐시됨)'}
+            {[
+              result.confidence !== null && t('result.confidence', { percent: Math.round(result.confidence * 100) }),
+              result.processingTime !== null && t('result.processingTime', { ms: result.processingTime })
+            ].filter(Boolean).join(' | ')}
+            {result.fromCache && t('result.cached')}
           </Text>
         </div>
       </div>
+
+      {/* 비교 선택 바 */}
+      {compareIds.length > 0 && (
+        <div style={{
+          position: 'fixed',
+          bottom: '24px',
+          left: '50%',
+          transform: 'translateX(-50%)',
+          zIndex: 100
+        }}>
+          <Card className="glass-effect" variant="borderless" styles={{ body: { padding: '12px 20px' } }}>
+            <Space size={16}>
+              <Text>
+                {t('result.compare.selected', { count: compareIds.length })}
+                {compareIds.length < MIN_COMPARE && t('result.compare.minimum', { min: MIN_COMPARE })}
+              </Text>
+              <Button type="text" onClick={() => setCompareIds([])}>
+                {t('result.compare.clear')}
+              </Button>
+              <Button
+                type="primary"
+                icon={<DiffOutlined />}
+                disabled={compareIds.length < MIN_COMPARE}
+                onClick={() => setCompareOpen(true)}
+              >
+                {t('result.compare.open')}
+              </Button>
+            </Space>
+          </Card>
+        </div>
+      )}
+
+      <ComparisonModal
+        open={compareOpen}
+        recommendations={recommendations.filter(item => compareIds.includes(item.memberId))}
+        onClose={() => setCompareOpen(false)}
+      />
+
+      {explainTarget && (
+        <Modal
+          open
+          title={t('result.matchBreakdownOf', { name: explainTarget.name })}
+          onCancel={() => setExplainId(null)}
+          footer={null}
+        >
+          <MatchBreakdown recommendation={explainTarget} answers={answers} bank={bank} />
+        </Modal>
+      )}
+
+      {!readOnly && (
+        <ResultCardModal open={cardOpen} displayResult={displayResult} onClose={() => setCardOpen(false)} />
+      )}
     </div>
   )
 }
@@ -0,0 +1,234 @@
+import { useEffect, useMemo, useState } from 'react'
+import { useNavigate, useSearchParams } from 'react-router-dom'
+import { AutoComplete, Button, Card, Typography, Tag, Space, Avatar, Empty, Spin, Input, Progress } from 'antd'
+import { CloseOutlined, HistoryOutlined, HomeOutlined, SearchOutlined } from '@ant-design/icons'
+import type { VectorSearchResult } from '../types'
+import type { MessageKey } from '../i18n/translate'
+import { useDebouncedValue } from '../hooks/useDebouncedValue'
+import { MIN_QUERY_LENGTH, useMemberSearch } from '../hooks/useMemberSearch'
+import { useLocale } from '../hooks/useLocale'
+import { addRecentSearch, clearRecentSearches, loadRecentSearches, removeRecentSearch } from '../storage/recentSearches'
+import { traitTags } from '../utils/searchTraits'
+import AccountMenu from '../components/common/AccountMenu'
+
+const { Title, Text } = Typography
+
+const TYPEAHEAD_DELAY_MS = 350
+
+const EXAMPLE_QUERY_KEYS: MessageKey[] = [
+  'search.example.asmr',
+  'search.example.gaming',
+  'search.example.singing',
+  'search.example.english'
+]
+
+function SearchResultCard({ result, rank, query, onClick }: {
+  result: VectorSearchResult
+  rank: number
+  query: string
+  onClick: () => void
+}) {
+  const { t } = useLocale()
+  const tags = traitTags(result, query)
+  return (
+    <Card
+      className="glass-effect hover-float"
+      variant="borderless"
+      style={{ cursor: 'pointer' }}
+      onClick={onClick}
+    >
+      <Space align="start" size={16} style={{ width: '100%' }}>
+        <Avatar
+          size={48}
+          style={{
+            background: 'linear-gradient(135deg, #FFB7C5, #FF85C0)',
+            fontSize: '20px',
+            fontWeight: 'bold',
+            flexShrink: 0
+          }}
+        >
+          {rank}
+        </Avatar>
+        <div style={{ flex: 1, minWidth: 0 }}>
+          <Space wrap size={8}>
+            <Title level={5} style={{ margin: 0 }}>{result.memberName}</Title>
+            <Text type="secondary" style={{ fontSize: '12px' }}>
+              {[result.branch, result.generation, result.unit].filter(value => value && value !== 'Unknown').join(' · ')}
+            </Text>
+            {!result.isActive && <Tag>{t('member.status.graduated')}</Tag>}
+          </Space>
+          <Progress
+            percent={Math.round(result.score * 100)}
+            size="small"
+            strokeColor={{ '0%': '#FFB7C5', '100%': '#FF85C0' }}
+            format={percent => t('search.similarity', { percent: percent ?? 0 })}
+            style={{ margin: '8px 0', maxWidth: '360px' }}
+          />
+          {tags.length > 0 && (
+            <Space wrap size={[4, 4]}>
+              {tags.map(tag => (
+                <Tag
+                  key={tag.label}
+                  color={tag.matched ? 'magenta' : undefined}
+                  bordered={tag.matched}
+                  style={{ fontWeight: tag.matched ? 600 : 400 }}
+                >
+                  {tag.label}
+                </Tag>
+              ))}
+            </Space>
+          )}
+        </div>
+      </Space>
+    </Card>
+  )
+}
+
+function SearchPage() {
+  const navigate = useNavigate()
+  const { t } = useLocale()
+  const [searchParams, setSearchParams] = useSearchParams()
+  const [input, setInput] = useState(() => searchParams.get('q') ?? '')
+  const [recent, setRecent] = useState(loadRecentSearches)
+  const query = useDebouncedValue(input, TYPEAHEAD_DELAY_MS)
+  const { response, loading, error, requiresLogin } = useMemberSearch(query)
+
+  // 검색어를 URL에 반영해 결과를 공유할 수 있게 (히스토리는 쌓지 않음)
+  useEffect(() => {
+    const trimmed = query.trim()
+    setSearchParams(trimmed ? { q: trimmed } : {}, { replace: true })
+  }, [query, setSearchParams])
+
+  const examples = useMemo(() => EXAMPLE_QUERY_KEYS.map(key => t(key)), [t])
+
+  const suggestions = useMemo(() => {
+    const typed = input.trim().toLowerCase()
+    const source = recent.length > 0 ? recent : examples
+    return source
+      .filter(item => !typed || (item.toLowerCase().includes(typed) && item.toLowerCase() !== typed))
+      .map(item => ({
+        value: item,
+        label: (
+          <Space style={{ width: '100%', justifyContent: 'space-between' }}>
+            <span>
+              {recent.length > 0 ? <HistoryOutlined style={{ marginRight: '8px', opacity: 0.5 }} /> : null}
+              {item}
+            </span>
+            {recent.length > 0 && (
+              <CloseOutlined
+                style={{ fontSize: '10px', opacity: 0.5 }}
+                onClick={e => {
+                  // 항목 선택으로 처리되지 않게
+                  e.stopPropagation()
+                  setRecent(removeRecentSearch(item))
+                }}
+              />
+            )}
+          </Space>
+        )
+      }))
+  }, [input, recent, examples])
+
+  const submit = (value: string) => {
+    setInput(value)
+    if (value.trim().length >= MIN_QUERY_LENGTH) setRecent(addRecentSearch(value))
+  }
+
+  const openMember = (result: VectorSearchResult) => {
+    setRecent(addRecentSearch(query))
+    navigate(`/members/${encodeURIComponent(result.memberId)}`)
+  }
+
+  const trimmed = query.trim()
+
+  return (
+    <div className="min-h-screen" style={{ padding: '32px' }}>
+      <div style={{ maxWidth: '900px', margin: '0 auto' }}>
+        {/* Header */}
+        <div style={{
+          display: 'flex',
+          justifyContent: 'space-between',
+          alignItems: 'center',
+          marginBottom: '24px'
+        }}>
+          <Title level={2} style={{ margin: 0 }}>
+            <SearchOutlined style={{ color: '#FFB7C5', marginRight: '12px' }} />
+            {t('search.title')}
+          </Title>
+          <Button icon={<HomeOutlined />} onClick={() => navigate('/')} size="large">
+            {t('common.home')}
+          </Button>
+        </div>
+
+        <AutoComplete
+          value={input}
+          options={suggestions}
+          onChange={setInput}
+          onSelect={submit}
+          style={{ width: '100%', marginBottom: '8px' }}
+        >
+          <Input.Search
+            size="large"
+            allowClear
+            placeholder={t('search.placeholder', { example: examples[0] })}
+            loading={loading}
+            onSearch={submit}
+          />
+        </AutoComplete>
+        {recent.length > 0 && (
+          <div style={{ textAlign: 'right', marginBottom: '16px' }}>
+            <Button type="link" size="small" onClick={() => setRecent(clearRecentSearches())}>
+              {t('search.clearRecent')}
+            </Button>
+          </div>
+        )}
+
+        {trimmed.length < MIN_QUERY_LENGTH ? (
+          <Empty
+            style={{ padding: '64px 0' }}
+            description={t('search.hint')}
+          >
+            <Space wrap style={{ justifyContent: 'center' }}>
+              {examples.map(example => (
+                <Tag key={example} style={{ cursor: 'pointer' }} onClick={() => submit(example)}>
+                  {example}
+                </Tag>
+              ))}
+            </Space>
+          </Empty>
+        ) : error ? (
+          <Empty style={{ padding: '64px 0' }} description={t(error.key, error.params)}>
+            {requiresLogin && <AccountMenu />}
+          </Empty>
+        ) : !response ? (
+          <div style={{ textAlign: 'center', padding: '64px 0' }}>
+            <Spin size="large" />
+          </div>
+        ) : response.results.length === 0 ? (
+          <Empty style={{ padding: '64px 0' }} description={t('search.noResults', { query: trimmed })} />
+        ) : (
+          <Spin spinning={loading}>
+            <Text type="secondary" style={{ display: 'block', marginBottom: '16px' }}>
+              {t('common.memberCount', { count: response.results.length })}
+              {response.searchTime > 0 && ` · ${response.searchTime}ms`}
+              {response.source === 'vector' && t('search.vectorSource')}
+            </Text>
+            <Space direction="vertical" size={12} style={{ width: '100%' }}>
+              {response.results.map((result, index) => (
+                <SearchResultCard
+                  key={result.memberId}
+                  result={result}
+                  rank={index + 1}
+                  query={trimmed}
+                  onClick={() => openMember(result)}
+                />
+              ))}
+            </Space>
+          </Spin>
+        )}
+      </div>
+    </div>
+  )
+}
+
+export default SearchPage
@@ -0,0 +1,109 @@
+import { afterEach, describe, expect, it, vi } from 'vitest'
+import { AnalysisJobManager } from './analysisJobs'
+
+const STORAGE_KEY = 'holo-oshi:analysisJobs'
+
+// 값 하나만 미리 넣어 둔 localStorage
+function stubStorage(initial: Record<string, string>): Map<string, string> {
+  const items = new Map(Object.entries(initial))
+  vi.stubGlobal('localStorage', {
+    get length() {
+      return items.size
+    },
+    key: (index: number) => [...items.keys()][index] ?? null,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key)
+  })
+  return items
+}
+
+function failedJob(error: unknown) {
+  return {
+    id: 'job-1',
+    status: 'failed',
+    questionBank: 'oshi-finder@1',
+    request: null,
+    ownerTabId: null,
+    heartbeatAt: 0,
+    createdAt: '2026-10-01T00:00:00.000Z',
+    updatedAt: '2026-10-01T00:00:00.000Z',
+    error,
+    progress: null,
+    preMatch: null
+  }
+}
+
+describe('분석 작업 저장소 변환', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('v1의 문장 오류 메시지를 메시지 키로 바꿔 다시 저장한다', () => {
+    const items = stubStorage({
+      [STORAGE_KEY]: JSON.stringify({
+        v: 1,
+        data: { job: failedJob({ kind: 'network', message: '서버에 연결할 수 없습니다' }), lastResult: null }
+      })
+    })
+
+    const { job } = new AnalysisJobManager().getSnapshot()
+
+    expect(job?.error).toEqual({ kind: 'network', message: { key: 'error.network' } })
+    expect(JSON.parse(items.get(STORAGE_KEY) ?? 'null')).toMatchObject({
+      v: 2,
+      data: { job: { error: { kind: 'network', message: { key: 'error.network' } } } }
+    })
+  })
+
+  it('버전 없는 이전 키도 같은 변환을 거친다', () => {
+    const items = stubStorage({
+      analysisJobs: JSON.stringify({ job: failedJob({ kind: 'timeout', message: '요청 시간이 초과되었습니다' }), lastResult: null })
+    })
+
+    const { job } = new AnalysisJobManager().getSnapshot()
+
+    expect(job?.error).toEqual({ kind: 'timeout', message: { key: 'error.unknown' } })
+    expect(items.has('analysisJobs')).toBe(false)
+  })
+})
+
+describe('저장된 작업 검증', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('알 수 없는 오류 종류/단계와 계약에 맞지 않는 중간 추천은 버린다', () => {
+    stubStorage({
+      [STORAGE_KEY]: JSON.stringify({
+        v: 2,
+        data: {
+          job: {
+            ...failedJob({ kind: 'constructor', message: { key: 'error.network' } }),
+            progress: {
+              streaming: true,
+              stage: 'hacked',
+              completedStages: ['rag', 'unknown', 3],
+              partialRecommendations: [
+                { memberId: 'm1', name: 'Pekora', matchScore: 0.8 },
+                { memberId: 'm2', matchScore: 0.5 },
+                'm3'
+              ],
+              thinkingProcess: ''
+            }
+          },
+          lastResult: null
+        }
+      })
+    })
+
+    const { job } = new AnalysisJobManager().getSnapshot()
+
+    expect(job?.error).toBeNull()
+    expect(job?.progress?.stage).toBeNull()
+    expect(job?.progress?.completedStages).toEqual(['rag'])
+    expect(job?.progress?.partialRecommendations).toEqual([
+      expect.objectContaining({ memberId: 'm1', name: 'Pekora', matchScore: 0.8, matchingTraits: [], reasoning: '' })
+    ])
+  })
+})
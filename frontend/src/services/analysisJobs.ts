@@ -0,0 +1,602 @@
+import type { AnalysisProgress, AnalysisResponse, AnalysisStreamEvent, AnalyzeRequest, MemberRecommendation } from '../types'
+import { api } from '../api/endpoints'
+import { isAnalysisStage, parseAnalysisResponse, parsePartialRecommendation, parseSurveyResponses } from '../api/contract'
+import { describeError, isApiErrorKind, toApiError } from '../api/errors'
+import type { ApiErrorKind, ErrorMessage } from '../api/errors'
+import { isMessageKey } from '../i18n/translate'
+import type { MessageKey } from '../i18n/translate'
+import { StreamUnavailableError } from '../api/stream'
+import { saveHistoryEntry } from '../storage/resultHistory'
+import type { ResultHistoryEntry } from '../storage/resultHistory'
+import { loadMemberCatalog } from '../storage/memberCatalog'
+import { defineLocalStore, removeLegacyKeys, takeLegacyValue } from '../storage/localStore'
+import { ACTIVE_QUESTION_BANK, ACTIVE_QUESTION_BANK_KEY } from '../data/questionBank'
+import { computePreMatch } from '../utils/preMatch'
+import { API_SCORE_SCALE, NORMALIZED_SCORE_SCALE } from '../utils/matchScore'
+import type { ScoreScale } from '../utils/matchScore'
+import type { PreMatch, PreMatchCandidate } from '../utils/preMatch'
+
+// 분석 작업 관리자
+// - 요청 수명 주기: queued → running → succeeded | failed | cancelled
+//   (실행하던 탭이 사라지면 running → queued로 돌아가 다른 탭을 기다림)
+// - 상태는 localStorage에 저장되어 새로고침 후에도 유지됨
+// - 다른 탭과 BroadcastChannel(미지원 시 storage 이벤트)로 동기화
+// - 요청은 작업을 소유한 탭 하나만 실행. 소유 탭이 닫히거나 새로고침되면
+//   (pagehide에서 소유권 반납, 또는 heartbeat 만료) 남은 탭이 이어서 실행
+//   여러 탭이 동시에 이어받으면 소유권을 쓴 뒤 다시 읽어 확인하고, 그래도 겹치면 탭 id가 작은 쪽만 실행
+// - 진행 상황은 스트리밍 엔드포인트로 받고, 스트리밍을 쓸 수 없으면 일반 요청으로 대체
+// - 끝난 결과는 lastResult(최근 결과)와 결과 기록(storage/resultHistory)에 함께 저장
+// - 시작할 때 저장된 멤버 카탈로그로 예비 매칭(utils/preMatch)을 계산해 두고, 결과와 함께 보관
+
+export type AnalysisJobStatus = 'queued' | 'running' | 'succeeded' | 'failed' | 'cancelled'
+
+export interface AnalysisJobError {
+  kind: ApiErrorKind
+  // 저장해 두고 화면에서 현재 언어로 번역
+  message: ErrorMessage
+}
+
+export interface AnalysisJob {
+  id: string
+  status: AnalysisJobStatus
+  questionBank: string
+  // 재실행에 필요한 요청 (성공하면 지움)
+  request: AnalyzeRequest | null
+  ownerTabId: string | null
+  heartbeatAt: number
+  createdAt: string
+  updatedAt: string
+  error: AnalysisJobError | null
+  // 스트리밍 진행 상황 (다시 실행하면 초기화)
+  progress: AnalysisProgress | null
+  // 오프라인 예비 매칭 (카탈로그가 없으면 null)
+  preMatch: PreMatch | null
+}
+
+export interface SavedAnalysisResult {
+  result: AnalysisResponse
+  jobId: string | null
+  questionBank: string | null
+  savedAt: string
+  preMatch: PreMatch | null
+}
+
+export interface AnalysisJobState {
+  job: AnalysisJob | null
+  lastResult: SavedAnalysisResult | null
+}
+
+const CHANNEL_NAME = 'holo-oshi:analysis-jobs'
+const HEARTBEAT_INTERVAL_MS = 5000
+const STALE_AFTER_MS = 15000
+// 스트림 이벤트는 자주 오므로 저장/탭 동기화는 모아서
+const PROGRESS_FLUSH_MS = 300
+
+// 작업 관리자 이전에 쓰던 키
+const LEGACY_RESULT_KEY = 'lastMatchResult'
+const LEGACY_KEYS = ['analysisInProgress', 'analysisError', LEGACY_RESULT_KEY]
+
+const EMPTY_STATE: AnalysisJobState = { job: null, lastResult: null }
+
+// 한 번 스트리밍이 안 되는 서버로 확인되면 이 세션에서는 바로 일반 요청 사용
+let streamUnsupported = false
+
+function initialProgress(): AnalysisProgress {
+  return {
+    streaming: !streamUnsupported,
+    stage: null,
+    completedStages: [],
+    partialRecommendations: [],
+    thinkingProcess: ''
+  }
+}
+
+// 스트림 이벤트를 진행 상황에 반영
+export function reduceProgress(progress: AnalysisProgress, event: AnalysisStreamEvent): AnalysisProgress {
+  switch (event.type) {
+    case 'stage':
+      return event.status === 'started'
+        ? { ...progress, stage: event.stage }
+        : {
+            ...progress,
+            completedStages: progress.completedStages.includes(event.stage)
+              ? progress.completedStages
+              : [...progress.completedStages, event.stage]
+          }
+    case 'recommendation':
+      return {
+        ...progress,
+        partialRecommendations: [
+          ...progress.partialRecommendations.filter(item => item.memberId !== event.recommendation.memberId),
+          event.recommendation
+        ].sort((a, b) => b.matchScore - a.matchScore)
+      }
+    case 'thinking':
+      return { ...progress, thinkingProcess: progress.thinkingProcess + event.delta }
+    case 'result':
+      return progress
+  }
+}
+
+export function isActiveJob(job: AnalysisJob | null): boolean {
+  return job !== null && (job.status === 'queued' || job.status === 'running')
+}
+
+function createId(): string {
+  return typeof crypto.randomUUID === 'function'
+    ? crypto.randomUUID()
+    : `${Date.now().toString(36)}-${Math.random().toString(36).slice(2)}`
+}
+
+// 기록 저장 실패는 분석 결과에 영향을 주지 않음
+function saveToHistory(entry: ResultHistoryEntry): Promise<void> {
+  return saveHistoryEntry(entry).catch(e => console.error('결과 기록 저장 실패:', e))
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string')
+}
+
+function isPreMatchCandidate(value: unknown): value is PreMatchCandidate {
+  return isObject(value) && typeof value.memberId === 'string' && typeof value.name === 'string' &&
+    typeof value.branch === 'string' && typeof value.score === 'number' && isStringList(value.matchedTraits)
+}
+
+// 후보 하나라도 형식이 틀리면 예비 매칭 전체를 버림
+function parsePreMatch(raw: unknown): PreMatch | null {
+  if (!isObject(raw) || typeof raw.catalogSavedAt !== 'string' || !Array.isArray(raw.candidates)) return null
+  return raw.candidates.every(isPreMatchCandidate)
+    ? { candidates: raw.candidates, catalogSavedAt: raw.catalogSavedAt }
+    : null
+}
+
+// 저장된 결과는 응답 계약으로 다시 검증 (손상되었으면 버림)
+function parseSavedResult(raw: unknown, scale: ScoreScale = NORMALIZED_SCORE_SCALE): SavedAnalysisResult | null {
+  if (!isObject(raw)) return null
+  try {
+    return {
+      result: parseAnalysisResponse(raw.result, scale),
+      jobId: typeof raw.jobId === 'string' ? raw.jobId : null,
+      questionBank: typeof raw.questionBank === 'string' ? raw.questionBank : null,
+      savedAt: typeof raw.savedAt === 'string' ? raw.savedAt : new Date().toISOString(),
+      preMatch: parsePreMatch(raw.preMatch)
+    }
+  } catch (e) {
+    console.error('저장된 분석 결과가 손상되어 무시합니다:', e)
+    return null
+  }
+}
+
+const JOB_STATUSES: AnalysisJobStatus[] = ['queued', 'running', 'succeeded', 'failed', 'cancelled']
+
+function isJobStatus(value: unknown): value is AnalysisJobStatus {
+  return JOB_STATUSES.includes(value as AnalysisJobStatus)
+}
+
+function parseRequest(raw: unknown): AnalyzeRequest | null {
+  if (!isObject(raw) || !Array.isArray(raw.surveyResponses)) return null
+  return {
+    surveyResponses: parseSurveyResponses(raw.surveyResponses),
+    analysisDepth: raw.analysisDepth === 'basic' ? 'basic' : 'detailed'
+  }
+}
+
+function parseErrorMessage(raw: unknown): ErrorMessage | null {
+  if (!isObject(raw) || typeof raw.key !== 'string' || !isMessageKey(raw.key)) return null
+  if (raw.params === undefined) return { key: raw.key }
+  if (!isObject(raw.params) || !Object.values(raw.params).every(value => typeof value === 'string' || typeof value === 'number')) return null
+  return { key: raw.key, params: raw.params as ErrorMessage['params'] }
+}
+
+// 메시지 키가 아니면 버림 (v1의 문장 메시지는 저장소 변환에서 키로 바뀜)
+function parseJobError(raw: unknown): AnalysisJobError | null {
+  if (!isObject(raw) || !isApiErrorKind(raw.kind)) return null
+  const message = parseErrorMessage(raw.message)
+  return message ? { kind: raw.kind, message } : null
+}
+
+// 진행 상황은 화면 표시용이라 형식이 틀리면 없는 것으로 (다시 실행하면 새로 받음)
+// 알 수 없는 단계와 계약에 맞지 않는 중간 추천은 버림
+function parseProgress(raw: unknown): AnalysisProgress | null {
+  if (!isObject(raw) || typeof raw.streaming !== 'boolean' || typeof raw.thinkingProcess !== 'string' ||
+    !Array.isArray(raw.completedStages) || !Array.isArray(raw.partialRecommendations)) return null
+  return {
+    streaming: raw.streaming,
+    stage: isAnalysisStage(raw.stage) ? raw.stage : null,
+    completedStages: raw.completedStages.filter(isAnalysisStage),
+    partialRecommendations: raw.partialRecommendations
+      .map(item => parsePartialRecommendation(item, NORMALIZED_SCORE_SCALE))
+      .filter((item): item is MemberRecommendation => item !== null),
+    thinkingProcess: raw.thinkingProcess
+  }
+}
+
+// 다른 버전이 저장했거나 손상된 작업은 버림
+function parseJob(raw: unknown): AnalysisJob | null {
+  if (!isObject(raw) || typeof raw.id !== 'string' || !isJobStatus(raw.status) ||
+    typeof raw.questionBank !== 'string' || typeof raw.heartbeatAt !== 'number' ||
+    typeof raw.createdAt !== 'string' || typeof raw.updatedAt !== 'string' ||
+    (raw.ownerTabId !== null && typeof raw.ownerTabId !== 'string')) return null
+
+  const request = raw.request === null ? null : parseRequest(raw.request)
+  // 실행할 요청이 없는 진행 중 작업은 이어서 실행할 수 없음
+  if (request === null && (raw.request !== null || raw.status === 'queued' || raw.status === 'running')) return null
+
+  return {
+    id: raw.id,
+    status: raw.status,
+    questionBank: raw.questionBank,
+    request,
+    ownerTabId: typeof raw.ownerTabId === 'string' ? raw.ownerTabId : null,
+    heartbeatAt: raw.heartbeatAt,
+    createdAt: raw.createdAt,
+    updatedAt: raw.updatedAt,
+    error: parseJobError(raw.error),
+    progress: parseProgress(raw.progress),
+    preMatch: parsePreMatch(raw.preMatch)
+  }
+}
+
+function parseState(raw: unknown): AnalysisJobState | null {
+  if (!isObject(raw)) return null
+  return { job: parseJob(raw.job), lastResult: parseSavedResult(raw.lastResult) }
+}
+
+// v1까지는 실패한 작업의 오류를 한국어 문장으로 저장 → 오류 종류별 메시지 키로
+// 문장만 남아 있어 세부 값(제한 시간, 상태 코드 등)은 알 수 없으므로 값이 필요한 종류는 일반 메시지로
+const LEGACY_ERROR_MESSAGES: Partial<Record<ApiErrorKind, MessageKey>> = {
+  network: 'error.network',
+  validation: 'error.validation',
+  rate_limit: 'error.rateLimit',
+  cancelled: 'error.cancelled'
+}
+
+function migrateErrorMessage(data: unknown): unknown {
+  if (!isObject(data) || !isObject(data.job) || !isObject(data.job.error) || typeof data.job.error.message !== 'string') return data
+  const { kind } = data.job.error
+  // 저장된 문자열이라 'constructor' 같은 상속 속성 이름이 올 수 있음
+  const key = typeof kind === 'string' && Object.hasOwn(LEGACY_ERROR_MESSAGES, kind)
+    ? LEGACY_ERROR_MESSAGES[kind as ApiErrorKind] ?? 'error.unknown'
+    : 'error.unknown'
+  return { ...data, job: { ...data.job, error: { kind, message: { key } } } }
+}
+
+const store = defineLocalStore<AnalysisJobState>({
+  name: 'analysisJobs',
+  version: 2,
+  parse: parseState,
+  fallback: EMPTY_STATE,
+  migrations: { 1: migrateErrorMessage },
+  legacyKey: 'analysisJobs'
+})
+
+// 이전 키(lastMatchResult)의 결과를 가져오고 나머지 이전 키는 정리
+function migrateLegacyResult(): SavedAnalysisResult | null {
+  const raw = takeLegacyValue(LEGACY_RESULT_KEY)
+  removeLegacyKeys(key => LEGACY_KEYS.includes(key))
+  if (!isObject(raw)) return null
+
+  const savedAt = typeof raw.timestamp === 'string' ? raw.timestamp : new Date().toISOString()
+  // 이전 키에는 API 응답이 정규화 전 그대로 저장됨
+  const lastResult = parseSavedResult({ result: raw, jobId: `legacy-${savedAt}`, savedAt }, API_SCORE_SCALE)
+  if (lastResult) {
+    void saveToHistory({
+      id: lastResult.jobId,
+      createdAt: lastResult.savedAt,
+      questionBank: null,
+      answers: [],
+      result: lastResult.result
+    })
+  }
+  return lastResult
+}
+
+function loadState(): AnalysisJobState {
+  const saved = store.read()
+  if (saved.job || saved.lastResult) return saved
+  const lastResult = migrateLegacyResult()
+  if (!lastResult) return saved
+  const migrated = { job: null, lastResult }
+  store.write(migrated)
+  return migrated
+}
+
+type Listener = () => void
+
+export class AnalysisJobManager {
+  private state: AnalysisJobState = loadState()
+  private readonly tabId = createId()
+  private readonly listeners = new Set<Listener>()
+  private channel: BroadcastChannel | null = null
+  private heartbeatTimer: ReturnType<typeof setInterval> | undefined
+  // 이 탭에서 실행 중인 요청
+  private running: { jobId: string; controller: AbortController } | null = null
+  private progressFlushTimer: ReturnType<typeof setTimeout> | undefined
+
+  // useSyncExternalStore용
+  getSnapshot = (): AnalysisJobState => this.state
+
+  subscribe = (listener: Listener): (() => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  // 탭 간 동기화 시작 + 주인 없는 작업 이어받기
+  connect(): void {
+    if (typeof BroadcastChannel === 'function') {
+      this.channel = new BroadcastChannel(CHANNEL_NAME)
+      // 다른 버전의 탭이 보낸 값일 수 있어 저장된 값과 같이 검증
+      this.channel.onmessage = (event: MessageEvent<unknown>) => {
+        const next = parseState(event.data)
+        if (next) this.receive(next)
+      }
+    } else {
+      window.addEventListener('storage', this.handleStorage)
+    }
+    window.addEventListener('pagehide', this.handlePageHide)
+    this.heartbeatTimer = setInterval(this.tick, HEARTBEAT_INTERVAL_MS)
+
+    this.state = loadState()
+    this.notify()
+    this.resumeOrphanedJob()
+  }
+
+  disconnect(): void {
+    this.channel?.close()
+    this.channel = null
+    window.removeEventListener('storage', this.handleStorage)
+    window.removeEventListener('pagehide', this.handlePageHide)
+    clearInterval(this.heartbeatTimer)
+    this.cancelProgressFlush()
+    // 작업 상태는 그대로 두고 요청만 중단 (다시 연결되면 이어서 실행)
+    this.running?.controller.abort()
+    this.running = null
+  }
+
+  // 새 분석 시작 (진행 중인 작업은 취소)
+  start(request: AnalyzeRequest, questionBank: string): AnalysisJob {
+    if (isActiveJob(this.state.job)) {
+      this.cancel()
+    }
+
+    const now = new Date().toISOString()
+    const job: AnalysisJob = {
+      id: createId(),
+      status: 'queued',
+      questionBank,
+      request,
+      ownerTabId: this.tabId,
+      heartbeatAt: Date.now(),
+      createdAt: now,
+      updatedAt: now,
+      error: null,
+      progress: null,
+      preMatch: computePreMatch(
+        request.surveyResponses,
+        questionBank === ACTIVE_QUESTION_BANK_KEY ? ACTIVE_QUESTION_BANK : null,
+        loadMemberCatalog()
+      )
+    }
+    this.commit({ ...this.state, job })
+    void this.run(job.id)
+    return job
+  }
+
+  cancel(): void {
+    const { job } = this.state
+    if (!job || !isActiveJob(job)) return
+
+    this.updateJob(job.id, { status: 'cancelled', ownerTabId: null })
+    this.abortRunning(job.id)
+  }
+
+  // 실패/취소된 작업을 같은 요청으로 다시 실행
+  retry(): AnalysisJob | null {
+    const { job } = this.state
+    if (!job?.request || isActiveJob(job) || job.status === 'succeeded') return null
+    return this.start(job.request, job.questionBank)
+  }
+
+  // 작업과 최근 결과를 모두 지움 (개인 데이터 삭제, 진행 중인 요청은 중단)
+  reset(): void {
+    if (this.state.job) this.abortRunning(this.state.job.id)
+    this.cancelProgressFlush()
+    this.commit(EMPTY_STATE)
+  }
+
+  // 끝난 작업 표시 지우기
+  dismiss(): void {
+    if (this.state.job && !isActiveJob(this.state.job)) {
+      this.commit({ ...this.state, job: null })
+    }
+  }
+
+  private async run(jobId: string): Promise<void> {
+    const job = this.state.job
+    if (!job || job.id !== jobId || !job.request) return
+
+    const controller = new AbortController()
+    this.running = { jobId, controller }
+    this.updateJob(jobId, {
+      status: 'running',
+      ownerTabId: this.tabId,
+      heartbeatAt: Date.now(),
+      progress: initialProgress()
+    })
+
+    try {
+      const result = await this.analyze(jobId, job.request, controller.signal)
+      if (this.state.job?.id !== jobId || this.state.job.status !== 'running') return
+
+      // 완료 알림을 받은 탭들이 기록을 다시 읽을 때 새 결과가 보이도록 기록부터 저장
+      const now = new Date().toISOString()
+      await saveToHistory({
+        id: jobId,
+        createdAt: now,
+        questionBank: job.questionBank,
+        answers: job.request.surveyResponses,
+        result
+      })
+      if (this.state.job?.id !== jobId || this.state.job.status !== 'running') return
+
+      this.cancelProgressFlush()
+      this.commit({
+        job: { ...this.state.job, status: 'succeeded', request: null, ownerTabId: null, updatedAt: now },
+        lastResult: { result, jobId, questionBank: job.questionBank, savedAt: now, preMatch: job.preMatch }
+      })
+    } catch (error) {
+      // 취소됐거나 다른 작업으로 바뀐 경우는 상태를 건드리지 않음
+      if (controller.signal.aborted || this.state.job?.id !== jobId || this.state.job.status !== 'running') return
+
+      const apiError = toApiError(error)
+      console.error('분석 작업 실패:', apiError)
+      this.cancelProgressFlush()
+      this.updateJob(jobId, {
+        status: 'failed',
+        ownerTabId: null,
+        error: { kind: apiError.kind, message: describeError(apiError) }
+      })
+    } finally {
+      if (this.running?.jobId === jobId) this.running = null
+    }
+  }
+
+  // 스트리밍 요청, 서버가 지원하지 않으면 일반 요청으로 대체
+  private async analyze(jobId: string, request: AnalyzeRequest, signal: AbortSignal): Promise<AnalysisResponse> {
+    if (!streamUnsupported) {
+      try {
+        return await api.analyzeStream(request, {
+          signal,
+          onEvent: event => this.applyStreamEvent(jobId, event)
+        })
+      } catch (error) {
+        if (!(error instanceof StreamUnavailableError)) throw error
+        console.warn('스트리밍 분석을 사용할 수 없어 일반 요청으로 전환합니다:', error.message)
+        streamUnsupported = true
+        this.updateJob(jobId, { progress: initialProgress() })
+      }
+    }
+    return api.analyze(request, { signal })
+  }
+
+  // 화면은 바로 갱신하고 저장/탭 동기화는 PROGRESS_FLUSH_MS마다
+  private applyStreamEvent(jobId: string, event: AnalysisStreamEvent): void {
+    const { job } = this.state
+    if (!job || job.id !== jobId || !job.progress) return
+
+    this.state = { ...this.state, job: { ...job, progress: reduceProgress(job.progress, event) } }
+    this.notify()
+
+    if (this.progressFlushTimer === undefined) {
+      this.progressFlushTimer = setTimeout(() => {
+        this.progressFlushTimer = undefined
+        this.commit(this.state)
+      }, PROGRESS_FLUSH_MS)
+    }
+  }
+
+  private cancelProgressFlush(): void {
+    clearTimeout(this.progressFlushTimer)
+    this.progressFlushTimer = undefined
+  }
+
+  // 실행 중인 탭이 없는 진행 중 작업을 이 탭에서 이어서 실행
+  private resumeOrphanedJob(): void {
+    const { job } = this.state
+    if (!job || !isActiveJob(job) || this.running?.jobId === job.id) return
+
+    const orphaned = job.ownerTabId === null
+      || job.ownerTabId === this.tabId
+      || Date.now() - job.heartbeatAt > STALE_AFTER_MS
+    if (!orphaned) return
+
+    // 여러 탭이 동시에 이어받으려 할 수 있으므로 소유권을 쓴 뒤 다시 읽어 확인
+    this.updateJob(job.id, { ownerTabId: this.tabId, heartbeatAt: Date.now() })
+    const claimed = store.read().job
+    if (claimed?.id !== job.id || claimed.ownerTabId !== this.tabId) {
+      this.state = { ...this.state, job: claimed }
+      this.notify()
+      return
+    }
+    void this.run(job.id)
+  }
+
+  // 같은 작업을 두 탭이 실행하게 되면 탭 id가 작은 쪽만 계속 (모든 탭이 같은 결론을 내도록)
+  private yieldsTo(ownerTabId: string | null): boolean {
+    return ownerTabId !== null && ownerTabId !== this.tabId && ownerTabId < this.tabId
+  }
+
+  private tick = (): void => {
+    const { job } = this.state
+    if (job && this.running?.jobId === job.id) {
+      this.updateJob(job.id, { heartbeatAt: Date.now() })
+    } else {
+      this.resumeOrphanedJob()
+    }
+  }
+
+  // 새로고침/탭 닫기: 다른 탭(또는 새로고침된 이 탭)이 바로 이어받도록 소유권 반납
+  private handlePageHide = (): void => {
+    const { job } = this.state
+    if (job && this.running?.jobId === job.id) {
+      this.running.controller.abort()
+      this.running = null
+      this.updateJob(job.id, { status: 'queued', ownerTabId: null })
+    }
+  }
+
+  private handleStorage = (event: StorageEvent): void => {
+    if (!store.isChangedBy(event)) return
+    this.receive(store.read())
+  }
+
+  // 다른 탭에서 온 상태 적용
+  private receive(next: AnalysisJobState): void {
+    this.state = next
+    this.notify()
+
+    // 다른 탭에서 취소했거나 새 작업을 시작했으면 이 탭의 요청 중단
+    if (this.running && (next.job?.id !== this.running.jobId || next.job.status !== 'running')) {
+      this.abortRunning(this.running.jobId)
+    } else if (this.running && next.job && next.job.ownerTabId !== this.tabId) {
+      // 다른 탭도 같은 작업을 이어받음: 양보하거나, 이 탭이 실행한다고 다시 알림
+      if (this.yieldsTo(next.job.ownerTabId)) {
+        this.abortRunning(this.running.jobId)
+      } else {
+        this.updateJob(next.job.id, { ownerTabId: this.tabId, heartbeatAt: Date.now() })
+      }
+      return
+    }
+    this.resumeOrphanedJob()
+  }
+
+  private abortRunning(jobId: string): void {
+    if (this.running?.jobId === jobId) {
+      this.running.controller.abort()
+      this.running = null
+    }
+  }
+
+  private updateJob(jobId: string, patch: Partial<AnalysisJob>): void {
+    const { job } = this.state
+    if (!job || job.id !== jobId) return
+    this.commit({ ...this.state, job: { ...job, ...patch, updatedAt: new Date().toISOString() } })
+  }
+
+  private commit(next: AnalysisJobState): void {
+    this.state = next
+    store.write(next)
+    this.channel?.postMessage(next)
+    this.notify()
+  }
+
+  private notify(): void {
+    this.listeners.forEach(listener => listener())
+  }
+}
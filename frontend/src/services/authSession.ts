@@ -0,0 +1,110 @@
+import type { AuthSession, AuthUser, LoginRequest } from '../types'
+import { api } from '../api/endpoints'
+import { setAuthHandler } from '../api/auth'
+import { toApiError } from '../api/errors'
+import { isAuthSessionEvent, loadAuthSession, saveAuthSession } from '../storage/authSession'
+
+// 로그인 세션 관리
+// - 로그인하지 않아도 퀴즈/분석은 그대로 쓸 수 있음 (게스트), 멤버/검색 API만 게이트웨이가 인증을 요구
+// - api 레이어에 인증 핸들러를 등록해 모든 요청에 액세스 토큰을 붙이고, 401이면 리프레시 토큰으로 갱신
+// - 동시에 여러 요청이 401을 받아도 갱신 요청은 한 번만 보냄
+// - 갱신이 거절되면 세션을 지우고 expired로 알림 (네트워크 오류면 세션 유지)
+// - 다른 탭에서 로그인/로그아웃하면 storage 이벤트로 따라감
+
+export interface AuthState {
+  user: AuthUser | null
+  // 토큰 갱신이 거절되어 로그아웃된 경우 (다시 로그인하면 false)
+  expired: boolean
+}
+
+export class AuthSessionManager {
+  private session: AuthSession | null = loadAuthSession()
+  private state: AuthState = { user: this.session?.user ?? null, expired: false }
+  private readonly listeners = new Set<() => void>()
+  private refreshing: Promise<string | null> | null = null
+
+  // useSyncExternalStore용
+  getSnapshot = (): AuthState => this.state
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  connect(): void {
+    setAuthHandler({
+      getAccessToken: () => this.session?.accessToken ?? null,
+      refresh: () => this.refresh()
+    })
+    window.addEventListener('storage', this.handleStorage)
+  }
+
+  disconnect(): void {
+    setAuthHandler(null)
+    window.removeEventListener('storage', this.handleStorage)
+  }
+
+  async login(request: LoginRequest): Promise<AuthUser> {
+    const session = await api.login(request)
+    this.setSession(session, false)
+    return session.user
+  }
+
+  // 서버 폐기 요청이 실패해도 이 기기에서는 로그아웃
+  async logout(): Promise<void> {
+    const session = this.session
+    this.setSession(null, false)
+    if (!session) return
+    try {
+      await api.logout(session)
+    } catch (e) {
+      console.warn('서버 로그아웃 실패 (이 기기에서는 로그아웃됨):', e)
+    }
+  }
+
+  private refresh(): Promise<string | null> {
+    if (!this.session) return Promise.resolve(null)
+    this.refreshing ??= this.requestRefresh(this.session).finally(() => {
+      this.refreshing = null
+    })
+    return this.refreshing
+  }
+
+  private async requestRefresh(session: AuthSession): Promise<string | null> {
+    try {
+      const next = await api.refreshSession(session)
+      // 갱신 중에 로그아웃했거나 다른 탭에서 세션이 바뀌었으면 결과를 버림
+      if (this.session !== session) return this.session?.accessToken ?? null
+      this.setSession(next, false)
+      return next.accessToken
+    } catch (e) {
+      const error = toApiError(e)
+      if (error.retryable || error.kind === 'cancelled') {
+        console.warn('토큰 갱신 실패 (세션 유지):', error)
+        return null
+      }
+      console.warn('토큰 갱신이 거절되어 로그아웃합니다:', error)
+      if (this.session === session) this.setSession(null, true)
+      return null
+    }
+  }
+
+  private handleStorage = (event: StorageEvent): void => {
+    if (!isAuthSessionEvent(event)) return
+    this.session = loadAuthSession()
+    this.update({ user: this.session?.user ?? null, expired: false })
+  }
+
+  private setSession(session: AuthSession | null, expired: boolean): void {
+    this.session = session
+    saveAuthSession(session)
+    this.update({ user: session?.user ?? null, expired })
+  }
+
+  private update(patch: Partial<AuthState>): void {
+    this.state = { ...this.state, ...patch }
+    this.listeners.forEach(listener => listener())
+  }
+}
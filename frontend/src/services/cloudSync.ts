@@ -0,0 +1,182 @@
+import type { CloudPreferences, CloudSnapshot, ThemeMode } from '../types'
+import type { Locale } from '../i18n/locales'
+import { isLocale } from '../i18n/locales'
+import { api } from '../api/endpoints'
+import { describeError, toApiError } from '../api/errors'
+import type { ErrorMessage } from '../api/errors'
+import { deleteHistoryEntry, listHistoryEntries, saveHistoryEntry } from '../storage/resultHistory'
+import { getFavoriteRecords, replaceFavoriteRecords } from '../storage/favorites'
+import { loadPreferenceTimestamps, touchPreference } from '../storage/preferences'
+import { loadDeletedResults, loadSyncAccount, resultIdsOfOtherAccounts, saveDeletedResults, saveSyncAccount } from '../storage/cloudSync'
+import { mergeDeletedResults, mergeFavorites, mergePreference, mergeResults } from '../utils/cloudMerge'
+
+// 로그인한 사용자의 결과 기록/즐겨찾기/설정을 계정(/api/users/me/sync)과 동기화
+// - 계정 기록을 받아 이 기기 기록과 병합(utils/cloudMerge.ts)한 뒤, 계정에 없는 변경만 업로드
+// - 계정의 첫 동기화에서 이 기기에 쌓여 있던 결과를 모두 업로드 (다른 계정에서 받아온 결과는 제외)
+// - 동기화 중에 다시 요청되면 끝난 뒤 한 번 더 실행
+
+export type CloudSyncStatus = 'idle' | 'syncing' | 'error'
+
+export interface CloudSyncState {
+  status: CloudSyncStatus
+  lastSyncedAt: string | null
+  // 화면에서 t()로 번역
+  error: ErrorMessage | null
+  // 마지막 동기화로 이 기기 결과 기록이 바뀐 시각 (기록 화면 새로고침용)
+  historyChangedAt: string | null
+}
+
+export interface LocalPreferences {
+  theme: ThemeMode
+  locale: Locale
+}
+
+export interface SyncOutcome {
+  // 계정 쪽이 더 최근이라 이 기기에 적용할 설정
+  apply: Partial<LocalPreferences>
+  // 첫 동기화에서 업로드한 기존 결과 수 (첫 동기화가 아니면 null)
+  migrated: number | null
+}
+
+// 업로드 한 번에 보낼 결과 수 (결과 하나에 답변 전체가 들어 있어 큼)
+const RESULT_BATCH_SIZE = 20
+
+const INITIAL_STATE: CloudSyncState = { status: 'idle', lastSyncedAt: null, error: null, historyChangedAt: null }
+
+function hasChanges(changes: CloudSnapshot): boolean {
+  return changes.results.length > 0 || changes.deletedResults.length > 0 || changes.favorites.length > 0 ||
+    changes.preferences.theme !== undefined || changes.preferences.locale !== undefined
+}
+
+export class CloudSyncManager {
+  private state: CloudSyncState = INITIAL_STATE
+  private readonly listeners = new Set<() => void>()
+  private running: Promise<SyncOutcome | null> | null = null
+  private queued: { userId: string; preferences: () => LocalPreferences } | null = null
+  private controller: AbortController | null = null
+
+  // useSyncExternalStore용
+  getSnapshot = (): CloudSyncState => this.state
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  // 로그인 계정이 바뀌면 새로 시작 (진행 중인 동기화는 취소)
+  reset(): void {
+    this.controller?.abort()
+    this.queued = null
+    this.update(INITIAL_STATE)
+  }
+
+  sync(userId: string, preferences: () => LocalPreferences): Promise<SyncOutcome | null> {
+    if (this.running) {
+      this.queued = { userId, preferences }
+      return this.running
+    }
+    this.running = this.run(userId, preferences).finally(() => {
+      this.running = null
+      const queued = this.queued
+      this.queued = null
+      if (queued) void this.sync(queued.userId, queued.preferences)
+    })
+    return this.running
+  }
+
+  private async run(userId: string, preferences: () => LocalPreferences): Promise<SyncOutcome | null> {
+    const controller = new AbortController()
+    this.controller = controller
+    this.update({ status: 'syncing', error: null })
+    try {
+      const outcome = await this.exchange(userId, preferences(), controller.signal)
+      if (controller.signal.aborted) return null
+      this.update({ status: 'idle', lastSyncedAt: new Date().toISOString() })
+      return outcome
+    } catch (e) {
+      if (controller.signal.aborted || toApiError(e).kind === 'cancelled') return null
+      console.error('계정 동기화 실패:', e)
+      this.update({ status: 'error', error: describeError(e) })
+      return null
+    } finally {
+      if (this.controller === controller) this.controller = null
+    }
+  }
+
+  private async exchange(userId: string, local: LocalPreferences, signal: AbortSignal): Promise<SyncOutcome> {
+    const remote = await api.getCloudSnapshot({ signal })
+    const account = loadSyncAccount(userId)
+    const firstSync = account.migratedAt === null
+
+    // 결과 기록
+    const deleted = mergeDeletedResults(loadDeletedResults(userId), remote.deletedResults)
+    const otherAccounts = resultIdsOfOtherAccounts(userId)
+    const entries = (await listHistoryEntries()).filter(entry => !otherAccounts.has(entry.id))
+    const results = mergeResults(entries, remote.results, deleted.merged)
+    if (signal.aborted) return { apply: {}, migrated: null }
+
+    await Promise.all([
+      ...results.toLocal.map(entry => saveHistoryEntry(entry)),
+      ...results.removeLocal.map(id => deleteHistoryEntry(id))
+    ])
+    if (results.toLocal.length > 0 || results.removeLocal.length > 0) {
+      this.update({ historyChangedAt: new Date().toISOString() })
+    }
+    saveDeletedResults(userId, deleted.merged)
+
+    // 즐겨찾기
+    const favorites = mergeFavorites(getFavoriteRecords(), remote.favorites)
+    if (favorites.changed) replaceFavoriteRecords(favorites.merged)
+
+    // 설정
+    const timestamps = loadPreferenceTimestamps()
+    const theme = mergePreference({ value: local.theme, updatedAt: timestamps.theme }, remote.preferences.theme)
+    const remoteLocale = remote.preferences.locale
+    const locale = mergePreference(
+      { value: local.locale as string, updatedAt: timestamps.locale },
+      remoteLocale && isLocale(remoteLocale.value) ? remoteLocale : undefined
+    )
+    const apply: Partial<LocalPreferences> = {}
+    if (theme.apply) {
+      apply.theme = theme.apply.value
+      touchPreference('theme', theme.apply.updatedAt)
+    }
+    if (locale.apply && isLocale(locale.apply.value)) {
+      apply.locale = locale.apply.value
+      touchPreference('locale', locale.apply.updatedAt)
+    }
+    const pushPreferences: CloudPreferences = { theme: theme.push, locale: locale.push }
+
+    // 업로드 (결과는 나눠서, 나머지 변경은 첫 요청에 함께)
+    const batchCount = Math.max(1, Math.ceil(results.toRemote.length / RESULT_BATCH_SIZE))
+    const batches = Array.from({ length: batchCount }, (_, index): CloudSnapshot => ({
+      results: results.toRemote.slice(index * RESULT_BATCH_SIZE, (index + 1) * RESULT_BATCH_SIZE),
+      deletedResults: index === 0 ? deleted.toRemote : [],
+      favorites: index === 0 ? Object.values(favorites.toRemote) : [],
+      preferences: index === 0 ? pushPreferences : {}
+    }))
+    for (const batch of batches.filter(hasChanges)) {
+      await api.pushCloudChanges(batch, { signal })
+    }
+
+    const now = new Date().toISOString()
+    const removed = new Set(results.removeLocal)
+    // 삭제 기록은 위에서 따로 저장했으므로 다시 읽어 이어 붙임
+    saveSyncAccount(userId, {
+      ...loadSyncAccount(userId),
+      migratedAt: account.migratedAt ?? now,
+      lastSyncedAt: now,
+      resultIds: [...new Set([...account.resultIds, ...remote.results.map(entry => entry.id), ...results.toRemote.map(entry => entry.id)])]
+        .filter(id => !removed.has(id))
+    })
+
+    return { apply, migrated: firstSync ? results.toRemote.length : null }
+  }
+
+  private update(patch: Partial<CloudSyncState>): void {
+    this.state = { ...this.state, ...patch }
+    this.listeners.forEach(listener => listener())
+  }
+}
@@ -0,0 +1,223 @@
+import type { HealthResponse } from '../types'
+import { api } from '../api/endpoints'
+import { describeError } from '../api/errors'
+import type { ErrorMessage } from '../api/errors'
+
+// 서비스 상태 폴링
+// - API 헬스체크(ENDPOINTS.HEALTH)와 게이트웨이 /health를 함께 확인
+// - 응답의 service / dependencies / components에서 하위 서비스(member, vector, llm-analyzer) 상태를 추출
+// - 정상일 때는 일정 주기로, 이상이 있으면 지수 백오프로 간격을 늘려가며 재확인
+// - 탭이 보이지 않는 동안은 확인을 미루고 다시 보일 때 확인, 네트워크가 돌아오면 즉시 확인
+
+export type ServiceStatus = 'unknown' | 'up' | 'degraded' | 'down'
+export type DependencyStatus = 'unknown' | 'up' | 'down'
+export type DependencyName = 'member' | 'vector' | 'llm-analyzer'
+
+export const DEPENDENCY_NAMES: DependencyName[] = ['member', 'vector', 'llm-analyzer']
+
+export interface ServiceHealthState {
+  status: ServiceStatus
+  gateway: DependencyStatus
+  dependencies: Record<DependencyName, DependencyStatus>
+  // 분석을 시작할 수 있는지 (API 응답 + llm-analyzer가 내려가 있지 않음)
+  ready: boolean
+  checking: boolean
+  lastCheckedAt: string | null
+  nextCheckAt: number | null
+  consecutiveFailures: number
+  // 화면에서 t()로 번역
+  error: ErrorMessage | null
+}
+
+const HEALTHY_INTERVAL_MS = 60000
+const BASE_BACKOFF_MS = 5000
+const MAX_BACKOFF_MS = 120000
+
+const UNKNOWN_DEPENDENCIES: Record<DependencyName, DependencyStatus> = {
+  member: 'unknown',
+  vector: 'unknown',
+  'llm-analyzer': 'unknown'
+}
+
+const INITIAL_STATE: ServiceHealthState = {
+  status: 'unknown',
+  gateway: 'unknown',
+  dependencies: UNKNOWN_DEPENDENCIES,
+  ready: false,
+  checking: false,
+  lastCheckedAt: null,
+  nextCheckAt: null,
+  consecutiveFailures: 0,
+  error: null
+}
+
+function toDependencyStatus(status: unknown): DependencyStatus {
+  const raw = typeof status === 'object' && status !== null ? (status as { status?: unknown }).status : status
+  if (typeof raw !== 'string') return 'unknown'
+  const normalized = raw.toUpperCase()
+  if (normalized === 'UP') return 'up'
+  if (normalized === 'DOWN' || normalized === 'OUT_OF_SERVICE') return 'down'
+  return 'unknown'
+}
+
+// 'member-service', 'memberService', 'llm-analyzer-service' 등 → 의존성 이름
+function toDependencyName(key: string): DependencyName | null {
+  const normalized = key.toLowerCase().replace(/[_\s]/g, '-').replace(/-?service$/, '')
+  if (normalized === 'member') return 'member'
+  if (normalized === 'vector') return 'vector'
+  if (normalized === 'llm-analyzer' || normalized === 'llmanalyzer' || normalized === 'llm') return 'llm-analyzer'
+  return null
+}
+
+function collectDependencies(response: HealthResponse, into: Record<DependencyName, DependencyStatus>): void {
+  const self = response.service ? toDependencyName(response.service) : null
+  if (self) into[self] = toDependencyStatus(response.status)
+
+  const nested = { ...response.components, ...response.dependencies }
+  Object.entries(nested).forEach(([key, status]) => {
+    const name = toDependencyName(key)
+    if (name) into[name] = toDependencyStatus(status)
+  })
+}
+
+export class HealthMonitor {
+  private state: ServiceHealthState = INITIAL_STATE
+  private readonly listeners = new Set<() => void>()
+  private timer: ReturnType<typeof setTimeout> | undefined
+  private controller: AbortController | null = null
+  private started = false
+
+  // useSyncExternalStore용
+  getSnapshot = (): ServiceHealthState => this.state
+
+  subscribe = (listener: () => void): (() => void) => {
+    this.listeners.add(listener)
+    return () => {
+      this.listeners.delete(listener)
+    }
+  }
+
+  start(): void {
+    if (this.started) return
+    this.started = true
+    document.addEventListener('visibilitychange', this.handleVisible)
+    window.addEventListener('online', this.handleOnline)
+    void this.check()
+  }
+
+  stop(): void {
+    this.started = false
+    document.removeEventListener('visibilitychange', this.handleVisible)
+    window.removeEventListener('online', this.handleOnline)
+    clearTimeout(this.timer)
+    this.controller?.abort()
+    this.controller = null
+  }
+
+  // 즉시 다시 확인 (예약된 확인은 취소)
+  checkNow(): Promise<void> {
+    return this.check()
+  }
+
+  private async check(): Promise<void> {
+    if (!this.started) return
+    clearTimeout(this.timer)
+    this.controller?.abort()
+    const controller = new AbortController()
+    this.controller = controller
+    this.update({ checking: true })
+
+    // 예상하지 못한 오류로 중간에 끝나도 다음 확인은 예약 (기본은 실패 백오프 간격)
+    let delay = Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** this.state.consecutiveFailures)
+    try {
+      const [apiHealth, gatewayHealth] = await Promise.allSettled([
+        api.health({ signal: controller.signal }),
+        api.gatewayHealth({ signal: controller.signal })
+      ])
+      if (controller.signal.aborted) return
+      this.controller = null
+
+      const dependencies = { ...UNKNOWN_DEPENDENCIES }
+      if (gatewayHealth.status === 'fulfilled') collectDependencies(gatewayHealth.value, dependencies)
+      if (apiHealth.status === 'fulfilled') collectDependencies(apiHealth.value, dependencies)
+
+      // 형식이 맞지 않는 응답은 api에서 rejected로 오므로 내려간 것으로 취급
+      const gateway: DependencyStatus = gatewayHealth.status === 'fulfilled'
+        ? toDependencyStatus(gatewayHealth.value.status)
+        : 'down'
+
+      let status: ServiceStatus
+      if (apiHealth.status === 'rejected') {
+        status = 'down'
+      } else if (toDependencyStatus(apiHealth.value.status) !== 'up'
+        || gateway === 'down'
+        || DEPENDENCY_NAMES.some(name => dependencies[name] === 'down')) {
+        status = 'degraded'
+      } else {
+        status = 'up'
+      }
+
+      const consecutiveFailures = status === 'up' ? 0 : this.state.consecutiveFailures + 1
+      delay = status === 'up'
+        ? HEALTHY_INTERVAL_MS
+        : Math.min(MAX_BACKOFF_MS, BASE_BACKOFF_MS * 2 ** (consecutiveFailures - 1))
+
+      if (status !== 'up') {
+        console.warn(`서비스 상태 ${status}, ${delay / 1000}초 후 다시 확인합니다`, { gateway, dependencies })
+      }
+
+      this.update({
+        status,
+        gateway,
+        dependencies,
+        ready: status !== 'down' && dependencies['llm-analyzer'] !== 'down',
+        checking: false,
+        lastCheckedAt: new Date().toISOString(),
+        nextCheckAt: Date.now() + delay,
+        consecutiveFailures,
+        error: apiHealth.status === 'rejected' ? describeError(apiHealth.reason) : null
+      })
+    } catch (e) {
+      console.error('서비스 상태 확인 실패:', e)
+      if (this.controller === controller) this.controller = null
+      this.update({
+        status: 'down',
+        ready: false,
+        checking: false,
+        lastCheckedAt: new Date().toISOString(),
+        nextCheckAt: Date.now() + delay,
+        consecutiveFailures: this.state.consecutiveFailures + 1,
+        error: describeError(e)
+      })
+    } finally {
+      // 새 확인이 이 확인을 대신했거나 멈췄으면 예약하지 않음
+      if (this.started && !controller.signal.aborted) {
+        clearTimeout(this.timer)
+        this.timer = setTimeout(this.tick, delay)
+      }
+    }
+  }
+
+  // 숨겨진 탭에서는 확인을 미루고 다시 보일 때 확인
+  private tick = (): void => {
+    if (document.visibilityState === 'hidden') return
+    void this.check()
+  }
+
+  private handleVisible = (): void => {
+    if (document.visibilityState === 'hidden' || this.state.checking) return
+    if (this.state.nextCheckAt !== null && Date.now() >= this.state.nextCheckAt) {
+      void this.check()
+    }
+  }
+
+  // 네트워크가 돌아오면 백오프를 기다리지 않고 바로 확인
+  private handleOnline = (): void => {
+    void this.check()
+  }
+
+  private update(patch: Partial<ServiceHealthState>): void {
+    this.state = { ...this.state, ...patch }
+    this.listeners.forEach(listener => listener())
+  }
+}
@@ -0,0 +1,33 @@
+import { api } from '../api/endpoints'
+import { loadMemberCatalog, saveMemberCatalog } from '../storage/memberCatalog'
+import type { MemberCatalog } from '../storage/memberCatalog'
+
+// 멤버 카탈로그 갱신: 하루에 한 번 /api/members로 새로 받고,
+// 실패하면(오프라인 등) 저장된 카탈로그를 그대로 씀
+
+const REFRESH_AFTER_MS = 24 * 60 * 60 * 1000
+
+// 같은 세션에서 동시에 여러 번 요청하지 않도록
+let refreshing: Promise<MemberCatalog | null> | null = null
+
+function isFresh(catalog: MemberCatalog | null): boolean {
+  return catalog !== null && Date.now() - new Date(catalog.savedAt).getTime() < REFRESH_AFTER_MS
+}
+
+export function refreshMemberCatalog(): Promise<MemberCatalog | null> {
+  const saved = loadMemberCatalog()
+  if (isFresh(saved)) return Promise.resolve(saved)
+
+  if (!refreshing) {
+    refreshing = api.listMembers()
+      .then(members => members.length > 0 ? saveMemberCatalog(members) : saved)
+      .catch(e => {
+        console.warn('멤버 카탈로그를 갱신하지 못해 저장된 카탈로그를 사용합니다:', e)
+        return saved
+      })
+      .finally(() => {
+        refreshing = null
+      })
+  }
+  return refreshing
+}
@@ -0,0 +1,32 @@
+import { api } from '../api/endpoints'
+import type { RequestOptions } from '../api/client'
+import { ApiError } from '../api/errors'
+import type { SearchRequest, SearchResponse } from '../types'
+
+// 멤버 검색: 복합 검색(/api/search/compound)을 먼저 쓰고,
+// 배포에 없으면(404/405/501) 벡터 검색(/api/vector/search)으로 대체
+
+const UNSUPPORTED_STATUSES = [404, 405, 501]
+
+// 한 번 복합 검색이 없는 서버로 확인되면 이 세션에서는 바로 벡터 검색 사용
+let compoundUnsupported = false
+
+function isUnsupported(error: unknown): boolean {
+  if (!(error instanceof ApiError)) return false
+  const { detail } = error
+  return (detail.kind === 'http' || detail.kind === 'envelope') &&
+    detail.status !== null && UNSUPPORTED_STATUSES.includes(detail.status)
+}
+
+export async function searchMembers(request: SearchRequest, options?: RequestOptions): Promise<SearchResponse> {
+  if (!compoundUnsupported) {
+    try {
+      return await api.search(request, options)
+    } catch (error) {
+      if (!isUnsupported(error)) throw error
+      console.warn('복합 검색을 사용할 수 없어 벡터 검색으로 전환합니다:', error)
+      compoundUnsupported = true
+    }
+  }
+  return api.vectorSearch(request, options)
+}
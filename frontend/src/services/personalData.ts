@@ -0,0 +1,207 @@
+import type { FavoriteMember, ThemeMode } from '../types'
+import { isLocale } from '../i18n/locales'
+import { parseAnalysisResponse, parseSurveyResponses } from '../api/contract'
+import { clearHistoryEntries, listHistoryEntries, saveHistoryEntry } from '../storage/resultHistory'
+import type { ResultHistoryEntry } from '../storage/resultHistory'
+import { getFavoriteRecords, replaceFavoriteRecords } from '../storage/favorites'
+import { loadRecentSearches, mergeRecentSearches } from '../storage/recentSearches'
+import { loadQuizDraft, parseQuizDraft, saveQuizDraft } from '../storage/quizDraft'
+import type { QuizDraft } from '../storage/quizDraft'
+import { loadPreferenceTimestamps, touchPreference } from '../storage/preferences'
+import type { PreferenceKey } from '../storage/preferences'
+import { loadDeletedResults } from '../storage/cloudSync'
+import { loadAuthSession } from '../storage/authSession'
+import { loadMemberCatalog } from '../storage/memberCatalog'
+import { clearLocalStores } from '../storage/localStore'
+import { ACTIVE_QUESTION_BANK_KEY } from '../data/questionBank'
+import { mergeFavorites, mergePreference } from '../utils/cloudMerge'
+import { NORMALIZED_SCORE_SCALE } from '../utils/matchScore'
+import type { LocalPreferences } from './cloudSync'
+
+// 이 기기에 저장된 개인 데이터 (개인정보 센터)
+// - 항목별 개수 요약
+// - 내보내기: 결과 기록(답변 포함), 진행 중인 퀴즈 답변, 즐겨찾기, 최근 검색어, 설정을 JSON 파일 하나로
+//   (로그인 토큰, 동기화 기록, 멤버 카탈로그 캐시는 다른 기기에서 쓸 수 없어 제외)
+// - 가져오기: 결과는 id 기준으로 추가, 즐겨찾기/설정은 계정 동기화처럼 더 최근 쪽을 따름
+// - 전체 삭제: localStorage(holo-oshi:*)와 결과 기록 DB (계정 데이터 삭제/로그아웃은 호출한 쪽에서)
+
+export const PERSONAL_DATA_FORMAT = 'holo-oshi-personal-data'
+const PERSONAL_DATA_VERSION = 1
+
+export type DataCategory = 'results' | 'quizDraft' | 'favorites' | 'recentSearches' | 'preferences' | 'account' | 'cache'
+
+export interface DataCategorySummary {
+  category: DataCategory
+  count: number
+  // 내보내기 파일에 들어가는지
+  exported: boolean
+}
+
+export interface PersonalDataExport {
+  format: typeof PERSONAL_DATA_FORMAT
+  version: number
+  exportedAt: string
+  results: ResultHistoryEntry[]
+  quizDraft: QuizDraft | null
+  favorites: FavoriteMember[]
+  recentSearches: string[]
+  preferences: {
+    theme: ThemeMode
+    locale: string
+    updatedAt: Partial<Record<PreferenceKey, string>>
+  }
+}
+
+export interface ImportOutcome {
+  // 새로 추가한 결과 수
+  results: number
+  // 가져온 파일의 설정이 더 최근이라 이 기기에 적용할 설정
+  apply: Partial<LocalPreferences>
+}
+
+export class PersonalDataFormatError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'PersonalDataFormatError'
+  }
+}
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null
+}
+
+export async function summarizePersonalData(): Promise<DataCategorySummary[]> {
+  const results = await listHistoryEntries()
+  const account = loadAuthSession()
+  return [
+    { category: 'results', count: results.length, exported: true },
+    { category: 'quizDraft', count: loadQuizDraft() ? 1 : 0, exported: true },
+    { category: 'favorites', count: Object.values(getFavoriteRecords()).filter(item => item.favorite).length, exported: true },
+    { category: 'recentSearches', count: loadRecentSearches().length, exported: true },
+    { category: 'preferences', count: Object.keys(loadPreferenceTimestamps()).length, exported: true },
+    { category: 'account', count: account ? 1 : 0, exported: false },
+    { category: 'cache', count: loadMemberCatalog()?.members.length ?? 0, exported: false }
+  ]
+}
+
+export async function exportPersonalData(preferences: LocalPreferences): Promise<PersonalDataExport> {
+  return {
+    format: PERSONAL_DATA_FORMAT,
+    version: PERSONAL_DATA_VERSION,
+    exportedAt: new Date().toISOString(),
+    results: await listHistoryEntries(),
+    quizDraft: loadQuizDraft(),
+    favorites: Object.values(getFavoriteRecords()),
+    recentSearches: loadRecentSearches(),
+    preferences: { ...preferences, updatedAt: loadPreferenceTimestamps() }
+  }
+}
+
+// 결과는 응답 계약으로 다시 검증해 손상된 항목만 건너뜀 (형식이 틀린 답변은 버림)
+function parseResults(raw: unknown): ResultHistoryEntry[] {
+  if (!Array.isArray(raw)) return []
+  return raw.flatMap(item => {
+    if (!isObject(item) || typeof item.id !== 'string' || typeof item.createdAt !== 'string') return []
+    try {
+      return [{
+        id: item.id,
+        createdAt: item.createdAt,
+        questionBank: typeof item.questionBank === 'string' ? item.questionBank : null,
+        answers: parseSurveyResponses(item.answers),
+        result: parseAnalysisResponse(item.result, NORMALIZED_SCORE_SCALE)
+      }]
+    } catch (e) {
+      console.warn(`가져온 결과가 손상되어 건너뜁니다 (${item.id}):`, e)
+      return []
+    }
+  })
+}
+
+function parseFavorites(raw: unknown): FavoriteMember[] {
+  if (!Array.isArray(raw)) return []
+  return raw.filter((item): item is FavoriteMember =>
+    isObject(item) && typeof item.memberId === 'string' && typeof item.favorite === 'boolean' && typeof item.updatedAt === 'string')
+}
+
+export function parsePersonalDataExport(raw: unknown): PersonalDataExport {
+  if (!isObject(raw) || raw.format !== PERSONAL_DATA_FORMAT) {
+    throw new PersonalDataFormatError('개인 데이터 내보내기 파일이 아닙니다')
+  }
+  if (typeof raw.version !== 'number' || raw.version > PERSONAL_DATA_VERSION) {
+    throw new PersonalDataFormatError(`지원하지 않는 파일 버전입니다: ${String(raw.version)}`)
+  }
+
+  const preferences = isObject(raw.preferences) ? raw.preferences : {}
+  const updatedAt = isObject(preferences.updatedAt) ? preferences.updatedAt : {}
+  return {
+    format: PERSONAL_DATA_FORMAT,
+    version: raw.version,
+    exportedAt: typeof raw.exportedAt === 'string' ? raw.exportedAt : new Date().toISOString(),
+    results: parseResults(raw.results),
+    quizDraft: parseQuizDraft(raw.quizDraft),
+    favorites: parseFavorites(raw.favorites),
+    recentSearches: Array.isArray(raw.recentSearches)
+      ? raw.recentSearches.filter((item): item is string => typeof item === 'string')
+      : [],
+    preferences: {
+      theme: preferences.theme === 'light' ? 'light' : 'dark',
+      locale: typeof preferences.locale === 'string' ? preferences.locale : '',
+      updatedAt: {
+        theme: typeof updatedAt.theme === 'string' ? updatedAt.theme : undefined,
+        locale: typeof updatedAt.locale === 'string' ? updatedAt.locale : undefined
+      }
+    }
+  }
+}
+
+// 이 기기에서 지금 계정으로(비로그인이면 비로그인 상태로) 지운 결과는 다시 가져오지 않음 (계정 동기화가 다시 지우므로)
+export async function importPersonalData(data: PersonalDataExport, current: LocalPreferences): Promise<ImportOutcome> {
+  const existingIds = new Set((await listHistoryEntries()).map(entry => entry.id))
+  const deletedIds = new Set(loadDeletedResults(loadAuthSession()?.user.id ?? null).map(item => item.id))
+  const newResults = data.results.filter(entry => !existingIds.has(entry.id) && !deletedIds.has(entry.id))
+  await Promise.all(newResults.map(entry => saveHistoryEntry(entry)))
+
+  // 진행 중인 퀴즈는 이 기기에 없을 때만, 같은 질문 은행 버전이면 이어서 풀 수 있게
+  const draft = data.quizDraft
+  if (draft && draft.bankKey === ACTIVE_QUESTION_BANK_KEY && !loadQuizDraft()) {
+    saveQuizDraft({
+      answers: draft.answers,
+      currentQuestionId: draft.currentQuestionId,
+      selectedOptions: draft.selectedOptions
+    })
+  }
+
+  const favorites = mergeFavorites(getFavoriteRecords(), data.favorites)
+  if (favorites.changed) replaceFavoriteRecords(favorites.merged)
+  mergeRecentSearches(data.recentSearches)
+
+  // 설정: 파일 쪽에 변경 시각이 있고 더 최근일 때만
+  const timestamps = loadPreferenceTimestamps()
+  const imported = data.preferences
+  const apply: Partial<LocalPreferences> = {}
+  const theme = mergePreference(
+    { value: current.theme, updatedAt: timestamps.theme },
+    imported.updatedAt.theme ? { value: imported.theme, updatedAt: imported.updatedAt.theme } : undefined
+  )
+  if (theme.apply) {
+    apply.theme = theme.apply.value
+    touchPreference('theme', theme.apply.updatedAt)
+  }
+  const locale = mergePreference(
+    { value: current.locale as string, updatedAt: timestamps.locale },
+    imported.updatedAt.locale && isLocale(imported.locale) ? { value: imported.locale, updatedAt: imported.updatedAt.locale } : undefined
+  )
+  if (locale.apply && isLocale(locale.apply.value)) {
+    apply.locale = locale.apply.value
+    touchPreference('locale', locale.apply.updatedAt)
+  }
+
+  return { results: newResults.length, apply }
+}
+
+// 이 기기의 개인 데이터 전체 삭제
+export async function deleteLocalPersonalData(): Promise<void> {
+  await clearHistoryEntries()
+  replaceFavoriteRecords({})
+  clearLocalStores()
+}
@@ -0,0 +1,34 @@
+import type { AnalysisResponse } from '../types'
+import { api } from '../api/endpoints'
+import { decodeSnapshot, encodeSnapshot, isSnapshotId } from '../utils/shareSnapshot'
+
+// 결과 공유 링크 (/result/:shareId)
+// - 서버 공유 기록이 만들어지면 짧은 id 링크
+// - 서버가 없거나 실패하면 결과를 URL에 담은 스냅샷 링크
+
+export interface SharedResult {
+  result: AnalysisResponse
+  createdAt: string
+  source: 'snapshot' | 'server'
+}
+
+export function shareUrl(shareId: string): string {
+  return `${window.location.origin}/result/${shareId}`
+}
+
+export async function createShareLink(result: AnalysisResponse, createdAt: string): Promise<string> {
+  try {
+    return shareUrl(await api.createShare(result))
+  } catch (e) {
+    console.warn('공유 기록을 만들지 못해 URL 스냅샷 링크를 사용합니다:', e)
+    return shareUrl(await encodeSnapshot(result, createdAt))
+  }
+}
+
+export async function loadSharedResult(shareId: string): Promise<SharedResult> {
+  if (isSnapshotId(shareId)) {
+    return { ...(await decodeSnapshot(shareId)), source: 'snapshot' }
+  }
+  const record = await api.getShare(shareId)
+  return { result: record.result, createdAt: record.createdAt, source: 'server' }
+}
@@ -0,0 +1,40 @@
+import type { AuthSession } from '../types'
+import { defineLocalStore } from './localStore'
+
+// 로그인 세션 (localStorage)
+// 새로고침/새 탭에서도 로그인이 유지되도록 토큰과 사용자 정보를 저장합니다
+
+function isAuthSession(value: unknown): value is AuthSession {
+  if (typeof value !== 'object' || value === null) return false
+  const session = value as Record<string, unknown>
+  const user = session.user as Record<string, unknown> | null | undefined
+  return typeof session.accessToken === 'string' && typeof session.refreshToken === 'string' &&
+    (session.expiresAt === null || typeof session.expiresAt === 'string') &&
+    typeof user?.id === 'string' && typeof user.displayName === 'string'
+}
+
+const store = defineLocalStore<AuthSession | null>({
+  name: 'authSession',
+  version: 1,
+  parse: data => isAuthSession(data) ? data : null,
+  fallback: null,
+  legacyKey: 'authSession'
+})
+
+// 손상되었거나 없으면 null
+export function loadAuthSession(): AuthSession | null {
+  return store.read()
+}
+
+export function saveAuthSession(session: AuthSession | null): void {
+  if (session) {
+    store.write(session)
+  } else {
+    store.remove()
+  }
+}
+
+// 다른 탭에서 로그인/로그아웃했는지
+export function isAuthSessionEvent(event: StorageEvent): boolean {
+  return store.isChangedBy(event)
+}
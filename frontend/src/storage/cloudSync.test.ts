@@ -0,0 +1,52 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { loadDeletedResults, loadSyncAccount, recordDeletedResult } from './cloudSync'
+
+const STORAGE_KEY = 'holo-oshi:cloudSync'
+
+function stubStorage(): Map<string, string> {
+  const items = new Map<string, string>()
+  vi.stubGlobal('localStorage', {
+    get length() {
+      return items.size
+    },
+    key: (index: number) => [...items.keys()][index] ?? null,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key)
+  })
+  return items
+}
+
+describe('삭제 기록', () => {
+  let items: Map<string, string>
+
+  beforeEach(() => {
+    items = stubStorage()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('로그인하지 않은 채 지운 기록은 어느 계정의 기록에도 들어가지 않는다', () => {
+    recordDeletedResult(null, 'r1')
+    recordDeletedResult('user-1', 'r2')
+
+    expect(loadDeletedResults(null).map(item => item.id)).toEqual(['r1'])
+    expect(loadDeletedResults('user-1').map(item => item.id)).toEqual(['r2'])
+    expect(loadDeletedResults('user-2')).toEqual([])
+  })
+
+  it('v1의 계정 구분 없는 기록은 비로그인 기록으로 옮긴다', () => {
+    items.set(STORAGE_KEY, JSON.stringify({
+      v: 1,
+      data: {
+        accounts: { 'user-1': { migratedAt: null, lastSyncedAt: null, resultIds: ['r0'] } },
+        deletedResults: [{ id: 'r1', deletedAt: '2026-10-01T00:00:00.000Z' }]
+      }
+    }))
+
+    expect(loadDeletedResults(null)).toEqual([{ id: 'r1', deletedAt: '2026-10-01T00:00:00.000Z' }])
+    expect(loadSyncAccount('user-1')).toEqual({ migratedAt: null, lastSyncedAt: null, resultIds: ['r0'], deletedResults: [] })
+  })
+})
@@ -0,0 +1,110 @@
+import type { DeletedResult } from '../types'
+import { defineLocalStore } from './localStore'
+
+// 계정 동기화 기록 (localStorage)
+// - accounts: 계정별 첫 업로드 시각, 마지막 동기화 시각, 그 계정과 주고받은 결과 id
+//   (다른 계정에서 받아온 결과를 새 계정에 올리지 않기 위해),
+//   그 계정으로 지운 결과 id (다른 기기에도 삭제를 전달하기 위한 기록, 최근 것만 보관)
+// - guestDeletedResults: 로그인하지 않은 채 지운 결과 id (이 기기에서만 쓰고 어느 계정에도 올리지 않음)
+
+const MAX_DELETED_RESULTS = 200
+
+export interface SyncAccount {
+  migratedAt: string | null
+  lastSyncedAt: string | null
+  resultIds: string[]
+  deletedResults: DeletedResult[]
+}
+
+interface CloudSyncRecord {
+  accounts: Record<string, SyncAccount>
+  guestDeletedResults: DeletedResult[]
+}
+
+const EMPTY_ACCOUNT: SyncAccount = { migratedAt: null, lastSyncedAt: null, resultIds: [], deletedResults: [] }
+
+function isStringList(value: unknown): value is string[] {
+  return Array.isArray(value) && value.every(item => typeof item === 'string')
+}
+
+function parseDeletedResults(value: unknown): DeletedResult[] {
+  return Array.isArray(value)
+    ? (value as DeletedResult[]).filter(item => typeof item?.id === 'string' && typeof item.deletedAt === 'string')
+    : []
+}
+
+function parseRecord(data: unknown): CloudSyncRecord | null {
+  if (typeof data !== 'object' || data === null) return null
+  const parsed = data as Partial<Record<keyof CloudSyncRecord, unknown>>
+  const accounts: Record<string, SyncAccount> = {}
+  if (typeof parsed.accounts === 'object' && parsed.accounts !== null) {
+    Object.entries(parsed.accounts as Record<string, Partial<SyncAccount>>).forEach(([userId, account]) => {
+      accounts[userId] = {
+        migratedAt: typeof account?.migratedAt === 'string' ? account.migratedAt : null,
+        lastSyncedAt: typeof account?.lastSyncedAt === 'string' ? account.lastSyncedAt : null,
+        resultIds: isStringList(account?.resultIds) ? account.resultIds : [],
+        deletedResults: parseDeletedResults(account?.deletedResults)
+      }
+    })
+  }
+  return { accounts, guestDeletedResults: parseDeletedResults(parsed.guestDeletedResults) }
+}
+
+// v1 → v2: 계정 구분 없던 삭제 기록은 누가 지웠는지 알 수 없으므로 이 기기 전용(비로그인)으로 돌림
+function scopeDeletedResults(data: unknown): unknown {
+  if (typeof data !== 'object' || data === null) return data
+  const { deletedResults, ...rest } = data as Record<string, unknown>
+  return { ...rest, guestDeletedResults: deletedResults }
+}
+
+const store = defineLocalStore<CloudSyncRecord>({
+  name: 'cloudSync',
+  version: 2,
+  parse: parseRecord,
+  fallback: { accounts: {}, guestDeletedResults: [] },
+  migrations: { 1: scopeDeletedResults },
+  legacyKey: 'cloudSync'
+})
+
+function loadRecord(): CloudSyncRecord {
+  return store.read()
+}
+
+function saveRecord(record: CloudSyncRecord): void {
+  store.write(record)
+}
+
+export function loadSyncAccount(userId: string): SyncAccount {
+  return loadRecord().accounts[userId] ?? EMPTY_ACCOUNT
+}
+
+export function saveSyncAccount(userId: string, account: SyncAccount): void {
+  const record = loadRecord()
+  saveRecord({ ...record, accounts: { ...record.accounts, [userId]: account } })
+}
+
+// 다른 계정과 주고받은 결과 id
+export function resultIdsOfOtherAccounts(userId: string): Set<string> {
+  const { accounts } = loadRecord()
+  return new Set(Object.entries(accounts).flatMap(([id, account]) => id === userId ? [] : account.resultIds))
+}
+
+// 계정별 삭제 기록 (userId가 null이면 로그인하지 않은 채 지운 기록)
+export function loadDeletedResults(userId: string | null): DeletedResult[] {
+  return userId === null ? loadRecord().guestDeletedResults : loadSyncAccount(userId).deletedResults
+}
+
+export function saveDeletedResults(userId: string | null, deletedResults: DeletedResult[]): void {
+  const recent = [...deletedResults]
+    .sort((a, b) => b.deletedAt.localeCompare(a.deletedAt))
+    .slice(0, MAX_DELETED_RESULTS)
+  if (userId === null) {
+    saveRecord({ ...loadRecord(), guestDeletedResults: recent })
+  } else {
+    saveSyncAccount(userId, { ...loadSyncAccount(userId), deletedResults: recent })
+  }
+}
+
+export function recordDeletedResult(userId: string | null, id: string): void {
+  saveDeletedResults(userId, [{ id, deletedAt: new Date().toISOString() }, ...loadDeletedResults(userId).filter(item => item.id !== id)])
+}
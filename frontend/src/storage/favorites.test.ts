@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { getFavoriteRecords, subscribeFavorites } from './favorites'
+
+const STORAGE_KEY = 'holo-oshi:favoriteMembers'
+
+// 이벤트 리스너만 기억하는 window
+function stubWindow(): Set<(event: StorageEvent) => void> {
+  const handlers = new Set<(event: StorageEvent) => void>()
+  vi.stubGlobal('window', {
+    addEventListener: (_type: string, handler: (event: StorageEvent) => void) => handlers.add(handler),
+    removeEventListener: (_type: string, handler: (event: StorageEvent) => void) => handlers.delete(handler)
+  })
+  return handlers
+}
+
+function stubStorage(): Map<string, string> {
+  const items = new Map<string, string>()
+  vi.stubGlobal('localStorage', {
+    get length() {
+      return items.size
+    },
+    key: (index: number) => [...items.keys()][index] ?? null,
+    getItem: (key: string) => items.get(key) ?? null,
+    setItem: (key: string, value: string) => items.set(key, value),
+    removeItem: (key: string) => items.delete(key)
+  })
+  return items
+}
+
+function saveFavorite(items: Map<string, string>, memberId: string): void {
+  items.set(STORAGE_KEY, JSON.stringify({ v: 1, data: [{ memberId, favorite: true, updatedAt: '2026-10-01T00:00:00.000Z' }] }))
+}
+
+describe('subscribeFavorites', () => {
+  let handlers: Set<(event: StorageEvent) => void>
+  let items: Map<string, string>
+
+  beforeEach(() => {
+    handlers = stubWindow()
+    items = stubStorage()
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('구독하는 동안만 다른 탭의 변경을 듣는다', () => {
+    const listener = vi.fn()
+    const unsubscribe = subscribeFavorites(listener)
+    const other = subscribeFavorites(() => {})
+    expect(handlers.size).toBe(1)
+
+    saveFavorite(items, 'm1')
+    handlers.forEach(handler => handler({ key: STORAGE_KEY } as StorageEvent))
+    expect(listener).toHaveBeenCalledTimes(1)
+    expect(Object.keys(getFavoriteRecords())).toEqual(['m1'])
+
+    unsubscribe()
+    other()
+    expect(handlers.size).toBe(0)
+  })
+
+  it('구독이 끝난 동안 바뀐 값은 다음에 다시 읽는다', () => {
+    subscribeFavorites(() => {})()
+    saveFavorite(items, 'm2')
+
+    expect(Object.keys(getFavoriteRecords())).toEqual(['m2'])
+  })
+})
@@ -0,0 +1,74 @@
+import type { FavoriteMember } from '../types'
+import { defineLocalStore } from './localStore'
+
+// 즐겨찾기 멤버 (localStorage)
+// 해제한 멤버도 favorite: false로 남겨 두어 계정 동기화 때 어느 쪽이 최신인지 비교합니다
+// 화면은 subscribeFavorites/getFavoriteRecords를 useSyncExternalStore로 구독
+
+export type FavoriteRecords = Record<string, FavoriteMember>
+
+function isFavoriteMember(value: unknown): value is FavoriteMember {
+  if (typeof value !== 'object' || value === null) return false
+  const item = value as Record<string, unknown>
+  return typeof item.memberId === 'string' && typeof item.favorite === 'boolean' && typeof item.updatedAt === 'string'
+}
+
+const store = defineLocalStore<FavoriteMember[]>({
+  name: 'favoriteMembers',
+  version: 1,
+  parse: data => Array.isArray(data) ? data.filter(isFavoriteMember) : null,
+  fallback: [],
+  legacyKey: 'favoriteMembers'
+})
+
+function loadFavoriteRecords(): FavoriteRecords {
+  return Object.fromEntries(store.read().map(item => [item.memberId, item]))
+}
+
+const listeners = new Set<() => void>()
+// 처음 읽을 때 불러옴 (null이면 아직 읽지 않음)
+let records: FavoriteRecords | null = null
+
+export function getFavoriteRecords(): FavoriteRecords {
+  records ??= loadFavoriteRecords()
+  return records
+}
+
+// 다른 탭에서 바꾼 즐겨찾기 반영
+function handleStorage(event: StorageEvent): void {
+  if (!store.isChangedBy(event)) return
+  records = loadFavoriteRecords()
+  listeners.forEach(listener => listener())
+}
+
+// storage 이벤트는 구독자가 있는 동안만 듣고,
+// 마지막 구독이 끝나면 그동안의 다른 탭 변경을 놓치므로 다음에 다시 읽음
+export function subscribeFavorites(listener: () => void): () => void {
+  if (listeners.size === 0) window.addEventListener('storage', handleStorage)
+  listeners.add(listener)
+  return () => {
+    listeners.delete(listener)
+    if (listeners.size > 0) return
+    window.removeEventListener('storage', handleStorage)
+    records = null
+  }
+}
+
+export function replaceFavoriteRecords(next: FavoriteRecords): void {
+  records = next
+  store.write(Object.values(next))
+  listeners.forEach(listener => listener())
+}
+
+export function setFavorite(memberId: string, favorite: boolean): void {
+  replaceFavoriteRecords({ ...getFavoriteRecords(), [memberId]: { memberId, favorite, updatedAt: new Date().toISOString() } })
+}
+
+// 즐겨찾기한 멤버 id (최근에 추가한 순)
+export function favoriteMemberIds(from: FavoriteRecords): string[] {
+  return Object.values(from)
+    .filter(item => item.favorite)
+    .sort((a, b) => b.updatedAt.localeCompare(a.updatedAt))
+    .map(item => item.memberId)
+}
+
@@ -0,0 +1,86 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { defineLocalStore } from './localStore'
+
+// 메모리에만 두는 localStorage
+class MemoryStorage {
+  private items = new Map<string, string>()
+
+  get length(): number {
+    return this.items.size
+  }
+
+  key(index: number): string | null {
+    return [...this.items.keys()][index] ?? null
+  }
+
+  getItem(key: string): string | null {
+    return this.items.get(key) ?? null
+  }
+
+  setItem(key: string, value: string): void {
+    this.items.set(key, String(value))
+  }
+
+  removeItem(key: string): void {
+    this.items.delete(key)
+  }
+}
+
+// v0(이전 키)/v1: 이름 문자열 목록, v2: { name } 목록, v3: { name, pinned } 목록
+interface Entry {
+  name: string
+  pinned: boolean
+}
+
+function defineEntries(name: string) {
+  return defineLocalStore<Entry[]>({
+    name,
+    version: 3,
+    parse: data => Array.isArray(data) ? data as Entry[] : null,
+    fallback: [],
+    migrations: {
+      1: data => Array.isArray(data) ? data.map(item => ({ name: item })) : data,
+      2: data => Array.isArray(data) ? data.map(item => ({ ...item, pinned: false })) : data
+    },
+    legacyKey: `${name}Legacy`
+  })
+}
+
+describe('defineLocalStore', () => {
+  beforeEach(() => {
+    vi.stubGlobal('localStorage', new MemoryStorage())
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+  })
+
+  it('저장된 버전부터 단계별로 변환하고 현재 버전으로 다시 저장한다', () => {
+    const store = defineEntries('entriesV1')
+    localStorage.setItem(store.storageKey, JSON.stringify({ v: 1, data: ['a', 'b'] }))
+
+    expect(store.read()).toEqual([{ name: 'a', pinned: false }, { name: 'b', pinned: false }])
+    expect(JSON.parse(localStorage.getItem(store.storageKey) ?? 'null')).toEqual({
+      v: 3,
+      data: [{ name: 'a', pinned: false }, { name: 'b', pinned: false }]
+    })
+  })
+
+  it('버전 없는 이전 키는 v0으로 읽어 옮기고 지운다', () => {
+    const store = defineEntries('entriesLegacy')
+    localStorage.setItem('entriesLegacyLegacy', JSON.stringify(['a']))
+
+    expect(store.read()).toEqual([{ name: 'a', pinned: false }])
+    expect(localStorage.getItem('entriesLegacyLegacy')).toBeNull()
+    expect(JSON.parse(localStorage.getItem(store.storageKey) ?? 'null')).toEqual({ v: 3, data: [{ name: 'a', pinned: false }] })
+  })
+
+  it('더 새 버전이 저장한 값은 지우지 않고 기본값을 쓴다', () => {
+    const store = defineEntries('entriesNewer')
+    const serialized = JSON.stringify({ v: 4, data: { entries: [] } })
+    localStorage.setItem(store.storageKey, serialized)
+
+    expect(store.read()).toEqual([])
+    expect(localStorage.getItem(store.storageKey)).toBe(serialized)
+  })
+})
@@ -0,0 +1,189 @@
+// localStorage 공통 저장소
+// - 키는 'holo-oshi:<이름>'으로 모으고, 값은 스키마 버전과 함께 { v, data }로 저장
+// - 읽을 때 저장된 버전에서 현재 버전까지 단계별로 변환한 뒤 검증 (변환했으면 바로 다시 저장)
+// - 버전 없이 저장하던 이전 키(legacyKey)는 v0으로 읽어 옮기고 지움
+// - 손상된 값(JSON 오류, 검증 실패)은 지우고 기본값 사용
+// - 용량이 부족하면 다시 받을 수 있는 캐시(evictable)를 비우고 한 번 더 시도
+// - 저장소를 쓸 수 없는 환경(사생활 보호 모드 등)에서도 예외를 던지지 않음
+
+const KEY_PREFIX = 'holo-oshi:'
+
+export interface LocalStoreOptions<T> {
+  name: string
+  version: number
+  // 현재 버전의 값 검증 (쓸 수 없으면 null)
+  parse: (data: unknown) => T | null
+  // 없거나 손상되었을 때 값 (호출한 쪽에서 고치지 말 것)
+  fallback: T
+  // migrations[n]: v(n) 값을 v(n+1)로. 없는 단계는 모양이 같다고 보고 그대로 넘김
+  migrations?: Record<number, (data: unknown) => unknown>
+  legacyKey?: string
+  // 용량이 부족할 때 먼저 지워도 되는 값 (서버에서 다시 받는 캐시)
+  evictable?: boolean
+}
+
+export interface LocalStore<T> {
+  readonly name: string
+  readonly storageKey: string
+  read: () => T
+  // 저장하지 못했으면 false
+  write: (value: T) => boolean
+  remove: () => void
+  // 다른 탭의 storage 이벤트가 이 값을 바꿨는지 (전체 삭제 포함)
+  isChangedBy: (event: StorageEvent) => boolean
+}
+
+interface Envelope {
+  v: number
+  data: unknown
+}
+
+const stores = new Map<string, LocalStore<unknown> & Pick<LocalStoreOptions<unknown>, 'evictable' | 'legacyKey'>>()
+
+function isEnvelope(value: unknown): value is Envelope {
+  return typeof value === 'object' && value !== null && typeof (value as Envelope).v === 'number' && 'data' in value
+}
+
+function isQuotaExceeded(e: unknown): boolean {
+  return e instanceof DOMException &&
+    (e.name === 'QuotaExceededError' || e.name === 'NS_ERROR_DOM_QUOTA_REACHED' || e.code === 22)
+}
+
+function getItem(key: string): string | null {
+  try {
+    return localStorage.getItem(key)
+  } catch {
+    return null
+  }
+}
+
+function removeItem(key: string): void {
+  try {
+    localStorage.removeItem(key)
+  } catch {
+    // 저장소를 쓸 수 없으면 지울 것도 없음
+  }
+}
+
+// 다른 값을 지울 수 있는 만큼 지우고 한 번 더 시도
+function setItem(key: string, serialized: string): boolean {
+  try {
+    localStorage.setItem(key, serialized)
+    return true
+  } catch (e) {
+    if (!isQuotaExceeded(e)) throw e
+  }
+  const evicted = [...stores.values()].filter(store => store.evictable && store.storageKey !== key)
+  evicted.forEach(store => store.remove())
+  console.warn('저장 공간이 부족해 캐시를 비웠습니다:', evicted.map(store => store.name))
+  localStorage.setItem(key, serialized)
+  return true
+}
+
+// 버전 없이 저장하던 값 (JSON이 아니면 문자열 그대로)
+function parseLegacy(serialized: string): unknown {
+  try {
+    return JSON.parse(serialized)
+  } catch {
+    return serialized
+  }
+}
+
+// 이전 키의 값을 읽고 지움 (없으면 undefined)
+export function takeLegacyValue(key: string): unknown {
+  const serialized = getItem(key)
+  if (serialized === null) return undefined
+  removeItem(key)
+  return parseLegacy(serialized)
+}
+
+// 규칙으로만 찾을 수 있는 이전 키 정리 (예: 'quizDraft:<은행>')
+export function removeLegacyKeys(match: (key: string) => boolean): void {
+  try {
+    const keys = Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i))
+    keys.forEach(key => {
+      if (key !== null && !key.startsWith(KEY_PREFIX) && match(key)) removeItem(key)
+    })
+  } catch {
+    // 저장소를 쓸 수 없으면 정리할 것도 없음
+  }
+}
+
+// 이 앱이 저장한 값 전체 삭제 (개인 데이터 삭제, 아직 옮기지 않은 이전 키 포함)
+export function clearLocalStores(): void {
+  stores.forEach(store => {
+    store.remove()
+    if (store.legacyKey) removeItem(store.legacyKey)
+  })
+  try {
+    const keys = Array.from({ length: localStorage.length }, (_, i) => localStorage.key(i))
+    keys.forEach(key => {
+      if (key?.startsWith(KEY_PREFIX)) removeItem(key)
+    })
+  } catch {
+    // 저장소를 쓸 수 없으면 지울 것도 없음
+  }
+}
+
+export function defineLocalStore<T>(options: LocalStoreOptions<T>): LocalStore<T> {
+  const { name, version, parse, fallback, migrations = {}, legacyKey, evictable = false } = options
+  const storageKey = `${KEY_PREFIX}${name}`
+
+  const migrate = (data: unknown, from: number): unknown => {
+    let migrated = data
+    for (let v = from; v < version; v++) {
+      migrated = migrations[v] ? migrations[v](migrated) : migrated
+    }
+    return migrated
+  }
+
+  const write = (value: T): boolean => {
+    try {
+      return setItem(storageKey, JSON.stringify({ v: version, data: value } satisfies Envelope))
+    } catch (e) {
+      console.warn(`${name}을(를) 저장하지 못했습니다:`, e)
+      return false
+    }
+  }
+
+  const remove = (): void => removeItem(storageKey)
+
+  // 저장된 버전이 같으면 그대로, 낮으면 변환 후 다시 저장
+  const load = (stored: Envelope): T | null => {
+    if (stored.v === version) return parse(stored.data)
+    const value = parse(migrate(stored.data, stored.v))
+    if (value !== null) write(value)
+    return value
+  }
+
+  const readLegacy = (): T | null => {
+    if (!legacyKey) return null
+    const legacy = takeLegacyValue(legacyKey)
+    return legacy === undefined ? null : load({ v: 0, data: legacy })
+  }
+
+  const read = (): T => {
+    const serialized = getItem(storageKey)
+    if (serialized === null) return readLegacy() ?? fallback
+
+    try {
+      const stored: unknown = JSON.parse(serialized)
+      if (!isEnvelope(stored)) throw new Error('버전 정보가 없습니다')
+      // 더 새 버전의 앱이 저장한 값은 지우지 않고 기본값으로
+      if (stored.v > version) return fallback
+      const value = load(stored)
+      if (value === null) throw new Error('형식이 맞지 않습니다')
+      return value
+    } catch (e) {
+      console.warn(`손상된 ${name} 값을 지웠습니다:`, e)
+      remove()
+      return fallback
+    }
+  }
+
+  const isChangedBy = (event: StorageEvent): boolean => event.key === storageKey || event.key === null
+
+  const store: LocalStore<T> = { name, storageKey, read, write, remove, isChangedBy }
+  stores.set(name, { ...store, evictable, legacyKey })
+  return store
+}
@@ -0,0 +1,60 @@
+import type { Member } from '../types'
+import { defineLocalStore } from './localStore'
+
+// 멤버 특성 카탈로그 (localStorage)
+// 오프라인 예비 매칭(utils/preMatch)과 추천 멤버 이름 현지화에 쓰는 최소 정보만 저장합니다
+// 멤버 목록을 받으면 다시 저장되므로 저장 공간이 부족하면 가장 먼저 비움
+
+export interface CatalogMember {
+  id: string
+  name: string
+  name_ja?: string
+  name_en?: string
+  branch: Member['branch']
+  status: Member['status']
+  traits: string[]
+}
+
+export interface MemberCatalog {
+  savedAt: string
+  members: CatalogMember[]
+}
+
+function isCatalogMember(value: unknown): value is CatalogMember {
+  if (typeof value !== 'object' || value === null) return false
+  const item = value as Record<string, unknown>
+  return typeof item.id === 'string' && typeof item.name === 'string' &&
+    typeof item.branch === 'string' && typeof item.status === 'string' &&
+    Array.isArray(item.traits) && item.traits.every(trait => typeof trait === 'string')
+}
+
+function parseCatalog(data: unknown): MemberCatalog | null {
+  const parsed = data as Partial<Record<keyof MemberCatalog, unknown>> | null
+  if (typeof parsed?.savedAt !== 'string' || !Array.isArray(parsed.members)) return null
+  return { savedAt: parsed.savedAt, members: parsed.members.filter(isCatalogMember) }
+}
+
+const store = defineLocalStore<MemberCatalog | null>({
+  name: 'memberCatalog',
+  version: 1,
+  parse: parseCatalog,
+  fallback: null,
+  legacyKey: 'memberCatalog',
+  evictable: true
+})
+
+// 손상되었거나 비어 있으면 null
+export function loadMemberCatalog(): MemberCatalog | null {
+  const catalog = store.read()
+  return catalog && catalog.members.length > 0 ? catalog : null
+}
+
+export function saveMemberCatalog(members: Member[]): MemberCatalog {
+  const catalog: MemberCatalog = {
+    savedAt: new Date().toISOString(),
+    members: members.map(({ id, name, name_ja, name_en, branch, status, traits }) =>
+      ({ id, name, name_ja, name_en, branch, status, traits }))
+  }
+  store.write(catalog)
+  return catalog
+}
@@ -0,0 +1,46 @@
+import type { ThemeMode } from '../types'
+import { defineLocalStore } from './localStore'
+
+// 설정 (localStorage)
+// 설정 값은 각자의 키(theme, locale)에 두고, 계정 동기화에서 최신 값을 고를 때 쓰는 변경 시각은 따로 저장합니다
+// 사용자가 직접 바꾼 적 없는 설정(기본값/브라우저 언어)은 시각이 없어 계정 값을 따름
+// 언어 값은 i18n/locales.ts에서 저장
+
+export type PreferenceKey = 'theme' | 'locale'
+
+const themeStore = defineLocalStore<ThemeMode>({
+  name: 'theme',
+  version: 1,
+  parse: data => data === 'dark' || data === 'light' ? data : null,
+  fallback: 'dark',
+  legacyKey: 'theme'
+})
+
+const timestampStore = defineLocalStore<Partial<Record<PreferenceKey, string>>>({
+  name: 'preferencesUpdatedAt',
+  version: 1,
+  parse: data => typeof data === 'object' && data !== null
+    ? Object.fromEntries(
+        Object.entries(data).filter(([key, value]) => (key === 'theme' || key === 'locale') && typeof value === 'string')
+      )
+    : null,
+  fallback: {},
+  legacyKey: 'preferencesUpdatedAt'
+})
+
+export function loadThemeMode(): ThemeMode {
+  return themeStore.read()
+}
+
+export function saveThemeMode(mode: ThemeMode): void {
+  themeStore.write(mode)
+}
+
+export function loadPreferenceTimestamps(): Partial<Record<PreferenceKey, string>> {
+  return timestampStore.read()
+}
+
+// 사용자가 설정을 바꾼 시각 기록 (계정에서 받아온 값은 계정 쪽 시각으로)
+export function touchPreference(key: PreferenceKey, updatedAt = new Date().toISOString()): void {
+  timestampStore.write({ ...loadPreferenceTimestamps(), [key]: updatedAt })
+}
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest'
+import { parseQuizDraft } from './quizDraft'
+
+describe('parseQuizDraft', () => {
+  it('형식이 틀린 답변과 선택지만 버린다', () => {
+    expect(parseQuizDraft({
+      bankKey: 'oshi-finder@1',
+      answers: [{ questionId: 1, answer: 'japanese' }, { questionId: '3', answer: 'calm' }, { questionId: 4, answer: [1] }, null],
+      currentQuestionId: 5,
+      selectedOptions: ['calm', 3],
+      updatedAt: '2026-10-01T00:00:00.000Z'
+    })).toEqual({
+      bankKey: 'oshi-finder@1',
+      answers: [{ questionId: 1, answer: 'japanese' }],
+      currentQuestionId: 5,
+      selectedOptions: ['calm'],
+      updatedAt: '2026-10-01T00:00:00.000Z'
+    })
+  })
+
+  it('필수 값이 없으면 null', () => {
+    expect(parseQuizDraft({ bankKey: 'oshi-finder@1', answers: 'japanese', currentQuestionId: 1, updatedAt: '2026-10-01T00:00:00.000Z' })).toBeNull()
+    expect(parseQuizDraft({ answers: [], currentQuestionId: 1 })).toBeNull()
+  })
+})
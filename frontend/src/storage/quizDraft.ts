@@ -0,0 +1,88 @@
+import type { QuizAnswer } from '../types'
+import { ACTIVE_QUESTION_BANK_KEY } from '../data/questionBank'
+import { defineLocalStore, removeLegacyKeys } from './localStore'
+
+// 진행 중인 퀴즈 임시 저장 (현재 질문 은행 버전의 것 하나만)
+// 은행 버전이 바뀌면 질문 구성이 달라지므로 이전 버전의 임시 저장은 폐기합니다
+
+// 은행 버전별 키에 나눠 저장하던 이전 방식
+const LEGACY_KEY_PREFIX = 'quizDraft:'
+const DRAFT_TTL_MS = 7 * 24 * 60 * 60 * 1000 // 7일
+
+export interface QuizDraft {
+  bankKey: string
+  answers: QuizAnswer[]
+  currentQuestionId: number
+  selectedOptions: string[]
+  updatedAt: string
+}
+
+function isExpired(draft: QuizDraft): boolean {
+  const updatedAt = Date.parse(draft.updatedAt)
+  return Number.isNaN(updatedAt) || Date.now() - updatedAt > DRAFT_TTL_MS
+}
+
+function isQuizAnswer(value: unknown): value is QuizAnswer {
+  if (typeof value !== 'object' || value === null) return false
+  const { questionId, answer } = value as Record<string, unknown>
+  return typeof questionId === 'number' && (typeof answer === 'string' || typeof answer === 'number' ||
+    (Array.isArray(answer) && answer.every(item => typeof item === 'string')))
+}
+
+// 형식이 틀린 답변/선택지는 버리고 남은 답변으로 이어서 풀게 함 (개인 데이터 가져오기도 이 검증을 씀)
+export function parseQuizDraft(data: unknown): QuizDraft | null {
+  if (typeof data !== 'object' || data === null) return null
+  const draft = data as Record<string, unknown>
+  if (typeof draft.bankKey !== 'string' || typeof draft.updatedAt !== 'string' ||
+    !Array.isArray(draft.answers) || typeof draft.currentQuestionId !== 'number') return null
+  return {
+    bankKey: draft.bankKey,
+    answers: draft.answers.filter(isQuizAnswer),
+    currentQuestionId: draft.currentQuestionId,
+    selectedOptions: Array.isArray(draft.selectedOptions)
+      ? draft.selectedOptions.filter((option): option is string => typeof option === 'string')
+      : [],
+    updatedAt: draft.updatedAt
+  }
+}
+
+const store = defineLocalStore<QuizDraft | null>({
+  name: 'quizDraft',
+  version: 1,
+  parse: parseQuizDraft,
+  fallback: null,
+  // 현재 은행의 이전 임시 저장만 옮김 (나머지 은행 버전은 아래에서 정리)
+  legacyKey: `${LEGACY_KEY_PREFIX}${ACTIVE_QUESTION_BANK_KEY}`
+})
+
+// 현재 은행의 임시 저장 불러오기 (없거나 만료되었으면 null)
+// 다른 은행 버전이거나 만료된 임시 저장은 지움
+export function loadQuizDraft(): QuizDraft | null {
+  const draft = store.read()
+  removeLegacyKeys(key => key.startsWith(LEGACY_KEY_PREFIX))
+  if (!draft) return null
+  if (draft.bankKey !== ACTIVE_QUESTION_BANK_KEY || isExpired(draft)) {
+    clearQuizDraft()
+    return null
+  }
+  return draft.answers.length + draft.selectedOptions.length > 0 ? draft : null
+}
+
+export function saveQuizDraft(draft: Omit<QuizDraft, 'bankKey' | 'updatedAt'>): void {
+  // 아무 것도 답하지 않은 상태는 저장하지 않음
+  if (draft.answers.length === 0 && draft.selectedOptions.length === 0) {
+    clearQuizDraft()
+    return
+  }
+
+  const saved: QuizDraft = {
+    ...draft,
+    bankKey: ACTIVE_QUESTION_BANK_KEY,
+    updatedAt: new Date().toISOString()
+  }
+  store.write(saved)
+}
+
+export function clearQuizDraft(): void {
+  store.remove()
+}
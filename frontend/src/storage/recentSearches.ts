@@ -0,0 +1,46 @@
+import { defineLocalStore } from './localStore'
+
+// 최근 검색어 (localStorage, 최신순)
+
+const MAX_RECENT_SEARCHES = 10
+
+const store = defineLocalStore<string[]>({
+  name: 'recentSearches',
+  version: 1,
+  parse: data => Array.isArray(data) ? data.filter((item): item is string => typeof item === 'string') : null,
+  fallback: [],
+  legacyKey: 'recentSearches'
+})
+
+export function loadRecentSearches(): string[] {
+  return store.read()
+}
+
+function saveRecentSearches(queries: string[]): string[] {
+  store.write(queries)
+  return queries
+}
+
+// 같은 검색어는 맨 앞으로 옮김 (대소문자 무시)
+export function addRecentSearch(query: string): string[] {
+  const trimmed = query.trim()
+  if (!trimmed) return loadRecentSearches()
+  const rest = loadRecentSearches().filter(item => item.toLowerCase() !== trimmed.toLowerCase())
+  return saveRecentSearches([trimmed, ...rest].slice(0, MAX_RECENT_SEARCHES))
+}
+
+export function removeRecentSearch(query: string): string[] {
+  return saveRecentSearches(loadRecentSearches().filter(item => item !== query))
+}
+
+// 가져온 검색어는 이 기기 검색어 뒤에 붙임
+export function mergeRecentSearches(queries: string[]): string[] {
+  const local = loadRecentSearches()
+  const seen = new Set(local.map(item => item.toLowerCase()))
+  const imported = queries.map(item => item.trim()).filter(item => item && !seen.has(item.toLowerCase()))
+  return saveRecentSearches([...local, ...imported].slice(0, MAX_RECENT_SEARCHES))
+}
+
+export function clearRecentSearches(): string[] {
+  return saveRecentSearches([])
+}
@@ -0,0 +1,99 @@
+import type { AnalysisResponse, SurveyResponse } from '../types'
+import { parseAnalysisResponse, parseSurveyResponses } from '../api/contract'
+import { NORMALIZED_SCORE_SCALE } from '../utils/matchScore'
+
+// 분석 결과 기록 (IndexedDB)
+// 분석이 끝날 때마다 결과를 답변/질문 은행 버전과 함께 한 건씩 쌓아둡니다
+
+const DB_NAME = 'holo-oshi'
+const DB_VERSION = 1
+const STORE_NAME = 'resultHistory'
+
+export interface ResultHistoryEntry {
+  id: string
+  createdAt: string
+  // 질문 은행 키 (id@version), 이전 버전에서 옮겨온 결과는 null
+  questionBank: string | null
+  answers: SurveyResponse[]
+  result: AnalysisResponse
+}
+
+let dbPromise: Promise<IDBDatabase> | null = null
+
+function openDatabase(): Promise<IDBDatabase> {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION)
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE_NAME, { keyPath: 'id' })
+        store.createIndex('createdAt', 'createdAt')
+      }
+      request.onsuccess = () => resolve(request.result)
+      request.onerror = () => reject(request.error)
+    }).catch(error => {
+      // 다음 호출에서 다시 열어볼 수 있도록
+      dbPromise = null
+      throw error
+    })
+  }
+  return dbPromise
+}
+
+function promisify<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> {
+  const db = await openDatabase()
+  const store = db.transaction(STORE_NAME, mode).objectStore(STORE_NAME)
+  return promisify(run(store))
+}
+
+// 저장된 기록은 응답 계약으로 다시 검증 (손상된 기록은 건너뜀, 형식이 틀린 답변은 버림)
+function parseEntry(raw: unknown): ResultHistoryEntry | null {
+  if (typeof raw !== 'object' || raw === null) return null
+  const entry = raw as Record<string, unknown>
+  if (typeof entry.id !== 'string' || typeof entry.createdAt !== 'string') return null
+  try {
+    return {
+      id: entry.id,
+      createdAt: entry.createdAt,
+      questionBank: typeof entry.questionBank === 'string' ? entry.questionBank : null,
+      answers: parseSurveyResponses(entry.answers),
+      result: parseAnalysisResponse(entry.result, NORMALIZED_SCORE_SCALE)
+    }
+  } catch (e) {
+    console.error(`손상된 결과 기록을 건너뜁니다 (${entry.id}):`, e)
+    return null
+  }
+}
+
+// 같은 id면 덮어씀 (작업 id를 그대로 쓰므로 중복 저장되지 않음)
+export async function saveHistoryEntry(entry: ResultHistoryEntry): Promise<void> {
+  await withStore('readwrite', store => store.put(entry))
+}
+
+// 최신순
+export async function listHistoryEntries(): Promise<ResultHistoryEntry[]> {
+  const rows = await withStore<unknown[]>('readonly', store => store.index('createdAt').getAll())
+  return rows
+    .map(parseEntry)
+    .filter((entry): entry is ResultHistoryEntry => entry !== null)
+    .reverse()
+}
+
+export async function getHistoryEntry(id: string): Promise<ResultHistoryEntry | null> {
+  return parseEntry(await withStore<unknown>('readonly', store => store.get(id)))
+}
+
+export async function deleteHistoryEntry(id: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(id))
+}
+
+// 개인 데이터 삭제용 (모든 기록)
+export async function clearHistoryEntries(): Promise<void> {
+  await withStore('readwrite', store => store.clear())
+}
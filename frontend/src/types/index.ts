@@ -3,15 +3,76 @@ export interface QuizOption {
   label: string;
   value: string;
   traits: string[];
+  next?: number;
+}
+
+export interface AnswerCondition {
+  questionId: number;
+  anyOf?: string[];
+  noneOf?: string[];
+  min?: number;
+  max?: number;
+}
+
+export interface SliderAnchor {
+  value: number;
+  label: string;
+  traits?: string[];
+}
+
+export interface SliderConfig {
+  min: number;
+  max: number;
+  step?: number;
+  anchors: SliderAnchor[];
+}
+
+export interface TextConfig {
+  placeholder?: string;
+  maxLength?: number;
 }
 
 export interface QuizQuestion {
   id: number;
   question: string;
-  type: 'single' | 'multiple';
+  type: 'single' | 'multiple' | 'slider' | 'text';
   options?: QuizOption[];
+  slider?: SliderConfig;
+  text?: TextConfig;
   category: string;
   weight: number;
+  required?: boolean;
+  showIf?: AnswerCondition[];
+  next?: number;
+}
+
+export interface QuestionBank {
+  id: string;
+  version: string;
+  schemaVersion: number;
+  title: string;
+  description?: string;
+  questions: QuizQuestion[];
+  earlyExit?: {
+    minAnswered: number;
+    confidence: number;
+  };
+}
+
+// 질문 은행 번역 (없는 문구는 기본 문구 사용, id/value/traits는 번역하지 않음)
+export interface QuestionTranslation {
+  question?: string;
+  // 선택지 id → label
+  options?: Record<string, string>;
+  // 슬라이더 기준점 value → label
+  anchors?: Record<number, string>;
+  placeholder?: string;
+}
+
+export interface QuestionBankTranslation {
+  title?: string;
+  description?: string;
+  questions: Record<number, QuestionTranslation>;
 }
 
 export interface QuizAnswer {
@@ -23,28 +84,241 @@ export interface SurveyResponse {
   questionId: string;
   question: string;
   answer: string;
+  category?: string;
   importance?: number;
 }
 
+export interface Member {
+  id: string;
+  name: string;
+  name_en?: string;
+  name_ja?: string;
+  branch: 'JP' | 'EN' | 'ID' | 'DEV_IS';
+  generation?: string;
+  debut_date?: string;
+  status: 'active' | 'graduated' | 'inactive';
+  traits: string[];
+  description?: string;
+  image_url?: string;
+  youtube_channel?: string;
+  twitter?: string;
+}
+
+// 멤버 상세 (/api/members/{id}) - 기본 프로필 + DB 비정형 데이터
+export interface MemberSkill {
+  name: string;
+  category?: string;
+  proficiency?: string;
+  description?: string;
+}
+
+export interface MemberMoment {
+  title: string;
+  date?: string;
+  description?: string;
+  videoUrl?: string;
+  timestamp?: string;
+  tags: string[];
+}
+
+export interface MemberCatchphrase {
+  text: string;
+  romanized?: string;
+  translation?: string;
+  context?: string;
+}
+
+export interface MemberStreamingPattern {
+  type: string;
+  insights?: string;
+  // pattern_value JSONB를 "키: 값" 목록으로 펼친 것
+  details: string[];
+}
+
+export interface MemberDetail extends Member {
+  unit?: string;
+  birthday?: string;
+  fanbase?: string;
+  emoji?: string;
+  specialSkills: MemberSkill[];
+  famousMoments: MemberMoment[];
+  catchphrases: MemberCatchphrase[];
+  streamingPatterns: MemberStreamingPattern[];
+}
+
+// /api/analyze 응답 계약 (api/contract.ts에서 검증/정규화한 뒤의 형태)
 export interface MemberRecommendation {
   memberId: string;
   name: string;
+  // 0~1 비율 (응답 계약에서 정규화, 표시는 utils/matchScore의 matchPercent)
   matchScore: number;
-  matchingTraits?: string[];
+  matchingTraits: string[];
   reasoning: string;
-  strengths?: string[];
-  considerations?: string[];
+  strengths: string[];
+  considerations: string[];
+  contentRecommendations: string[];
+  confidence?: number;
+}
+
+export interface UserProfile {
+  preferredTraits: string[];
+  personalityMatch: string;
+}
+
+export interface AnalysisSummary {
+  personalityProfile: string;
+  preferences: string[];
+  keywords: string[];
+}
+
+export interface ProcessingInfo {
+  ragUsed: boolean;
+  totalCandidates: number;
+  processingTimeMs: number;
+  modelUsed: string;
 }
 
 export interface AnalysisResponse {
   recommendations: MemberRecommendation[];
   overallAnalysis: string;
-  userProfile: {
-    preferredTraits: string[];
-    personalityMatch: string;
-  };
-  confidence: number;
-  processingTime: number;
-  fromCache?: boolean;
+  userProfile: UserProfile;
+  confidence: number | null;
+  processingTime: number | null;
+  fromCache: boolean;
   thinkingProcess?: string;
-}
\ No newline at end of file
+  analysis?: AnalysisSummary;
+  processingInfo?: ProcessingInfo;
+  timestamp?: string;
+}
+
+// 스트리밍 분석 진행 단계 (후보 검색 → RAG → LLM 추론 → 순위 결정)
+export type AnalysisStage = 'candidate-retrieval' | 'rag' | 'llm-reasoning' | 'ranking';
+
+export type AnalysisStreamEvent =
+  | { type: 'stage'; stage: AnalysisStage; status: 'started' | 'completed'; message?: string }
+  | { type: 'recommendation'; recommendation: MemberRecommendation }
+  | { type: 'thinking'; delta: string }
+  | { type: 'result'; result: AnalysisResponse };
+
+export interface AnalysisProgress {
+  streaming: boolean;
+  stage: AnalysisStage | null;
+  completedStages: AnalysisStage[];
+  partialRecommendations: MemberRecommendation[];
+  thinkingProcess: string;
+}
+
+// API 요청/응답 (엔드포인트별)
+export interface AnalyzeRequest {
+  surveyResponses: SurveyResponse[];
+  analysisDepth: 'basic' | 'detailed';
+}
+
+// 공유 기록 (/api/shares)
+export interface ShareRecord {
+  id: string;
+  result: AnalysisResponse;
+  createdAt: string;
+}
+
+export interface SearchRequest {
+  query: string;
+  limit?: number;
+  // 벡터 유사도 하한 (0~1)
+  threshold?: number;
+  activeOnly?: boolean;
+}
+
+// 검색 결과 한 건 (vector-service VectorSearchResult 기준)
+export interface VectorSearchResult {
+  memberId: string;
+  memberName: string;
+  // 유사도 0~1
+  score: number;
+  branch: string;
+  generation: string;
+  unit?: string;
+  isActive: boolean;
+  // personality_traits JSONB
+  traits: Record<string, unknown>;
+  // compound 검색이 알려주는 일치 특성 (없으면 화면에서 질의어로 추정)
+  matchedTraits: string[];
+}
+
+export interface SearchResponse {
+  results: VectorSearchResult[];
+  totalResults: number;
+  searchTime: number;
+  source: 'compound' | 'vector';
+}
+
+// 인증 (/api/auth)
+export interface AuthUser {
+  id: string;
+  displayName: string;
+  email?: string;
+}
+
+export interface AuthSession {
+  accessToken: string;
+  refreshToken: string;
+  // 액세스 토큰 만료 시각 (ISO, 서버가 알려주지 않으면 null)
+  expiresAt: string | null;
+  user: AuthUser;
+}
+
+export interface LoginRequest {
+  email: string;
+  password: string;
+}
+
+// 계정 동기화 (/api/users/me/sync)
+export type ThemeMode = 'dark' | 'light';
+
+// 즐겨찾기 해제도 기록으로 남김 (다른 기기의 오래된 추가가 되살리지 않도록)
+export interface FavoriteMember {
+  memberId: string;
+  favorite: boolean;
+  updatedAt: string;
+}
+
+export interface SyncedPreference<T> {
+  value: T;
+  updatedAt: string;
+}
+
+export interface CloudPreferences {
+  theme?: SyncedPreference<ThemeMode>;
+  locale?: SyncedPreference<string>;
+}
+
+export interface CloudResult {
+  id: string;
+  createdAt: string;
+  questionBank: string | null;
+  answers: SurveyResponse[];
+  result: AnalysisResponse;
+}
+
+export interface DeletedResult {
+  id: string;
+  deletedAt: string;
+}
+
+// 조회 응답이자 업로드 본문 (업로드는 바뀐 항목만)
+export interface CloudSnapshot {
+  results: CloudResult[];
+  deletedResults: DeletedResult[];
+  favorites: FavoriteMember[];
+  preferences: CloudPreferences;
+}
+
+export interface HealthResponse {
+  status: string;
+  service?: string;
+  version?: string;
+  timestamp?: string | number;
+  // 집계 헬스체크가 내려주는 하위 서비스 상태 (문자열 또는 { status })
+  dependencies?: Record<string, string | { status: string }>;
+  components?: Record<string, string | { status: string }>;
+}
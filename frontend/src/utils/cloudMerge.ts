@@ -0,0 +1,79 @@
+import type { CloudResult, DeletedResult, FavoriteMember, SyncedPreference } from '../types'
+
+// 계정 동기화 충돌 해결 (두 기기의 기록이 다를 때)
+// - 결과: id 기준 합집합, 어느 한쪽에서 지운 결과는 양쪽 모두에서 삭제
+// - 즐겨찾기/설정: 항목별로 더 나중에 바뀐 쪽을 따름 (같은 시각이면 계정 쪽)
+
+// 이 기기에서 쓸 값과, 계정에 올려야 하는 값
+export interface MergeOutcome<T> {
+  merged: T
+  toRemote: T
+}
+
+function isNewer(a: string | undefined, b: string | undefined): boolean {
+  if (!a) return false
+  if (!b) return true
+  return Date.parse(a) > Date.parse(b)
+}
+
+// 같은 결과를 여러 번 지웠으면 가장 최근 기록만
+export function mergeDeletedResults(local: DeletedResult[], remote: DeletedResult[]): MergeOutcome<DeletedResult[]> {
+  const byId = new Map<string, DeletedResult>()
+  ;[...remote, ...local].forEach(item => {
+    const existing = byId.get(item.id)
+    if (!existing || isNewer(item.deletedAt, existing.deletedAt)) byId.set(item.id, item)
+  })
+  const remoteIds = new Set(remote.map(item => item.id))
+  const merged = [...byId.values()]
+  return { merged, toRemote: merged.filter(item => !remoteIds.has(item.id)) }
+}
+
+// 결과 합집합: 계정에만 있는 결과는 이 기기에 저장, 이 기기에만 있는 결과는 계정에 업로드
+export function mergeResults<T extends CloudResult>(
+  local: T[],
+  remote: CloudResult[],
+  deleted: DeletedResult[]
+): { toLocal: CloudResult[]; toRemote: T[]; removeLocal: string[] } {
+  const deletedIds = new Set(deleted.map(item => item.id))
+  const localIds = new Set(local.map(entry => entry.id))
+  const remoteIds = new Set(remote.map(entry => entry.id))
+  return {
+    toLocal: remote.filter(entry => !localIds.has(entry.id) && !deletedIds.has(entry.id)),
+    toRemote: local.filter(entry => !remoteIds.has(entry.id) && !deletedIds.has(entry.id)),
+    removeLocal: local.filter(entry => deletedIds.has(entry.id)).map(entry => entry.id)
+  }
+}
+
+// changed: 계정 쪽 기록을 하나라도 받아들였는지 (아니면 이 기기 기록을 다시 쓸 필요 없음)
+export function mergeFavorites(
+  local: Record<string, FavoriteMember>,
+  remote: FavoriteMember[]
+): MergeOutcome<Record<string, FavoriteMember>> & { changed: boolean } {
+  const merged: Record<string, FavoriteMember> = { ...local }
+  const remoteById = new Map(remote.map(item => [item.memberId, item]))
+  let changed = false
+  remote.forEach(item => {
+    const current = local[item.memberId]
+    if (isNewer(current?.updatedAt, item.updatedAt)) return
+    if (current?.favorite === item.favorite && Date.parse(current.updatedAt) === Date.parse(item.updatedAt)) return
+    merged[item.memberId] = item
+    changed = true
+  })
+  const toRemote = Object.fromEntries(
+    Object.values(local)
+      .filter(item => isNewer(item.updatedAt, remoteById.get(item.memberId)?.updatedAt))
+      .map(item => [item.memberId, item])
+  )
+  return { merged, toRemote, changed }
+}
+
+// 설정 한 항목: apply는 이 기기에 적용할 계정 값, push는 계정에 올릴 이 기기 값
+export function mergePreference<T>(
+  local: { value: T; updatedAt?: string },
+  remote: SyncedPreference<T> | undefined
+): { apply?: SyncedPreference<T>; push?: SyncedPreference<T> } {
+  if (local.updatedAt && isNewer(local.updatedAt, remote?.updatedAt)) {
+    return { push: { value: local.value, updatedAt: local.updatedAt } }
+  }
+  return remote && remote.value !== local.value ? { apply: remote } : {}
+}
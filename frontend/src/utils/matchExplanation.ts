@@ -0,0 +1,97 @@
+import type { MemberRecommendation, QuestionBank, SurveyResponse } from '../types'
+import { answerTraits } from './quizFlow'
+import { traitMatches } from './traits'
+
+// 추천 매칭 근거: 어떤 답변/카테고리가 이 멤버 추천에 기여했는지
+// 답변 → 선택지 특성(QuizOption.traits, 슬라이더 기준점 traits)을 구하고,
+// 멤버의 매칭 특성/추천 이유/강점에 같은 특성이 나오면 기여한 것으로 봅니다
+// (서버가 점수 내역을 주지 않으므로 답변 가중치 기준의 추정치)
+
+export interface AnswerContribution {
+  questionId: string
+  question: string
+  answer: string
+  category: string
+  importance: number
+  // 답변이 나타내는 특성
+  traits: string[]
+  // 그중 이 멤버와 겹치는 특성
+  matchedTraits: string[]
+  // 0~1, 이 답변이 전체 기여에서 차지하는 몫
+  share: number
+}
+
+export interface CategoryContribution {
+  // 질문 카테고리 (표시 이름은 메시지 카탈로그의 category.*)
+  category: string
+  share: number
+  answered: number
+  matched: number
+}
+
+export interface MatchExplanation {
+  categories: CategoryContribution[]
+  answers: AnswerContribution[]
+  // 답변으로 설명되지 않는 멤버 매칭 특성
+  otherTraits: string[]
+}
+
+export function explainMatch(
+  recommendation: MemberRecommendation,
+  answers: SurveyResponse[],
+  bank: QuestionBank | null
+): MatchExplanation {
+  // 특성이 추천 이유/강점 문장에만 나오는 경우도 근거로 인정
+  const memberText = [recommendation.reasoning, ...recommendation.strengths].join(' ')
+  const matches = (trait: string) =>
+    recommendation.matchingTraits.some(memberTrait => traitMatches(trait, memberTrait)) ||
+    traitMatches(trait, memberText)
+
+  const raw = answers.map(response => {
+    const question = bank?.questions.find(item => item.id.toString() === response.questionId)
+    // 자유 입력은 답변 문장에 멤버 특성이 나오는지로 판단
+    const traits = question?.type === 'text' || !question
+      ? recommendation.matchingTraits.filter(trait => traitMatches(trait, response.answer))
+      : [...new Set(answerTraits(question, response.answer))]
+    const matchedTraits = question?.type === 'text' || !question ? traits : traits.filter(matches)
+    const importance = response.importance ?? question?.weight ?? 1
+    return {
+      questionId: response.questionId,
+      question: response.question,
+      answer: response.answer,
+      category: response.category ?? question?.category ?? 'general',
+      importance,
+      traits,
+      matchedTraits,
+      weight: traits.length > 0 ? importance * (matchedTraits.length / traits.length) : 0
+    }
+  })
+
+  const total = raw.reduce((sum, item) => sum + item.weight, 0)
+  const contributions: AnswerContribution[] = raw
+    .map(({ weight, ...item }) => ({ ...item, share: total > 0 ? weight / total : 0 }))
+    .sort((a, b) => b.share - a.share)
+
+  const byCategory = new Map<string, CategoryContribution>()
+  contributions.forEach(item => {
+    const current = byCategory.get(item.category) ??
+      { category: item.category, share: 0, answered: 0, matched: 0 }
+    byCategory.set(item.category, {
+      ...current,
+      share: current.share + item.share,
+      answered: current.answered + 1,
+      matched: current.matched + (item.matchedTraits.length > 0 ? 1 : 0)
+    })
+  })
+
+  const explained = [...new Set(contributions.flatMap(item => item.matchedTraits))]
+  const otherTraits = recommendation.matchingTraits.filter(trait =>
+    !explained.some(matched => traitMatches(matched, trait))
+  )
+
+  return {
+    categories: [...byCategory.values()].sort((a, b) => b.share - a.share),
+    answers: contributions,
+    otherTraits
+  }
+}
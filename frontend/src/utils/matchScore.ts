@@ -0,0 +1,26 @@
+// 추천 매칭도 척도 정규화
+// 분석 API의 matchScore는 0~10 척도이고, 응답 본문에 scoreScale(1 | 10 | 100)이 있으면 그 척도를 씁니다.
+// 척도는 응답 단위로 정해 응답 계약(api/contract.ts)에서 0~1로 맞추고,
+// 화면에서는 matchPercent로만 퍼센트를 만듭니다
+
+export type ScoreScale = 1 | 10 | 100
+
+// 분석 API 계약의 기본 척도
+export const API_SCORE_SCALE: ScoreScale = 10
+
+// 저장/공유된 결과는 이미 0~1로 정규화됨
+export const NORMALIZED_SCORE_SCALE: ScoreScale = 1
+
+export function isScoreScale(value: unknown): value is ScoreScale {
+  return value === 1 || value === 10 || value === 100
+}
+
+// 0~1 비율
+export function normalizeMatchScore(score: number, scale: ScoreScale): number {
+  return Math.min(1, Math.max(0, score / scale))
+}
+
+// 0~1 비율 → 0~100 정수 퍼센트
+export function matchPercent(score: number): number {
+  return Math.round(Math.min(1, Math.max(0, score)) * 100)
+}
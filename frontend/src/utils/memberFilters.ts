@@ -0,0 +1,112 @@
+import type { Member } from '../types'
+import type { MessageKey } from '../i18n/translate'
+
+// 멤버 디렉터리 필터/정렬 (URL 쿼리와 양방향 변환)
+// 예: /members?branch=EN&generation=Myth&status=active&traits=게이머,가수&sort=debut-newest
+
+export type MemberSort = 'name' | 'debut-newest' | 'debut-oldest' | 'generation'
+
+export interface MemberFilters {
+  branch: Member['branch'] | null
+  generation: string | null
+  status: Member['status'] | null
+  traits: string[]
+  sort: MemberSort
+}
+
+export const MEMBER_BRANCHES: Member['branch'][] = ['JP', 'EN', 'ID', 'DEV_IS']
+export const MEMBER_STATUSES: Member['status'][] = ['active', 'graduated', 'inactive']
+export const MEMBER_SORTS: MemberSort[] = ['name', 'debut-newest', 'debut-oldest', 'generation']
+
+export const MEMBER_BRANCH_LABELS: Record<Member['branch'], string> = {
+  JP: 'hololive JP',
+  EN: 'hololive EN',
+  ID: 'hololive ID',
+  DEV_IS: 'holo+ DEV_IS'
+}
+
+// 표시 이름은 메시지 카탈로그에서 (화면에서 t()로 번역)
+export const MEMBER_STATUS_MESSAGE_KEYS: Record<Member['status'], MessageKey> = {
+  active: 'member.status.active',
+  graduated: 'member.status.graduated',
+  inactive: 'member.status.inactive'
+}
+
+export const MEMBER_SORT_MESSAGE_KEYS: Record<MemberSort, MessageKey> = {
+  name: 'member.sort.name',
+  'debut-newest': 'member.sort.debutNewest',
+  'debut-oldest': 'member.sort.debutOldest',
+  generation: 'member.sort.generation'
+}
+
+const DEFAULT_SORT: MemberSort = 'name'
+
+function oneOf<T extends string>(value: string | null, options: readonly T[]): T | null {
+  return options.find(option => option === value) ?? null
+}
+
+export function parseMemberFilters(params: URLSearchParams): MemberFilters {
+  return {
+    branch: oneOf(params.get('branch')?.toUpperCase() ?? null, MEMBER_BRANCHES),
+    generation: params.get('generation') || null,
+    status: oneOf(params.get('status'), MEMBER_STATUSES),
+    traits: (params.get('traits') ?? '').split(',').map(trait => trait.trim()).filter(Boolean),
+    sort: oneOf(params.get('sort'), MEMBER_SORTS) ?? DEFAULT_SORT
+  }
+}
+
+// 기본값은 생략해 공유 URL을 짧게 유지
+export function toSearchParams(filters: MemberFilters): URLSearchParams {
+  const params = new URLSearchParams()
+  if (filters.branch) params.set('branch', filters.branch)
+  if (filters.generation) params.set('generation', filters.generation)
+  if (filters.status) params.set('status', filters.status)
+  if (filters.traits.length > 0) params.set('traits', filters.traits.join(','))
+  if (filters.sort !== DEFAULT_SORT) params.set('sort', filters.sort)
+  return params
+}
+
+function debutTime(member: Member): number | null {
+  const time = member.debut_date ? Date.parse(member.debut_date) : NaN
+  return Number.isNaN(time) ? null : time
+}
+
+// 데뷔일이 없는 멤버는 정렬 방향과 상관없이 뒤로
+function compareDebut(a: Member, b: Member, direction: 1 | -1): number {
+  const left = debutTime(a)
+  const right = debutTime(b)
+  if (left === null || right === null) return left === right ? 0 : left === null ? 1 : -1
+  return (left - right) * direction
+}
+
+const COMPARATORS: Record<MemberSort, (a: Member, b: Member) => number> = {
+  name: (a, b) => a.name.localeCompare(b.name, 'ko'),
+  'debut-newest': (a, b) => compareDebut(a, b, -1),
+  'debut-oldest': (a, b) => compareDebut(a, b, 1),
+  generation: (a, b) =>
+    (a.generation ?? '').localeCompare(b.generation ?? '', 'ko', { numeric: true }) || compareDebut(a, b, 1)
+}
+
+// 필터 적용 후 정렬 (같은 순위는 이름순)
+export function applyMemberFilters(members: Member[], filters: MemberFilters): Member[] {
+  return members
+    .filter(member => !filters.branch || member.branch === filters.branch)
+    .filter(member => !filters.generation || member.generation === filters.generation)
+    .filter(member => !filters.status || member.status === filters.status)
+    .filter(member => filters.traits.every(trait => member.traits.includes(trait)))
+    .sort((a, b) => COMPARATORS[filters.sort](a, b) || a.name.localeCompare(b.name, 'ko'))
+}
+
+// 필터 선택지: 기수는 이름순, 특성은 많이 나온 순
+export function collectMemberFacets(members: Member[]): { generations: string[]; traits: string[] } {
+  const generations = new Set<string>()
+  const traitCounts = new Map<string, number>()
+  members.forEach(member => {
+    if (member.generation) generations.add(member.generation)
+    member.traits.forEach(trait => traitCounts.set(trait, (traitCounts.get(trait) ?? 0) + 1))
+  })
+  return {
+    generations: [...generations].sort((a, b) => a.localeCompare(b, 'ko', { numeric: true })),
+    traits: [...traitCounts.entries()].sort((a, b) => b[1] - a[1]).map(([trait]) => trait)
+  }
+}
@@ -0,0 +1,49 @@
+// 문서 제목과 Open Graph/Twitter 메타 태그 갱신
+// 스크립트를 실행하는 미리보기 봇과 브라우저 공유 시트용이며,
+// 스크립트를 실행하지 않는 봇에는 index.html의 기본 태그가 보입니다
+
+export interface OpenGraphMeta {
+  title: string
+  description: string
+  url?: string
+}
+
+const DEFAULT_TITLE = 'Holo-Oshi Finder'
+
+function setMeta(attribute: 'property' | 'name', key: string, content: string): () => void {
+  let element = document.head.querySelector<HTMLMetaElement>(`meta[${attribute}="${key}"]`)
+  const created = !element
+  if (!element) {
+    element = document.createElement('meta')
+    element.setAttribute(attribute, key)
+    document.head.appendChild(element)
+  }
+  const previous = element.content
+  element.content = content
+
+  const target = element
+  return () => {
+    if (created) target.remove()
+    else target.content = previous
+  }
+}
+
+// 적용하고, 되돌리는 함수를 반환
+export function applyOpenGraph(meta: OpenGraphMeta): () => void {
+  const previousTitle = document.title
+  document.title = `${meta.title} · ${DEFAULT_TITLE}`
+
+  const restores = [
+    setMeta('property', 'og:title', meta.title),
+    setMeta('property', 'og:description', meta.description),
+    setMeta('name', 'description', meta.description),
+    setMeta('name', 'twitter:title', meta.title),
+    setMeta('name', 'twitter:description', meta.description),
+    ...(meta.url ? [setMeta('property', 'og:url', meta.url)] : [])
+  ]
+
+  return () => {
+    document.title = previousTitle
+    restores.reverse().forEach(restore => restore())
+  }
+}
@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest'
+import OSHI_FINDER_V1 from '../data/questionBanks/oshiFinderV1'
+import type { CatalogMember, MemberCatalog } from '../storage/memberCatalog'
+import type { QuizAnswer } from '../types'
+import { computePreMatch } from './preMatch'
+import { buildSurveyResponses } from './surveyResponses'
+
+// 멤버 API처럼 태그 없이 이름/지부/상태만 있는 카탈로그
+function member(id: string, name_en: string, branch: CatalogMember['branch'], status: CatalogMember['status'] = 'active'): CatalogMember {
+  return { id, name: name_en, name_en, branch, status, traits: [] }
+}
+
+const catalog: MemberCatalog = {
+  savedAt: '2026-10-01T00:00:00.000Z',
+  members: [
+    member('1', 'Usada Pekora', 'JP'),
+    member('2', 'Shiranui Flare', 'JP'),
+    member('3', 'Pekora Usada', 'JP', 'inactive'),
+    member('4', 'Yuzuki Choco', 'JP'),
+    member('5', 'Shirogane Noel', 'JP'),
+    member('6', 'Sakura Miko', 'JP'),
+    member('7', 'Tsunomaki Watame', 'JP'),
+    member('8', 'Natsuiro Matsuri', 'JP'),
+    member('9', 'Yukihana Lamy', 'JP'),
+    member('10', 'Shishiro Botan', 'JP'),
+    member('11', 'Tokoyami Towa', 'JP'),
+    member('12', 'Nekomata Okayu', 'JP', 'graduated')
+  ]
+}
+
+function topIds(answers: QuizAnswer[]): string[] {
+  const responses = buildSurveyResponses(OSHI_FINDER_V1.questions, answers)
+  return computePreMatch(responses, OSHI_FINDER_V1, catalog)?.candidates.map(candidate => candidate.memberId) ?? []
+}
+
+const calmAnswers: QuizAnswer[] = [
+  { questionId: 1, answer: 'japanese' },
+  { questionId: 3, answer: ['asmr', 'zatsudan'] },
+  { questionId: 4, answer: 'calm' },
+  { questionId: 17, answer: 'sleep' },
+  { questionId: 21, answer: 1 }
+]
+
+const chaoticAnswers: QuizAnswer[] = [
+  { questionId: 1, answer: 'japanese' },
+  { questionId: 3, answer: ['gaming'] },
+  { questionId: 4, answer: 'chaotic' },
+  { questionId: 11, answer: 'pon' },
+  { questionId: 21, answer: 5 }
+]
+
+const fpsAnswers: QuizAnswer[] = [
+  { questionId: 1, answer: 'japanese' },
+  { questionId: 3, answer: ['gaming'] },
+  { questionId: 5, answer: 'cool' },
+  { questionId: 6, answer: ['fps'] },
+  { questionId: 9, answer: 'focused' }
+]
+
+describe('computePreMatch', () => {
+  it('답변이 다르면 예상 상위 3명이 달라진다', () => {
+    const calm = topIds(calmAnswers)
+    const chaotic = topIds(chaoticAnswers)
+    const fps = topIds(fpsAnswers)
+
+    expect(calm).toHaveLength(3)
+    expect(chaotic).toHaveLength(3)
+    expect(fps).toHaveLength(3)
+    expect(calm).not.toEqual(chaotic)
+    expect(chaotic).not.toEqual(fps)
+    expect(calm).not.toEqual(fps)
+    expect(chaotic).toEqual(expect.arrayContaining(['1', '6']))
+    expect(fps).toEqual(expect.arrayContaining(['10', '11']))
+    expect(['4', '5', '9']).toContain(calm[0])
+  })
+
+  it('활동 중인 멤버만 후보로 본다', () => {
+    const all = [calmAnswers, chaoticAnswers, fpsAnswers].flatMap(topIds)
+    expect(all).not.toContain('3')
+    expect(all).not.toContain('12')
+  })
+
+  it('받은 카탈로그가 없으면 번들 특성표의 멤버로 계산한다', () => {
+    const top = (answers: QuizAnswer[]) =>
+      computePreMatch(buildSurveyResponses(OSHI_FINDER_V1.questions, answers), OSHI_FINDER_V1, null)
+
+    const chaotic = top(chaoticAnswers)
+    const fps = top(fpsAnswers)
+
+    expect(chaotic?.candidates).toHaveLength(3)
+    expect(fps?.candidates).toHaveLength(3)
+    expect(chaotic?.candidates.map(candidate => candidate.memberId)).not.toEqual(fps?.candidates.map(candidate => candidate.memberId))
+    expect(chaotic?.candidates.map(candidate => candidate.name)).toContain('Sakura Miko')
+    expect(fps?.candidates.map(candidate => candidate.name)).toEqual(expect.arrayContaining(['Shishiro Botan', 'Tokoyami Towa']))
+  })
+
+  it('특성표에 없는 멤버만 있으면 지부 언어만으로는 구분하지 않는다', () => {
+    const unknown: MemberCatalog = { savedAt: catalog.savedAt, members: [member('99', 'Unknown Member', 'EN')] }
+    const responses = buildSurveyResponses(OSHI_FINDER_V1.questions, calmAnswers)
+    expect(computePreMatch(responses, OSHI_FINDER_V1, unknown)).toBeNull()
+  })
+})
@@ -0,0 +1,103 @@
+import type { Member, MemberRecommendation, QuestionBank, SurveyResponse } from '../types'
+import type { CatalogMember, MemberCatalog } from '../storage/memberCatalog'
+import { getBundledMemberCatalog, getBundledMemberTraits } from '../data/memberTraits'
+import { answerTraits } from './quizFlow'
+import { traitMatches } from './traits'
+
+// 오프라인 예비 매칭: LLM 응답을 기다리는 동안 바로 보여줄 예상 상위 멤버
+// 답변 → 선택지 특성 벡터(질문 weight 가중) 와 멤버 특성을 코사인 유사도로 비교합니다
+// 멤버 특성: 번들된 특성표(data/memberTraits) + 카탈로그 태그(서버가 주는 경우) + 지부 언어
+// 서버 없이 계산하므로 백엔드가 내려가 있어도 동작합니다
+// 받은 카탈로그가 없으면(게스트, 처음 쓰는 오프라인 사용자) 번들 특성표의 멤버로 계산
+
+export const PRE_MATCH_SIZE = 3
+
+export interface PreMatchCandidate {
+  memberId: string
+  name: string
+  branch: Member['branch']
+  // 0~1 코사인 유사도 (AI 매칭도와 척도가 다르므로 순위용)
+  score: number
+  // 답변 특성 중 이 멤버와 겹치는 것 (가중치 큰 순)
+  matchedTraits: string[]
+}
+
+export interface PreMatch {
+  candidates: PreMatchCandidate[]
+  catalogSavedAt: string
+}
+
+export interface ReconciledCandidate extends PreMatchCandidate {
+  // AI 결과에서의 순위 (1부터), AI가 추천하지 않았으면 null
+  aiRank: number | null
+}
+
+// 지부에서 알 수 있는 방송 언어 특성
+const BRANCH_TRAITS: Record<Member['branch'], string[]> = {
+  JP: ['japanese'],
+  EN: ['english'],
+  ID: ['indonesian', 'bilingual'],
+  DEV_IS: ['japanese']
+}
+
+// 특성 → 가중치 (질문 weight를 답변이 나타내는 특성 수로 나눠 더함)
+export function buildTraitVector(responses: SurveyResponse[], bank: QuestionBank): Map<string, number> {
+  const vector = new Map<string, number>()
+  responses.forEach(response => {
+    const question = bank.questions.find(item => item.id.toString() === response.questionId)
+    const traits = [...new Set(answerTraits(question, response.answer))]
+    if (!question || traits.length === 0) return
+    // 슬라이더는 응답 중요도(중립에 가까울수록 낮음)를 그대로 사용
+    const weight = (response.importance ?? question.weight) / traits.length
+    traits.forEach(trait => vector.set(trait, (vector.get(trait) ?? 0) + weight))
+  })
+  return vector
+}
+
+function scoreMember(vector: Map<string, number>, norm: number, member: CatalogMember): PreMatchCandidate {
+  const memberTraits = [...new Set([...getBundledMemberTraits(member), ...member.traits, ...BRANCH_TRAITS[member.branch]])]
+  const matched = [...vector.entries()]
+    .filter(([trait]) => memberTraits.some(memberTrait => traitMatches(trait, memberTrait)))
+    .sort((a, b) => b[1] - a[1])
+  const dot = matched.reduce((sum, [, weight]) => sum + weight, 0)
+  return {
+    memberId: member.id,
+    name: member.name,
+    branch: member.branch,
+    score: Math.min(1, dot / (norm * Math.sqrt(Math.max(1, memberTraits.length)))),
+    matchedTraits: matched.map(([trait]) => trait)
+  }
+}
+
+// 답변으로 예상 상위 멤버 계산 (질문 은행이 다르거나 겹치는 특성이 없으면 null)
+// 활동 중인 멤버만 (졸업/비활동 멤버는 제외)
+export function computePreMatch(
+  responses: SurveyResponse[],
+  bank: QuestionBank | null,
+  catalog: MemberCatalog | null
+): PreMatch | null {
+  if (!bank) return null
+  const source = catalog ?? getBundledMemberCatalog()
+  const vector = buildTraitVector(responses, bank)
+  const norm = Math.sqrt([...vector.values()].reduce((sum, weight) => sum + weight * weight, 0))
+  if (norm === 0) return null
+
+  const candidates = source.members
+    .filter(member => member.status === 'active')
+    .map(member => scoreMember(vector, norm, member))
+    .filter(candidate => candidate.score > 0)
+    // 같은 점수는 이름순으로 (항상 같은 결과)
+    .sort((a, b) => b.score - a.score || a.name.localeCompare(b.name))
+    .slice(0, PRE_MATCH_SIZE)
+  return candidates.length > 0 ? { candidates, catalogSavedAt: source.savedAt } : null
+}
+
+// AI 추천(스트리밍 중간 결과 또는 최종 결과)과 맞춰보기
+export function reconcilePreMatch(preMatch: PreMatch, recommendations: MemberRecommendation[]): ReconciledCandidate[] {
+  return preMatch.candidates.map(candidate => {
+    const index = recommendations.findIndex(item =>
+      item.memberId === candidate.memberId || item.name.trim() === candidate.name.trim()
+    )
+    return { ...candidate, aiRank: index >= 0 ? index + 1 : null }
+  })
+}
@@ -0,0 +1,116 @@
+import type { AnswerCondition, QuestionBank, QuizAnswer, QuizQuestion } from '../types'
+import { nearestSliderAnchor } from './surveyResponses'
+
+// 신뢰도 계산에 사용할 상위 특성 개수
+const CONFIDENCE_TOP_TRAITS = 5
+
+function findAnswer(answers: QuizAnswer[], questionId: number): QuizAnswer | undefined {
+  return answers.find(answer => answer.questionId === questionId)
+}
+
+// 조건 하나가 현재 답변에 맞는지 확인 (답하지 않은 질문은 불일치)
+export function matchesCondition(condition: AnswerCondition, answers: QuizAnswer[]): boolean {
+  const answer = findAnswer(answers, condition.questionId)
+  if (!answer) return false
+
+  if (typeof answer.answer === 'number') {
+    if (condition.min !== undefined && answer.answer < condition.min) return false
+    if (condition.max !== undefined && answer.answer > condition.max) return false
+    return true
+  }
+
+  const values = Array.isArray(answer.answer) ? answer.answer : [answer.answer]
+  if (condition.anyOf && !values.some(value => condition.anyOf!.includes(value))) return false
+  if (condition.noneOf && values.some(value => condition.noneOf!.includes(value))) return false
+  return true
+}
+
+// showIf 조건이 모두 맞아야 질문을 보여줍니다
+export function isQuestionVisible(question: QuizQuestion, answers: QuizAnswer[]): boolean {
+  return (question.showIf ?? []).every(condition => matchesCondition(condition, answers))
+}
+
+// 질문 순서상 fromIndex 이후 처음으로 보이는 질문
+function firstVisibleFrom(bank: QuestionBank, fromIndex: number, answers: QuizAnswer[]): QuizQuestion | null {
+  for (let index = fromIndex; index < bank.questions.length; index++) {
+    if (isQuestionVisible(bank.questions[index], answers)) return bank.questions[index]
+  }
+  return null
+}
+
+export function getFirstQuestion(bank: QuestionBank): QuizQuestion | null {
+  return firstVisibleFrom(bank, 0, [])
+}
+
+// 답변에 해당하는 선택지/기준점의 특성 목록
+// 퀴즈 답변 값과 서버로 보낸 답변 문자열(formatAnswer 결과: 'a, b', '4/5 (라벨)') 모두 받음
+export function answerTraits(question: QuizQuestion | undefined, answer: QuizAnswer['answer']): string[] {
+  if (!question) return []
+  if (question.slider) {
+    const value = typeof answer === 'number' ? answer : Number.parseFloat(String(answer))
+    return Number.isNaN(value) ? [] : nearestSliderAnchor(question.slider, value).traits ?? []
+  }
+  if (typeof answer === 'number') return []
+  const values = Array.isArray(answer) ? answer : [answer, ...answer.split(',').map(part => part.trim())]
+  return (question.options ?? [])
+    .filter(option => values.includes(option.value) || values.includes(option.label))
+    .flatMap(option => option.traits)
+}
+
+// 답변이 특정 특성에 얼마나 몰려 있는지 (0 ~ 1)
+// 상위 특성들의 가중치 합 / 전체 특성 가중치 합
+export function estimateConfidence(bank: QuestionBank, answers: QuizAnswer[]): number {
+  const weights = new Map<string, number>()
+  answers.forEach(answer => {
+    const question = bank.questions.find(q => q.id === answer.questionId)
+    if (!question) return
+    answerTraits(question, answer.answer).forEach(trait => {
+      weights.set(trait, (weights.get(trait) ?? 0) + question.weight)
+    })
+  })
+
+  const sorted = [...weights.values()].sort((a, b) => b - a)
+  const total = sorted.reduce((sum, weight) => sum + weight, 0)
+  if (total === 0) return 0
+  const top = sorted.slice(0, CONFIDENCE_TOP_TRAITS).reduce((sum, weight) => sum + weight, 0)
+  return top / total
+}
+
+// 신뢰도가 충분히 높으면 남은 질문을 건너뛰고 종료
+export function shouldEndEarly(bank: QuestionBank, answers: QuizAnswer[]): boolean {
+  if (!bank.earlyExit || answers.length < bank.earlyExit.minAnswered) return false
+  return estimateConfidence(bank, answers) >= bank.earlyExit.confidence
+}
+
+// 다음 질문 결정
+// 우선순위: 선택한 선택지의 next → 질문의 next → 순서상 다음 질문 (showIf로 숨겨진 질문은 건너뜀)
+// null이면 퀴즈 종료
+export function getNextQuestion(bank: QuestionBank, currentId: number, answers: QuizAnswer[]): QuizQuestion | null {
+  const currentIndex = bank.questions.findIndex(q => q.id === currentId)
+  if (currentIndex === -1) return null
+  if (shouldEndEarly(bank, answers)) return null
+
+  const current = bank.questions[currentIndex]
+  const answer = findAnswer(answers, currentId)
+  const chosenOption = typeof answer?.answer === 'string'
+    ? current.options?.find(option => option.value === answer.answer)
+    : undefined
+
+  const jumpTo = chosenOption?.next ?? current.next
+  if (jumpTo !== undefined) {
+    const targetIndex = bank.questions.findIndex(q => q.id === jumpTo)
+    if (targetIndex !== -1) return firstVisibleFrom(bank, targetIndex, answers)
+  }
+
+  return firstVisibleFrom(bank, currentIndex + 1, answers)
+}
+
+// 현재 질문부터 끝까지 (추가 점프 없이) 남은 질문 수 추정
+export function estimateRemaining(bank: QuestionBank, currentId: number, answers: QuizAnswer[]): number {
+  const currentIndex = bank.questions.findIndex(q => q.id === currentId)
+  if (currentIndex === -1) return 0
+  return bank.questions
+    .slice(currentIndex)
+    .filter(question => question.id === currentId || isQuestionVisible(question, answers))
+    .length
+}
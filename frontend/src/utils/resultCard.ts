@@ -0,0 +1,299 @@
+import type { AnalysisResponse } from '../types'
+import { BLOSSOM, BLOSSOM_SURFACES } from '../config/theme'
+import { matchPercent } from './matchScore'
+
+// SNS 공유용 결과 카드 이미지 (캔버스 → PNG)
+// 1위 멤버 이름/매칭도/매칭 특성과 2~4위를 프리셋 비율로 그립니다
+// 문구와 멤버 이름은 번역하지 않으므로, 화면 언어의 문구와 이름을 바꾼 결과(displayResult)를 넘겨야 합니다
+
+export type ResultCardPreset = 'story' | 'square' | 'landscape'
+
+export const RESULT_CARD_PRESETS: Record<ResultCardPreset, { width: number; height: number }> = {
+  story: { width: 1080, height: 1920 },
+  square: { width: 1080, height: 1080 },
+  landscape: { width: 1200, height: 630 }
+}
+
+// 카드에 그리는 문구 (화면 언어에 맞춰 넘김)
+export interface ResultCardLabels {
+  headline: string
+  matchScore: (percent: number) => string
+  others: string
+}
+
+export interface ResultCardOptions {
+  preset: ResultCardPreset
+  mode: 'dark' | 'light'
+  labels: ResultCardLabels
+}
+
+const MAX_TRAITS = 5
+const MAX_RUNNER_UPS = 3
+
+interface Box {
+  x: number
+  y: number
+  width: number
+}
+
+function font(size: number, weight = 400): string {
+  return `${weight} ${Math.round(size)}px ${BLOSSOM.fontFamily}`
+}
+
+// 한 줄에 안 들어가면 말줄임
+function fitText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string {
+  if (ctx.measureText(text).width <= maxWidth) return text
+  let end = text.length
+  while (end > 0 && ctx.measureText(`${text.slice(0, end)}…`).width > maxWidth) end--
+  return `${text.slice(0, end)}…`
+}
+
+function roundRect(ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number, radius: number) {
+  ctx.beginPath()
+  ctx.roundRect(x, y, width, height, radius)
+}
+
+function blossomGradient(ctx: CanvasRenderingContext2D, x: number, y: number, width: number, height: number): CanvasGradient {
+  const gradient = ctx.createLinearGradient(x, y, x + width, y + height)
+  gradient.addColorStop(0, BLOSSOM.primary)
+  gradient.addColorStop(1, BLOSSOM.secondary)
+  return gradient
+}
+
+function drawBackground(ctx: CanvasRenderingContext2D, width: number, height: number, mode: ResultCardOptions['mode']) {
+  const surface = BLOSSOM_SURFACES[mode]
+  const base = ctx.createLinearGradient(0, 0, width, height)
+  base.addColorStop(0, surface.bgBase)
+  base.addColorStop(1, surface.bgGradientEnd)
+  ctx.fillStyle = base
+  ctx.fillRect(0, 0, width, height)
+
+  // 벚꽃색 빛번짐
+  const glows: [number, number, number][] = [[0.15, 0.1, 0.6], [0.9, 0.85, 0.7]]
+  glows.forEach(([gx, gy, size]) => {
+    const radius = Math.max(width, height) * size
+    const glow = ctx.createRadialGradient(width * gx, height * gy, 0, width * gx, height * gy, radius)
+    glow.addColorStop(0, 'rgba(255, 183, 197, 0.28)')
+    glow.addColorStop(1, 'rgba(255, 183, 197, 0)')
+    ctx.fillStyle = glow
+    ctx.fillRect(0, 0, width, height)
+  })
+}
+
+// 1위 멤버: 이니셜 아바타, 이름, 매칭도 바. 그린 높이를 반환
+function drawTopMember(ctx: CanvasRenderingContext2D, result: AnalysisResponse, labels: ResultCardLabels, box: Box, unit: number, textColor: string): number {
+  const top = result.recommendations[0]
+  let y = box.y
+
+  ctx.textAlign = 'left'
+  ctx.textBaseline = 'top'
+  ctx.fillStyle = BLOSSOM.primary
+  ctx.font = font(34 * unit, 600)
+  ctx.fillText('Holo-Oshi Finder', box.x, y)
+  y += 90 * unit
+
+  const avatar = 150 * unit
+  ctx.fillStyle = blossomGradient(ctx, box.x, y, avatar, avatar)
+  ctx.beginPath()
+  ctx.arc(box.x + avatar / 2, y + avatar / 2, avatar / 2, 0, Math.PI * 2)
+  ctx.fill()
+  ctx.fillStyle = '#ffffff'
+  ctx.font = font(72 * unit, 700)
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'middle'
+  ctx.fillText(top.name.charAt(0), box.x + avatar / 2, y + avatar / 2)
+  y += avatar + 48 * unit
+
+  ctx.textAlign = 'left'
+  ctx.textBaseline = 'top'
+  ctx.fillStyle = textColor
+  ctx.globalAlpha = 0.7
+  ctx.font = font(38 * unit, 500)
+  ctx.fillText(labels.headline, box.x, y)
+  ctx.globalAlpha = 1
+  y += 60 * unit
+
+  ctx.font = font(96 * unit, 800)
+  ctx.fillStyle = blossomGradient(ctx, box.x, y, box.width, 96 * unit)
+  ctx.fillText(fitText(ctx, top.name, box.width), box.x, y)
+  y += 130 * unit
+
+  // 매칭도 바
+  const percent = matchPercent(top.matchScore)
+  ctx.font = font(44 * unit, 700)
+  ctx.fillStyle = textColor
+  ctx.fillText(labels.matchScore(percent), box.x, y)
+  y += 70 * unit
+  const barHeight = 22 * unit
+  ctx.fillStyle = 'rgba(255, 183, 197, 0.18)'
+  roundRect(ctx, box.x, y, box.width, barHeight, barHeight / 2)
+  ctx.fill()
+  ctx.fillStyle = blossomGradient(ctx, box.x, y, box.width, barHeight)
+  roundRect(ctx, box.x, y, Math.max(barHeight, box.width * Math.min(percent, 100) / 100), barHeight, barHeight / 2)
+  ctx.fill()
+  y += barHeight
+
+  return y - box.y
+}
+
+// 매칭 특성 칩 (줄바꿈). 그린 높이를 반환
+function drawTraits(ctx: CanvasRenderingContext2D, traits: string[], box: Box, unit: number): number {
+  const height = 64 * unit
+  const gap = 16 * unit
+  const padding = 28 * unit
+  let x = box.x
+  let y = box.y
+
+  ctx.font = font(30 * unit, 600)
+  ctx.textBaseline = 'middle'
+  ctx.textAlign = 'left'
+  traits.slice(0, MAX_TRAITS).forEach(trait => {
+    const label = fitText(ctx, trait, box.width - padding * 2)
+    const width = ctx.measureText(label).width + padding * 2
+    if (x > box.x && x + width > box.x + box.width) {
+      x = box.x
+      y += height + gap
+    }
+    ctx.fillStyle = 'rgba(255, 183, 197, 0.16)'
+    roundRect(ctx, x, y, width, height, height / 2)
+    ctx.fill()
+    ctx.strokeStyle = 'rgba(255, 183, 197, 0.5)'
+    ctx.lineWidth = 2 * unit
+    ctx.stroke()
+    ctx.fillStyle = BLOSSOM.primary
+    ctx.fillText(label, x + padding, y + height / 2)
+    x += width + gap
+  })
+
+  return traits.length > 0 ? y + height - box.y : 0
+}
+
+// 2~4위 목록. 그린 높이를 반환
+function drawRunnerUps(ctx: CanvasRenderingContext2D, result: AnalysisResponse, labels: ResultCardLabels, box: Box, unit: number, textColor: string): number {
+  const runnerUps = result.recommendations.slice(1, 1 + MAX_RUNNER_UPS)
+  if (runnerUps.length === 0) return 0
+  const rowHeight = 84 * unit
+  let y = box.y
+
+  ctx.textBaseline = 'top'
+  ctx.textAlign = 'left'
+  ctx.fillStyle = textColor
+  ctx.globalAlpha = 0.7
+  ctx.font = font(32 * unit, 600)
+  ctx.fillText(labels.others, box.x, y)
+  ctx.globalAlpha = 1
+  y += 60 * unit
+
+  runnerUps.forEach((member, index) => {
+    ctx.fillStyle = 'rgba(255, 183, 197, 0.1)'
+    roundRect(ctx, box.x, y, box.width, rowHeight - 14 * unit, 16 * unit)
+    ctx.fill()
+
+    const middle = y + (rowHeight - 14 * unit) / 2
+    ctx.textBaseline = 'middle'
+    ctx.font = font(32 * unit, 700)
+    ctx.fillStyle = BLOSSOM.secondary
+    ctx.textAlign = 'left'
+    ctx.fillText(`${index + 2}`, box.x + 28 * unit, middle)
+
+    const percent = `${matchPercent(member.matchScore)}%`
+    ctx.font = font(32 * unit, 600)
+    const percentWidth = ctx.measureText(percent).width
+    ctx.textAlign = 'right'
+    ctx.fillStyle = BLOSSOM.primary
+    ctx.fillText(percent, box.x + box.width - 28 * unit, middle)
+
+    ctx.textAlign = 'left'
+    ctx.fillStyle = textColor
+    ctx.fillText(fitText(ctx, member.name, box.width - percentWidth - 140 * unit), box.x + 84 * unit, middle)
+    y += rowHeight
+  })
+
+  return y - box.y
+}
+
+export function renderResultCard(displayResult: AnalysisResponse, options: ResultCardOptions): HTMLCanvasElement {
+  if (displayResult.recommendations.length === 0) {
+    throw new Error('추천 멤버가 없어 카드를 만들 수 없습니다')
+  }
+  const { width, height } = RESULT_CARD_PRESETS[options.preset]
+  const canvas = document.createElement('canvas')
+  canvas.width = width
+  canvas.height = height
+  const ctx = canvas.getContext('2d')
+  if (!ctx) throw new Error('캔버스를 사용할 수 없습니다')
+
+  const textColor = BLOSSOM_SURFACES[options.mode].textBase
+  const { labels } = options
+  const traits = displayResult.recommendations[0].matchingTraits
+  drawBackground(ctx, width, height, options.mode)
+
+  if (options.preset === 'landscape') {
+    // 가로: 왼쪽 1위, 오른쪽 특성과 2~4위
+    const unit = height / 1080
+    const margin = 90 * unit
+    const column = (width - margin * 3) / 2
+    drawTopMember(ctx, displayResult, labels, { x: margin, y: margin, width: column }, unit * 1.3, textColor)
+    const right = { x: margin * 2 + column, y: margin + 90 * unit, width: column }
+    const traitsHeight = drawTraits(ctx, traits, right, unit * 1.3)
+    drawRunnerUps(ctx, displayResult, labels, { ...right, y: right.y + traitsHeight + 80 * unit }, unit * 1.3, textColor)
+  } else {
+    // 세로/정사각형: 위에서 아래로 쌓고 세로 여백을 가운데 정렬
+    // 정사각형은 세로 공간이 짧아 글자를 조금 줄임
+    const unit = (width / 1080) * (options.preset === 'square' ? 0.8 : 1)
+    const margin = 96 * unit
+    const box = { x: margin, y: 0, width: width - margin * 2 }
+    const gap = (options.preset === 'story' ? 110 : 56) * unit
+
+    // 높이를 먼저 재서 세로 가운데 정렬 (보이지 않는 캔버스에 한 번 그려봄)
+    const measure = document.createElement('canvas').getContext('2d')
+    const sections = measure
+      ? drawTopMember(measure, displayResult, labels, box, unit, textColor) + gap +
+        drawTraits(measure, traits, box, unit) + gap +
+        drawRunnerUps(measure, displayResult, labels, box, unit, textColor)
+      : 0
+    let y = Math.max(margin, (height - sections) / 2)
+    y += drawTopMember(ctx, displayResult, labels, { ...box, y }, unit, textColor) + gap
+    y += drawTraits(ctx, traits, { ...box, y }, unit) + gap
+    if (options.preset === 'story') {
+      drawRunnerUps(ctx, displayResult, labels, { ...box, y }, unit, textColor)
+    } else {
+      // 정사각형은 공간이 부족하면 2~4위를 생략
+      const remaining = height - margin - y
+      if (remaining >= 200 * unit) {
+        drawRunnerUps(ctx, displayResult, labels, { ...box, y }, unit, textColor)
+      }
+    }
+  }
+
+  // 하단 출처
+  const unit = Math.min(width, height) / 1080
+  ctx.textAlign = 'center'
+  ctx.textBaseline = 'bottom'
+  ctx.font = font(26 * unit, 500)
+  ctx.fillStyle = textColor
+  ctx.globalAlpha = 0.5
+  ctx.fillText(window.location.host || 'holo-oshi.com', width / 2, height - 40 * unit)
+  ctx.globalAlpha = 1
+
+  return canvas
+}
+
+export async function exportResultCardPng(displayResult: AnalysisResponse, options: ResultCardOptions): Promise<Blob> {
+  // 웹폰트(Pretendard)가 로드된 뒤에 그려야 폴백 폰트로 그려지지 않음
+  await document.fonts?.ready
+  const canvas = renderResultCard(displayResult, options)
+  return new Promise((resolve, reject) => {
+    canvas.toBlob(blob => (blob ? resolve(blob) : reject(new Error('이미지를 만들지 못했습니다'))), 'image/png')
+  })
+}
+
+export function downloadBlob(blob: Blob, fileName: string) {
+  const url = URL.createObjectURL(blob)
+  const link = document.createElement('a')
+  link.href = url
+  link.download = fileName
+  link.click()
+  // 다운로드가 시작된 뒤 해제
+  setTimeout(() => URL.revokeObjectURL(url), 1000)
+}
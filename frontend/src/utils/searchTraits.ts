@@ -0,0 +1,51 @@
+import type { VectorSearchResult } from '../types'
+
+// 검색 결과의 특성(personality_traits JSONB)을 태그 목록으로 펼치고
+// 질의어와 겹치는 특성을 표시
+
+export interface TraitTag {
+  label: string
+  matched: boolean
+}
+
+const MAX_TRAIT_TAGS = 8
+
+// 'chill late-night ASMR in English' → ['chill', 'late-night', 'asmr', 'english']
+export function queryTokens(query: string): string[] {
+  return query
+    .toLowerCase()
+    .split(/[\s,.;:!?/()"']+/)
+    .filter(token => token.length >= 2)
+}
+
+// { gaming: 0.9, singing: 0.4 }, { style: 'chill' }, { genres: ['ASMR'] } 모두 처리
+// 점수형 특성은 점수가 높은 순으로
+function flattenTraits(traits: Record<string, unknown>): string[] {
+  const scored: [string, number][] = []
+  const labels: string[] = []
+  Object.entries(traits).forEach(([key, value]) => {
+    if (typeof value === 'number') scored.push([key, value])
+    else if (typeof value === 'boolean') {
+      if (value) labels.push(key)
+    } else if (typeof value === 'string' && value.trim()) labels.push(value)
+    else if (Array.isArray(value)) labels.push(...value.filter((item): item is string => typeof item === 'string'))
+    else if (typeof value === 'object' && value !== null) labels.push(...Object.keys(value))
+  })
+  return [...scored.sort((a, b) => b[1] - a[1]).map(([key]) => key), ...labels]
+}
+
+function matchesQuery(label: string, tokens: string[]): boolean {
+  const normalized = label.toLowerCase()
+  return tokens.some(token => normalized.includes(token) || (normalized.length >= 2 && token.includes(normalized)))
+}
+
+// 일치하는 특성을 앞으로
+export function traitTags(result: VectorSearchResult, query: string): TraitTag[] {
+  const tokens = queryTokens(query)
+  const serverMatched = new Set(result.matchedTraits.map(trait => trait.toLowerCase()))
+  const labels = [...new Set([...result.matchedTraits, ...flattenTraits(result.traits)])]
+  return labels
+    .map(label => ({ label, matched: serverMatched.has(label.toLowerCase()) || matchesQuery(label, tokens) }))
+    .sort((a, b) => Number(b.matched) - Number(a.matched))
+    .slice(0, MAX_TRAIT_TAGS)
+}
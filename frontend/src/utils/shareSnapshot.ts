@@ -0,0 +1,120 @@
+import type { AnalysisResponse } from '../types'
+import { ContractError, parseAnalysisResponse } from '../api/contract'
+import { NORMALIZED_SCORE_SCALE } from './matchScore'
+
+// 결과를 URL에 담는 압축 스냅샷
+// - 공유에 필요한 부분(상위 추천 + 취향 프로필)만 짧은 키로 직렬화
+// - deflate-raw 압축 후 base64url (CompressionStream이 없으면 압축 없이)
+// - 형식: 's.' + 압축 데이터, 'j.' + 비압축 데이터
+
+const SNAPSHOT_VERSION = 1
+const MAX_RECOMMENDATIONS = 5
+const MAX_TRAITS = 5
+const MAX_TEXT_LENGTH = 200
+
+const COMPRESSED_PREFIX = 's.'
+const PLAIN_PREFIX = 'j.'
+
+interface Snapshot {
+  v: number
+  // 결과 생성 시각 (ms)
+  c: number
+  r: { i: string; n: string; s: number; t: string[]; e: string }[]
+  p: { t: string[]; m: string }
+}
+
+export interface SharedSnapshot {
+  result: AnalysisResponse
+  createdAt: string
+}
+
+export function isSnapshotId(shareId: string): boolean {
+  return shareId.startsWith(COMPRESSED_PREFIX) || shareId.startsWith(PLAIN_PREFIX)
+}
+
+function truncate(text: string): string {
+  return text.length > MAX_TEXT_LENGTH ? `${text.slice(0, MAX_TEXT_LENGTH - 1)}…` : text
+}
+
+function toBase64Url(bytes: Uint8Array): string {
+  let binary = ''
+  bytes.forEach(byte => {
+    binary += String.fromCharCode(byte)
+  })
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '')
+}
+
+function fromBase64Url(text: string): Uint8Array {
+  const binary = atob(text.replace(/-/g, '+').replace(/_/g, '/'))
+  return Uint8Array.from(binary, char => char.charCodeAt(0))
+}
+
+async function transform(bytes: Uint8Array, stream: CompressionStream | DecompressionStream): Promise<Uint8Array> {
+  const output = new Blob([bytes]).stream().pipeThrough(stream)
+  return new Uint8Array(await new Response(output).arrayBuffer())
+}
+
+function toSnapshot(result: AnalysisResponse, createdAt: string): Snapshot {
+  return {
+    v: SNAPSHOT_VERSION,
+    c: Date.parse(createdAt) || Date.now(),
+    r: result.recommendations.slice(0, MAX_RECOMMENDATIONS).map(item => ({
+      i: item.memberId,
+      n: item.name,
+      s: item.matchScore,
+      t: item.matchingTraits.slice(0, MAX_TRAITS),
+      e: truncate(item.reasoning)
+    })),
+    p: {
+      t: result.userProfile.preferredTraits.slice(0, MAX_TRAITS),
+      m: truncate(result.userProfile.personalityMatch)
+    }
+  }
+}
+
+// 스냅샷 → AnalysisResponse (응답 계약 검증을 그대로 거침)
+function fromSnapshot(raw: unknown): SharedSnapshot {
+  const snapshot = raw as Snapshot
+  if (snapshot?.v !== SNAPSHOT_VERSION || !Array.isArray(snapshot.r)) {
+    throw new ContractError('공유 스냅샷', [`지원하지 않는 버전입니다 (${String(snapshot?.v)})`])
+  }
+
+  const result = parseAnalysisResponse({
+    recommendations: snapshot.r.map(item => ({
+      memberId: item.i,
+      name: item.n,
+      matchScore: item.s,
+      matchingTraits: item.t,
+      reasoning: item.e
+    })),
+    userProfile: { preferredTraits: snapshot.p?.t, personalityMatch: snapshot.p?.m }
+  }, NORMALIZED_SCORE_SCALE)
+  return { result, createdAt: new Date(snapshot.c || Date.now()).toISOString() }
+}
+
+export async function encodeSnapshot(result: AnalysisResponse, createdAt: string): Promise<string> {
+  const bytes = new TextEncoder().encode(JSON.stringify(toSnapshot(result, createdAt)))
+  if (typeof CompressionStream === 'function') {
+    return COMPRESSED_PREFIX + toBase64Url(await transform(bytes, new CompressionStream('deflate-raw')))
+  }
+  return PLAIN_PREFIX + toBase64Url(bytes)
+}
+
+export async function decodeSnapshot(shareId: string): Promise<SharedSnapshot> {
+  const compressed = shareId.startsWith(COMPRESSED_PREFIX)
+  let bytes: Uint8Array
+  try {
+    bytes = fromBase64Url(shareId.slice(2))
+    if (compressed) bytes = await transform(bytes, new DecompressionStream('deflate-raw'))
+  } catch (e) {
+    throw new ContractError('공유 스냅샷', [`링크가 손상되었습니다 (${e instanceof Error ? e.message : String(e)})`])
+  }
+
+  let raw: unknown
+  try {
+    raw = JSON.parse(new TextDecoder().decode(bytes))
+  } catch {
+    throw new ContractError('공유 스냅샷', ['링크가 손상되었습니다'])
+  }
+  return fromSnapshot(raw)
+}
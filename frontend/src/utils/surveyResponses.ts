@@ -0,0 +1,54 @@
+import type { QuizAnswer, QuizQuestion, SliderAnchor, SliderConfig, SurveyResponse } from '../types'
+
+const DEFAULT_IMPORTANCE = 5
+
+// 슬라이더 값에 가장 가까운 기준점
+export function nearestSliderAnchor(slider: SliderConfig, value: number): SliderAnchor {
+  return slider.anchors.reduce((closest, anchor) =>
+    Math.abs(anchor.value - value) < Math.abs(closest.value - value) ? anchor : closest
+  )
+}
+
+// 슬라이더가 중앙에서 얼마나 치우쳤는지 (0: 중립 ~ 1: 양 끝)
+function sliderStrength(slider: SliderConfig, value: number): number {
+  const half = (slider.max - slider.min) / 2
+  const middle = slider.min + half
+  return half > 0 ? Math.min(1, Math.abs(value - middle) / half) : 0
+}
+
+// 답변을 백엔드가 읽을 수 있는 문자열로 변환
+export function formatAnswer(question: QuizQuestion | undefined, answer: QuizAnswer['answer']): string {
+  if (Array.isArray(answer)) return answer.join(', ')
+  if (typeof answer === 'number' && question?.slider) {
+    const anchor = nearestSliderAnchor(question.slider, answer)
+    return `${answer}/${question.slider.max} (${anchor.label})`
+  }
+  return answer.toString().trim()
+}
+
+// 답변의 중요도 (질문 weight 기반)
+// 슬라이더는 중립에 가까울수록 선호 신호가 약하므로 weight의 절반까지 낮춥니다
+export function answerImportance(question: QuizQuestion | undefined, answer: QuizAnswer['answer']): number {
+  const weight = question?.weight || DEFAULT_IMPORTANCE
+  if (question?.type === 'slider' && question.slider && typeof answer === 'number') {
+    return Math.max(1, Math.round(weight * (0.5 + 0.5 * sliderStrength(question.slider, answer))))
+  }
+  return weight
+}
+
+// 퀴즈 답변을 /api/analyze 요청의 surveyResponses로 변환
+// 비어 있는 선택 답변(건너뛴 자유 입력 등)은 제외합니다
+export function buildSurveyResponses(questions: QuizQuestion[], answers: QuizAnswer[]): SurveyResponse[] {
+  return answers
+    .map(answer => {
+      const question = questions.find(q => q.id === answer.questionId)
+      return {
+        questionId: answer.questionId.toString(),
+        question: question?.question || '',
+        answer: formatAnswer(question, answer.answer),
+        category: question?.category,
+        importance: answerImportance(question, answer.answer)
+      }
+    })
+    .filter(response => response.answer !== '')
+}
@@ -0,0 +1,47 @@
+import { describe, expect, it } from 'vitest'
+import type { MemberRecommendation } from '../types'
+import { explainMatch } from './matchExplanation'
+import { traitMatches } from './traits'
+
+describe('traitMatches', () => {
+  it('표기만 다른 같은 특성과 문장 속 낱말을 찾는다', () => {
+    expect(traitMatches('late-night', 'Late Night')).toBe(true)
+    expect(traitMatches('late-night', '주로 late night 방송')).toBe(true)
+    expect(traitMatches('gaming', 'Loves gaming with friends')).toBe(true)
+    expect(traitMatches('calm', '차분한 목소리의 잡담')).toBe(true)
+  })
+
+  it('낱말의 일부만 겹치면 같은 특성으로 보지 않는다', () => {
+    expect(traitMatches('game', 'gamer')).toBe(false)
+    expect(traitMatches('gamer', 'game')).toBe(false)
+    expect(traitMatches('game', 'A pro gamer at heart')).toBe(false)
+  })
+
+  it('한 글자 한국어는 낱말 전체가 같을 때만 맞춘다', () => {
+    expect(traitMatches('cool', '스쿨 라이프 이야기')).toBe(false)
+    expect(traitMatches('쿨', '스쿨')).toBe(false)
+    expect(traitMatches('cool', '쿨한 분위기')).toBe(true)
+  })
+})
+
+describe('explainMatch', () => {
+  const recommendation: MemberRecommendation = {
+    memberId: 'm1',
+    name: 'Member',
+    matchScore: 0.8,
+    matchingTraits: ['쿨', '아이돌'],
+    reasoning: 'A gamer who streams late',
+    strengths: [],
+    considerations: [],
+    contentRecommendations: []
+  }
+
+  it('자유 입력 답변은 멤버 특성이 낱말로 나올 때만 기여로 본다', () => {
+    const explanation = explainMatch(recommendation, [
+      { questionId: '99', question: '자유 입력', answer: '스쿨 아이돌이 좋아요' }
+    ], null)
+
+    expect(explanation.answers[0].matchedTraits).toEqual(['아이돌'])
+    expect(explanation.otherTraits).toEqual(['쿨'])
+  })
+})
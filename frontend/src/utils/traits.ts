@@ -0,0 +1,81 @@
+// 특성 이름 비교 도우미 (매칭 근거, 오프라인 예비 매칭에서 함께 사용)
+
+// 'late-night', 'Late Night', 'latenight' 을 같은 특성으로
+function normalizeTrait(trait: string): string {
+  return trait.toLowerCase().replace(/[\s_-]+/g, '')
+}
+
+// 질문 은행의 특성 → 멤버 태그(한국어)에서 같은 뜻으로 보는 표현
+const TRAIT_ALIASES: Record<string, string[]> = {
+  calm: ['차분', '힐링', '잔잔'],
+  wholesome: ['따뜻', '순수', '착한'],
+  skilled: ['실력', '프로급', '고수'],
+  funny: ['웃긴', '유머', '개그', '예능'],
+  zatsudan: ['잡담', '자츠단', '토크'],
+  idol: ['아이돌'],
+  energetic: ['에너지', '텐션', '활발'],
+  variety: ['버라이어티', '다양'],
+  singing: ['노래', '가창', '우타와쿠'],
+  collab: ['콜라보', '합방'],
+  chaotic: ['카오스', '혼돈'],
+  mature: ['어른', '성숙'],
+  longstream: ['장시간', '내구'],
+  gapmoe: ['갭모에'],
+  emotional: ['감성', '감동'],
+  cute: ['귀여', '귀엽'],
+  cool: ['쿨', '쿨한', '멋진', '멋있'],
+  clips: ['클립'],
+  latenight: ['새벽', '심야'],
+  intellectual: ['지적', '똑똑'],
+  dance: ['댄스', '춤'],
+  bilingual: ['이중언어', '다국어'],
+  art: ['그림', '일러스트', '아트'],
+  solo: ['솔로'],
+  shortstream: ['짧은 방송'],
+  pon: ['폰코츠', '허당'],
+  japanese: ['일본어'],
+  horror: ['호러', '공포'],
+  gaming: ['게임'],
+  daytime: ['낮 방송', '아침'],
+  cooking: ['요리'],
+  tsundere: ['츤데레'],
+  teasing: ['놀리', '장난'],
+  rpg: ['rpg', '스토리'],
+  minecraft: ['마인크래프트', '마크'],
+  indonesian: ['인도네시아어'],
+  english: ['영어']
+}
+
+// 문장/특성 → 소문자 낱말 목록 ('Late-Night 방송을' → ['late', 'night', '방송을'])
+function tokenize(text: string): string[] {
+  return text.toLowerCase().split(/[^\p{L}\p{N}]+/u).filter(Boolean)
+}
+
+const HANGUL = /^\p{Script=Hangul}+$/u
+
+// 낱말이 특성/별칭 낱말과 같은지
+// 한국어는 조사·어미가 뒤에 붙으므로 두 글자 이상인 어간만 앞부분 일치를 인정 ('차분' → '차분한')
+function tokenMatches(token: string, word: string): boolean {
+  if (token === word) return true
+  return word.length >= 2 && HANGUL.test(word) && token.startsWith(word)
+}
+
+// 특성/별칭이 낱말 목록에 연속으로 나오거나 붙여 쓴 한 낱말로 나오는지
+function containsPhrase(tokens: string[], phrase: string): boolean {
+  const words = tokenize(phrase)
+  if (words.length === 0) return false
+  const joined = words.join('')
+  return tokens.some((token, index) =>
+    tokenMatches(token, joined) ||
+    words.every((word, offset) => index + offset < tokens.length && tokenMatches(tokens[index + offset], word))
+  )
+}
+
+// trait가 other와 같은 뜻인지 (특성 id가 같거나, other 문장에 특성/별칭이 낱말 단위로 나옴)
+export function traitMatches(trait: string, other: string): boolean {
+  const normalized = normalizeTrait(trait)
+  if (!normalized) return false
+  if (normalized === normalizeTrait(other)) return true
+  const tokens = tokenize(other)
+  return [trait, ...(TRAIT_ALIASES[normalized] ?? [])].some(phrase => containsPhrase(tokens, phrase))
+}
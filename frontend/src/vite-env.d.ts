@@ -1 +1,11 @@
 /// <reference types="vite/client" />
+
+interface ImportMetaEnv {
+  readonly VITE_API_PROFILE?: string
+  readonly VITE_API_BASE_URL?: string
+  readonly VITE_QUESTION_BANK?: string
+}
+
+interface ImportMeta {
+  readonly env: ImportMetaEnv
+}